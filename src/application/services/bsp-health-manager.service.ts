@@ -0,0 +1,224 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import events from "node:events";
+import * as path from "node:path";
+import type { BspConfig, BspHealthState } from "../../domain/entities/bazel/types.js";
+import { getBspConfigTargets } from "../../infrastructure/bazel/bsp-config.js";
+import { applyBspLogEntry, createBspHealthState, parseBspLogLine } from "../../infrastructure/bazel/bsp-log-parser.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import { exec } from "../../shared/utils/exec.js";
+import { isFileExists, readJsonFile } from "../../shared/utils/files.js";
+
+type IEventMap = {
+  updated: [];
+};
+type IEventKey = keyof IEventMap;
+
+export interface BspServerStatus {
+  running: boolean;
+  pid?: number;
+}
+
+export interface BspConfigStatus {
+  path: string;
+  exists: boolean;
+  targets: string[]; // From the --target flags of its argv
+}
+
+const PROCESS_NAME = "sourcekit-bazel-bsp";
+const PROCESS_POLL_INTERVAL_MS = 5000;
+// Log history read when monitoring starts, long enough to include the last index build
+const LOG_HISTORY = "15m";
+const MAX_LOG_LINES = 5000;
+// A busy server logs many lines a second, the view is refreshed at most this often
+const UPDATE_DELAY_MS = 500;
+
+/**
+ * BSP Health Manager
+ *
+ * Live state of sourcekit-bazel-bsp while the BSP HEALTH view is visible: whether the process runs,
+ * the config in .bsp/skbsp.json, and what its log tells about indexing, builds and errors. The log
+ * is read with the macOS `log` command, recent history first and then as a stream.
+ */
+export class BspHealthManager {
+  private emitter = new events.EventEmitter<IEventMap>();
+  private state: BspHealthState = createBspHealthState();
+  private server: BspServerStatus = { running: false };
+  private config: BspConfigStatus | undefined;
+  private logLines: string[] = [];
+  private logProcess: ChildProcess | undefined;
+  private partialLine = "";
+  private pollTimer: NodeJS.Timeout | undefined;
+  private updateTimer: NodeJS.Timeout | undefined;
+
+  on<K extends IEventKey>(event: K, listener: (...args: IEventMap[K]) => void): void {
+    this.emitter.on(event, listener as any);
+  }
+
+  getState(): BspHealthState {
+    return this.state;
+  }
+
+  getServerStatus(): BspServerStatus {
+    return this.server;
+  }
+
+  getConfigStatus(): BspConfigStatus | undefined {
+    return this.config;
+  }
+
+  getLogLines(): string[] {
+    return this.logLines;
+  }
+
+  /**
+   * Reason the log can't be read on this machine
+   */
+  getLogUnavailableReason(): string | undefined {
+    return process.platform === "darwin" ? undefined : "BSP logs are read with the macOS log command";
+  }
+
+  /**
+   * Start polling the process and streaming the log, does nothing when already monitoring
+   */
+  async start(): Promise<void> {
+    if (this.pollTimer) {
+      return;
+    }
+    this.pollTimer = setInterval(() => void this.checkServer(), PROCESS_POLL_INTERVAL_MS);
+    await this.refresh();
+    // The view may have been hidden again in the meantime
+    if (this.pollTimer) {
+      this.startLogStream();
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.pollTimer);
+    clearTimeout(this.updateTimer);
+    this.pollTimer = undefined;
+    this.updateTimer = undefined;
+    this.logProcess?.kill();
+    this.logProcess = undefined;
+  }
+
+  /**
+   * Check the process and config again and reread the recent log history
+   */
+  async refresh(): Promise<void> {
+    await Promise.all([this.checkServer(), this.readConfig(), this.readLogHistory()]);
+    this.emitter.emit("updated");
+  }
+
+  private async checkServer(): Promise<void> {
+    let server: BspServerStatus = { running: false };
+    try {
+      const output = await exec({ command: "pgrep", args: ["-x", PROCESS_NAME] });
+      const pid = Number.parseInt(output.trim().split("\n")[0], 10);
+      server = { running: true, pid: Number.isNaN(pid) ? undefined : pid };
+    } catch {
+      // pgrep exits with 1 when no process matches
+    }
+
+    if (server.running !== this.server.running || server.pid !== this.server.pid) {
+      this.server = server;
+      this.scheduleUpdate();
+    }
+  }
+
+  private async readConfig(): Promise<void> {
+    const configPath = path.join(getWorkspacePath(), ".bsp", "skbsp.json");
+    try {
+      if (!(await isFileExists(configPath))) {
+        this.config = { path: configPath, exists: false, targets: [] };
+        return;
+      }
+      const config = await readJsonFile<Partial<BspConfig>>(configPath);
+      const targets = Array.isArray(config.argv) ? getBspConfigTargets(config.argv) : [];
+      this.config = { path: configPath, exists: true, targets: targets };
+    } catch (error) {
+      commonLogger.warn("Failed to read the BSP config", { configPath, error });
+      this.config = { path: configPath, exists: true, targets: [] };
+    }
+  }
+
+  private async readLogHistory(): Promise<void> {
+    if (this.getLogUnavailableReason()) {
+      return;
+    }
+    try {
+      const output = await exec({
+        command: "log",
+        args: [
+          "show",
+          "--predicate",
+          `process == "${PROCESS_NAME}"`,
+          "--last",
+          LOG_HISTORY,
+          "--style",
+          "compact",
+          "--info",
+          "--debug",
+        ],
+      });
+      this.state = createBspHealthState();
+      this.logLines = [];
+      for (const line of output.split(/\r?\n/)) {
+        this.appendLogLine(line);
+      }
+    } catch (error) {
+      commonLogger.warn("Failed to read the BSP log history", { error });
+    }
+  }
+
+  private startLogStream(): void {
+    if (this.logProcess || this.getLogUnavailableReason()) {
+      return;
+    }
+
+    const logProcess = spawn("log", ["stream", "--process", PROCESS_NAME, "--style", "compact", "--level", "debug"]);
+    logProcess.stdout.on("data", (data: Buffer) => {
+      const lines = (this.partialLine + data.toString()).split("\n");
+      this.partialLine = lines.pop() ?? "";
+      for (const line of lines) {
+        this.appendLogLine(line);
+      }
+      this.scheduleUpdate();
+    });
+    logProcess.on("error", (error) => {
+      commonLogger.warn("Failed to stream the BSP log", { error });
+    });
+    logProcess.on("close", () => {
+      if (this.logProcess === logProcess) {
+        this.logProcess = undefined;
+      }
+    });
+    this.logProcess = logProcess;
+  }
+
+  private appendLogLine(line: string): void {
+    const entry = parseBspLogLine(line);
+    if (!entry) {
+      return;
+    }
+    applyBspLogEntry(this.state, entry);
+    this.logLines.push(line);
+    if (this.logLines.length > MAX_LOG_LINES) {
+      this.logLines.splice(0, this.logLines.length - MAX_LOG_LINES);
+    }
+  }
+
+  private scheduleUpdate(): void {
+    if (this.updateTimer) {
+      return;
+    }
+    this.updateTimer = setTimeout(() => {
+      this.updateTimer = undefined;
+      this.emitter.emit("updated");
+    }, UPDATE_DELAY_MS);
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+}
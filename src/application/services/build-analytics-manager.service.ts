@@ -0,0 +1,314 @@
+import events from "node:events";
+import type { BazelBuildRecord, BuildModeString } from "../../domain/entities/bazel/types.js";
+import type { ExtensionContext } from "../../infrastructure/vscode/extension-context.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getActiveBazelWorkspace } from "../../shared/utils/bazel-workspaces.js";
+import { OperationCancelledError } from "../../shared/utils/progress-manager.js";
+import { isTaskCancelledError } from "../../shared/utils/tasks.js";
+import { Timer } from "../../shared/utils/timer.js";
+
+type IEventMap = {
+  updated: [];
+};
+type IEventKey = keyof IEventMap;
+
+const MAX_RECORDS = 1000;
+const DEFAULT_TOP_COUNT = 10;
+
+export type BuildRecordDetails = Pick<BazelBuildRecord, "command" | "label" | "buildMode" | "destination">;
+
+export interface BuildTrendPoint {
+  date: string; // Local day, YYYY-MM-DD
+  runs: number;
+  failures: number;
+  averageMillis: number; // Of successful runs, 0 when all failed
+}
+
+export interface BuildTargetStats {
+  command: BazelBuildRecord["command"];
+  label: string;
+  runs: number;
+  failures: number;
+  failureRate: number; // 0..1
+  averageMillis: number; // Of successful runs, 0 when all failed
+  maxMillis: number;
+  averageCriticalPathMillis?: number;
+}
+
+export interface BuildModeStats {
+  mode: BuildModeString | "unknown";
+  runs: number;
+  failures: number;
+  averageMillis: number;
+  medianMillis: number;
+}
+
+export interface BuildAnalyticsReport {
+  runs: number;
+  failures: number;
+  failureRate: number;
+  averageMillis: number;
+  trend: BuildTrendPoint[];
+  slowestTargets: BuildTargetStats[];
+  failingTargets: BuildTargetStats[];
+  modes: BuildModeStats[];
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+// Failed builds stop early, their durations would make targets look faster than they are
+const successfulDurations = (records: BazelBuildRecord[]) =>
+  records.filter((record) => record.success).map((record) => record.durationMillis);
+
+function toLocalDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const groupKey = key(item);
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), item]);
+  }
+  return groups;
+}
+
+/**
+ * Runs, failures and average duration per day, oldest day first
+ */
+export function getBuildTrend(records: BazelBuildRecord[]): BuildTrendPoint[] {
+  return [...groupBy(records, (record) => toLocalDate(record.timestamp))]
+    .map(([date, dayRecords]) => ({
+      date,
+      runs: dayRecords.length,
+      failures: dayRecords.filter((record) => !record.success).length,
+      averageMillis: average(successfulDurations(dayRecords)),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Statistics per command and target, e.g. `build //App:App` and `test //App:Tests` are separate entries
+ */
+export function getTargetStats(records: BazelBuildRecord[]): BuildTargetStats[] {
+  return [...groupBy(records, (record) => `${record.command} ${record.label}`).values()].map((targetRecords) => {
+    const durations = successfulDurations(targetRecords);
+    const criticalPaths = targetRecords
+      .filter((record) => record.success && record.criticalPathMillis !== undefined)
+      .map((record) => record.criticalPathMillis as number);
+    const failures = targetRecords.filter((record) => !record.success).length;
+
+    return {
+      command: targetRecords[0].command,
+      label: targetRecords[0].label,
+      runs: targetRecords.length,
+      failures,
+      failureRate: failures / targetRecords.length,
+      averageMillis: average(durations),
+      maxMillis: durations.length > 0 ? Math.max(...durations) : 0,
+      averageCriticalPathMillis: criticalPaths.length > 0 ? average(criticalPaths) : undefined,
+    };
+  });
+}
+
+/**
+ * Targets with the highest average successful duration, slowest first
+ */
+export function getSlowestTargets(records: BazelBuildRecord[], count = DEFAULT_TOP_COUNT): BuildTargetStats[] {
+  return getTargetStats(records)
+    .filter((stats) => stats.averageMillis > 0)
+    .sort((a, b) => b.averageMillis - a.averageMillis)
+    .slice(0, count);
+}
+
+/**
+ * Targets that failed at least once, highest failure rate first (more runs first on ties)
+ */
+export function getFailingTargets(records: BazelBuildRecord[], count = DEFAULT_TOP_COUNT): BuildTargetStats[] {
+  return getTargetStats(records)
+    .filter((stats) => stats.failures > 0)
+    .sort((a, b) => b.failureRate - a.failureRate || b.runs - a.runs)
+    .slice(0, count);
+}
+
+/**
+ * Compare build modes by duration, only build, run and debug: tests always build in the default mode
+ */
+export function compareBuildModes(records: BazelBuildRecord[]): BuildModeStats[] {
+  const buildRecords = records.filter((record) => record.command !== "test");
+  return [...groupBy(buildRecords, (record) => record.buildMode ?? "unknown")]
+    .map(([mode, modeRecords]) => {
+      const durations = successfulDurations(modeRecords);
+      return {
+        mode: mode as BuildModeStats["mode"],
+        runs: modeRecords.length,
+        failures: modeRecords.filter((record) => !record.success).length,
+        averageMillis: average(durations),
+        medianMillis: median(durations),
+      };
+    })
+    .sort((a, b) => a.mode.localeCompare(b.mode));
+}
+
+export function createBuildAnalyticsReport(records: BazelBuildRecord[]): BuildAnalyticsReport {
+  const failures = records.filter((record) => !record.success).length;
+  return {
+    runs: records.length,
+    failures,
+    failureRate: records.length > 0 ? failures / records.length : 0,
+    averageMillis: average(successfulDurations(records)),
+    trend: getBuildTrend(records),
+    slowestTargets: getSlowestTargets(records),
+    failingTargets: getFailingTargets(records),
+    modes: compareBuildModes(records),
+  };
+}
+
+const CSV_COLUMNS: (keyof BazelBuildRecord)[] = [
+  "timestamp",
+  "command",
+  "label",
+  "buildMode",
+  "destination",
+  "durationMillis",
+  "success",
+  "criticalPathMillis",
+];
+
+function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with one row per record, timestamps as ISO dates so spreadsheets can parse them
+ */
+export function buildRecordsToCsv(records: BazelBuildRecord[]): string {
+  const rows = records.map((record) =>
+    CSV_COLUMNS.map((column) =>
+      escapeCsvValue(column === "timestamp" ? new Date(record.timestamp).toISOString() : record[column]),
+    ).join(","),
+  );
+  return `${[CSV_COLUMNS.join(","), ...rows].join("\n")}\n`;
+}
+
+export function buildRecordsToJson(records: BazelBuildRecord[]): string {
+  return `${JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      summary: createBuildAnalyticsReport(records),
+      records,
+    },
+    null,
+    2,
+  )}\n`;
+}
+
+/**
+ * Build Analytics Manager
+ *
+ * Records the duration and outcome of every build, test, run and debug invocation per workspace,
+ * for the build analytics dashboard and exports attached to performance tickets.
+ */
+export class BuildAnalyticsManager {
+  private emitter = new events.EventEmitter<IEventMap>();
+  public _context: ExtensionContext | undefined = undefined;
+
+  on<K extends IEventKey>(event: K, listener: (...args: IEventMap[K]) => void): void {
+    this.emitter.on(event, listener as any);
+  }
+
+  initializeWithContext(context: ExtensionContext): void {
+    this._context = context;
+  }
+
+  get context(): ExtensionContext {
+    if (!this._context) {
+      throw new Error("BuildAnalyticsManager context is not initialized");
+    }
+    return this._context;
+  }
+
+  /**
+   * All records, oldest first
+   */
+  getRecords(): BazelBuildRecord[] {
+    return this.context.getWorkspaceState("bazel.buildAnalytics") ?? [];
+  }
+
+  getReport(): BuildAnalyticsReport {
+    return createBuildAnalyticsReport(this.getRecords());
+  }
+
+  /**
+   * Add a record to the analytics of a Bazel workspace, the active one unless given
+   */
+  addRecord(record: BazelBuildRecord, workspaceRoot?: string): void {
+    const records = [...(this.context.getWorkspaceState("bazel.buildAnalytics", workspaceRoot) ?? []), record].slice(
+      -MAX_RECORDS,
+    );
+    this.context.updateWorkspaceState("bazel.buildAnalytics", records, workspaceRoot);
+    this.emitter.emit("updated");
+  }
+
+  /**
+   * Wrap a task callback so its duration and outcome are recorded
+   * The critical path comes from the build summary the callback reported, if any. Cancelled
+   * invocations are left out, their duration says nothing about the build
+   */
+  recorded<A extends unknown[]>(
+    details: BuildRecordDetails,
+    callback: (...args: A) => Promise<void>,
+  ): (...args: A) => Promise<void> {
+    return async (...args: A) => {
+      const timer = new Timer();
+      const timestamp = Date.now();
+      const previousSummary = this.context.lastBuildSummary;
+      // Recorded for the workspace the invocation started in, even if another one is activated meanwhile
+      const workspaceRoot = getActiveBazelWorkspace();
+
+      const record = (success: boolean) => {
+        const summary = this.context.lastBuildSummary;
+        this.addRecord(
+          {
+            ...details,
+            timestamp,
+            durationMillis: timer.elapsed,
+            success,
+            criticalPathMillis: summary !== previousSummary ? summary?.metrics?.criticalPathMillis : undefined,
+          },
+          workspaceRoot,
+        );
+      };
+
+      try {
+        await callback(...args);
+      } catch (error) {
+        if (error instanceof OperationCancelledError || isTaskCancelledError(error)) {
+          commonLogger.debug("Cancelled invocation is not recorded in build analytics", { ...details });
+        } else {
+          record(false);
+        }
+        throw error;
+      }
+      record(true);
+    };
+  }
+
+  clear(): void {
+    this.context.updateWorkspaceState("bazel.buildAnalytics", undefined);
+    this.emitter.emit("updated");
+  }
+}
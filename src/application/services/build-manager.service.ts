@@ -1,12 +1,25 @@
 import events from "node:events";
+import * as path from "node:path";
+import type { BazelQueryResult } from "../../domain/entities/bazel/types.js";
+import { BazelParser } from "../../infrastructure/bazel/bazel-parser.js";
 import type { ExtensionContext } from "../../infrastructure/vscode/extension-context.js";
 import type { BazelTreeItem } from "../../presentation/tree-providers/export.provider.js";
+import { ExtensionError } from "../../shared/errors/errors.js";
 import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import {
+  findBazelWorkspaceRoot,
+  getActiveBazelWorkspace,
+  getBazelWorkspaceRoots,
+  setActiveBazelWorkspace,
+  setBazelWorkspaceRoots,
+} from "../../shared/utils/bazel-workspaces.js";
 
 type IEventMap = {
   updated: [];
   currentWorkspacePathUpdated: [workspacePath: string | undefined];
   selectedBazelTargetUpdated: [target: SelectedBazelTargetData | undefined];
+  activeWorkspaceUpdated: [workspaceRoot: string];
 };
 
 // Serializable data for selected Bazel target (no circular references)
@@ -18,9 +31,17 @@ export interface SelectedBazelTargetData {
   packageName: string;
   packagePath: string;
   workspacePath: string;
+  workspaceRoot?: string; // Bazel workspace of the target, unset in selections saved by older versions
 }
 type IEventKey = keyof IEventMap;
 
+// Anything that knows the discovered targets, i.e. the BAZEL TARGETS tree
+interface BazelTargetsSource {
+  getQueryResult(): BazelQueryResult | null;
+}
+
+const TARGET_TYPES = { runnable: "binary", test: "test", buildable: "library" } as const;
+
 export class BuildManager {
   private emitter = new events.EventEmitter<IEventMap>();
   public _context: ExtensionContext | undefined = undefined;
@@ -29,9 +50,19 @@ export class BuildManager {
     this.emitter.on(event, listener as any);
   }
 
+  off<K extends IEventKey>(event: K, listener: (...args: IEventMap[K]) => void): void {
+    this.emitter.off(event, listener as any);
+  }
+
   async initializeWithContext(context: ExtensionContext): Promise<void> {
     this._context = context;
 
+    // Restore the active Bazel workspace first, the saved selections are stored per workspace
+    const activeWorkspace = context.getWorkspaceState("bazel.activeWorkspace");
+    if (typeof activeWorkspace === "string") {
+      setActiveBazelWorkspace(activeWorkspace);
+    }
+
     // Restore selected Bazel target from workspace state
     const savedTargetData = context.getWorkspaceState("build.selectedBazelTarget") as
       | SelectedBazelTargetData
@@ -64,11 +95,72 @@ export class BuildManager {
     this.emitter.emit("currentWorkspacePathUpdated", workspacePath);
   }
 
-  // Bazel target selection
-  private selectedBazelTarget: BazelTreeItem | undefined;
+  // Bazel workspaces, a multi-root window has one selection per workspace
+
+  /**
+   * Update the detected Bazel workspaces, the active one falls back to the first when it's gone
+   */
+  setWorkspaceRoots(roots: string[]) {
+    setBazelWorkspaceRoots(roots);
+
+    const activeWorkspace = getActiveBazelWorkspace();
+    if (roots.length > 0 && (!activeWorkspace || !roots.includes(activeWorkspace))) {
+      this.setActiveWorkspace(roots[0]);
+    }
+  }
+
+  getWorkspaceRoots(): string[] {
+    return getBazelWorkspaceRoots();
+  }
+
+  /**
+   * Switch the Bazel workspace commands run in, its selected target, destination and build mode become current
+   */
+  setActiveWorkspace(workspaceRoot: string) {
+    if (!this.switchActiveWorkspace(workspaceRoot)) {
+      return;
+    }
+    this.emitter.emit("activeWorkspaceUpdated", workspaceRoot);
+    this.emitter.emit("selectedBazelTargetUpdated", this.getSelectedBazelTargetData());
+  }
+
+  /**
+   * Make the workspace of a target active, for commands that get the target explicitly (e.g. tree context menu)
+   */
+  activateWorkspaceOf(target: BazelTreeItem) {
+    const workspaceRoot = this.getTargetWorkspaceRoot(target);
+    if (workspaceRoot) {
+      this.setActiveWorkspace(workspaceRoot);
+    }
+  }
+
+  private switchActiveWorkspace(workspaceRoot: string): boolean {
+    if (getActiveBazelWorkspace() === workspaceRoot) {
+      return false;
+    }
+    setActiveBazelWorkspace(workspaceRoot);
+    this.context.updateWorkspaceState("bazel.activeWorkspace", workspaceRoot);
+    commonLogger.log("Switched active Bazel workspace", { workspaceRoot });
+    return true;
+  }
+
+  private getTargetWorkspaceRoot(target: BazelTreeItem): string | undefined {
+    return target.workspaceRoot ?? findBazelWorkspaceRoot(target.package.path);
+  }
+
+  // Bazel target selection, keyed by the Bazel workspace ("" until workspaces are detected)
+  private selectedBazelTargets = new Map<string, BazelTreeItem>();
 
   setSelectedBazelTarget(target: BazelTreeItem | undefined) {
-    this.selectedBazelTarget = target;
+    const workspaceRoot = target && this.getTargetWorkspaceRoot(target);
+    const workspaceChanged = workspaceRoot !== undefined && this.switchActiveWorkspace(workspaceRoot);
+
+    const key = getActiveBazelWorkspace() ?? "";
+    if (target) {
+      this.selectedBazelTargets.set(key, target);
+    } else {
+      this.selectedBazelTargets.delete(key);
+    }
 
     // Serialize target data for persistence
     let serializedData: SelectedBazelTargetData | undefined;
@@ -81,20 +173,27 @@ export class BuildManager {
         packageName: target.package.name,
         packagePath: target.package.path,
         workspacePath: target.workspacePath,
+        workspaceRoot: target.workspaceRoot,
       };
     }
 
     this.context.updateWorkspaceState("build.selectedBazelTarget", serializedData);
+    if (workspaceChanged) {
+      this.emitter.emit("activeWorkspaceUpdated", workspaceRoot);
+    }
     this.emitter.emit("selectedBazelTargetUpdated", serializedData);
   }
 
   getSelectedBazelTarget(): BazelTreeItem | undefined {
-    return this.selectedBazelTarget;
+    return this.selectedBazelTargets.get(getActiveBazelWorkspace() ?? "");
   }
 
-  getSelectedBazelTargetData(): SelectedBazelTargetData | undefined {
+  /**
+   * Selected target of the active Bazel workspace, or of the given one
+   */
+  getSelectedBazelTargetData(workspaceRoot?: string): SelectedBazelTargetData | undefined {
     // First try to get from in-memory target
-    const target = this.selectedBazelTarget;
+    const target = this.selectedBazelTargets.get(workspaceRoot ?? getActiveBazelWorkspace() ?? "");
     if (target) {
       return {
         targetName: target.target.name,
@@ -104,10 +203,69 @@ export class BuildManager {
         packageName: target.package.name,
         packagePath: target.package.path,
         workspacePath: target.workspacePath,
+        workspaceRoot: target.workspaceRoot,
       };
     }
 
     // Fallback to cached serialized data if in-memory target is not available
-    return this.context.getWorkspaceState("build.selectedBazelTarget") as SelectedBazelTargetData | undefined;
+    return this.context.getWorkspaceState("build.selectedBazelTarget", workspaceRoot) as
+      | SelectedBazelTargetData
+      | undefined;
+  }
+
+  // Target lookup by label
+  private targetsSource: BazelTargetsSource | undefined;
+
+  setTargetsSource(source: BazelTargetsSource) {
+    this.targetsSource = source;
+  }
+
+  /**
+   * Targets discovered by the BAZEL TARGETS tree, null until the first discovery finishes
+   */
+  getQueryResult(): BazelQueryResult | null {
+    return this.targetsSource?.getQueryResult() ?? null;
+  }
+
+  /**
+   * Resolve a target by label without selecting it, for commands that get the label explicitly (e.g. from MCP)
+   * @throws ExtensionError with similar labels when the target doesn't exist
+   */
+  resolveBazelTarget(label: string): BazelTreeItem {
+    const queryResult = this.getQueryResult();
+    if (!queryResult) {
+      throw new ExtensionError("Bazel targets are not loaded yet. Refresh the BAZEL TARGETS view and try again.", {
+        context: { label },
+      });
+    }
+
+    const target = BazelParser.findTarget(queryResult.tree, label);
+    if (!target) {
+      const suggestions = BazelParser.suggestTargets(queryResult.tree, label);
+      const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(", ")}?` : "";
+      throw new ExtensionError(`Unknown Bazel target "${label}".${hint}`, {
+        context: { label, suggestions },
+      });
+    }
+
+    const workspaceRoot = getWorkspacePath();
+    const packagePath = path.join(workspaceRoot, ...target.pathParts);
+    return {
+      target: {
+        name: target.name,
+        type: TARGET_TYPES[target.category],
+        buildLabel: target.label,
+        testLabel: target.category === "test" ? target.label : undefined,
+        deps: [],
+      },
+      package: {
+        name: target.pathParts[target.pathParts.length - 1],
+        path: packagePath,
+        targets: [],
+      },
+      workspacePath: `${packagePath}/BUILD.bazel`,
+      workspaceRoot: workspaceRoot,
+      provider: null as any, // Not needed for commands
+    } as BazelTreeItem;
   }
 }
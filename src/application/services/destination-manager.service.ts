@@ -66,6 +66,10 @@ export class DestinationsManager {
     this.emitter.on(event, listener as any); // todo: fix this any
   }
 
+  off<K extends IEventKey>(event: K, listener: (...args: IEventMap[K]) => void): void {
+    this.emitter.off(event, listener as any);
+  }
+
   get context() {
     if (!this._context) {
       throw new Error("Context is not set");
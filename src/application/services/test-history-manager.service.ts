@@ -0,0 +1,204 @@
+import events from "node:events";
+import type { BazelBuildEvent, BazelTestCaseHistory, BazelTestCaseResult } from "../../domain/entities/bazel/types.js";
+import { readTestResultCases } from "../../infrastructure/bazel/test-xml-parser.js";
+import type { ExtensionContext } from "../../infrastructure/vscode/extension-context.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import { exec } from "../../shared/utils/exec.js";
+
+type IEventMap = {
+  updated: [];
+};
+type IEventKey = keyof IEventMap;
+
+const MAX_RUNS_PER_CASE = 30;
+const MAX_CASES = 2000;
+
+// A passing run is a regression when it is 50% slower than the median of earlier passing runs
+// (and at least 100ms slower, so tiny tests don't trip it on noise)
+const REGRESSION_MIN_SAMPLES = 3;
+const REGRESSION_BASELINE_SAMPLES = 10;
+const REGRESSION_RATIO = 1.5;
+const REGRESSION_MIN_INCREASE_MS = 100;
+
+export interface TestDurationRegression {
+  history: BazelTestCaseHistory;
+  latestMillis: number;
+  baselineMillis: number; // Median of earlier passing runs
+}
+
+export function getTestCaseKey(testCase: { label: string; className?: string; name: string }): string {
+  return `${testCase.label}::${testCase.className ?? ""}/${testCase.name}`;
+}
+
+const lastRunTime = (history: BazelTestCaseHistory) => history.runs[history.runs.length - 1]?.timestamp ?? 0;
+
+/**
+ * Cases with both passing and failing outcomes for the same commit, most recent first
+ */
+export function findFlakyCases(histories: BazelTestCaseHistory[]): BazelTestCaseHistory[] {
+  return histories
+    .filter((history) => {
+      const outcomesByCommit = new Map<string, Set<string>>();
+      for (const run of history.runs) {
+        if (run.status === "skipped") continue;
+        const outcomes = outcomesByCommit.get(run.commit ?? "") ?? new Set();
+        outcomes.add(run.status);
+        outcomesByCommit.set(run.commit ?? "", outcomes);
+      }
+      return [...outcomesByCommit.values()].some((outcomes) => outcomes.size > 1);
+    })
+    .sort((a, b) => lastRunTime(b) - lastRunTime(a));
+}
+
+/**
+ * Cases whose latest passing run is much slower than the ones before it, slowest increase first
+ */
+export function findDurationRegressions(histories: BazelTestCaseHistory[]): TestDurationRegression[] {
+  const regressions: TestDurationRegression[] = [];
+
+  for (const history of histories) {
+    const durations = history.runs
+      .filter((run) => run.status === "passed" && run.durationMillis !== undefined)
+      .map((run) => run.durationMillis as number);
+    if (durations.length <= REGRESSION_MIN_SAMPLES) continue;
+
+    const latestMillis = durations[durations.length - 1];
+    const baseline = durations.slice(-REGRESSION_BASELINE_SAMPLES - 1, -1).sort((a, b) => a - b);
+    const baselineMillis = baseline[Math.floor(baseline.length / 2)];
+
+    if (
+      latestMillis >= baselineMillis * REGRESSION_RATIO &&
+      latestMillis - baselineMillis >= REGRESSION_MIN_INCREASE_MS
+    ) {
+      regressions.push({ history, latestMillis, baselineMillis });
+    }
+  }
+
+  return regressions.sort((a, b) => b.latestMillis - b.baselineMillis - (a.latestMillis - a.baselineMillis));
+}
+
+/**
+ * Cases whose latest run failed
+ */
+export function findFailingCases(histories: BazelTestCaseHistory[]): BazelTestCaseHistory[] {
+  return histories.filter((history) => history.runs[history.runs.length - 1]?.status === "failed");
+}
+
+/**
+ * Test History Manager
+ *
+ * Remembers the outcome and duration of every test case per workspace (and per commit), so
+ * flaky cases, duration regressions and previously failing tests can be found later.
+ */
+export class TestHistoryManager {
+  private emitter = new events.EventEmitter<IEventMap>();
+  public _context: ExtensionContext | undefined = undefined;
+
+  on<K extends IEventKey>(event: K, listener: (...args: IEventMap[K]) => void): void {
+    this.emitter.on(event, listener as any);
+  }
+
+  initializeWithContext(context: ExtensionContext): void {
+    this._context = context;
+  }
+
+  get context(): ExtensionContext {
+    if (!this._context) {
+      throw new Error("TestHistoryManager context is not initialized");
+    }
+    return this._context;
+  }
+
+  getHistory(): BazelTestCaseHistory[] {
+    return Object.values(this.context.getWorkspaceState("testing.history") ?? {});
+  }
+
+  getFlakyCases(): BazelTestCaseHistory[] {
+    return findFlakyCases(this.getHistory());
+  }
+
+  getDurationRegressions(): TestDurationRegression[] {
+    return findDurationRegressions(this.getHistory());
+  }
+
+  getFailingCases(): BazelTestCaseHistory[] {
+    return findFailingCases(this.getHistory());
+  }
+
+  /**
+   * Record the cases of one `bazel test` run of a target, in the history of the Bazel workspace it ran in
+   * (the active one unless given). Every retry attempt is kept, a case that failed and then passed in
+   * the same run counts as flaky
+   */
+  async recordRun(
+    label: string,
+    attempts: { cases: BazelTestCaseResult[] }[],
+    options: { commit?: string; timestamp?: number; workspaceRoot?: string } = {},
+  ): Promise<void> {
+    if (attempts.every((attempt) => attempt.cases.length === 0)) {
+      return;
+    }
+
+    const { workspaceRoot } = options;
+    const commit = options.commit ?? (await this.getCurrentCommit(workspaceRoot ?? getWorkspacePath()));
+    const timestamp = options.timestamp ?? Date.now();
+    const history = { ...(this.context.getWorkspaceState("testing.history", workspaceRoot) ?? {}) };
+
+    let recorded = 0;
+    for (const { cases } of attempts) {
+      for (const testCase of cases) {
+        const key = getTestCaseKey({ label, className: testCase.className, name: testCase.name });
+        const existing = history[key] ?? { label, className: testCase.className, name: testCase.name, runs: [] };
+        const run = { status: testCase.status, durationMillis: testCase.durationMillis, commit, timestamp };
+        history[key] = { ...existing, runs: [...existing.runs, run].slice(-MAX_RUNS_PER_CASE) };
+        recorded++;
+      }
+    }
+
+    // Forget cases that haven't run for the longest time
+    const keys = Object.keys(history);
+    if (keys.length > MAX_CASES) {
+      keys.sort((a, b) => lastRunTime(history[a]) - lastRunTime(history[b]));
+      for (const key of keys.slice(0, keys.length - MAX_CASES)) {
+        delete history[key];
+      }
+    }
+
+    this.context.updateWorkspaceState("testing.history", history, workspaceRoot);
+    commonLogger.log("Recorded test history", { label, commit, cases: recorded, workspaceRoot });
+    this.emitter.emit("updated");
+  }
+
+  /**
+   * Record the test.xml reports Bazel announced for a target
+   * Never throws, a broken report should not fail the test command itself
+   */
+  async recordBazelTestResults(
+    label: string,
+    testResults: Extract<BazelBuildEvent, { type: "testResult" }>[],
+    workspaceRoot: string,
+  ): Promise<void> {
+    try {
+      const attempts = await readTestResultCases(label, testResults, workspaceRoot);
+      await this.recordRun(label, attempts, { workspaceRoot });
+    } catch (error) {
+      commonLogger.warn("Failed to record test history", { label, error });
+    }
+  }
+
+  clear(): void {
+    this.context.updateWorkspaceState("testing.history", undefined);
+    this.emitter.emit("updated");
+  }
+
+  private async getCurrentCommit(workspaceRoot: string): Promise<string | undefined> {
+    try {
+      const output = await exec({ command: "git", args: ["rev-parse", "HEAD"], cwd: workspaceRoot });
+      return output.trim() || undefined;
+    } catch (error) {
+      commonLogger.debug("Workspace is not a git repository, test history is recorded without commits", { error });
+      return undefined;
+    }
+  }
+}
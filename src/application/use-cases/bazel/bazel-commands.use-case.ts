@@ -1,17 +1,95 @@
+import { quote } from "shell-quote";
 import * as vscode from "vscode";
+import type {
+  BazelBuildEvent,
+  BazelBuildProfile,
+  BazelBuildSummary,
+  BazelTestCaseHistory,
+  BuildModeString,
+} from "../../../domain/entities/bazel/types.js";
+import type { Destination } from "../../../domain/entities/destination/types.js";
 import type { BazelTreeItem } from "../../../presentation/tree-providers/export.provider.js";
 
+import { BazelProgressReporter, getBuildHistoryKey } from "../../../infrastructure/bazel/bazel-progress.js";
+import { getBuildProfiles } from "../../../infrastructure/bazel/build-profiles.js";
+import { buildTestFilter } from "../../../infrastructure/bazel/test-xml-parser.js";
 import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
+import { ExtensionError } from "../../../shared/errors/errors.js";
 import { getWorkspaceConfig } from "../../../shared/utils/config.js";
 import { ErrorManager } from "../../../shared/utils/error-manager.js";
 import { exec } from "../../../shared/utils/exec.js";
-import { ProgressManager, ProgressSteps } from "../../../shared/utils/progress-manager.js";
+import { OperationCancelledError, ProgressManager, ProgressSteps } from "../../../shared/utils/progress-manager.js";
 import { Timer } from "../../../shared/utils/timer.js";
 
-import { DEFAULT_BUILD_PROBLEM_MATCHERS } from "../../../shared/constants/build-constants.js";
-import { askDestinationToRunOn, detectBazelWorkspacesPaths } from "../../../shared/utils/bazel-utils.js";
+import {
+  askDestinationToRunOn,
+  detectBazelWorkspacesPaths,
+  getWorkspacePath,
+} from "../../../shared/utils/bazel-utils.js";
+import { getBazelWorkspaceName } from "../../../shared/utils/bazel-workspaces.js";
 import { type TaskTerminal, runTask } from "../../../shared/utils/tasks.js";
 
+/**
+ * Drive progress steps from Build Event Protocol events
+ * Analysis ends when Bazel reports the analyzed targets; `finish()` moves to the final step
+ * even if the build was fully cached and never printed that line. During execution the
+ * `[N / M]` progress lines give the real percentage, and a successful `finish()` records the
+ * duration used for the next ETA
+ */
+function trackBuildProgress(
+  context: ExtensionContext,
+  progress: ProgressManager,
+  options: { executionStep: string; historyKey: string },
+) {
+  const { executionStep, historyKey } = options;
+  const reporter = new BazelProgressReporter({ context, progress, historyKey });
+  let executing = false;
+
+  const startExecution = () => {
+    if (!executing) {
+      executing = true;
+      progress.nextStep(executionStep);
+    }
+  };
+
+  return {
+    onBuildEvent: (event: BazelBuildEvent) => {
+      if (progress.isCancelled()) return;
+
+      switch (event.type) {
+        case "targetConfigured":
+          if (!executing) progress.updateStep(event.label);
+          break;
+        case "progress":
+          if (/INFO: (Analyzed|Found) /.test(event.stderr)) startExecution();
+          // "[N / M] ..." lines carry the real number of completed and running actions
+          if (/\[[\d,]+ \/ [\d,]+\]/.test(event.stderr)) {
+            startExecution();
+            reporter.handleOutput(event.stderr);
+          }
+          break;
+        case "actionFailed":
+          startExecution();
+          progress.updateStep(`${event.mnemonic ?? "Action"} failed in ${event.label ?? "unknown target"}`);
+          break;
+        case "targetCompleted":
+          startExecution();
+          progress.updateStep(`${event.label} ${event.success ? "built" : "failed"}`);
+          break;
+        case "testResult":
+          startExecution();
+          progress.updateStep(`${event.label} ${event.status}`);
+          break;
+      }
+    },
+    finish: (finalStep: string, summary?: BazelBuildSummary) => {
+      startExecution();
+      reporter.finish(summary);
+      progress.nextStep(finalStep);
+    },
+  };
+}
+
 function writeTimingResults(terminal: TaskTerminal, timer: Timer, toolType: "bazel", operation: string) {
   const elapsedSeconds = (timer.elapsed / 1000).toFixed(2);
   terminal.write(`\n⏱️  ${toolType} ${operation} total time: ${elapsedSeconds}s\n`, { newLine: true });
@@ -42,6 +120,7 @@ async function reconstructBazelItemFromCache(context: ExtensionContext): Promise
       targets: [],
     },
     workspacePath: selectedTargetData.workspacePath,
+    workspaceRoot: selectedTargetData.workspaceRoot,
     provider: null as any, // Not needed for commands
   } as BazelTreeItem;
 
@@ -49,18 +128,39 @@ async function reconstructBazelItemFromCache(context: ExtensionContext): Promise
 }
 
 /**
- * Resolve Bazel target from parameter, selected target, or cache
+ * Explicit parameters for build/test/run commands, e.g. from MCP tools
+ * Whatever is set is used as is: nothing is asked and the user's selection is left untouched
+ */
+export interface BazelCommandOptions {
+  label?: string;
+  destinationId?: string;
+  buildMode?: BuildModeString;
+  extraFlags?: string[];
+  testFilter?: string;
+  traceProfile?: boolean; // Write and summarize a JSON trace profile (builds only)
+  nonInteractive?: boolean; // Fail instead of asking for a destination or build mode that isn't set or selected
+}
+
+/**
+ * Resolve Bazel target from parameter, label, selected target, or cache
  * @throws Error if no target can be resolved
  */
 async function resolveTargetItem(
   context: ExtensionContext,
   bazelItem: BazelTreeItem | undefined,
   errorManager: ErrorManager,
+  label?: string,
 ): Promise<BazelTreeItem> {
   if (bazelItem) {
+    // Run in the workspace of the target, e.g. when it comes from another section of the tree
+    context.buildManager.activateWorkspaceOf(bazelItem);
     return bazelItem;
   }
 
+  if (label) {
+    return context.buildManager.resolveBazelTarget(label);
+  }
+
   const selectedTarget = context.buildManager.getSelectedBazelTarget();
   if (selectedTarget) {
     return selectedTarget;
@@ -75,6 +175,52 @@ async function resolveTargetItem(
   errorManager.handleNoTargetSelected();
 }
 
+/**
+ * Find the destination by id, or use the selected one (asking the user when there is none)
+ */
+async function resolveDestination(context: ExtensionContext, options?: BazelCommandOptions): Promise<Destination> {
+  const destinationId = options?.destinationId;
+  if (!destinationId && !options?.nonInteractive) {
+    return await askDestinationToRunOn(context);
+  }
+  if (!destinationId) {
+    const selected = context.destinationsManager.getSelectedXcodeDestinationForBuild();
+    const destination = selected
+      ? await context.destinationsManager.findDestination({ destinationId: selected.id, type: selected.type })
+      : undefined;
+    if (!destination) {
+      throw new ExtensionError("No destination selected, pass destinationId");
+    }
+    return destination;
+  }
+
+  const destination = await context.destinationsManager.findDestination({ destinationId });
+  if (!destination) {
+    const destinations = await context.destinationsManager.getDestinations();
+    const available = destinations.map((destination) => `${destination.id} (${destination.name})`);
+    throw new ExtensionError(`Unknown destination "${destinationId}". Available: ${available.join(", ") || "none"}`, {
+      context: { destinationId },
+    });
+  }
+  return destination;
+}
+
+/**
+ * Get build mode from options, config or cache without asking
+ * @throws ExtensionError if none of them has one
+ */
+function getNonInteractiveBuildMode(context: ExtensionContext, options: BazelCommandOptions): BuildModeString {
+  const configMode = getWorkspaceConfig("bazel.buildMode");
+  const buildMode =
+    options.buildMode ??
+    (configMode && configMode !== "ask" ? configMode : undefined) ??
+    context.getWorkspaceState("bazel.buildMode");
+  if (!buildMode) {
+    throw new ExtensionError("No build mode selected, pass buildMode");
+  }
+  return buildMode;
+}
+
 /**
  * Get build mode from config/cache or ask user
  */
@@ -139,15 +285,21 @@ async function getBuildMode(
 /**
  * Build a Bazel target
  */
-export async function bazelBuildCommand(context: ExtensionContext, bazelItem?: BazelTreeItem): Promise<void> {
+export async function bazelBuildCommand(
+  context: ExtensionContext,
+  bazelItem?: BazelTreeItem,
+  options?: BazelCommandOptions,
+): Promise<void> {
   const errorManager = new ErrorManager(context);
-  const targetItem = await resolveTargetItem(context, bazelItem, errorManager);
+  const targetItem = await resolveTargetItem(context, bazelItem, errorManager, options?.label);
 
   // Get destination to determine build platform
-  const destination = await askDestinationToRunOn(context);
+  const destination = await resolveDestination(context, options);
 
-  // Get build mode from config/cache
-  const buildMode = await getBuildMode(context);
+  // Get build mode from options, config or cache
+  const buildMode = options?.nonInteractive
+    ? getNonInteractiveBuildMode(context, options)
+    : (options?.buildMode ?? (await getBuildMode(context)));
 
   if (buildMode === undefined) {
     return; // User cancelled
@@ -164,37 +316,40 @@ export async function bazelBuildCommand(context: ExtensionContext, bazelItem?: B
     name: `Bazel Build: ${targetItem?.target.name}`,
     lock: "bazelbsp.bazel.build",
     terminateLocked: true,
-    problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
-    callback: async (terminal) => {
-      const modeLabel =
-        buildMode === "debug" ? "Debug" : buildMode === "release-with-symbols" ? "Release with Symbols" : "Release";
-      terminal.write(`Building Bazel target: ${targetItem?.target.buildLabel}\n`);
-      terminal.write(`Build mode: ${modeLabel}\n\n`);
-
-      progress.nextStep("Resolving dependencies");
-      terminal.write("📦 Resolving dependencies...\n");
-
-      progress.nextStep("Compiling sources");
-      terminal.write("🔨 Compiling sources...\n");
-
-      // Use unified build logic
-      const { buildBazelTarget } = await import("../../../infrastructure/bazel/bazel-build.js");
-      await buildBazelTarget({
-        bazelItem: targetItem,
-        destination: destination as any,
-        buildMode,
-        terminal,
-        context,
-      });
+    callback: context.buildAnalyticsManager.recorded(
+      { command: "build", label: targetItem.target.buildLabel, buildMode, destination: destination.label },
+      async (terminal) => {
+        const modeLabel =
+          buildMode === "debug" ? "Debug" : buildMode === "release-with-symbols" ? "Release with Symbols" : "Release";
+        terminal.write(`Building Bazel target: ${targetItem?.target.buildLabel}\n`);
+        terminal.write(`Build mode: ${modeLabel}\n\n`);
+
+        progress.nextStep("Analyzing targets");
+        const tracker = trackBuildProgress(context, progress, {
+          executionStep: "Executing actions",
+          historyKey: getBuildHistoryKey({ command: "build", label: targetItem.target.buildLabel, variant: buildMode }),
+        });
 
-      progress.nextStep("Linking binaries");
-      progress.nextStep("Code signing");
-      progress.nextStep("Finalizing build");
-      terminal.write(`\n✅ Build completed for ${targetItem?.target.name}\n`);
+        // Use unified build logic
+        const { buildBazelTarget } = await import("../../../infrastructure/bazel/bazel-build.js");
+        const summary = await buildBazelTarget({
+          bazelItem: targetItem,
+          destination: destination as any,
+          buildMode,
+          extraFlags: options?.extraFlags,
+          terminal,
+          context,
+          onBuildEvent: tracker.onBuildEvent,
+          traceProfile: options?.traceProfile,
+        });
 
-      progress.complete();
-      writeTimingResults(terminal, timer, "bazel", "build");
-    },
+        tracker.finish("Finalizing build", summary);
+        terminal.write(`\n✅ Build completed for ${targetItem?.target.name}\n`);
+
+        progress.complete();
+        writeTimingResults(terminal, timer, "bazel", "build");
+      },
+    ),
   });
 }
 
@@ -346,14 +501,127 @@ export async function selectBazelBuildModeCommand(context: ExtensionContext): Pr
   vscode.commands.executeCommand("bazelbsp.internal.updateBuildModeStatusBar");
 
   vscode.window.showInformationMessage(`✅ Build mode set to: ${modeLabels[buildMode]}`);
+
+  // Offer build profiles right away when the workspace defines any
+  if (Object.keys(getBuildProfiles()).length > 0) {
+    await selectBazelBuildProfileCommand(context);
+  }
+}
+
+/**
+ * Select the Bazel workspace commands run in, for multi-root windows and nested Bazel modules
+ * The workspace section of the BAZEL TARGETS tree passes its root directly
+ */
+export async function selectBazelWorkspaceCommand(
+  context: ExtensionContext,
+  workspaceItem?: { workspaceRoot: string },
+): Promise<void> {
+  let workspaceRoot = workspaceItem?.workspaceRoot;
+
+  if (!workspaceRoot) {
+    const roots = context.buildManager.getWorkspaceRoots();
+    if (roots.length <= 1) {
+      vscode.window.showInformationMessage("This window has a single Bazel workspace");
+      return;
+    }
+
+    const activeRoot = getWorkspacePath();
+    const selection = await vscode.window.showQuickPick(
+      roots.map((root) => ({
+        label: getBazelWorkspaceName(root),
+        description: root === activeRoot ? "✓ active" : undefined,
+        detail: root,
+        root: root,
+      })),
+      {
+        title: "Select Bazel Workspace",
+        placeHolder: "Commands, target, destination and build mode follow the selected workspace",
+      },
+    );
+    if (!selection) {
+      return; // User cancelled
+    }
+    workspaceRoot = selection.root;
+  }
+
+  context.buildManager.setActiveWorkspace(workspaceRoot);
+}
+
+/**
+ * Select the Bazel build profile (or let it be picked automatically per target/build mode)
+ */
+export async function selectBazelBuildProfileCommand(context: ExtensionContext): Promise<void> {
+  const profiles = getBuildProfiles();
+  const names = Object.keys(profiles);
+
+  if (names.length === 0) {
+    const action = await vscode.window.showInformationMessage(
+      'No build profiles configured. Add them to "bazelbsp.bazel.buildProfiles" in workspace settings.',
+      "Open Settings",
+    );
+    if (action === "Open Settings") {
+      vscode.commands.executeCommand("workbench.action.openWorkspaceSettings", "bazelbsp.bazel.buildProfiles");
+    }
+    return;
+  }
+
+  const selectedProfile = context.getWorkspaceState("bazel.buildProfile");
+  const describeProfile = (profile: BazelBuildProfile) =>
+    [
+      ...(profile.configs ?? []).map((config) => `--config=${config}`),
+      ...(profile.flags ?? []),
+      ...(profile.startupOptions ?? []),
+    ].join(" ");
+
+  const selection = await vscode.window.showQuickPick(
+    [
+      {
+        label: "$(sync) Automatic",
+        description: "Match profiles by target pattern and build mode",
+        value: undefined,
+        picked: !selectedProfile,
+      },
+      ...names.map((name) => ({
+        label: name === selectedProfile ? `$(check) ${name}` : name,
+        description: describeProfile(profiles[name]),
+        detail: [
+          profiles[name].targets?.length ? `Targets: ${profiles[name].targets?.join(", ")}` : undefined,
+          profiles[name].buildModes?.length ? `Modes: ${profiles[name].buildModes?.join(", ")}` : undefined,
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        value: name,
+        picked: name === selectedProfile,
+      })),
+    ],
+    {
+      title: "Select Build Profile",
+      placeHolder: "Choose build profile (saved for future builds)",
+    },
+  );
+
+  if (!selection) {
+    return; // User cancelled
+  }
+
+  context.updateWorkspaceState("bazel.buildProfile", selection.value);
+  vscode.commands.executeCommand("bazelbsp.internal.updateBuildModeStatusBar");
+
+  vscode.window.showInformationMessage(
+    selection.value ? `✅ Build profile set to: ${selection.value}` : "✅ Build profile set to: Automatic",
+  );
 }
 
 /**
  * Test a Bazel target
  */
-export async function bazelTestCommand(context: ExtensionContext, bazelItem?: BazelTreeItem): Promise<void> {
+export async function bazelTestCommand(
+  context: ExtensionContext,
+  bazelItem?: BazelTreeItem,
+  options?: BazelCommandOptions,
+): Promise<void> {
   const errorManager = new ErrorManager(context);
-  const targetItem = await resolveTargetItem(context, bazelItem, errorManager);
+  const targetItem = await resolveTargetItem(context, bazelItem, errorManager, options?.label);
 
   if (!targetItem?.target.testLabel) {
     errorManager.handleNotTestTarget(targetItem?.target.name || "unknown");
@@ -375,46 +643,155 @@ export async function bazelTestCommand(context: ExtensionContext, bazelItem?: Ba
     name: `Bazel Test: ${targetItem?.target.name}`,
     lock: "bazelbsp.bazel.test",
     terminateLocked: true,
-    problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
-    callback: async (terminal) => {
+    callback: context.buildAnalyticsManager.recorded({ command: "test", label: testLabel ?? "" }, async (terminal) => {
       terminal.write(`Running Bazel tests: ${testLabel}\n\n`);
 
-      progress.nextStep("Building test target");
-      terminal.write("🔨 Building test target...\n");
+      await runBazelTests(context, terminal, {
+        label: testLabel ?? "",
+        cwd: targetItem?.package.path ?? getWorkspacePath(),
+        workspaceRoot: targetItem?.workspaceRoot ?? getWorkspacePath(),
+        testFilter: options?.testFilter,
+        extraFlags: options?.extraFlags,
+        progress,
+      });
+      terminal.write(`\n✅ Tests completed for ${targetItem?.target.name}\n`);
 
-      progress.nextStep("Preparing test environment");
-      terminal.write("🧪 Preparing test environment...\n");
+      progress.complete();
+      writeTimingResults(terminal, timer, "bazel", "test");
+    }),
+  });
+}
 
-      progress.nextStep("Running tests");
-      terminal.write("▶️  Running tests...\n");
+/**
+ * Re-run test cases that failed on their latest recorded run, one `bazel test --test_filter` per target
+ * The history belongs to the active Bazel workspace, so its labels run there
+ */
+export async function rerunFailedTestsCommand(context: ExtensionContext): Promise<void> {
+  const failingCases = context.testHistoryManager.getFailingCases();
+  if (failingCases.length === 0) {
+    vscode.window.showInformationMessage("No failing tests in the test history");
+    return;
+  }
 
-      await terminal.execute({
-        command: "sh",
-        args: ["-c", `cd "${targetItem?.package.path}" && bazel test ${testLabel} --test_output=all`],
-      });
+  const casesByLabel = new Map<string, BazelTestCaseHistory[]>();
+  for (const testCase of failingCases) {
+    casesByLabel.set(testCase.label, [...(casesByLabel.get(testCase.label) ?? []), testCase]);
+  }
 
-      progress.nextStep("Collecting results");
-      terminal.write(`\n✅ Tests completed for ${targetItem?.target.name}\n`);
+  const timer = new Timer();
+
+  await runTask(context, {
+    name: "Bazel Test: Re-run Failed",
+    lock: "bazelbsp.bazel.test",
+    terminateLocked: true,
+    callback: async (terminal) => {
+      const stillFailing: string[] = [];
+
+      for (const [label, cases] of casesByLabel) {
+        const progress = new ProgressManager({
+          steps: ProgressSteps.TEST,
+          context,
+          taskName: `Re-run failed: ${label}`,
+        });
+        terminal.write(`Re-running ${cases.length} failed test(s) in ${label}\n\n`);
+
+        const runTests = context.buildAnalyticsManager.recorded({ command: "test", label }, runBazelTests);
+        try {
+          await runTests(context, terminal, {
+            label,
+            cwd: getWorkspacePath(),
+            workspaceRoot: getWorkspacePath(),
+            testFilter: buildTestFilter(cases),
+            progress,
+          });
+          terminal.write(`\n✅ Tests passed for ${label}\n\n`);
+        } catch (error) {
+          if (error instanceof OperationCancelledError) throw error;
+          stillFailing.push(label);
+          terminal.write(`\n❌ Tests still failing for ${label}\n\n`);
+        }
+        progress.complete();
+      }
 
-      progress.complete();
       writeTimingResults(terminal, timer, "bazel", "test");
+      if (stillFailing.length > 0) {
+        throw new ExtensionError(`Tests still failing in ${stillFailing.length} target(s): ${stillFailing.join(", ")}`);
+      }
     },
   });
 }
 
+/**
+ * Run `bazel test` for a target while following its progress, and record the results in the test history
+ * (results are recorded even when tests fail, bazel exits with a non-zero code then)
+ */
+async function runBazelTests(
+  context: ExtensionContext,
+  terminal: TaskTerminal,
+  options: {
+    label: string;
+    cwd: string;
+    workspaceRoot: string; // Bazel workspace whose test history records the results
+    testFilter?: string;
+    extraFlags?: string[];
+    progress: ProgressManager;
+  },
+): Promise<void> {
+  const { label, cwd, workspaceRoot, testFilter, extraFlags = [], progress } = options;
+  const testResults: Extract<BazelBuildEvent, { type: "testResult" }>[] = [];
+
+  progress.nextStep("Analyzing targets");
+  const tracker = trackBuildProgress(context, progress, {
+    executionStep: "Building and running tests",
+    // Filtered runs are shorter than the whole target, keep them out of its ETA
+    historyKey: getBuildHistoryKey({ command: "test", label, variant: testFilter ? "filtered" : undefined }),
+  });
+
+  const { executeWithBuildEvents } = await import("../../../infrastructure/bazel/bazel-build.js");
+  try {
+    const summary = await executeWithBuildEvents({
+      context,
+      terminal,
+      metricLabels: { label },
+      onBuildEvent: (event) => {
+        tracker.onBuildEvent(event);
+        if (event.type === "testResult") testResults.push(event);
+      },
+      execute: async (bepFlags) => {
+        const filterFlags = testFilter ? [`--test_filter=${testFilter}`] : [];
+        await terminal.execute({
+          command: "sh",
+          args: [
+            "-c",
+            `cd "${cwd}" && bazel test ${label} --test_output=all ${quote([...filterFlags, ...extraFlags, ...bepFlags])}`,
+          ],
+        });
+      },
+    });
+
+    tracker.finish("Collecting results", summary);
+  } finally {
+    await context.testHistoryManager.recordBazelTestResults(label, testResults, workspaceRoot);
+  }
+}
+
 /**
  * Run a Bazel target (launch app on iOS simulator)
  */
-export async function bazelRunCommand(context: ExtensionContext, bazelItem?: BazelTreeItem): Promise<void> {
+export async function bazelRunCommand(
+  context: ExtensionContext,
+  bazelItem?: BazelTreeItem,
+  options?: BazelCommandOptions,
+): Promise<void> {
   const errorManager = new ErrorManager(context);
-  const targetItem = await resolveTargetItem(context, bazelItem, errorManager);
+  const targetItem = await resolveTargetItem(context, bazelItem, errorManager, options?.label);
 
   if (targetItem?.target.type !== "binary") {
     errorManager.handleNotRunnableTarget(targetItem?.target.name || "unknown");
   }
 
   // Get destination
-  const destination = await askDestinationToRunOn(context);
+  const destination = await resolveDestination(context, options);
 
   // Get launch configuration
   const launchArgs = getWorkspaceConfig("build.launchArgs") ?? [];
@@ -426,42 +803,55 @@ export async function bazelRunCommand(context: ExtensionContext, bazelItem?: Baz
     name: `Bazel Run: ${targetItem?.target.name}`,
     lock: "bazelbsp.bazel.run",
     terminateLocked: true,
-    problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
-    callback: async (terminal) => {
-      if (!targetItem) {
-        errorManager.handleNoTargetSelected();
-        return; // TypeScript needs this
-      }
-
-      const { buildAndLaunchBazelApp } = await import("../../../infrastructure/vscode/debug/build-and-launch.js");
+    callback: context.buildAnalyticsManager.recorded(
+      {
+        command: "run",
+        label: targetItem.target.buildLabel,
+        buildMode: options?.buildMode ?? "release",
+        destination: destination.label,
+      },
+      async (terminal) => {
+        if (!targetItem) {
+          errorManager.handleNoTargetSelected();
+          return; // TypeScript needs this
+        }
 
-      // Use unified build and launch workflow without debugger
-      await buildAndLaunchBazelApp(context, terminal, {
-        bazelItem: targetItem,
-        destination: destination as any,
-        attachDebugger: false,
-        launchArgs,
-        launchEnv,
-      });
+        const { buildAndLaunchBazelApp } = await import("../../../infrastructure/vscode/debug/build-and-launch.js");
+
+        // Use unified build and launch workflow without debugger
+        await buildAndLaunchBazelApp(context, terminal, {
+          bazelItem: targetItem,
+          destination: destination as any,
+          attachDebugger: false,
+          buildMode: options?.buildMode,
+          extraFlags: options?.extraFlags,
+          launchArgs,
+          launchEnv,
+        });
 
-      writeTimingResults(terminal, timer, "bazel", "run");
-    },
+        writeTimingResults(terminal, timer, "bazel", "run");
+      },
+    ),
   });
 }
 
 /**
  * Debug a Bazel target (launch app with debug support)
  */
-export async function bazelDebugCommand(context: ExtensionContext, bazelItem?: BazelTreeItem): Promise<void> {
+export async function bazelDebugCommand(
+  context: ExtensionContext,
+  bazelItem?: BazelTreeItem,
+  options?: BazelCommandOptions,
+): Promise<void> {
   const errorManager = new ErrorManager(context);
-  const targetItem = await resolveTargetItem(context, bazelItem, errorManager);
+  const targetItem = await resolveTargetItem(context, bazelItem, errorManager, options?.label);
 
   if (targetItem?.target.type !== "binary") {
     errorManager.handleNotRunnableTarget(targetItem?.target.name || "unknown");
   }
 
   // Get destination
-  const destination = await askDestinationToRunOn(context);
+  const destination = await resolveDestination(context, options);
 
   // Get launch configuration
   const launchArgs = getWorkspaceConfig("build.launchArgs") ?? [];
@@ -473,26 +863,35 @@ export async function bazelDebugCommand(context: ExtensionContext, bazelItem?: B
     name: `Bazel Debug: ${targetItem?.target.name}`,
     lock: "bazelbsp.bazel.debug",
     terminateLocked: true,
-    problemMatchers: DEFAULT_BUILD_PROBLEM_MATCHERS,
-    callback: async (terminal) => {
-      if (!targetItem) {
-        errorManager.handleNoTargetSelected();
-        return; // TypeScript needs this
-      }
-
-      const { buildAndLaunchBazelApp } = await import("../../../infrastructure/vscode/debug/build-and-launch.js");
+    callback: context.buildAnalyticsManager.recorded(
+      {
+        command: "debug",
+        label: targetItem.target.buildLabel,
+        buildMode: options?.buildMode ?? "debug",
+        destination: destination.label,
+      },
+      async (terminal) => {
+        if (!targetItem) {
+          errorManager.handleNoTargetSelected();
+          return; // TypeScript needs this
+        }
 
-      // Use unified build and launch workflow with debugger attached
-      await buildAndLaunchBazelApp(context, terminal, {
-        bazelItem: targetItem,
-        destination: destination as any,
-        attachDebugger: true,
-        launchArgs,
-        launchEnv,
-      });
+        const { buildAndLaunchBazelApp } = await import("../../../infrastructure/vscode/debug/build-and-launch.js");
+
+        // Use unified build and launch workflow with debugger attached
+        await buildAndLaunchBazelApp(context, terminal, {
+          bazelItem: targetItem,
+          destination: destination as any,
+          attachDebugger: true,
+          buildMode: options?.buildMode,
+          extraFlags: options?.extraFlags,
+          launchArgs,
+          launchEnv,
+        });
 
-      writeTimingResults(terminal, timer, "bazel", "debug");
-    },
+        writeTimingResults(terminal, timer, "bazel", "debug");
+      },
+    ),
   });
 }
 
@@ -501,7 +900,7 @@ export async function bazelDebugCommand(context: ExtensionContext, bazelItem?: B
  */
 export async function selectBazelTargetCommand(
   context: ExtensionContext,
-  targetInfo: { target: any; package: any; workspacePath: string } | BazelTreeItem,
+  targetInfo: { target: any; package: any; workspacePath: string; workspaceRoot?: string } | BazelTreeItem,
   _treeProvider: any,
 ): Promise<void> {
   if (!targetInfo) {
@@ -0,0 +1,55 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
+import { commonLogger } from "../../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../../shared/utils/bazel-utils.js";
+import { buildRecordsToCsv, buildRecordsToJson } from "../../services/build-analytics-manager.service.js";
+
+/**
+ * Export the recorded build analytics as CSV (one row per invocation) or JSON (summary and records)
+ */
+export async function exportBuildAnalyticsCommand(context: ExtensionContext, format?: "csv" | "json"): Promise<void> {
+  const records = context.buildAnalyticsManager.getRecords();
+  if (records.length === 0) {
+    vscode.window.showInformationMessage("No build analytics recorded yet, build, test or run a target first");
+    return;
+  }
+
+  const selectedFormat =
+    format ??
+    (
+      await vscode.window.showQuickPick(
+        [
+          { label: "CSV", description: "One row per invocation, for spreadsheets", value: "csv" as const },
+          { label: "JSON", description: "Summary and all invocations", value: "json" as const },
+        ],
+        { title: "Export Build Analytics", placeHolder: "Choose the export format" },
+      )
+    )?.value;
+  if (!selectedFormat) {
+    return; // User cancelled
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  const uri = await vscode.window.showSaveDialog({
+    title: "Export Build Analytics",
+    defaultUri: vscode.Uri.file(path.join(getWorkspacePath(), `build-analytics-${date}.${selectedFormat}`)),
+    filters: selectedFormat === "csv" ? { CSV: ["csv"] } : { JSON: ["json"] },
+  });
+  if (!uri) {
+    return; // User cancelled
+  }
+
+  const content = selectedFormat === "csv" ? buildRecordsToCsv(records) : buildRecordsToJson(records);
+  await fs.writeFile(uri.fsPath, content, "utf8");
+  commonLogger.log("Exported build analytics", { path: uri.fsPath, records: records.length });
+
+  const action = await vscode.window.showInformationMessage(
+    `✅ Exported ${records.length} invocations to ${path.basename(uri.fsPath)}`,
+    "Open",
+  );
+  if (action === "Open") {
+    await vscode.window.showTextDocument(uri);
+  }
+}
@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+import type { BazelTargetCategory } from "../../../domain/entities/bazel/types.js";
+import {
+  ALL_TARGET_CATEGORIES,
+  type BazelTargetSearchEntry,
+  listSearchEntries,
+  searchTargets,
+} from "../../../infrastructure/bazel/target-search.js";
+import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
+import type { BazelTreeProvider } from "../../../presentation/tree-providers/bazel-tree.provider.js";
+import { BazelQueryTargetItem } from "../../../presentation/tree-providers/items/bazel-query-tree-item.js";
+import { getBazelWorkspaceName } from "../../../shared/utils/bazel-workspaces.js";
+import { selectBazelTargetCommand } from "./bazel-commands.use-case.js";
+
+// More items make the picker sluggish in large monorepos, the query narrows them down anyway
+const MAX_PICKER_ITEMS = 200;
+
+const CATEGORY_ICONS: Record<keyof BazelTargetCategory, string> = {
+  runnable: "$(play)",
+  test: "$(beaker)",
+  buildable: "$(package)",
+};
+
+type WorkspaceSearchEntry = BazelTargetSearchEntry & { workspaceRoot: string };
+type TargetPickItem = vscode.QuickPickItem & { entry: WorkspaceSearchEntry };
+
+/**
+ * Fuzzy search all targets of all Bazel workspaces by label, rule kind and package path, and select the picked one
+ */
+export async function findTargetCommand(context: ExtensionContext, treeProvider: BazelTreeProvider): Promise<void> {
+  const workspaces = treeProvider.getWorkspaceQueryResults();
+  if (workspaces.length === 0) {
+    vscode.window.showInformationMessage("Bazel targets are not loaded yet, refresh the BAZEL TARGETS view");
+    return;
+  }
+
+  const showWorkspace = workspaces.length > 1;
+  const entries: WorkspaceSearchEntry[] = workspaces.flatMap(({ workspaceRoot, queryResult }) =>
+    listSearchEntries(queryResult).map((entry) => ({ ...entry, workspaceRoot })),
+  );
+
+  const getItems = (text: string): TargetPickItem[] =>
+    searchTargets(entries, { text, categories: ALL_TARGET_CATEGORIES })
+      .slice(0, MAX_PICKER_ITEMS)
+      .map(({ entry }) => {
+        const details = [entry.kind ?? entry.category, showWorkspace ? getBazelWorkspaceName(entry.workspaceRoot) : ""];
+        return {
+          label: `${CATEGORY_ICONS[entry.category]} ${entry.name}`,
+          description: entry.label,
+          detail: details.filter(Boolean).join(" · "),
+          // The picker's own matching is stricter than ours, keep every fuzzy match visible
+          alwaysShow: true,
+          entry: entry,
+        };
+      });
+
+  const pick = vscode.window.createQuickPick<TargetPickItem>();
+  pick.title = "Find Bazel Target";
+  pick.placeholder = "Search by target name, label, rule kind or package path";
+  pick.matchOnDescription = true;
+  pick.matchOnDetail = true;
+  pick.items = getItems("");
+  pick.onDidChangeValue((value) => {
+    pick.items = getItems(value);
+  });
+
+  const selected = await new Promise<TargetPickItem | undefined>((resolve) => {
+    pick.onDidAccept(() => {
+      resolve(pick.selectedItems[0]);
+      pick.hide();
+    });
+    pick.onDidHide(() => {
+      resolve(undefined);
+      pick.dispose();
+    });
+    pick.show();
+  });
+  if (!selected) {
+    return; // User cancelled
+  }
+
+  const { entry } = selected;
+  const item = new BazelQueryTargetItem(entry.name, entry.category, entry.pathParts, entry.workspaceRoot);
+  await selectBazelTargetCommand(context, item.command?.arguments?.[0], treeProvider);
+}
+
+/**
+ * Filter the BAZEL TARGETS view by fuzzy text, an empty text removes the text filter
+ */
+export async function filterTargetsCommand(_context: ExtensionContext, treeProvider: BazelTreeProvider): Promise<void> {
+  const filter = treeProvider.getFilter();
+  const text = await vscode.window.showInputBox({
+    title: "Filter Bazel Targets",
+    prompt: "Fuzzy match on target name, label, rule kind or package path",
+    placeHolder: "e.g. core test",
+    value: filter.text,
+  });
+  if (text === undefined) {
+    return; // User cancelled
+  }
+  treeProvider.setFilter({ ...filter, text: text.trim() });
+}
+
+/**
+ * Toggle the runnable, test and buildable targets of the BAZEL TARGETS view
+ */
+export async function filterTargetCategoriesCommand(
+  _context: ExtensionContext,
+  treeProvider: BazelTreeProvider,
+): Promise<void> {
+  const filter = treeProvider.getFilter();
+  const labels: Record<keyof BazelTargetCategory, string> = {
+    runnable: "Runnable",
+    test: "Test",
+    buildable: "Buildable",
+  };
+
+  const picked = await vscode.window.showQuickPick(
+    ALL_TARGET_CATEGORIES.map((category) => ({
+      label: `${CATEGORY_ICONS[category]} ${labels[category]}`,
+      picked: filter.categories.includes(category),
+      category: category,
+    })),
+    { title: "Show Bazel Target Categories", canPickMany: true },
+  );
+  if (!picked) {
+    return; // User cancelled
+  }
+  treeProvider.setFilter({ ...filter, categories: picked.map((item) => item.category) });
+}
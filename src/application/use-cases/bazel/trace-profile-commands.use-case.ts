@@ -0,0 +1,83 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { readTraceProfile } from "../../../infrastructure/bazel/trace-profile.js";
+import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
+import type { TraceProfilePanel } from "../../../presentation/webviews/trace-profile-panel.js";
+import { ExtensionError } from "../../../shared/errors/errors.js";
+import { commonLogger } from "../../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../../shared/utils/bazel-utils.js";
+import { isFileExists } from "../../../shared/utils/files.js";
+import { bazelBuildCommand } from "./bazel-commands.use-case.js";
+
+async function showTraceProfile(panel: TraceProfilePanel, tracePath: string): Promise<void> {
+  try {
+    panel.show(await readTraceProfile(tracePath), tracePath);
+  } catch (error) {
+    throw new ExtensionError("Failed to read the trace profile, is it a Bazel JSON trace profile?", {
+      context: { tracePath, error },
+    });
+  }
+}
+
+/**
+ * Build the selected target with `--profile` and open the summary of the written trace
+ */
+export async function buildWithTraceProfileCommand(context: ExtensionContext, panel: TraceProfilePanel): Promise<void> {
+  const previousPath = context.getWorkspaceState("bazel.lastTraceProfile");
+  await bazelBuildCommand(context, undefined, { traceProfile: true });
+
+  const tracePath = context.getWorkspaceState("bazel.lastTraceProfile");
+  if (tracePath && tracePath !== previousPath) {
+    await showTraceProfile(panel, tracePath);
+  }
+}
+
+/**
+ * Show the trace of the last profiled build, or pick a trace file (e.g. one downloaded from CI)
+ */
+export async function showTraceProfileCommand(context: ExtensionContext, panel: TraceProfilePanel): Promise<void> {
+  const lastPath = context.getWorkspaceState("bazel.lastTraceProfile");
+  if (lastPath && (await isFileExists(lastPath))) {
+    await showTraceProfile(panel, lastPath);
+    return;
+  }
+
+  const uris = await vscode.window.showOpenDialog({
+    title: "Open Bazel Trace Profile",
+    defaultUri: vscode.Uri.file(getWorkspacePath()),
+    canSelectMany: false,
+    filters: { "Trace profiles": ["json", "gz"] },
+  });
+  if (!uris?.[0]) {
+    return; // User cancelled
+  }
+  await showTraceProfile(panel, uris[0].fsPath);
+}
+
+/**
+ * Save the summary of a trace profile as JSON, for performance tickets
+ */
+export async function exportTraceProfileCommand(context: ExtensionContext, tracePath?: string): Promise<void> {
+  const sourcePath = tracePath ?? context.getWorkspaceState("bazel.lastTraceProfile");
+  if (!sourcePath) {
+    vscode.window.showInformationMessage("No trace profile recorded yet, run 'Bazel BSP: Build with Trace Profile'");
+    return;
+  }
+
+  const summary = await readTraceProfile(sourcePath);
+  const date = new Date().toISOString().slice(0, 10);
+  const uri = await vscode.window.showSaveDialog({
+    title: "Export Trace Profile Summary",
+    defaultUri: vscode.Uri.file(path.join(getWorkspacePath(), `trace-profile-${date}.json`)),
+    filters: { JSON: ["json"] },
+  });
+  if (!uri) {
+    return; // User cancelled
+  }
+
+  const content = JSON.stringify({ tracePath: sourcePath, exportedAt: new Date().toISOString(), ...summary }, null, 2);
+  await fs.writeFile(uri.fsPath, `${content}\n`, "utf8");
+  commonLogger.log("Exported trace profile summary", { tracePath: sourcePath, path: uri.fsPath });
+  vscode.window.showInformationMessage(`✅ Trace profile summary exported to ${path.basename(uri.fsPath)}`);
+}
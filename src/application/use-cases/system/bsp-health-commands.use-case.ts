@@ -0,0 +1,86 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { BspConfig } from "../../../domain/entities/bazel/types.js";
+import { formatBspDiagnosticsReport, runBspDiagnostics } from "../../../infrastructure/bazel/bsp-diagnostics.js";
+import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
+import { ExtensionError } from "../../../shared/errors/errors.js";
+import { commonLogger } from "../../../shared/logger/logger.js";
+import { getWorkspacePath, restartSwiftLSP } from "../../../shared/utils/bazel-utils.js";
+import { isFileExists, readJsonFile } from "../../../shared/utils/files.js";
+import type { BspHealthManager } from "../../services/bsp-health-manager.service.js";
+
+// sourcekit-bazel-bsp needs a moment to start again after SourceKit-LSP restarts
+const RESTART_CHECK_DELAY_MS = 3000;
+
+/**
+ * Open a slice of the sourcekit-bazel-bsp log (an index build or a group of errors), or all recent lines
+ */
+export async function openBspLogCommand(
+  _context: ExtensionContext,
+  manager: BspHealthManager,
+  slice?: { title: string; lines: string[] },
+): Promise<void> {
+  const lines = slice?.lines ?? manager.getLogLines();
+  if (lines.length === 0) {
+    vscode.window.showInformationMessage(
+      manager.getLogUnavailableReason() ?? "No sourcekit-bazel-bsp log lines yet, open a Swift file to start BSP",
+    );
+    return;
+  }
+
+  const header = `# ${slice?.title ?? "sourcekit-bazel-bsp"} (${lines.length} lines)`;
+  const document = await vscode.workspace.openTextDocument({
+    content: [header, ...lines].join("\n"),
+    language: "log",
+  });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
+
+/**
+ * Restart sourcekit-bazel-bsp by restarting SourceKit-LSP, which starts the build server again
+ */
+export async function restartBspServerCommand(context: ExtensionContext, manager: BspHealthManager): Promise<void> {
+  context.updateProgressStatus("Restarting SourceKit-LSP and sourcekit-bazel-bsp");
+  await restartSwiftLSP();
+  await new Promise((resolve) => setTimeout(resolve, RESTART_CHECK_DELAY_MS));
+  await manager.refresh();
+}
+
+/**
+ * Start the build server of .bsp/skbsp.json with the built-in BSP client and open a report of its
+ * targets, their sources and the compiler arguments of the active file
+ */
+export async function diagnoseBspServerCommand(context: ExtensionContext): Promise<void> {
+  const workspacePath = getWorkspacePath();
+  const configPath = path.join(workspacePath, ".bsp", "skbsp.json");
+  if (!(await isFileExists(configPath))) {
+    const action = await vscode.window.showWarningMessage(
+      "No .bsp/skbsp.json in the workspace, set up the BSP config first",
+      "Setup BSP Config",
+    );
+    if (action === "Setup BSP Config") {
+      await vscode.commands.executeCommand("bazelbsp.system.setupBSPConfig");
+    }
+    return;
+  }
+
+  const config = await readJsonFile<Partial<BspConfig>>(configPath);
+  if (!Array.isArray(config.argv) || config.argv.length === 0) {
+    throw new ExtensionError("The BSP config has no argv to start the build server with", {
+      context: { configPath },
+    });
+  }
+
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  const activeFile = activeUri?.scheme === "file" ? activeUri.fsPath : undefined;
+
+  context.updateProgressStatus("Starting the BSP server to diagnose it");
+  const report = await runBspDiagnostics({ argv: config.argv, workspaceRoot: workspacePath, activeFile: activeFile });
+  commonLogger.log("BSP server diagnostics finished", { steps: report.steps, targets: report.targets.length });
+
+  const document = await vscode.workspace.openTextDocument({
+    content: formatBspDiagnosticsReport(report, workspacePath),
+    language: "markdown",
+  });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
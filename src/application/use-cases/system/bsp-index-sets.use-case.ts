@@ -0,0 +1,223 @@
+import * as vscode from "vscode";
+import { addToIndexSet, getIndexedLabels, updateIndexSet } from "../../../infrastructure/bazel/bsp-index-sets.js";
+import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
+import { BazelQueryTargetItem } from "../../../presentation/tree-providers/items/bazel-query-tree-item.js";
+import { commonLogger } from "../../../shared/logger/logger.js";
+import { getWorkspacePath, restartSwiftLSP } from "../../../shared/utils/bazel-utils.js";
+import { showInputBox, showQuickPick } from "../../../shared/utils/quick-pick.js";
+import { writeGeneratedBspConfig } from "./swift-setup.use-case.js";
+
+// Picked instead of an index set name to index the selected target only
+const SELECTED_TARGET = "";
+const NEW_INDEX_SET = "\0new";
+
+function getCurrentlyIndexedLabels(context: ExtensionContext): string[] {
+  return getIndexedLabels(
+    context.getWorkspaceState("bsp.indexSets") ?? [],
+    context.getWorkspaceState("bsp.activeIndexSet"),
+    context.buildManager.getSelectedBazelTargetData()?.buildLabel,
+  );
+}
+
+/**
+ * Regenerate .bsp/skbsp.json for the targets indexed now and restart SourceKit-LSP so it picks them up
+ * without reloading the window. Returns whether the config was written.
+ */
+async function applyIndexedLabels(context: ExtensionContext, previousLabels: string[]): Promise<boolean> {
+  const labels = getCurrentlyIndexedLabels(context);
+  if (labels.length === 0) {
+    vscode.window.showWarningMessage("No Bazel target selected, select one or switch to an index set");
+    return false;
+  }
+
+  context.updateProgressStatus("Generating BSP config");
+  if (!(await writeGeneratedBspConfig(labels, { previousLabels }))) {
+    return false;
+  }
+
+  context.updateProgressStatus("Restarting SourceKit-LSP");
+  await restartSwiftLSP();
+  return true;
+}
+
+/**
+ * Add the targets selected in the BAZEL TARGETS view to a new or existing index set
+ */
+export async function addToBspIndexSetCommand(
+  context: ExtensionContext,
+  item?: vscode.TreeItem,
+  selectedItems?: vscode.TreeItem[],
+): Promise<void> {
+  const targetItems = (selectedItems?.length ? selectedItems : [item]).filter(
+    (selected): selected is BazelQueryTargetItem => selected instanceof BazelQueryTargetItem,
+  );
+  if (targetItems.length === 0) {
+    vscode.window.showInformationMessage("Select targets in the BAZEL TARGETS view to add them to an index set");
+    return;
+  }
+
+  // Index sets belong to a Bazel workspace, targets of other workspaces are left out
+  const workspaceRoot = targetItems[0].workspaceRoot;
+  const labels = targetItems
+    .filter((target) => target.workspaceRoot === workspaceRoot)
+    .map((target) => target.fullPath);
+  const sets = context.getWorkspaceState("bsp.indexSets", workspaceRoot) ?? [];
+
+  let name: string | undefined = NEW_INDEX_SET;
+  if (sets.length > 0) {
+    const picked = await showQuickPick<string>({
+      title: `Add ${labels.length === 1 ? labels[0] : `${labels.length} targets`} to BSP Index Set`,
+      items: [
+        ...sets.map((set) => ({
+          label: set.name,
+          description: `${set.labels.length} targets`,
+          context: set.name,
+        })),
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        { label: "$(add) New index set...", context: NEW_INDEX_SET },
+      ],
+    });
+    name = picked.context;
+  }
+  if (name === NEW_INDEX_SET) {
+    name = (await showInputBox({ title: "Name of the BSP index set (e.g. App + Widget)" }))?.trim();
+  }
+  if (!name) {
+    return; // User cancelled
+  }
+
+  const previousLabels = getCurrentlyIndexedLabels(context);
+  await context.updateWorkspaceState("bsp.indexSets", addToIndexSet(sets, name, labels), workspaceRoot);
+  await vscode.commands.executeCommand("bazelbsp.internal.updateIndexSetStatusBar");
+  commonLogger.log("Added targets to BSP index set", { name, labels, workspaceRoot });
+
+  // The config of the active set is regenerated right away
+  const isActiveSet = context.getWorkspaceState("bsp.activeIndexSet", workspaceRoot) === name;
+  if (isActiveSet && workspaceRoot === getWorkspacePath()) {
+    await applyIndexedLabels(context, previousLabels);
+    return;
+  }
+
+  const action = await vscode.window.showInformationMessage(
+    `Added ${labels.length === 1 ? labels[0] : `${labels.length} targets`} to the index set "${name}"`,
+    "Switch to Index Set",
+  );
+  if (action === "Switch to Index Set" && workspaceRoot === getWorkspacePath()) {
+    await switchToIndexSet(context, name);
+  }
+}
+
+/**
+ * Remove targets from an index set, removing all of them deletes the set
+ */
+export async function editBspIndexSetCommand(context: ExtensionContext): Promise<void> {
+  const sets = context.getWorkspaceState("bsp.indexSets") ?? [];
+  if (sets.length === 0) {
+    vscode.window.showInformationMessage(
+      "No BSP index sets yet. Select targets in the BAZEL TARGETS view and use Add to BSP Index Set",
+    );
+    return;
+  }
+
+  const picked = await showQuickPick<string>({
+    title: "Edit BSP Index Set",
+    items: sets.map((set) => ({
+      label: set.name,
+      description: `${set.labels.length} targets`,
+      detail: set.labels.join(", "),
+      context: set.name,
+    })),
+  });
+  const set = sets.find((candidate) => candidate.name === picked.context);
+  if (!set) {
+    return;
+  }
+
+  const kept = await vscode.window.showQuickPick(
+    set.labels.map((label) => ({ label: label, picked: true })),
+    { title: `Targets of "${set.name}" (uncheck to remove, none to delete the set)`, canPickMany: true },
+  );
+  if (!kept) {
+    return; // User cancelled
+  }
+
+  const previousLabels = getCurrentlyIndexedLabels(context);
+  const isActiveSet = context.getWorkspaceState("bsp.activeIndexSet") === set.name;
+  await context.updateWorkspaceState(
+    "bsp.indexSets",
+    updateIndexSet(
+      sets,
+      set.name,
+      kept.map((item) => item.label),
+    ),
+  );
+  if (kept.length === 0 && isActiveSet) {
+    await context.updateWorkspaceState("bsp.activeIndexSet", undefined);
+  }
+  await vscode.commands.executeCommand("bazelbsp.internal.updateIndexSetStatusBar");
+
+  if (isActiveSet) {
+    await applyIndexedLabels(context, previousLabels);
+  }
+}
+
+async function switchToIndexSet(context: ExtensionContext, name: string): Promise<void> {
+  const previousActiveSet = context.getWorkspaceState("bsp.activeIndexSet");
+  const previousLabels = getCurrentlyIndexedLabels(context);
+
+  await context.updateWorkspaceState("bsp.activeIndexSet", name || undefined);
+  if (!(await applyIndexedLabels(context, previousLabels))) {
+    // The config still indexes the previous targets
+    await context.updateWorkspaceState("bsp.activeIndexSet", previousActiveSet);
+    return;
+  }
+  await vscode.commands.executeCommand("bazelbsp.internal.updateIndexSetStatusBar");
+
+  const labels = getCurrentlyIndexedLabels(context);
+  vscode.window.showInformationMessage(
+    name
+      ? `SourceKit-LSP restarted, indexing "${name}" (${labels.length} targets)`
+      : `SourceKit-LSP restarted, indexing ${labels[0]}`,
+  );
+}
+
+/**
+ * Switch the targets the generated BSP config indexes between index sets and the selected target
+ */
+export async function switchBspIndexSetCommand(context: ExtensionContext): Promise<void> {
+  const sets = context.getWorkspaceState("bsp.indexSets") ?? [];
+  const activeSetName = context.getWorkspaceState("bsp.activeIndexSet");
+  const selectedLabel = context.buildManager.getSelectedBazelTargetData()?.buildLabel;
+
+  const picked = await showQuickPick<string>({
+    title: "Switch BSP Index Set",
+    items: [
+      ...sets.map((set) => ({
+        label: set.name === activeSetName ? `$(check) ${set.name}` : set.name,
+        description: `${set.labels.length} targets`,
+        detail: set.labels.join(", "),
+        context: set.name,
+      })),
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      {
+        label: activeSetName ? "Selected target" : "$(check) Selected target",
+        description: selectedLabel ?? "No target selected",
+        context: SELECTED_TARGET,
+      },
+      {
+        label: "$(add) Add targets...",
+        detail: "Select targets in the BAZEL TARGETS view and use Add to BSP Index Set",
+        context: NEW_INDEX_SET,
+      },
+    ],
+  });
+
+  if (picked.context === NEW_INDEX_SET) {
+    await vscode.commands.executeCommand("workbench.view.extension.bazelbsp-view");
+    return;
+  }
+  if (picked.context === (activeSetName ?? SELECTED_TARGET)) {
+    return; // Already indexed
+  }
+  await switchToIndexSet(context, picked.context);
+}
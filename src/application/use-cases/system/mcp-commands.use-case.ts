@@ -0,0 +1,34 @@
+import * as vscode from "vscode";
+import { getMcpAuthToken } from "../../../infrastructure/mcp/auth.js";
+import type { McpServerInstance } from "../../../infrastructure/mcp/types.js";
+import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
+import { ExtensionError } from "../../../shared/errors/errors.js";
+
+/**
+ * Client configuration in the "mcpServers" format understood by most MCP clients
+ */
+export function createMcpClientConfig(port: number, token: string): string {
+  const config = {
+    mcpServers: {
+      bazelbsp: {
+        type: "http",
+        url: `http://127.0.0.1:${port}/mcp`,
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    },
+  };
+  return JSON.stringify(config, null, 2);
+}
+
+export async function copyMcpClientConfigCommand(context: ExtensionContext, mcpInstance: McpServerInstance | null) {
+  const port = mcpInstance?.port;
+  if (!port) {
+    throw new ExtensionError("MCP server is not running, check the bazelbsp output for the startup error");
+  }
+
+  const token = await getMcpAuthToken(context);
+  await vscode.env.clipboard.writeText(createMcpClientConfig(port, token));
+  vscode.window.showInformationMessage(`✅ MCP client config for port ${port} copied to clipboard`);
+}
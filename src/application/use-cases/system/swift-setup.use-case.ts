@@ -1,10 +1,29 @@
 import { promises as fs } from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
 import * as vscode from "vscode";
+import {
+  findUnknownFlags,
+  getBspConfigTemplate,
+  getBspConfigVariables,
+  readSupportedFlags,
+  renderBspConfig,
+  validateBspConfig,
+} from "../../../infrastructure/bazel/bsp-config.js";
+import { getIndexedLabels } from "../../../infrastructure/bazel/bsp-index-sets.js";
+import { parseBspLogLine } from "../../../infrastructure/bazel/bsp-log-parser.js";
+import {
+  type BspSetupRuleCandidate,
+  type BspSetupRuleScope,
+  discoverSetupRules,
+} from "../../../infrastructure/bazel/bsp-setup-rules.js";
+import { recordBspSetup } from "../../../infrastructure/mcp/metrics.js";
 import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
 import { commonLogger } from "../../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../../shared/utils/bazel-utils.js";
 import { createDirectory, isFileExists, readJsonFile } from "../../../shared/utils/files.js";
 import { exec } from "../../../shared/utils/exec.js";
+import { showQuickPick } from "../../../shared/utils/quick-pick.js";
 
 /**
  * Setup Swift extension for optimal Bazel development
@@ -13,8 +32,9 @@ export async function setupSwiftExtensionCommand(context: ExtensionContext): Pro
   context.updateProgressStatus("Configuring Swift extension");
 
   try {
-    // Use workspace root folder for workspace-level settings
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    // Use the workspace folder of the active Bazel workspace for workspace-level settings
+    const bazelWorkspacePath = getWorkspacePath();
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(bazelWorkspacePath));
     if (!workspaceFolder) {
       throw new Error("No workspace folder found");
     }
@@ -48,7 +68,7 @@ export async function setupSwiftExtensionCommand(context: ExtensionContext): Pro
     await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2), "utf8");
 
     // Check if .bsp/ configuration exists
-    const bspDir = path.join(workspacePath, ".bsp");
+    const bspDir = path.join(bazelWorkspacePath, ".bsp");
     const hasBSPConfig = await isFileExists(bspDir);
 
     let message = `✅ Swift extension configured!\n\nWorkspace: ${workspaceFolder.name}\nBackground Indexing: ON\nSettings: .vscode/settings.json`;
@@ -131,115 +151,216 @@ export async function showSwiftConfigStatusCommand(context: ExtensionContext): P
   }
 }
 
+const SETUP_RULE_SCOPES: Record<BspSetupRuleScope, string> = {
+  target: "Selected target",
+  package: "Package",
+  root: "Workspace root",
+  other: "Other package",
+};
+
+// Remembered instead of a setup rule label when the config should be generated
+const GENERATED_CONFIG = "";
+
 /**
- * Setup BSP configuration for selected Bazel target
- *
- * This command tries to use the setup_sourcekit_bsp rule if available,
- * otherwise falls back to manual config generation.
+ * Setup rule to run for the selected target: the remembered choice, or one picked from the rules Bazel knows about
+ * Returns undefined when the config should be generated without a setup rule
  */
-export async function setupBSPConfigCommand(context: ExtensionContext): Promise<void> {
-  context.updateProgressStatus("Configuring Build Server Protocol");
+async function resolveSetupRule(
+  context: ExtensionContext,
+  selectedLabel: string | undefined,
+  options?: { chooseSetupRule?: boolean },
+): Promise<string | undefined> {
+  const targetKey = selectedLabel ?? "";
+  const rememberedRules = context.getWorkspaceState("bsp.setupRules") ?? {};
+  const remembered = rememberedRules[targetKey];
+  if (remembered !== undefined && !options?.chooseSetupRule) {
+    commonLogger.log("Using remembered BSP setup rule", { selectedLabel, setupRule: remembered || "generated config" });
+    return remembered || undefined;
+  }
 
+  let candidates: BspSetupRuleCandidate[] = [];
   try {
-    // Get workspace root
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      throw new Error("No workspace folder found");
-    }
+    context.updateProgressStatus("Discovering BSP setup rules");
+    candidates = await discoverSetupRules(selectedLabel, getWorkspacePath());
+  } catch (error) {
+    commonLogger.warn("Failed to discover BSP setup rules, generating the config instead", { error });
+  }
+  if (candidates.length === 0) {
+    return undefined;
+  }
 
-    const workspacePath = workspaceFolder.uri.fsPath;
-    const bspDir = path.join(workspacePath, ".bsp");
+  const picked = await showQuickPick<string>({
+    title: selectedLabel ? `Select BSP Setup Rule for ${selectedLabel}` : "Select BSP Setup Rule",
+    items: [
+      ...candidates.map((candidate, index) => ({
+        label: candidate.label,
+        description:
+          index === 0 ? `${SETUP_RULE_SCOPES[candidate.scope]} (recommended)` : SETUP_RULE_SCOPES[candidate.scope],
+        context: candidate.label,
+      })),
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      {
+        label: "Generate config for the selected target",
+        description: "Without a setup rule",
+        context: GENERATED_CONFIG,
+      },
+    ],
+  });
+  await context.updateWorkspaceState("bsp.setupRules", { ...rememberedRules, [targetKey]: picked.context });
+  return picked.context || undefined;
+}
 
-    // Determine which setup_sourcekit_bsp target to use
-    // Priority: 1. Target-specific rule, 2. Package generic rule, 3. Root rule
-    let setupTarget: string | null = null;
-    let usesBazelRule = false;
-
-    // First, check if selected target has target-specific or package-specific setup_sourcekit_bsp
-    const selectedTargetData = context.buildManager.getSelectedBazelTargetData();
-    if (selectedTargetData) {
-      // Extract package path from build label (e.g., "//Apps/MyApp:MyApp" -> "//Apps/MyApp")
-      const packagePath = selectedTargetData.buildLabel.substring(0, selectedTargetData.buildLabel.lastIndexOf(":"));
-      const targetName = selectedTargetData.targetName;
-
-      // Generate possible setup rule names by convention
-      const targetSpecificSetup = `${packagePath}:setup_${targetName.toLowerCase()}_bsp`;
-      const packageGenericSetup = `${packagePath}:setup_sourcekit_bsp`;
-
-      // Check if this package has setup rules
-      const packageBuildPath = path.join(selectedTargetData.packagePath, "BUILD.bazel");
-      const packageBuildAltPath = path.join(selectedTargetData.packagePath, "BUILD");
-
-      commonLogger.log("Checking for BSP setup rules", {
-        targetName,
-        packagePath: selectedTargetData.packagePath,
-        checkingPaths: [packageBuildPath, packageBuildAltPath],
-        lookingFor: [
-          `setup_${targetName.toLowerCase()}_bsp (target-specific)`,
-          `setup_sourcekit_bsp (package generic)`,
-        ],
-      });
+/**
+ * Forget the setup rule chosen for the selected target, so the next setup discovers and asks again
+ */
+async function forgetSetupRule(context: ExtensionContext, selectedLabel: string | undefined): Promise<void> {
+  const { [selectedLabel ?? ""]: _forgotten, ...rememberedRules } = context.getWorkspaceState("bsp.setupRules") ?? {};
+  await context.updateWorkspaceState("bsp.setupRules", rememberedRules);
+}
 
-      const packageBuildFile = (await isFileExists(packageBuildPath))
-        ? packageBuildPath
-        : (await isFileExists(packageBuildAltPath))
-          ? packageBuildAltPath
-          : null;
-
-      if (packageBuildFile) {
-        try {
-          const packageBuildContent = await fs.readFile(packageBuildFile, "utf8");
-
-          // Priority 1: Target-specific setup rule (e.g., setup_maatheusgois-dd_bsp)
-          const targetSpecificRuleName = `setup_${targetName.toLowerCase()}_bsp`;
-          if (packageBuildContent.includes(`name = "${targetSpecificRuleName}"`)) {
-            setupTarget = targetSpecificSetup;
-            usesBazelRule = true;
-            commonLogger.log(`✅ Found target-specific setup: ${setupTarget}`);
-            commonLogger.log("💡 This will index only the selected target (faster!)");
-          }
-          // Priority 2: Package generic setup rule (e.g., setup_sourcekit_bsp)
-          else if (packageBuildContent.includes("setup_sourcekit_bsp")) {
-            setupTarget = packageGenericSetup;
-            usesBazelRule = true;
-            commonLogger.log(`✅ Found package-generic setup: ${setupTarget}`);
-            commonLogger.log("💡 This will index all targets in the package");
-          }
-        } catch (error) {
-          commonLogger.warn("Failed to check package BUILD file", { error });
-        }
-      }
-    }
+/**
+ * Show the changes to an existing config in a diff editor and ask whether to overwrite it
+ * A config that was generated for the previous targets is replaced without asking
+ */
+async function confirmBspConfigOverwrite(
+  configPath: string,
+  content: string,
+  previousContent?: string,
+): Promise<boolean> {
+  if (!(await isFileExists(configPath))) {
+    return true;
+  }
+  const currentContent = await fs.readFile(configPath, "utf8");
+  if (currentContent.trim() === content.trim() || currentContent.trim() === previousContent?.trim()) {
+    return true;
+  }
 
-    // If no package-specific rule, check root BUILD file
-    if (!usesBazelRule) {
-      const rootBuildPath = path.join(workspacePath, "BUILD");
-      const rootBuildBazelPath = path.join(workspacePath, "BUILD.bazel");
-      const buildFilePath = (await isFileExists(rootBuildBazelPath))
-        ? rootBuildBazelPath
-        : (await isFileExists(rootBuildPath))
-          ? rootBuildPath
-          : null;
-
-      commonLogger.log("Checking for root setup_sourcekit_bsp", {
-        checkingPaths: [rootBuildBazelPath, rootBuildPath],
-      });
+  // Outside of the workspace, so the generated config is not picked up by the Swift extension
+  const generatedPath = path.join(os.tmpdir(), "bazelbsp", "skbsp.generated.json");
+  await createDirectory(path.dirname(generatedPath));
+  await fs.writeFile(generatedPath, content, "utf8");
+  await vscode.commands.executeCommand(
+    "vscode.diff",
+    vscode.Uri.file(configPath),
+    vscode.Uri.file(generatedPath),
+    "skbsp.json: Current ↔ Generated",
+  );
+
+  const action = await vscode.window.showInformationMessage(
+    ".bsp/skbsp.json already exists. Overwrite it with the generated config?",
+    "Accept",
+    "Reject",
+  );
+  return action === "Accept";
+}
 
-      if (buildFilePath) {
-        try {
-          const buildContent = await fs.readFile(buildFilePath, "utf8");
-          if (buildContent.includes("setup_sourcekit_bsp")) {
-            setupTarget = "//:setup_sourcekit_bsp";
-            usesBazelRule = true;
-            commonLogger.log("✅ Found root setup target: //:setup_sourcekit_bsp");
-          }
-        } catch (error) {
-          commonLogger.warn("Failed to read root BUILD file", { error });
-        }
-      }
+function renderBspConfigContent(labels: string[], workspacePath: string) {
+  const { config, unknownVariables } = renderBspConfig(
+    getBspConfigTemplate(),
+    labels.map((label) => getBspConfigVariables(label, workspacePath)),
+  );
+  return { config: config, unknownVariables: unknownVariables, content: `${JSON.stringify(config, null, 2)}\n` };
+}
+
+/**
+ * Generate .bsp/skbsp.json and the Bazel wrapper script of the active Bazel workspace for the given targets
+ * Problems of the config and changes to an existing config are confirmed first, returns whether it was written
+ */
+export async function writeGeneratedBspConfig(
+  labels: string[],
+  options?: { previousLabels?: string[] },
+): Promise<boolean> {
+  const workspacePath = getWorkspacePath();
+  const bspDir = path.join(workspacePath, ".bsp");
+  const configPath = path.join(bspDir, "skbsp.json");
+  const wrapperPath = path.join(bspDir, "bazel-wrapper.sh");
+
+  // Create .bsp directory
+  await createDirectory(bspDir);
+
+  // Generate BSP config from the template
+  const { config: bspConfig, unknownVariables, content } = renderBspConfigContent(labels, workspacePath);
+  const problems = [
+    ...unknownVariables.map((name) => `Unknown template variable \${${name}}`),
+    ...validateBspConfig(bspConfig),
+  ];
+  if (problems.length === 0) {
+    const supportedFlags = await readSupportedFlags(bspConfig.argv, workspacePath);
+    for (const flag of supportedFlags ? findUnknownFlags(bspConfig.argv, supportedFlags) : []) {
+      problems.push(`${flag} is not supported by the installed sourcekit-bazel-bsp`);
     }
+  }
+  if (problems.length > 0) {
+    commonLogger.warn("Generated BSP config has problems", { problems });
+    const action = await vscode.window.showWarningMessage(
+      `The generated BSP config has problems:\n\n${problems.map((problem) => `- ${problem}`).join("\n")}`,
+      { modal: true },
+      "Write Anyway",
+    );
+    if (action !== "Write Anyway") {
+      return false;
+    }
+  }
 
-    if (usesBazelRule && setupTarget) {
+  // Write config, an existing one is only replaced after reviewing the changes
+  const previousContent = options?.previousLabels?.length
+    ? renderBspConfigContent(options.previousLabels, workspacePath).content
+    : undefined;
+  if (!(await confirmBspConfigOverwrite(configPath, content, previousContent))) {
+    vscode.window.showInformationMessage("Kept the existing .bsp/skbsp.json");
+    return false;
+  }
+  await fs.writeFile(configPath, content, "utf8");
+
+  // Create bazel wrapper script
+  const wrapperScript = `#!/bin/bash
+# Bazel wrapper for sourcekit-bazel-bsp
+# Disables BuildBuddy BES to avoid permission errors
+
+# Extract the command (first argument) and pass BES flag after it
+if [ $# -gt 0 ]; then
+    cmd="$1"
+    shift
+    exec bazel "$cmd" --bes_backend= "$@"
+else
+    exec bazel "$@"
+fi
+`;
+
+  await fs.writeFile(wrapperPath, wrapperScript, "utf8");
+  await fs.chmod(wrapperPath, 0o755); // Make executable
+
+  commonLogger.log("Generated BSP config", { configPath, labels });
+  return true;
+}
+
+/**
+ * Setup BSP configuration for selected Bazel target
+ *
+ * Runs a setup rule (setup_sourcekit_bsp) found with bazel query, the choice is remembered per selected target.
+ * Without any setup rule the config is generated for the selected target from the `bsp.configTemplate` setting.
+ * With an active index set the config is always generated, for all targets of the set.
+ */
+export async function setupBSPConfigCommand(
+  context: ExtensionContext,
+  options?: { chooseSetupRule?: boolean },
+): Promise<void> {
+  context.updateProgressStatus("Configuring Build Server Protocol");
+  let setupMethod: "unknown" | "bazel_rule" | "generated" = "unknown";
+
+  // Outside of the try block, cancelling the picker cancels the command silently
+  const selectedTargetData = context.buildManager.getSelectedBazelTargetData();
+  const activeIndexSet = context.getWorkspaceState("bsp.activeIndexSet");
+  const setupTarget = activeIndexSet
+    ? undefined
+    : await resolveSetupRule(context, selectedTargetData?.buildLabel, options);
+
+  try {
+    // Root of the active Bazel workspace, the one of the selected target in multi-root windows
+    const workspacePath = getWorkspacePath();
+    const bspDir = path.join(workspacePath, ".bsp");
+
+    if (setupTarget) {
       // Use the proper Bazel command to generate config
       commonLogger.log("Using Bazel rule to generate BSP config", { setupTarget });
 
@@ -248,6 +369,7 @@ export async function setupBSPConfigCommand(context: ExtensionContext): Promise<
       const execAsync = promisify(exec);
 
       context.updateProgressStatus(`Running bazelisk run ${setupTarget}`);
+      setupMethod = "bazel_rule";
 
       try {
         const { stdout, stderr } = await execAsync(`bazelisk run ${setupTarget}`, {
@@ -282,6 +404,7 @@ export async function setupBSPConfigCommand(context: ExtensionContext): Promise<
         }
 
         message += "\n\n💡 Reload window to activate BSP";
+        recordBspSetup(setupMethod, "success");
 
         vscode.window.showInformationMessage(message, "Reload Window", "Open Config").then((selection) => {
           if (selection === "Reload Window") {
@@ -294,10 +417,13 @@ export async function setupBSPConfigCommand(context: ExtensionContext): Promise<
         return;
       } catch (execError: any) {
         commonLogger.error("Failed to run setup_sourcekit_bsp", { execError });
+        // The remembered rule may have been renamed or removed since it was chosen
+        await forgetSetupRule(context, selectedTargetData?.buildLabel);
         throw new Error(
           `Failed to run bazelisk run ${setupTarget}\n\n` +
             `Error: ${execError.message}\n\n` +
             `Make sure:\n` +
+            `- ${setupTarget} still exists, the setup rule is asked for again on the next setup\n` +
             `- setup_sourcekit_bsp rule is defined in BUILD\n` +
             `- *_ios_skbsp targets exist for your libraries`,
         );
@@ -306,71 +432,29 @@ export async function setupBSPConfigCommand(context: ExtensionContext): Promise<
 
     // Fallback: Manual config generation
     commonLogger.log("setup_sourcekit_bsp rule not found, using manual config generation");
+    setupMethod = "generated";
 
-    // Get selected target (already declared above, just verify it exists)
-    if (!selectedTargetData) {
+    // Targets of the active index set, or the selected target
+    const labels = getIndexedLabels(
+      context.getWorkspaceState("bsp.indexSets") ?? [],
+      activeIndexSet,
+      selectedTargetData?.buildLabel,
+    );
+    if (labels.length === 0) {
       throw new Error("No Bazel target selected.\n\n" + "Please select a Bazel target first from BAZEL TARGETS view.");
     }
 
-    // Create .bsp directory
-    await createDirectory(bspDir);
-
+    if (!(await writeGeneratedBspConfig(labels))) {
+      return;
+    }
     const configPath = path.join(bspDir, "skbsp.json");
-    const wrapperPath = path.join(bspDir, "bazel-wrapper.sh");
-
-    // Generate BSP config
-    const targetName = selectedTargetData.targetName;
-    const bspConfig = {
-      name: "sourcekit-bazel-bsp",
-      version: "0.2.0",
-      bspVersion: "2.2.0",
-      languages: ["c", "cpp", "objective-c", "objective-cpp", "swift"],
-      argv: [
-        ".bsp/sourcekit-bazel-bsp",
-        "serve",
-        "--target",
-        selectedTargetData.buildLabel,
-        "--bazel-wrapper",
-        "bazelisk",
-        "--build-test-suffix",
-        "_(PLAT)_skbsp",
-        "--build-test-platform-placeholder",
-        "(PLAT)",
-        "--index-build-batch-size",
-        "10",
-        "--index-flag",
-        "config=skbsp",
-        "--files-to-watch",
-        `${targetName}/**/*.swift,${targetName}/**/*.h,${targetName}/**/*.m`,
-      ],
-    };
-
-    // Write config
-    await fs.writeFile(configPath, JSON.stringify(bspConfig, null, 2), "utf8");
-
-    // Create bazel wrapper script
-    const wrapperScript = `#!/bin/bash
-# Bazel wrapper for sourcekit-bazel-bsp
-# Disables BuildBuddy BES to avoid permission errors
-
-# Extract the command (first argument) and pass BES flag after it
-if [ $# -gt 0 ]; then
-    cmd="$1"
-    shift
-    exec bazel "$cmd" --bes_backend= "$@"
-else
-    exec bazel "$@"
-fi
-`;
-
-    await fs.writeFile(wrapperPath, wrapperScript, "utf8");
-    await fs.chmod(wrapperPath, 0o755); // Make executable
 
     // Check if sourcekit-bazel-bsp binary exists
     const binaryPath = path.join(bspDir, "sourcekit-bazel-bsp");
     const hasBinary = await isFileExists(binaryPath);
 
-    let message = `✅ BSP configuration created!\n\nTarget: ${selectedTargetData.targetName}\nConfig: .bsp/skbsp.json\nWrapper: .bsp/bazel-wrapper.sh`;
+    const indexed = activeIndexSet ? `Index set: ${activeIndexSet} (${labels.length} targets)` : `Target: ${labels[0]}`;
+    let message = `✅ BSP configuration created!\n\n${indexed}\nConfig: .bsp/skbsp.json\nWrapper: .bsp/bazel-wrapper.sh`;
 
     if (!hasBinary) {
       message +=
@@ -384,6 +468,7 @@ fi
     }
 
     message += "\n\n💡 Reload window to activate BSP";
+    recordBspSetup(setupMethod, "success");
 
     vscode.window
       .showInformationMessage(message, "Reload Window", hasBinary ? "Open Config" : "Download Binary")
@@ -399,7 +484,13 @@ fi
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     commonLogger.error("Failed to setup BSP config", { error });
-    vscode.window.showErrorMessage(`Failed to setup BSP: ${errorMsg}`);
+    recordBspSetup(setupMethod, "failure");
+    const actions = setupMethod === "bazel_rule" ? ["Select BSP Setup Rule"] : [];
+    vscode.window.showErrorMessage(`Failed to setup BSP: ${errorMsg}`, ...actions).then((selection) => {
+      if (selection === "Select BSP Setup Rule") {
+        vscode.commands.executeCommand("bazelbsp.system.selectBSPSetupRule");
+      }
+    });
   }
 }
 
@@ -458,15 +549,14 @@ export async function monitorBSPLogsCommand(_context: ExtensionContext): Promise
     logProcess.stdout.on("data", (data: Buffer) => {
       const lines = data.toString().split("\n");
       for (const line of lines) {
-        if (line.trim()) {
-          // Color code based on log level
-          if (line.includes("error") || line.includes("Error") || line.includes("ERROR")) {
-            commonLogger.error(`[BSP] ${line.trim()}`);
-          } else if (line.includes("warning") || line.includes("Warning") || line.includes("WARN")) {
-            commonLogger.warn(`[BSP] ${line.trim()}`);
-          } else {
-            commonLogger.log(`[BSP] ${line.trim()}`);
-          }
+        // Color code based on the log type of the line, not on words in the message
+        const entry = parseBspLogLine(line);
+        if (entry?.level === "error") {
+          commonLogger.error(`[BSP] ${line.trim()}`);
+        } else if (entry?.level === "warning") {
+          commonLogger.warn(`[BSP] ${line.trim()}`);
+        } else if (entry) {
+          commonLogger.log(`[BSP] ${line.trim()}`);
         }
       }
     });
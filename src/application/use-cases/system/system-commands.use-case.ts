@@ -1,9 +1,11 @@
 import * as vscode from "vscode";
 import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
+import { cacheManager } from "../../../shared/utils/cache-manager.js";
 
 export async function resetbazelbspCache(context: ExtensionContext) {
   context.updateProgressStatus("Resetting bazelbsp cache");
   context.resetWorkspaceState();
+  await cacheManager.clearCache();
   vscode.window.showInformationMessage("✅ bazelbsp cache has been reset");
 }
 
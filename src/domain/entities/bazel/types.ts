@@ -7,6 +7,17 @@ export enum BuildMode {
 
 export type BuildModeString = "debug" | "release" | "release-with-symbols";
 
+// Named set of Bazel flags from the `bazel.buildProfiles` setting
+export interface BazelBuildProfile {
+  configs?: string[]; // Expanded to --config=<name>
+  flags?: string[]; // Extra build flags, appended after the built-in ones
+  env?: Record<string, string>; // Environment variables for the bazel process
+  startupOptions?: string[]; // Placed before the `build` command (e.g. --output_base=...)
+  targets?: string[]; // Label patterns the profile applies to (//pkg:name, //pkg:*, //pkg/...)
+  buildModes?: BuildModeString[]; // Build modes the profile applies to
+  inheritDefaults?: boolean; // Keep built-in platform and build mode flags (default: true)
+}
+
 // Types for Bazel query-based parser output
 export interface BazelQueryTarget {
   type: string; // Rule type (ios_application, swift_library, etc.)
@@ -32,6 +43,263 @@ export interface BazelQueryResult {
     total: number;
   };
   tree: BazelTreeNode;
+  source?: BazelDiscoverySource; // Backend that produced this result
+  topLevelParents?: Record<string, string[]>; // Target label -> top-level app labels that depend on it
+  ruleKinds?: Record<string, string>; // Target label -> rule kind (ios_application, swift_library, etc.)
+}
+
+// Filter of the BAZEL TARGETS view: fuzzy text on label, rule kind and package, and the categories to show
+export interface BazelTargetFilter {
+  text: string;
+  categories: (keyof BazelTargetCategory)[];
+}
+
+// Backends available for target discovery
+export type BazelDiscoverySource = "query" | "graphReport";
+
+// Category a rule kind is sorted into ("ignore" hides it from the tree)
+export type BazelTargetClassification = "runnable" | "test" | "buildable" | "ignore";
+
+// Types for the sourcekit-bazel-bsp graph report
+export interface BazelGraphReportTarget {
+  label: string; // Full target label (//HelloWorld:HelloWorldLib)
+  kind?: string; // Rule kind (swift_library, ios_application, ...)
+  ruleType?: string; // Alternative key for the rule kind used by some report versions
+  parents?: string[]; // Top-level targets this dependency belongs to
+  topLevelParent?: string; // Single-parent form of `parents`
+}
+
+export interface BazelGraphReport {
+  topLevelTargets?: BazelGraphReportTarget[];
+  dependencyTargets?: BazelGraphReportTarget[];
+}
+
+// Types for Build Event Protocol (BEP) ingestion
+export type BazelTestStatus =
+  | "PASSED"
+  | "FLAKY"
+  | "TIMEOUT"
+  | "FAILED"
+  | "INCOMPLETE"
+  | "REMOTE_FAILURE"
+  | "FAILED_TO_BUILD"
+  | "TOOL_HALTED_BEFORE_TESTING"
+  | "NO_STATUS";
+
+export type BazelBuildEvent =
+  | { type: "started"; command: string; startTimeMillis: number }
+  | { type: "progress"; stdout: string; stderr: string }
+  | { type: "targetConfigured"; label: string; kind?: string }
+  | {
+      type: "actionFailed";
+      label?: string;
+      mnemonic?: string;
+      exitCode?: number;
+      primaryOutput?: string;
+      stderrPath?: string; // Local file holding the action's stderr (compiler output)
+      message?: string;
+    }
+  | { type: "targetCompleted"; label: string; success: boolean; outputFiles: string[] }
+  | {
+      type: "testResult";
+      label: string;
+      status: BazelTestStatus;
+      durationMillis: number;
+      run: number;
+      shard: number;
+      attempt: number;
+      cached: boolean;
+      testLogPath?: string;
+      testXmlPath?: string;
+    }
+  | { type: "testSummary"; label: string; status: BazelTestStatus; totalRunCount: number; durationMillis: number }
+  | { type: "buildFinished"; success: boolean; exitCode?: string; finishTimeMillis: number }
+  | { type: "buildMetrics"; metrics: BazelBuildMetrics };
+
+export interface BazelBuildMetrics {
+  actionsCreated: number;
+  actionsExecuted: number;
+  remoteCacheHits: number; // Actions served by a remote cache
+  diskCacheHits: number; // Actions served by the disk cache
+  actionCacheHits: number; // Local action cache hits (actions that did not need to run at all)
+  actionCacheMisses: number;
+  criticalPathMillis?: number; // Only reported by Bazel 7 and newer
+}
+
+export interface BazelBuildSummary {
+  command?: string;
+  success?: boolean;
+  exitCode?: string;
+  durationMillis?: number;
+  targets: { label: string; success: boolean; outputFiles: string[] }[];
+  failedActions: Extract<BazelBuildEvent, { type: "actionFailed" }>[];
+  tests: { label: string; status: BazelTestStatus; durationMillis: number; cached: boolean }[];
+  metrics?: BazelBuildMetrics;
+}
+
+// Test case parsed from a JUnit test.xml written by the test runner (bazel-testlogs/**/test.xml)
+export interface BazelTestCaseResult {
+  name: string; // Test method or Swift Testing function (testExample, example())
+  className?: string; // Test class or suite, may include the module (MyTests.ExampleTests)
+  status: "passed" | "failed" | "skipped";
+  durationMillis?: number;
+  message?: string; // Failure message and output
+  location?: { file: string; line: number; column?: number }; // Where the failure was reported
+}
+
+// Outcome of a test case in one run (or retry attempt), kept in the per-workspace test history
+export interface BazelTestHistoryRun {
+  status: BazelTestCaseResult["status"];
+  durationMillis?: number;
+  commit?: string; // git HEAD at the time of the run
+  timestamp: number;
+}
+
+export interface BazelTestCaseHistory {
+  label: string; // Bazel test target
+  className?: string;
+  name: string;
+  runs: BazelTestHistoryRun[]; // Oldest first
+}
+
+// One build, test, run or debug invocation kept for the build analytics dashboard
+export interface BazelBuildRecord {
+  command: "build" | "test" | "run" | "debug";
+  label: string;
+  buildMode?: BuildModeString;
+  destination?: string; // Destination label, e.g. "iPhone 16 Pro"
+  timestamp: number; // Start time
+  durationMillis: number;
+  success: boolean;
+  criticalPathMillis?: number; // From the Build Event Protocol, when Bazel reported it
+}
+
+// Action from a JSON trace profile written with `--profile`
+export interface BazelTraceProfileAction {
+  description: string; // e.g. "Compiling Swift module //Libs/Core:Core"
+  mnemonic?: string; // Reported by Bazel 6 and newer
+  target?: string;
+  durationMillis: number;
+}
+
+// Summary of a JSON trace profile, what would otherwise need chrome://tracing
+export interface BazelTraceProfileSummary {
+  totalMillis: number;
+  analysisMillis: number; // Loading and analysis phases
+  executionMillis: number; // "Build artifacts" phase
+  phases: { name: string; durationMillis: number }[];
+  criticalPath: { totalMillis: number; components: BazelTraceProfileAction[] };
+  actionCount: number;
+  slowestActions: BazelTraceProfileAction[];
+  remote: { category: string; count: number; totalMillis: number }[]; // Remote cache and execution time per category
+}
+
+// Line and branch coverage of one source file, parsed from the LCOV report of `bazel coverage`
+export interface BazelCoverageFile {
+  path: string; // Absolute path in the workspace
+  lines: { line: number; hits: number }[];
+  branches: { line: number; block: number; branch: number; taken: number }[];
+}
+
+export interface BazelCoverageSummary {
+  linesFound: number;
+  linesHit: number;
+  branchesFound: number;
+  branchesHit: number;
+}
+
+// BSP connection file (.bsp/skbsp.json) the Swift extension starts sourcekit-bazel-bsp from
+export interface BspConfig {
+  name: string;
+  version: string;
+  bspVersion: string;
+  languages: string[];
+  argv: string[]; // Binary, subcommand (serve) and its flags
+}
+
+// Named group of targets indexed together, e.g. an app with its extensions and tests
+export interface BspIndexSet {
+  name: string;
+  labels: string[];
+}
+
+// Line of a sourcekit-bazel-bsp log, from `log stream`/`log show` or any captured text
+export interface BspLogEntry {
+  timestamp?: number; // Missing for lines without a timestamp
+  level: "debug" | "info" | "warning" | "error";
+  category?: string; // os_log category, e.g. BSPServer
+  message: string;
+  line: string; // Raw line
+}
+
+export type BspErrorKind = "compiler" | "config" | "connection" | "bazel" | "other";
+
+export interface BspErrorGroup {
+  kind: BspErrorKind;
+  count: number;
+  lastMessage: string;
+  lastTimestamp?: number;
+  lines: string[]; // Most recent lines of the kind
+}
+
+// Build sourcekit-bazel-bsp runs to index the targets
+export interface BspIndexBuild {
+  status: "running" | "succeeded" | "failed";
+  startTimestamp?: number;
+  durationMillis?: number;
+  failure?: string;
+  lines: string[]; // Log from the start to the end of the build
+}
+
+export interface BspHealthState {
+  serverStartTimestamp?: number; // Last server start found in the log
+  configPath?: string; // Config the server reported loading
+  targets: string[]; // Targets the server reported indexing
+  batch?: { current: number; total: number }; // Indexing batch in progress
+  currentBuild?: BspIndexBuild;
+  lastBuild?: BspIndexBuild; // Last finished build
+  errors: BspErrorGroup[]; // Most recent kind first
+}
+
+// Request sent to the build server by the built-in BSP client
+export interface BspDiagnosticsStep {
+  method: string; // build/initialize, workspace/buildTargets, ...
+  status: "ok" | "failed" | "skipped";
+  durationMillis?: number;
+  error?: string; // Why it failed or was skipped
+}
+
+export interface BspDiagnosticsTarget {
+  uri: string; // BuildTargetIdentifier, a Bazel label for sourcekit-bazel-bsp
+  displayName?: string;
+  languageIds: string[];
+  sources: { uri: string; directory: boolean }[];
+}
+
+// What the build server started from .bsp/skbsp.json answered, without SourceKit-LSP in between
+export interface BspDiagnosticsReport {
+  argv: string[];
+  server?: { name: string; version: string; bspVersion: string };
+  steps: BspDiagnosticsStep[];
+  targets: BspDiagnosticsTarget[];
+  activeFile?: {
+    path: string;
+    target?: string; // Target whose sources contain the file
+    compilerArguments?: string[];
+    workingDirectory?: string;
+  };
+  messages: string[]; // build/logMessage and build/showMessage notifications
+  stderr: string; // End of the server's stderr
+}
+
+// Attribute value of a rule from `bazel query --output=xml` (lists of labels, strings, ... become string[])
+export type BazelAttributeValue = string | number | boolean | string[];
+
+export interface BazelRuleInfo {
+  label: string;
+  kind: string; // Rule class (swift_library, ios_unit_test, ...)
+  location?: string; // "/path/to/BUILD.bazel:12:14"
+  attributes: Record<string, BazelAttributeValue>; // Only attributes set explicitly in the BUILD file
 }
 
 // Target type enum
@@ -1,9 +1,12 @@
 import * as vscode from "vscode";
 
+import { BspHealthManager } from "./application/services/bsp-health-manager.service.js";
+import { BuildAnalyticsManager } from "./application/services/build-analytics-manager.service.js";
 import { BuildManager } from "./application/services/build-manager.service.js";
 import { DestinationsManager } from "./application/services/destination-manager.service.js";
 import { DevicesManager } from "./application/services/device-manager.service.js";
 import { SimulatorsManager } from "./application/services/simulator-manager.service.js";
+import { TestHistoryManager } from "./application/services/test-history-manager.service.js";
 import { ToolsManager } from "./application/services/tools-manager.service.js";
 // Application Layer
 import {
@@ -16,12 +19,26 @@ import {
   bazelTestCommand,
   buildSelectedBazelTargetCommand,
   diagnoseBuildSetupCommand,
+  rerunFailedTestsCommand,
   runSelectedBazelTargetCommand,
   selectBazelBuildModeCommand,
+  selectBazelBuildProfileCommand,
+  selectBazelWorkspaceCommand,
   selectBazelTargetCommand,
   testSelectedBazelTargetCommand,
 } from "./application/use-cases/bazel/bazel-commands.use-case.js";
+import { exportBuildAnalyticsCommand } from "./application/use-cases/bazel/build-analytics-commands.use-case.js";
+import {
+  buildWithTraceProfileCommand,
+  exportTraceProfileCommand,
+  showTraceProfileCommand,
+} from "./application/use-cases/bazel/trace-profile-commands.use-case.js";
 import { getAppPathCommand } from "./application/use-cases/bazel/debug-commands.use-case.js";
+import {
+  filterTargetCategoriesCommand,
+  filterTargetsCommand,
+  findTargetCommand,
+} from "./application/use-cases/bazel/target-search-commands.use-case.js";
 import {
   removeRecentDestinationCommand,
   selectDestinationForBuildCommand,
@@ -33,33 +50,54 @@ import {
   stopSimulatorCommand,
   takeSimulatorScreenshotCommand,
 } from "./application/use-cases/destination/simulator-commands.use-case.js";
+import {
+  diagnoseBspServerCommand,
+  openBspLogCommand,
+  restartBspServerCommand,
+} from "./application/use-cases/system/bsp-health-commands.use-case.js";
+import {
+  addToBspIndexSetCommand,
+  editBspIndexSetCommand,
+  switchBspIndexSetCommand,
+} from "./application/use-cases/system/bsp-index-sets.use-case.js";
 import {
   setupBSPConfigCommand,
   setupSwiftExtensionCommand,
   showSwiftConfigStatusCommand,
   monitorBSPLogsCommand,
 } from "./application/use-cases/system/swift-setup.use-case.js";
+import { copyMcpClientConfigCommand } from "./application/use-cases/system/mcp-commands.use-case.js";
 import { openTerminalPanel, resetbazelbspCache } from "./application/use-cases/system/system-commands.use-case.js";
 import { installToolCommand, openDocumentationCommand } from "./application/use-cases/tools/tools-commands.use-case.js";
 
+import { getMcpAuthToken } from "./infrastructure/mcp/auth.js";
 import { createMcpServer } from "./infrastructure/mcp/mcp-server.js";
 import type { McpServerInstance } from "./infrastructure/mcp/types.js";
+import { BuildFileWatcher } from "./infrastructure/vscode/build-file-watcher.js";
 import { registerDebugConfigurationProvider } from "./infrastructure/vscode/debug/debug-provider.js";
 // Infrastructure Layer
 import { ExtensionContext } from "./infrastructure/vscode/extension-context.js";
 import { BazelBuildTaskProvider } from "./infrastructure/vscode/task-provider.js";
+import { BazelTestController } from "./infrastructure/vscode/test-controller.js";
 
+import { BspIndexSetStatusBar } from "./presentation/status-bars/bsp-index-set-status-bar.js";
 import { BuildModeStatusBar } from "./presentation/status-bars/build-mode-status-bar.js";
 // Presentation Layer
 import { BazelTargetStatusBar } from "./presentation/status-bars/build-status-bar.js";
 import { DestinationStatusBar } from "./presentation/status-bars/destination-status-bar.js";
 import { ProgressStatusBar } from "./presentation/status-bars/progress-status-bar.js";
 import { BazelTreeProvider } from "./presentation/tree-providers/bazel-tree.provider.js";
+import { BspHealthTreeProvider } from "./presentation/tree-providers/bsp-health-tree.provider.js";
 import { DestinationsTreeProvider } from "./presentation/tree-providers/destination-tree.provider.js";
+import { TestHistoryTreeProvider } from "./presentation/tree-providers/test-history-tree.provider.js";
 import { ToolTreeProvider } from "./presentation/tree-providers/tools-tree.provider.js";
+import { BuildAnalyticsPanel } from "./presentation/webviews/build-analytics-panel.js";
+import { TraceProfilePanel } from "./presentation/webviews/trace-profile-panel.js";
 
 // Shared Layer
 import { Logger, commonLogger } from "./shared/logger/logger.js";
+import { cacheManager } from "./shared/utils/cache-manager.js";
+import { getWorkspaceConfig } from "./shared/utils/config.js";
 
 // Keep track of the server instance
 let mcpInstance: McpServerInstance | null = null;
@@ -84,6 +122,8 @@ export async function activate(context: vscode.ExtensionContext) {
       devicesManager: devicesManager,
     });
     const toolsManager = new ToolsManager();
+    const testHistoryManager = new TestHistoryManager();
+    const buildAnalyticsManager = new BuildAnalyticsManager();
     const progressStatusBar = new ProgressStatusBar();
 
     // Main context object 🌍
@@ -92,15 +132,21 @@ export async function activate(context: vscode.ExtensionContext) {
       destinationsManager: destinationsManager,
       buildManager: buildManager,
       toolsManager: toolsManager,
+      testHistoryManager: testHistoryManager,
+      buildAnalyticsManager: buildAnalyticsManager,
       progressStatusBar: progressStatusBar,
     });
 
     // Here is circular dependency, but I don't care
     // Initialize buildManager with proper cache loading
     await buildManager.initializeWithContext(_context);
+    testHistoryManager.initializeWithContext(_context);
+    buildAnalyticsManager.initializeWithContext(_context);
     devicesManager.context = _context;
     destinationsManager.context = _context;
     progressStatusBar.context = _context;
+    // Before the target tree, it shows the cached targets right away
+    await cacheManager.setContext(_context);
 
     // Trees 🎄
     const toolsTreeProvider = new ToolTreeProvider({
@@ -109,7 +155,13 @@ export async function activate(context: vscode.ExtensionContext) {
     const destinationsTreeProvider = new DestinationsTreeProvider({
       manager: destinationsManager,
     });
-    const bazelQueryTreeProvider = new BazelTreeProvider(buildManager);
+    const bazelQueryTreeProvider = new BazelTreeProvider(buildManager, _context.coverage);
+    buildManager.setTargetsSource(bazelQueryTreeProvider);
+    const buildFileWatcher = new BuildFileWatcher();
+    buildFileWatcher.onDidChangeBuildFiles((files) => void bazelQueryTreeProvider.applyBuildFileChanges(files));
+    const testHistoryTreeProvider = new TestHistoryTreeProvider({
+      manager: testHistoryManager,
+    });
 
     // Shortcut to push disposable to context.subscriptions
     const d = _context.disposable.bind(_context);
@@ -127,6 +179,7 @@ export async function activate(context: vscode.ExtensionContext) {
       context: _context,
     });
     d(bazelTargetStatusBar);
+    d(buildFileWatcher);
 
     // Connect status bar to build manager for updates
     buildManager.on("selectedBazelTargetUpdated", () => {
@@ -142,7 +195,13 @@ export async function activate(context: vscode.ExtensionContext) {
     // Internal command to update build mode status bar
     d(command("bazelbsp.internal.updateBuildModeStatusBar", async () => buildModeStatusBar.update()));
 
-    d(tree("bazelbsp.view.bazelQuery", bazelQueryTreeProvider));
+    // Several targets can be selected to add them to a BSP index set
+    d(
+      vscode.window.createTreeView("bazelbsp.view.bazelQuery", {
+        treeDataProvider: bazelQueryTreeProvider,
+        canSelectMany: true,
+      }),
+    );
     d(command("bazelbsp.build.refreshView", async () => buildManager.refresh()));
     d(command("bazelbsp.build.diagnoseSetup", diagnoseBuildSetupCommand));
     d(command("bazelbsp.bazel.build", bazelBuildCommand));
@@ -153,6 +212,8 @@ export async function activate(context: vscode.ExtensionContext) {
     d(command("bazelbsp.bazel.clean", bazelCleanCommand));
     d(command("bazelbsp.bazel.cleanExpunge", bazelCleanExpungeCommand));
     d(command("bazelbsp.bazel.selectBuildMode", selectBazelBuildModeCommand));
+    d(command("bazelbsp.bazel.selectBuildProfile", selectBazelBuildProfileCommand));
+    d(command("bazelbsp.bazel.selectWorkspace", selectBazelWorkspaceCommand));
     d(
       command("bazelbsp.bazel.selectTarget", (context, targetInfo) =>
         selectBazelTargetCommand(context, targetInfo, bazelQueryTreeProvider),
@@ -162,9 +223,45 @@ export async function activate(context: vscode.ExtensionContext) {
     d(command("bazelbsp.bazel.testSelected", () => testSelectedBazelTargetCommand(_context, bazelQueryTreeProvider)));
     d(command("bazelbsp.bazel.runSelected", () => runSelectedBazelTargetCommand(_context, bazelQueryTreeProvider)));
 
+    // Test Explorer
+    d(new BazelTestController({ context: _context, treeProvider: bazelQueryTreeProvider }));
+
+    // Test history
+    d(tree("bazelbsp.testing.historyView", testHistoryTreeProvider));
+    d(command("bazelbsp.testing.refreshHistory", async () => testHistoryTreeProvider.refresh()));
+    d(command("bazelbsp.testing.rerunFailed", rerunFailedTestsCommand));
+    d(command("bazelbsp.testing.clearHistory", async () => testHistoryManager.clear()));
+    d(command("bazelbsp.testing.clearCoverage", async () => _context.coverage.clear()));
+
+    // Build analytics
+    const buildAnalyticsPanel = new BuildAnalyticsPanel({ manager: buildAnalyticsManager });
+    d(buildAnalyticsPanel);
+    d(command("bazelbsp.analytics.show", async () => buildAnalyticsPanel.show()));
+    d(command("bazelbsp.analytics.export", exportBuildAnalyticsCommand));
+    d(command("bazelbsp.analytics.clear", async () => buildAnalyticsManager.clear()));
+
+    // Trace profiles
+    const traceProfilePanel = new TraceProfilePanel();
+    d(traceProfilePanel);
+    d(
+      command("bazelbsp.bazel.buildWithTraceProfile", (context) =>
+        buildWithTraceProfileCommand(context, traceProfilePanel),
+      ),
+    );
+    d(command("bazelbsp.bazel.showTraceProfile", (context) => showTraceProfileCommand(context, traceProfilePanel)));
+    d(command("bazelbsp.bazel.exportTraceProfile", exportTraceProfileCommand));
+
     // Bazel query tree commands
     d(command("bazelbsp.bazelQuery.refresh", async () => bazelQueryTreeProvider.refresh()));
     d(command("bazelbsp.bazelQuery.clearRecents", async () => bazelQueryTreeProvider.clearRecents()));
+    d(command("bazelbsp.bazelQuery.findTarget", (context) => findTargetCommand(context, bazelQueryTreeProvider)));
+    d(command("bazelbsp.bazelQuery.filter", (context) => filterTargetsCommand(context, bazelQueryTreeProvider)));
+    d(
+      command("bazelbsp.bazelQuery.filterCategories", (context) =>
+        filterTargetCategoriesCommand(context, bazelQueryTreeProvider),
+      ),
+    );
+    d(command("bazelbsp.bazelQuery.clearFilter", async () => bazelQueryTreeProvider.clearFilter()));
 
     // Debugging
     d(registerDebugConfigurationProvider(_context));
@@ -198,6 +295,22 @@ export async function activate(context: vscode.ExtensionContext) {
       context: _context,
     });
     d(destinationBar);
+
+    // BSP index set status bar
+    const bspIndexSetStatusBar = new BspIndexSetStatusBar({
+      context: _context,
+    });
+    d(bspIndexSetStatusBar);
+    d(command("bazelbsp.internal.updateIndexSetStatusBar", async () => bspIndexSetStatusBar.update()));
+
+    // Build mode, destination, index sets, test history and build analytics are kept per Bazel workspace
+    buildManager.on("activeWorkspaceUpdated", () => {
+      buildModeStatusBar.update();
+      destinationBar.update();
+      bspIndexSetStatusBar.update();
+      testHistoryTreeProvider.refresh();
+      buildAnalyticsPanel.update();
+    });
     d(command("bazelbsp.destinations.select", selectDestinationForBuildCommand));
     d(command("bazelbsp.destinations.removeRecent", removeRecentDestinationCommand));
     d(
@@ -225,8 +338,40 @@ export async function activate(context: vscode.ExtensionContext) {
     d(command("bazelbsp.system.openTerminalPanel", openTerminalPanel));
     d(command("bazelbsp.system.setupSwiftExtension", setupSwiftExtensionCommand));
     d(command("bazelbsp.system.showSwiftConfigStatus", showSwiftConfigStatusCommand));
-    d(command("bazelbsp.system.setupBSPConfig", setupBSPConfigCommand));
+    d(command("bazelbsp.system.setupBSPConfig", (context) => setupBSPConfigCommand(context)));
+    d(
+      command("bazelbsp.system.selectBSPSetupRule", (context) =>
+        setupBSPConfigCommand(context, { chooseSetupRule: true }),
+      ),
+    );
+    d(command("bazelbsp.system.switchBSPIndexSet", switchBspIndexSetCommand));
+    d(command("bazelbsp.system.addToBSPIndexSet", addToBspIndexSetCommand));
+    d(command("bazelbsp.system.editBSPIndexSet", editBspIndexSetCommand));
     d(command("bazelbsp.system.monitorBSPLogs", monitorBSPLogsCommand));
+
+    // BSP health, the server and its log are only watched while the view is visible
+    const bspHealthManager = new BspHealthManager();
+    d(bspHealthManager);
+    const bspHealthView = vscode.window.createTreeView("bazelbsp.bsp.healthView", {
+      treeDataProvider: new BspHealthTreeProvider({ manager: bspHealthManager }),
+    });
+    d(bspHealthView);
+    d(
+      bspHealthView.onDidChangeVisibility(({ visible }) => {
+        if (visible) {
+          void bspHealthManager.start();
+        } else {
+          bspHealthManager.stop();
+        }
+      }),
+    );
+    if (bspHealthView.visible) {
+      void bspHealthManager.start();
+    }
+    d(command("bazelbsp.system.refreshBSPHealth", async () => bspHealthManager.refresh()));
+    d(command("bazelbsp.system.restartBSPServer", (context) => restartBspServerCommand(context, bspHealthManager)));
+    d(command("bazelbsp.system.openBSPLog", (context, slice) => openBspLogCommand(context, bspHealthManager, slice)));
+    d(command("bazelbsp.system.diagnoseBSPServer", diagnoseBspServerCommand));
     d(
       command("bazelbsp.system.cancelCurrentOperation", async (_context) => {
         progressStatusBar.cancelCurrentOperation();
@@ -234,32 +379,31 @@ export async function activate(context: vscode.ExtensionContext) {
     );
 
     // --- MCP Server Setup ---
+    d(command("bazelbsp.mcp.copyClientConfig", (context) => copyMcpClientConfigCommand(context, mcpInstance)));
+
     commonLogger.log("Starting MCP Server setup...");
     try {
       mcpInstance = createMcpServer(
         {
           name: "bazelbspCommandRunner",
           version: context.extension.packageJSON.version,
-          port: 61333,
+          port: getWorkspaceConfig("mcp.port") ?? 61333,
+          authToken: await getMcpAuthToken(_context),
         },
         _context,
       );
 
       // Start the server
-      await mcpInstance.start();
-      commonLogger.log("MCP Server setup complete and started.");
+      const port = await mcpInstance.start();
+      commonLogger.log(`MCP Server setup complete and started on port ${port}.`);
 
       // Disposal
       context.subscriptions.push({
         dispose: () => {
           commonLogger.log("Disposing MCP Server subscription...");
-          if (mcpInstance?.server) {
-            try {
-              mcpInstance.server.close();
-            } catch (_e) {
-              /* log error */
-            }
-          }
+          mcpInstance?.stop().catch((error) => {
+            commonLogger.error("Failed to stop MCP Server", { error });
+          });
           mcpInstance = null;
         },
       });
@@ -5,13 +5,25 @@
  * across different commands (build, run, debug).
  */
 
-import { BuildMode, type BuildModeString } from "../../domain/entities/bazel/types.js";
+import { quote } from "shell-quote";
+import {
+  type BazelBuildEvent,
+  type BazelBuildSummary,
+  BuildMode,
+  type BuildModeString,
+} from "../../domain/entities/bazel/types.js";
 import type { DeviceDestination } from "../../domain/entities/destination/device-types.js";
 import type { SimulatorDestination } from "../../domain/entities/destination/simulator-types.js";
 import type { BazelTreeItem } from "../../presentation/tree-providers/export.provider.js";
 import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import { getWorkspaceConfig } from "../../shared/utils/config.js";
 import type { TaskTerminal } from "../../shared/utils/tasks.js";
+import { recordBuildMetrics } from "../mcp/metrics.js";
 import type { ExtensionContext } from "../vscode/extension-context.js";
+import { BuildEventStream, formatBuildSummary } from "./build-event-stream.js";
+import { type ResolvedBuildProfile, getBuildArgs, resolveBuildProfile } from "./build-profiles.js";
+import { createTraceProfilePath, formatTraceProfileSummary, readTraceProfile } from "./trace-profile.js";
 
 export interface BazelBuildOptions {
   /** Bazel target to build */
@@ -20,28 +32,112 @@ export interface BazelBuildOptions {
   destination: SimulatorDestination | DeviceDestination;
   /** Build mode */
   buildMode?: BuildModeString;
+  /** Additional flags appended after the built-in and profile flags */
+  extraFlags?: string[];
   /** Terminal for output */
   terminal: TaskTerminal;
   /** Extension context */
   context: ExtensionContext;
+  /** Called for every Build Event Protocol event while the build runs */
+  onBuildEvent?: (event: BazelBuildEvent) => void;
+  /** Write a JSON trace profile (`--profile`) and summarize it, defaults to the `bazel.traceProfile` setting */
+  traceProfile?: boolean;
+}
+
+const IOS_SIMULATOR_PLATFORM_FLAGS = ["--platforms=@build_bazel_apple_support//platforms:ios_sim_arm64"];
+const IOS_DEVICE_PLATFORM_FLAGS = ["--ios_multi_cpus=arm64"];
+
+/**
+ * Built-in platform flags for a destination
+ */
+export function getPlatformFlags(destination: SimulatorDestination | DeviceDestination): string[] {
+  if (destination.type === "iOSSimulator") {
+    return IOS_SIMULATOR_PLATFORM_FLAGS;
+  }
+  if (destination.type === "iOSDevice") {
+    return IOS_DEVICE_PLATFORM_FLAGS;
+  }
+  throw new Error(
+    `Unsupported destination type for build.\nType: ${(destination as { type: string }).type}\n\nCurrently supported:\n- iOSSimulator\n- iOSDevice\n\nPlease select an iOS simulator or device from the DESTINATIONS view.`,
+  );
+}
+
+/**
+ * Built-in flags for a build mode
+ */
+export function getBuildModeFlags(buildMode: BuildModeString): string[] {
+  if (buildMode === BuildMode.Debug) {
+    // Check if we should enable BSP indexing in debug builds
+    const enableIndexingInDebug = getWorkspaceConfig("build.enableIndexingInDebug") !== false; // Default: true
+
+    if (enableIndexingInDebug) {
+      // Use skbsp config which includes indexing + debug flags
+      return [
+        "--apple_generate_dsym=true", // Generate dSYM for debugging
+        "--objc_generate_linkmap=true", // Generate linkmap for debugging
+      ];
+    }
+    // Legacy behavior - no indexing
+    return [
+      "--compilation_mode=dbg",
+      "--copt=-g",
+      "--strip=never",
+      "--apple_generate_dsym=true", // Generate dSYM for debugging
+      "--objc_generate_linkmap=true", // Generate linkmap for debugging
+    ];
+  }
+
+  if (buildMode === BuildMode.ReleaseWithSymbols) {
+    return [
+      "--compilation_mode=opt",
+      "--copt=-g",
+      "--strip=never",
+      "--apple_generate_dsym=true", // Generate dSYM
+    ];
+  }
+
+  // release mode - no additional flags
+  return [];
+}
+
+/**
+ * Resolve the built-in flags and build profile for a target
+ * Shared by the build itself and by anything that has to see the same configuration (e.g. cquery for outputs)
+ */
+export function resolveBuildConfiguration(options: {
+  label: string;
+  destination: SimulatorDestination | DeviceDestination;
+  buildMode: BuildModeString;
+  context: ExtensionContext;
+}): { defaultFlags: string[]; resolvedProfile?: ResolvedBuildProfile } {
+  const { label, destination, buildMode, context } = options;
+
+  const resolvedProfile = resolveBuildProfile({
+    label,
+    buildMode,
+    selectedProfile: context.getWorkspaceState("bazel.buildProfile"),
+  });
+
+  return {
+    defaultFlags: [...getPlatformFlags(destination), ...getBuildModeFlags(buildMode)],
+    resolvedProfile,
+  };
 }
 
 /**
  * Build a Bazel target with appropriate platform flags
  * Used by: bazelBuildCommand, bazelRunCommand, bazelDebugCommand
  */
-export async function buildBazelTarget(options: BazelBuildOptions): Promise<void> {
+export async function buildBazelTarget(options: BazelBuildOptions): Promise<BazelBuildSummary> {
   const { bazelItem, destination, buildMode = BuildMode.Release, terminal, context } = options;
+  const label = bazelItem.target.buildLabel;
 
-  // Determine platform flags
-  let platformFlag: string;
-  let additionalFlags: string[] = [];
+  // Resolve flags up front so unsupported destinations fail before touching the device
+  const { defaultFlags, resolvedProfile } = resolveBuildConfiguration({ label, destination, buildMode, context });
 
   if (destination.type === "iOSSimulator") {
-    platformFlag = "--platforms=@build_bazel_apple_support//platforms:ios_sim_arm64";
     terminal.write("   Platform: iOS Simulator\n");
   } else if (destination.type === "iOSDevice") {
-    platformFlag = "--ios_multi_cpus=arm64";
     terminal.write(`   Platform: iOS Device (${destination.name})\n`);
     const { ensureDeviceConnected } = await import("../apple-platforms/devicectl.adapter.js");
 
@@ -69,65 +165,140 @@ export async function buildBazelTarget(options: BazelBuildOptions): Promise<void
       // If lock check fails, log but continue - don't block the build
       commonLogger.warn("Lock check failed, continuing anyway", { lockCheckError });
     }
-  } else {
-    throw new Error(
-      `Unsupported destination type for build.\nType: ${destination.type}\n\nCurrently supported:\n- iOSSimulator\n- iOSDevice\n\nPlease select an iOS simulator or device from the DESTINATIONS view.`,
-    );
   }
 
-  // Set build flags based on mode
   if (buildMode === BuildMode.Debug) {
-    // Check if we should enable BSP indexing in debug builds
-    const { getWorkspaceConfig } = await import("../../shared/utils/config.js");
-    const enableIndexingInDebug = getWorkspaceConfig("build.enableIndexingInDebug") !== false; // Default: true
-
-    if (enableIndexingInDebug) {
-      // Use skbsp config which includes indexing + debug flags
-      additionalFlags = [
-        "--apple_generate_dsym=true", // Generate dSYM for debugging
-        "--objc_generate_linkmap=true", // Generate linkmap for debugging
-      ];
+    if (getWorkspaceConfig("build.enableIndexingInDebug") !== false) {
       terminal.write("   Build mode: Debug with Indexing (enables BSP index reuse)\n");
       terminal.write("   💡 BSP will reuse this index for instant code completion\n");
     } else {
-      // Legacy behavior - no indexing
-      additionalFlags = [
-        "--compilation_mode=dbg",
-        "--copt=-g",
-        "--strip=never",
-        "--apple_generate_dsym=true", // Generate dSYM for debugging
-        "--objc_generate_linkmap=true", // Generate linkmap for debugging
-      ];
       terminal.write("   Build mode: Debug (unoptimized with symbols + dSYM)\n");
     }
   } else if (buildMode === BuildMode.ReleaseWithSymbols) {
-    additionalFlags = [
-      "--compilation_mode=opt",
-      "--copt=-g",
-      "--strip=never",
-      "--apple_generate_dsym=true", // Generate dSYM
-    ];
     terminal.write("   Build mode: Release with Debug Symbols (optimized with symbols + dSYM)\n");
   } else {
-    // release mode - no additional flags
     terminal.write("   Build mode: Release (optimized, no symbols)\n");
   }
 
-  // Build command
-  const buildCommand = `cd "${bazelItem.package.path}" && bazel build ${bazelItem.target.buildLabel} ${platformFlag} ${additionalFlags.join(" ")}`;
+  // Apply build profile (explicitly selected, matched by label or attached to the build mode)
+  const profile = resolvedProfile?.profile;
+  const args = getBuildArgs({
+    label,
+    defaultFlags,
+    profile,
+    extraFlags: options.extraFlags,
+  });
+
+  const traceProfile = options.traceProfile ?? getWorkspaceConfig("bazel.traceProfile") === true;
+  const traceProfilePath = traceProfile ? await createTraceProfilePath(context, label) : undefined;
+  if (traceProfilePath) {
+    args.push(`--profile=${traceProfilePath}`);
+  }
+
+  if (resolvedProfile) {
+    terminal.write(`   Build profile: ${resolvedProfile.name} (${resolvedProfile.reason})\n`);
+    if (profile?.inheritDefaults === false) {
+      terminal.write("   Built-in platform and build mode flags disabled by profile\n");
+    }
+  }
+  terminal.write(`   Command: bazel ${args.join(" ")}\n`);
+  for (const [key, value] of Object.entries(profile?.env ?? {})) {
+    terminal.write(`   Env: ${key}=${value}\n`);
+  }
 
   commonLogger.log("Building Bazel target", {
-    target: bazelItem.target.buildLabel,
+    target: label,
     platform: destination.type,
     buildMode,
-    platformFlag,
-    additionalFlags,
+    defaultFlags,
+    buildProfile: resolvedProfile?.name,
+    args,
   });
 
-  await terminal.execute({
-    command: "sh",
-    args: ["-c", buildCommand],
+  const summary = await executeWithBuildEvents({
+    context,
+    terminal,
+    onBuildEvent: options.onBuildEvent,
+    metricLabels: { label, buildMode, destination: destination.type },
+    execute: async (bepFlags) => {
+      await terminal.execute({
+        command: "sh",
+        args: ["-c", `cd "${bazelItem.package.path}" && ${quote(["bazel", ...args, ...bepFlags])}`],
+        env: profile?.env,
+      });
+    },
   });
 
   terminal.write("   ✅ Build completed\n");
+
+  if (traceProfilePath) {
+    try {
+      const profileSummary = await readTraceProfile(traceProfilePath);
+      context.updateWorkspaceState("bazel.lastTraceProfile", traceProfilePath);
+      terminal.write(`\n${formatTraceProfileSummary(profileSummary)}\n`);
+      terminal.write(`   Trace: ${traceProfilePath}\n`);
+    } catch (error) {
+      // The build itself succeeded, a missing or unreadable profile only loses the analysis
+      commonLogger.warn("Failed to read trace profile", { traceProfilePath, error });
+      terminal.write("   ⚠️ Trace profile could not be read, see the extension log\n");
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Run a bazel command while tailing its Build Event Protocol stream
+ * Failed actions are published to the Problems panel and a summary is printed once the command exits
+ * (also when it fails, so the summary explains the failure)
+ */
+export async function executeWithBuildEvents(options: {
+  context: ExtensionContext;
+  terminal: TaskTerminal;
+  onBuildEvent?: (event: BazelBuildEvent) => void;
+  /** Target, build mode and destination the command's metrics are reported for */
+  metricLabels: { label: string; buildMode?: string; destination?: string };
+  /** Runs the bazel command, `bepFlags` must be appended to its arguments */
+  execute: (bepFlags: string[]) => Promise<void>;
+}): Promise<BazelBuildSummary> {
+  const { context, terminal, onBuildEvent, metricLabels, execute } = options;
+  const workspaceRoot = getWorkspacePath();
+  const pendingDiagnostics: Promise<number>[] = [];
+
+  context.buildDiagnostics.clear();
+
+  const stream = await BuildEventStream.create(context, {
+    onEvent: (event) => {
+      if (event.type === "actionFailed") {
+        pendingDiagnostics.push(context.buildDiagnostics.addFailedAction(event, workspaceRoot));
+      }
+      onBuildEvent?.(event);
+    },
+  });
+  stream.start();
+
+  try {
+    await execute(stream.bazelFlags);
+  } finally {
+    const summary = await stream.stop();
+    const problemCount = (await Promise.all(pendingDiagnostics)).reduce((sum, count) => sum + count, 0);
+    context.getCommandInvocation()?.recordBuild(summary, context.buildDiagnostics.getDiagnostics());
+    context.setLastBuildSummary(summary);
+    recordBuildMetrics(summary, metricLabels);
+
+    terminal.write(`\n${formatBuildSummary(summary)}\n`);
+    if (problemCount > 0) {
+      terminal.write(`   ${problemCount} problem(s) reported in the Problems panel\n`);
+    }
+    commonLogger.log("Build events processed", {
+      success: summary.success,
+      exitCode: summary.exitCode,
+      targets: summary.targets.length,
+      failedActions: summary.failedActions.length,
+      tests: summary.tests.length,
+      metrics: summary.metrics,
+    });
+  }
+
+  return stream.getSummary();
 }
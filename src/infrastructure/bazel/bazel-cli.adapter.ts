@@ -1,5 +1,6 @@
 // Main exports for Bazel parser
 export { BazelParser } from "./bazel-parser.js";
+export { GraphReportParser } from "./graph-report-parser.js";
 export type {
   BazelTarget,
   BazelScheme,
@@ -10,6 +11,8 @@ export type {
   BazelQueryTarget,
   BazelTargetCategory,
   BazelTreeNode,
+  BazelGraphReport,
+  BazelGraphReportTarget,
 } from "../../domain/entities/bazel/types.js";
 
 // Re-export for convenience
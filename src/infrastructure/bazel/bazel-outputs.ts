@@ -0,0 +1,117 @@
+/**
+ * Bazel Build Outputs
+ *
+ * Asks Bazel where a target's outputs are instead of guessing `bazel-bin` paths.
+ * `cquery` runs with the same flags and build profile as the build, so transitions and
+ * output-path configs resolve to the same `bazel-out` directories the build wrote to.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { BuildModeString } from "../../domain/entities/bazel/types.js";
+import type { DeviceDestination } from "../../domain/entities/destination/device-types.js";
+import type { SimulatorDestination } from "../../domain/entities/destination/simulator-types.js";
+import type { BazelTreeItem } from "../../presentation/tree-providers/export.provider.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { exec } from "../../shared/utils/exec.js";
+import { createDirectory, tempFilePath } from "../../shared/utils/files.js";
+import type { ExtensionContext } from "../vscode/extension-context.js";
+import { resolveBuildConfiguration } from "./bazel-build.js";
+import { getBuildArgs } from "./build-profiles.js";
+
+// Print one output path per line (paths are relative to the execution root)
+const OUTPUT_FILES_EXPR = '"\\n".join([f.path for f in target.files.to_list()])';
+
+/**
+ * Parse `cquery --output=starlark` output into absolute paths
+ */
+export function parseOutputPaths(output: string, executionRoot: string): string[] {
+  const paths = output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => (path.isAbsolute(line) ? line : path.join(executionRoot, line)));
+
+  return [...new Set(paths)];
+}
+
+/**
+ * Check if an output is something we can install (.app bundle or .ipa archive)
+ */
+export function isAppBundleOutput(outputPath: string): boolean {
+  return outputPath.endsWith(".app") || outputPath.endsWith(".ipa");
+}
+
+/**
+ * Pick the output to launch from all app bundle candidates
+ * Prefers an .app bundle (no extraction needed), then falls back to the first .ipa
+ */
+export function selectAppBundleOutput(candidates: string[]): string | undefined {
+  return (
+    candidates.find((candidate) => candidate.endsWith(".app")) ??
+    candidates.find((candidate) => candidate.endsWith(".ipa"))
+  );
+}
+
+/**
+ * Query the output files of a target using the same configuration as `buildBazelTarget`
+ */
+export async function queryBuildOutputs(options: {
+  bazelItem: BazelTreeItem;
+  destination: SimulatorDestination | DeviceDestination;
+  buildMode: BuildModeString;
+  extraFlags?: string[]; // Flags the build ran with, e.g. from an MCP tool
+  context: ExtensionContext;
+}): Promise<string[]> {
+  const { bazelItem, destination, buildMode, extraFlags, context } = options;
+  const label = bazelItem.target.buildLabel;
+
+  const { defaultFlags, resolvedProfile } = resolveBuildConfiguration({ label, destination, buildMode, context });
+  const profile = resolvedProfile?.profile;
+
+  const cqueryArgs = [
+    ...getBuildArgs({ label, defaultFlags, profile, extraFlags, command: "cquery" }),
+    "--output=starlark",
+    `--starlark:expr=${OUTPUT_FILES_EXPR}`,
+  ];
+
+  commonLogger.log("Querying build outputs", { label, args: cqueryArgs });
+
+  // Bazel holds a server lock per command, so these run one after another
+  const output = await exec({ command: "bazel", args: cqueryArgs, cwd: bazelItem.package.path, env: profile?.env });
+  const executionRoot = await exec({
+    command: "bazel",
+    args: [...(profile?.startupOptions ?? []), "info", "execution_root"],
+    cwd: bazelItem.package.path,
+    env: profile?.env,
+  });
+
+  return parseOutputPaths(output, executionRoot.trim());
+}
+
+/**
+ * Extract an .ipa archive into a temporary directory and return the .app inside `Payload/`
+ */
+export async function extractIpa(context: ExtensionContext, ipaPath: string): Promise<string> {
+  const { path: extractPath } = await tempFilePath(context, {
+    prefix: path.basename(ipaPath, ".ipa"),
+  });
+  await createDirectory(extractPath);
+
+  await exec({
+    command: "unzip",
+    args: ["-q", "-o", ipaPath, "-d", extractPath],
+  });
+
+  const payloadPath = path.join(extractPath, "Payload");
+  const entries = await fs.readdir(payloadPath).catch(() => [] as string[]);
+  const appName = entries.find((entry) => entry.endsWith(".app"));
+
+  if (!appName) {
+    throw new Error(`No .app bundle found in IPA Payload.\nIPA: ${ipaPath}\nExtracted to: ${extractPath}`);
+  }
+
+  const appPath = path.join(payloadPath, appName);
+  commonLogger.log("Extracted IPA", { ipaPath, appPath });
+  return appPath;
+}
@@ -2,6 +2,7 @@ import type {
   BazelQueryResult,
   BazelQueryTarget,
   BazelTargetCategory,
+  BazelTargetClassification,
   BazelTreeNode,
 } from "../../domain/entities/bazel/types.js";
 import { commonLogger } from "../../shared/logger/logger.js";
@@ -45,19 +46,36 @@ const TARGET_TYPES: TargetTypeConfig = {
   ] as const,
 } as const;
 
+const VALID_CLASSIFICATIONS: readonly BazelTargetClassification[] = ["runnable", "test", "buildable", "ignore"];
+
+const TARGET_CATEGORIES: readonly (keyof BazelTargetCategory)[] = ["runnable", "test", "buildable"];
+
+/**
+ * Levenshtein distance, used to suggest labels for typos
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export type RuleKindClassifier = (ruleType: string) => BazelTargetClassification | undefined;
+
 // biome-ignore lint/complexity/noStaticOnlyClass: Parser class provides organized namespace for related parsing functions
 export class BazelParser {
   /**
    * Run bazel query and parse all targets
    */
   static async queryAllTargets(cwd?: string): Promise<BazelQueryResult> {
-    // Build query expression with exclusions if configured
-    const excludePaths = getWorkspaceConfig("bazel.queryExcludePaths") || [];
-
-    let queryExpression = "//...";
-    if (excludePaths.length > 0) {
-      const exclusionsExpr = excludePaths.join(" + ");
-      queryExpression = `//... except (${exclusionsExpr})`;
+    const queryExpression = BazelParser.getQueryUniverse();
+    if (queryExpression !== "//...") {
       commonLogger.log(`Running bazel query with exclusions: ${queryExpression}`);
     } else {
       commonLogger.log("Running bazel query //... to discover targets");
@@ -79,24 +97,211 @@ export class BazelParser {
       commonLogger.log(`Parsed ${lines.length} targets from bazel query`);
 
       const targets = BazelParser.parseTargets(lines);
-      const tree = BazelParser.buildTree(targets);
-
-      return {
-        generated: new Date().toISOString(),
-        statistics: {
-          runnable: targets.runnable.length,
-          test: targets.test.length,
-          buildable: targets.buildable.length,
-          total: targets.runnable.length + targets.test.length + targets.buildable.length,
-        },
-        tree,
-      };
+      return BazelParser.buildQueryResult(targets);
     } catch (error) {
       commonLogger.error("Error running bazel query", { error });
       throw new Error(`Failed to run bazel query: ${error}`);
     }
   }
 
+  /**
+   * Query only the given packages (e.g. "Apps/MyApp"), for incremental refreshes after BUILD file changes
+   * Packages excluded by `bazel.queryExcludePaths` stay excluded
+   */
+  static async queryPackageTargets(
+    packages: string[],
+    cwd?: string,
+  ): Promise<{ runnable: BazelQueryTarget[]; test: BazelQueryTarget[]; buildable: BazelQueryTarget[] }> {
+    const packageSet = packages.map((packagePath) => `//${packagePath}:all`).join(" + ");
+    const excludePaths = getWorkspaceConfig("bazel.queryExcludePaths") || [];
+    const queryExpression =
+      excludePaths.length > 0 ? `(${packageSet}) except (${excludePaths.join(" + ")})` : packageSet;
+    commonLogger.log("Running bazel query for changed packages", { packages });
+
+    try {
+      const output = await exec({
+        command: "bazel",
+        args: ["query", queryExpression, "--output=label_kind"],
+        cwd,
+      });
+      return BazelParser.parseTargets(output.split("\n"));
+    } catch (error) {
+      commonLogger.error("Error running bazel query for changed packages", { error });
+      throw new Error(`Failed to run bazel query: ${error}`);
+    }
+  }
+
+  /**
+   * Replace the targets of the given packages in a query result, packages without new targets are removed
+   * The given result is left untouched
+   */
+  static spliceTargets(
+    result: BazelQueryResult,
+    packages: string[],
+    targets: { runnable: BazelQueryTarget[]; test: BazelQueryTarget[]; buildable: BazelQueryTarget[] },
+  ): BazelQueryResult {
+    const tree = structuredClone(result.tree);
+    for (const packagePath of packages) {
+      BazelParser.removePackage(tree, packagePath.split("/"));
+    }
+    BazelParser.buildTree(targets, tree);
+
+    const ruleKinds = Object.fromEntries(
+      Object.entries(result.ruleKinds ?? {}).filter(([label]) => !packages.includes(label.slice(2).split(":")[0])),
+    );
+
+    const statistics = {
+      runnable: BazelParser.getAllTargets(tree, "runnable").length,
+      test: BazelParser.getAllTargets(tree, "test").length,
+      buildable: BazelParser.getAllTargets(tree, "buildable").length,
+    };
+    return {
+      ...result,
+      generated: new Date().toISOString(),
+      statistics: { ...statistics, total: statistics.runnable + statistics.test + statistics.buildable },
+      tree,
+      ruleKinds: { ...ruleKinds, ...BazelParser.getRuleKinds(targets) },
+    };
+  }
+
+  /**
+   * Remove the targets of a package and the folders left empty
+   */
+  private static removePackage(tree: BazelTreeNode, pathParts: string[]): void {
+    const nodes: any[] = [tree];
+    for (const part of pathParts) {
+      const child = nodes[nodes.length - 1][part];
+      if (!child || typeof child !== "object" || Array.isArray(child)) {
+        return;
+      }
+      nodes.push(child);
+    }
+
+    const node = nodes[nodes.length - 1];
+    for (const category of TARGET_CATEGORIES) {
+      delete node[category];
+    }
+    for (let index = pathParts.length - 1; index >= 0; index--) {
+      if (Object.keys(nodes[index + 1]).length > 0) break;
+      delete nodes[index][pathParts[index]];
+    }
+  }
+
+  /**
+   * All targets of the workspace except `bazel.queryExcludePaths`, the universe for discovery and rdeps queries
+   */
+  static getQueryUniverse(): string {
+    const excludePaths = getWorkspaceConfig("bazel.queryExcludePaths") || [];
+    return excludePaths.length > 0 ? `//... except (${excludePaths.join(" + ")})` : "//...";
+  }
+
+  /**
+   * Build the query result (statistics + tree) from categorized targets
+   * Shared by every discovery backend so the tree provider sees the same shape
+   */
+  static buildQueryResult(
+    targets: {
+      runnable: BazelQueryTarget[];
+      test: BazelQueryTarget[];
+      buildable: BazelQueryTarget[];
+    },
+    extras: Pick<BazelQueryResult, "source" | "topLevelParents"> = { source: "query" },
+  ): BazelQueryResult {
+    const tree = BazelParser.buildTree(targets);
+
+    return {
+      generated: new Date().toISOString(),
+      statistics: {
+        runnable: targets.runnable.length,
+        test: targets.test.length,
+        buildable: targets.buildable.length,
+        total: targets.runnable.length + targets.test.length + targets.buildable.length,
+      },
+      tree,
+      ruleKinds: BazelParser.getRuleKinds(targets),
+      ...extras,
+    };
+  }
+
+  private static getRuleKinds(targets: {
+    runnable: BazelQueryTarget[];
+    test: BazelQueryTarget[];
+    buildable: BazelQueryTarget[];
+  }): Record<string, string> {
+    const ruleKinds: Record<string, string> = {};
+    for (const target of [...targets.runnable, ...targets.test, ...targets.buildable]) {
+      ruleKinds[target.target] = target.type;
+    }
+    return ruleKinds;
+  }
+
+  /**
+   * Create a classifier from the `bazel.targetClassification` setting
+   * Keys are exact rule kinds or `/regex/` patterns; exact matches win over patterns,
+   * and anything not matched by the setting falls back to the built-in table
+   */
+  static createRuleKindClassifier(
+    overrides: Record<string, BazelTargetClassification> | undefined = getWorkspaceConfig("bazel.targetClassification"),
+  ): RuleKindClassifier {
+    const exact = new Map<string, BazelTargetClassification>();
+    const patterns: { regex: RegExp; classification: BazelTargetClassification }[] = [];
+
+    const entries = overrides && typeof overrides === "object" && !Array.isArray(overrides) ? overrides : {};
+    for (const [key, classification] of Object.entries(entries)) {
+      if (!VALID_CLASSIFICATIONS.includes(classification)) {
+        commonLogger.warn("Ignoring invalid target classification", { ruleKind: key, classification });
+        continue;
+      }
+
+      const patternMatch = key.match(/^\/(.+)\/$/);
+      if (!patternMatch) {
+        exact.set(key, classification);
+        continue;
+      }
+
+      try {
+        patterns.push({ regex: new RegExp(patternMatch[1]), classification });
+      } catch (error) {
+        commonLogger.warn("Ignoring invalid target classification pattern", { pattern: key, error });
+      }
+    }
+
+    return (ruleType: string) => {
+      const exactMatch = exact.get(ruleType);
+      if (exactMatch) return exactMatch;
+
+      const pattern = patterns.find(({ regex }) => regex.test(ruleType));
+      if (pattern) return pattern.classification;
+
+      if (TARGET_TYPES.IGNORE.includes(ruleType)) return "ignore";
+      if (TARGET_TYPES.RUNNABLE.includes(ruleType)) return "runnable";
+      if (TARGET_TYPES.TEST.includes(ruleType)) return "test";
+      if (TARGET_TYPES.BUILDABLE.includes(ruleType)) return "buildable";
+      return undefined;
+    };
+  }
+
+  /**
+   * Classify a rule kind into a target category
+   * Returns "ignore" for known noise and undefined for unknown kinds
+   */
+  static classifyRuleKind(ruleType: string): BazelTargetClassification | undefined {
+    return BazelParser.createRuleKindClassifier()(ruleType);
+  }
+
+  /**
+   * Warn about rule kinds that were discovered but not classified, so users know what to add to settings
+   */
+  static reportUnclassifiedRuleKinds(ruleKinds: Set<string>): void {
+    if (ruleKinds.size === 0) return;
+
+    const sorted = [...ruleKinds].sort();
+    commonLogger.warn(
+      `Found ${sorted.length} unclassified rule kind(s), add them to "bazelbsp.bazel.targetClassification" to show them: ${sorted.join(", ")}`,
+      { ruleKinds: sorted },
+    );
+  }
+
   /**
    * Parse bazel query output lines into categorized targets
    */
@@ -110,6 +315,8 @@ export class BazelParser {
       test: [] as BazelQueryTarget[],
       buildable: [] as BazelQueryTarget[],
     };
+    const classify = BazelParser.createRuleKindClassifier();
+    const unclassified = new Set<string>();
 
     for (const line of lines) {
       if (!line.trim()) continue;
@@ -120,35 +327,36 @@ export class BazelParser {
 
       const [, ruleType, targetName] = match;
 
-      // Skip ignored target types
-      if (TARGET_TYPES.IGNORE.includes(ruleType)) {
+      // Skip ignored and unknown target types - no "other" category
+      const category = classify(ruleType);
+      if (!category) {
+        unclassified.add(ruleType);
         continue;
       }
-
-      if (TARGET_TYPES.RUNNABLE.includes(ruleType)) {
-        targets.runnable.push({ type: ruleType, target: targetName });
-      } else if (TARGET_TYPES.TEST.includes(ruleType)) {
-        targets.test.push({ type: ruleType, target: targetName });
-      } else if (TARGET_TYPES.BUILDABLE.includes(ruleType)) {
-        targets.buildable.push({ type: ruleType, target: targetName });
+      if (category === "ignore") {
+        continue;
       }
-      // Ignore everything else - no "other" category
+
+      targets[category].push({ type: ruleType, target: targetName });
     }
 
+    BazelParser.reportUnclassifiedRuleKinds(unclassified);
+
     return targets;
   }
 
   /**
-   * Build a tree structure from categorized targets
+   * Build a tree structure from categorized targets, or add them to an existing tree
    * Only stores target names (leafs) at the final path location
    */
-  private static buildTree(targets: {
-    runnable: BazelQueryTarget[];
-    test: BazelQueryTarget[];
-    buildable: BazelQueryTarget[];
-  }): BazelTreeNode {
-    const tree: BazelTreeNode = {};
-
+  private static buildTree(
+    targets: {
+      runnable: BazelQueryTarget[];
+      test: BazelQueryTarget[];
+      buildable: BazelQueryTarget[];
+    },
+    tree: BazelTreeNode = {},
+  ): BazelTreeNode {
     // Helper function to set value in nested object
     const setNestedValue = (
       obj: BazelTreeNode,
@@ -262,6 +470,89 @@ export class BazelParser {
     return keys;
   }
 
+  /**
+   * Get full labels of every target in a category across the whole tree
+   */
+  static getAllTargets(tree: BazelTreeNode, category: keyof BazelTargetCategory): string[] {
+    const labels: string[] = [];
+
+    const visit = (node: any, pathParts: string[]) => {
+      if (Array.isArray(node[category])) {
+        for (const name of node[category]) {
+          labels.push(`//${pathParts.join("/")}:${name}`);
+        }
+      }
+      for (const [key, child] of Object.entries(node)) {
+        if (key !== "runnable" && key !== "test" && key !== "buildable" && child && typeof child === "object") {
+          visit(child, [...pathParts, key]);
+        }
+      }
+    };
+    visit(tree, []);
+
+    return labels;
+  }
+
+  /**
+   * Normalize a label from user input to the "//package:name" form used in the tree
+   * Accepts "package:name", "@//package:name" and the "//package" shorthand for "//package:<last path part>"
+   * Labels of external repositories ("@repo//package:name") and wildcards ("//package/...") keep their form
+   */
+  static normalizeLabel(label: string): string {
+    let normalized = label.trim().replace(/^@@?\/\//, "//");
+    if (!normalized.startsWith("//") && !normalized.startsWith("@")) {
+      normalized = `//${normalized}`;
+    }
+    // ":all" and ":*" already have a name, "//package/..." has none to add
+    if (!normalized.includes(":") && !normalized.endsWith("...")) {
+      normalized = `${normalized}:${normalized.split("/").pop()}`;
+    }
+    return normalized;
+  }
+
+  /**
+   * Find a target by label, undefined when it isn't in the tree
+   */
+  static findTarget(
+    tree: BazelTreeNode,
+    label: string,
+  ): { label: string; name: string; pathParts: string[]; category: keyof BazelTargetCategory } | undefined {
+    const normalized = BazelParser.normalizeLabel(label);
+    const match = normalized.match(/^\/\/(.+):(.+)$/);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, packagePath, name] = match;
+    const pathParts = packagePath.split("/");
+    const targets = BazelParser.getTargetsAtPath(tree, pathParts);
+    const category = TARGET_CATEGORIES.find((category) => targets?.[category].includes(name));
+
+    return category ? { label: normalized, name, pathParts, category } : undefined;
+  }
+
+  /**
+   * Labels in the tree that look like the given (unknown) label, best match first
+   * Targets with the same name in another package rank first, then by edit distance
+   */
+  static suggestTargets(tree: BazelTreeNode, label: string, limit = 5): string[] {
+    const query = BazelParser.normalizeLabel(label).toLowerCase();
+    const queryName = query.slice(query.lastIndexOf(":") + 1);
+    const maxDistance = Math.max(3, Math.floor(query.length / 3));
+
+    return TARGET_CATEGORIES.flatMap((category) => BazelParser.getAllTargets(tree, category))
+      .map((candidate) => {
+        const lowerCandidate = candidate.toLowerCase();
+        const name = lowerCandidate.slice(lowerCandidate.lastIndexOf(":") + 1);
+        const nameRank = name === queryName ? 0 : name.includes(queryName) || queryName.includes(name) ? 1 : 2;
+        return { candidate, nameRank, distance: getEditDistance(query, lowerCandidate) };
+      })
+      .filter(({ nameRank, distance }) => nameRank < 2 || distance <= maxDistance)
+      .sort((a, b) => a.nameRank - b.nameRank || a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+      .slice(0, limit)
+      .map(({ candidate }) => candidate);
+  }
+
   /**
    * Check if a path has targets (is a leaf node)
    */
@@ -0,0 +1,203 @@
+import type { BazelBuildSummary } from "../../domain/entities/bazel/types.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getActiveBazelWorkspace } from "../../shared/utils/bazel-workspaces.js";
+import type { ProgressManager } from "../../shared/utils/progress-manager.js";
+import type { ExtensionContext } from "../vscode/extension-context.js";
+
+export interface BazelRunningAction {
+  description: string;
+  elapsedSeconds?: number;
+}
+
+export interface BazelActionProgress {
+  completed: number;
+  total: number;
+  running?: number;
+  slowestAction?: BazelRunningAction;
+}
+
+// "[1,234 / 5,678] Compiling Swift module //Libs:Core; 12s darwin-sandbox ... (8 actions, 4 running)"
+const PROGRESS_LINE_REGEX = /\[([\d,]+) \/ ([\d,]+)\]\s*(.*)$/;
+// Trailing "(8 actions running)" or "(8 actions, 4 running)"
+const RUNNING_SUFFIX_REGEX = /\s*\((\d+) actions?(?:, (\d+) running| running)\)\s*$/;
+// Line with no action description: "8 actions running" or "8 actions, 4 running"
+const RUNNING_ONLY_REGEX = /^(\d+) actions?(?:, (\d+) running| running)$/;
+// Scheduling state Bazel prints before the action, e.g. "[Prepa]" or "[Sched]"
+const SCHEDULING_PREFIX_REGEX = /^\[[A-Za-z]+\]\s*/;
+// biome-ignore lint/suspicious/noControlCharactersInRegex: strips ANSI color codes from Bazel output
+const ANSI_ESCAPE_REGEX = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+const MAX_RECORDED_DURATIONS = 5;
+
+const parseCount = (value: string) => Number(value.replace(/,/g, ""));
+
+/**
+ * Parse a single Bazel progress line (`[N / M] ...`)
+ *
+ * Bazel lists the oldest running action first, so the action in the line is the one
+ * that has been running the longest.
+ */
+export function parseBazelProgressLine(line: string): BazelActionProgress | undefined {
+  const match = line.replace(ANSI_ESCAPE_REGEX, "").trim().match(PROGRESS_LINE_REGEX);
+  if (!match) {
+    return undefined;
+  }
+
+  const progress: BazelActionProgress = {
+    completed: parseCount(match[1]),
+    total: parseCount(match[2]),
+  };
+
+  let rest = match[3].trim();
+  const runningOnly = rest.match(RUNNING_ONLY_REGEX);
+  if (runningOnly) {
+    progress.running = Number(runningOnly[2] ?? runningOnly[1]);
+    return progress;
+  }
+
+  const runningSuffix = rest.match(RUNNING_SUFFIX_REGEX);
+  if (runningSuffix) {
+    progress.running = Number(runningSuffix[2] ?? runningSuffix[1]);
+    rest = rest.slice(0, runningSuffix.index).trim();
+  }
+
+  // "Compiling Swift module //Libs:Core; 12s darwin-sandbox ..." - description and how long it's been running
+  const [description, timing] = rest.replace(SCHEDULING_PREFIX_REGEX, "").split(";");
+  if (!description || !timing) {
+    // e.g. "checking cached actions" - no action is running yet
+    return progress;
+  }
+
+  const elapsed = timing.trim().match(/^(\d+)s\b/);
+  progress.slowestAction = {
+    description: description.trim(),
+    elapsedSeconds: elapsed ? Number(elapsed[1]) : undefined,
+  };
+  progress.running ??= 1;
+
+  return progress;
+}
+
+/**
+ * Find the latest progress line in a chunk of Bazel output
+ * (chunks may hold several lines separated by "\n" or "\r")
+ */
+export function parseBazelProgressOutput(output: string): BazelActionProgress | undefined {
+  const lines = output.split(/\r?\n|\r/);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const progress = parseBazelProgressLine(lines[i]);
+    if (progress) {
+      return progress;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Estimate how long the current command will still run
+ *
+ * Uses the average duration of prior successful runs of the same label. When the
+ * current run is already slower than usual, extrapolates from the fraction of
+ * completed actions instead. Returns undefined when there is nothing to base it on.
+ */
+export function estimateRemainingMillis(options: {
+  priorDurations: number[];
+  elapsedMillis: number;
+  fraction?: number;
+}): number | undefined {
+  const { priorDurations, elapsedMillis, fraction } = options;
+  if (priorDurations.length === 0) {
+    return undefined;
+  }
+
+  const average = priorDurations.reduce((sum, duration) => sum + duration, 0) / priorDurations.length;
+  const remaining = average - elapsedMillis;
+  if (remaining > 0) {
+    return remaining;
+  }
+
+  if (fraction && fraction > 0 && fraction < 1) {
+    return elapsedMillis / fraction - elapsedMillis;
+  }
+  return undefined;
+}
+
+/**
+ * Key for duration history, builds and tests (or build modes) of the same label take different time
+ */
+export function getBuildHistoryKey(options: { command: string; label: string; variant?: string }): string {
+  const { command, label, variant } = options;
+  return variant ? `${command}:${variant} ${label}` : `${command} ${label}`;
+}
+
+export function getPriorBuildDurations(context: ExtensionContext, key: string, workspaceRoot?: string): number[] {
+  return context.getWorkspaceState("bazel.buildDurations", workspaceRoot)?.[key] ?? [];
+}
+
+/**
+ * Remember the duration of a successful run (only the latest few are kept)
+ */
+export function recordBuildDuration(
+  context: ExtensionContext,
+  key: string,
+  durationMillis: number,
+  workspaceRoot?: string,
+): void {
+  const history = context.getWorkspaceState("bazel.buildDurations", workspaceRoot) ?? {};
+  const durations = [...(history[key] ?? []), durationMillis].slice(-MAX_RECORDED_DURATIONS);
+  context.updateWorkspaceState("bazel.buildDurations", { ...history, [key]: durations }, workspaceRoot);
+}
+
+/**
+ * Feeds Bazel progress output into a ProgressManager step
+ *
+ * Create it right before the Bazel command starts so elapsed time matches what
+ * Bazel reports, and pass the final summary to `finish` to extend the duration history.
+ */
+export class BazelProgressReporter {
+  private context: ExtensionContext;
+  private progress: ProgressManager;
+  private historyKey: string;
+  private priorDurations: number[];
+  private workspaceRoot: string | undefined;
+  private startTime = Date.now();
+
+  constructor(options: { context: ExtensionContext; progress: ProgressManager; historyKey: string }) {
+    this.context = options.context;
+    this.progress = options.progress;
+    this.historyKey = options.historyKey;
+    // Recorded for the workspace the build started in, even if another one is activated meanwhile
+    this.workspaceRoot = getActiveBazelWorkspace();
+    this.priorDurations = getPriorBuildDurations(options.context, options.historyKey, this.workspaceRoot);
+  }
+
+  /**
+   * Handle a chunk of Bazel stderr, returns false if it had no action progress
+   */
+  handleOutput(output: string): boolean {
+    const actionProgress = parseBazelProgressOutput(output);
+    if (!actionProgress) {
+      return false;
+    }
+
+    this.progress.updateActionProgress({
+      ...actionProgress,
+      remainingMillis: estimateRemainingMillis({
+        priorDurations: this.priorDurations,
+        elapsedMillis: Date.now() - this.startTime,
+        fraction: actionProgress.total > 0 ? actionProgress.completed / actionProgress.total : undefined,
+      }),
+    });
+    return true;
+  }
+
+  finish(summary?: BazelBuildSummary): void {
+    if (!summary?.success) {
+      return;
+    }
+
+    const durationMillis = summary.durationMillis ?? Date.now() - this.startTime;
+    recordBuildDuration(this.context, this.historyKey, durationMillis, this.workspaceRoot);
+    commonLogger.debug("Recorded build duration", { historyKey: this.historyKey, durationMillis });
+  }
+}
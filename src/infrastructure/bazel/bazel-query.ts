@@ -0,0 +1,187 @@
+/**
+ * Read-only queries of the Bazel build graph (dependencies, reverse dependencies, owners, attributes)
+ */
+
+import * as path from "node:path";
+import type { BazelAttributeValue, BazelQueryTarget, BazelRuleInfo } from "../../domain/entities/bazel/types.js";
+import { ExtensionError } from "../../shared/errors/errors.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import { exec } from "../../shared/utils/exec.js";
+import { BazelParser } from "./bazel-parser.js";
+import { parseXmlAttributes } from "./xml-utils.js";
+
+// "swift_library rule //Libs/Core:Core" or "source file //Libs/Core:Sources/Model.swift"
+const LABEL_KIND_REGEX = /^(.+?) (?:rule|file) (\S+)$/;
+const RULE_REGEX = /<rule\s([^>]*?)(?:\/>|>([\s\S]*?)<\/rule>)/g;
+const LIST_REGEX = /<list\b([^>]*?)(?:\/>|>([\s\S]*?)<\/list>)/g;
+// Single valued attributes: <string name="..." value="..."/>, <label .../>, <int .../>, <boolean .../>, ...
+const VALUE_REGEX = /<([\w-]+)\b([^>]*?)\/>/g;
+
+/**
+ * Parse `--output=label_kind` lines
+ * Rules keep their rule class as type, files become "source file" or "generated file"
+ */
+export function parseLabelKindOutput(output: string): BazelQueryTarget[] {
+  const targets: BazelQueryTarget[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.trim().match(LABEL_KIND_REGEX);
+    if (!match) continue;
+
+    const [, kind, label] = match;
+    targets.push({ type: kind === "source" || kind === "generated" ? `${kind} file` : kind, target: label });
+  }
+  return targets;
+}
+
+function parseAttributeValue(element: string, value: string): BazelAttributeValue {
+  if (element === "boolean") return value === "true";
+  if (element === "int") return Number(value);
+  return value;
+}
+
+/**
+ * Parse the rules of `bazel query --output=xml`
+ * Dictionaries and nested lists are skipped, they are rare in BUILD files and hard to show compactly
+ */
+export function parseQueryXml(xml: string): BazelRuleInfo[] {
+  const rules: BazelRuleInfo[] = [];
+
+  for (const rule of xml.matchAll(RULE_REGEX)) {
+    const ruleAttributes = parseXmlAttributes(rule[1]);
+    const body = rule[2] ?? "";
+    const attributes: Record<string, BazelAttributeValue> = {};
+
+    for (const list of body.matchAll(LIST_REGEX)) {
+      const name = parseXmlAttributes(list[1]).name;
+      if (!name) continue;
+      attributes[name] = [...(list[2] ?? "").matchAll(VALUE_REGEX)]
+        .map((item) => parseXmlAttributes(item[2]).value)
+        .filter((value) => value !== undefined);
+    }
+
+    const scalars = body.replace(LIST_REGEX, "").replace(/<dict\b[\s\S]*?<\/dict>/g, "");
+    for (const [, element, source] of scalars.matchAll(VALUE_REGEX)) {
+      const { name, value } = parseXmlAttributes(source);
+      // rule-input and rule-output repeat deps and outputs without a name attribute
+      if (!name || value === undefined || element.startsWith("rule-")) continue;
+      attributes[name] = parseAttributeValue(element, value);
+    }
+
+    rules.push({
+      label: ruleAttributes.name,
+      kind: ruleAttributes.class,
+      location: ruleAttributes.location,
+      attributes,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Labels are embedded in query expressions, quote them and reject anything that could change the expression
+ */
+function quoteLabel(label: string): string {
+  if (!label || /["\s]/.test(label)) {
+    throw new ExtensionError(`Invalid Bazel label "${label}"`, { context: { label } });
+  }
+  return `"${label}"`;
+}
+
+async function runQuery(expression: string, flags: string[], cwd?: string): Promise<string> {
+  commonLogger.log("Running bazel query", { expression });
+  return await exec({
+    command: "bazel",
+    args: ["query", expression, ...flags],
+    cwd,
+  }).catch((error) => {
+    throw new ExtensionError(`bazel query failed: ${error instanceof Error ? error.message : String(error)}`, {
+      context: { expression },
+    });
+  });
+}
+
+/**
+ * Rules the target depends on, `depth` 1 means direct dependencies only
+ */
+export async function queryDeps(label: string, options?: { depth?: number }): Promise<BazelQueryTarget[]> {
+  const normalized = BazelParser.normalizeLabel(label);
+  const depth = options?.depth ?? 1;
+  const output = await runQuery(`kind(rule, deps(${quoteLabel(normalized)}, ${depth}))`, [
+    "--output=label_kind",
+    "--noimplicit_deps",
+  ]);
+  return parseLabelKindOutput(output).filter((target) => target.target !== normalized);
+}
+
+/**
+ * Rules in the workspace that depend on the target, `depth` 1 means direct dependents only
+ */
+export async function queryRdeps(label: string, options?: { depth?: number }): Promise<BazelQueryTarget[]> {
+  const normalized = BazelParser.normalizeLabel(label);
+  const depth = options?.depth ?? 1;
+  const universe = BazelParser.getQueryUniverse();
+  const output = await runQuery(`kind(rule, rdeps(${universe}, ${quoteLabel(normalized)}, ${depth}))`, [
+    "--output=label_kind",
+    "--noimplicit_deps",
+  ]);
+  return parseLabelKindOutput(output).filter((target) => target.target !== normalized);
+}
+
+/**
+ * Rules that list the file directly in their attributes (srcs, hdrs, resources, ...)
+ * @param filePath absolute or workspace relative path
+ */
+export async function queryOwningTargets(filePath: string): Promise<BazelQueryTarget[]> {
+  const workspaceRoot = getWorkspacePath();
+  const relativePath = path.isAbsolute(filePath) ? path.relative(workspaceRoot, filePath) : filePath;
+  if (relativePath.startsWith("..")) {
+    throw new ExtensionError(`File is outside of the workspace: ${filePath}`, { context: { filePath } });
+  }
+
+  // Bazel resolves a relative file path to the label of the file in its package
+  const output = await runQuery(`same_pkg_direct_rdeps(${quoteLabel(relativePath)})`, ["--output=label_kind"]);
+  return parseLabelKindOutput(output).filter((target) => !target.type.endsWith(" file"));
+}
+
+/**
+ * Rule class, location and explicitly set attributes of a target
+ */
+export async function queryTargetInfo(label: string): Promise<BazelRuleInfo> {
+  const normalized = BazelParser.normalizeLabel(label);
+  const output = await runQuery(quoteLabel(normalized), ["--output=xml", "--noxml:default_values"]);
+  const [rule] = parseQueryXml(output);
+  if (!rule) {
+    throw new ExtensionError(`${normalized} is not a rule`, { context: { label: normalized } });
+  }
+  return rule;
+}
+
+/**
+ * Rules of a rule kind (e.g. setup_sourcekit_bsp) in the workspace, and the ones among them that depend on the
+ * given target. Two hops, setup rules usually reference a wrapper of the target (e.g. a *_skbsp target).
+ */
+export async function queryRulesOfKind(
+  kind: string,
+  options?: { dependingOn?: string; cwd?: string },
+): Promise<{ labels: string[]; dependingOnTarget: string[] }> {
+  if (!/^[\w.*|^$()-]+$/.test(kind)) {
+    throw new ExtensionError(`Invalid rule kind "${kind}"`, { context: { kind } });
+  }
+
+  const universe = BazelParser.getQueryUniverse();
+  const output = await runQuery(`kind("${kind}", ${universe})`, ["--output=label_kind"], options?.cwd);
+  const labels = parseLabelKindOutput(output).map((target) => target.target);
+  if (!options?.dependingOn || labels.length === 0) {
+    return { labels, dependingOnTarget: [] };
+  }
+
+  const normalized = BazelParser.normalizeLabel(options.dependingOn);
+  const dependingOutput = await runQuery(
+    `kind("${kind}", rdeps(${universe}, ${quoteLabel(normalized)}, 2))`,
+    ["--output=label_kind"],
+    options.cwd,
+  );
+  return { labels, dependingOnTarget: parseLabelKindOutput(dependingOutput).map((target) => target.target) };
+}
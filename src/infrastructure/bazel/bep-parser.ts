@@ -0,0 +1,322 @@
+import { fileURLToPath } from "node:url";
+import type {
+  BazelBuildEvent,
+  BazelBuildMetrics,
+  BazelBuildSummary,
+  BazelTestStatus,
+} from "../../domain/entities/bazel/types.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+
+/**
+ * Build Event Protocol Parser
+ *
+ * Converts the newline-delimited JSON written by `--build_event_json_file` into typed
+ * `BazelBuildEvent`s and accumulates a `BazelBuildSummary` for the whole invocation.
+ * Only the subset of BEP used by the extension is modelled; unknown events are ignored.
+ */
+
+interface BepFile {
+  name?: string;
+  uri?: string;
+  pathPrefix?: string[];
+}
+
+// Raw BEP event, see build_event_stream.proto (int64 fields are serialized as strings)
+interface BepEvent {
+  id?: Record<string, any>;
+  [key: string]: any;
+}
+
+/**
+ * Convert a BEP file URI into a local path (remote `bytestream://` URIs are not readable locally)
+ */
+function toLocalPath(file?: BepFile): string | undefined {
+  if (!file?.uri?.startsWith("file://")) {
+    return undefined;
+  }
+  try {
+    return fileURLToPath(file.uri);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse BEP durations, which are either millisecond strings or protobuf durations ("1.5s")
+ */
+function parseMillis(millis?: string | number, duration?: string): number {
+  if (millis !== undefined) {
+    return Number(millis) || 0;
+  }
+  if (duration?.endsWith("s")) {
+    return Math.round(Number.parseFloat(duration) * 1000) || 0;
+  }
+  return 0;
+}
+
+function parseMetrics(buildMetrics: any): BazelBuildMetrics {
+  const actionSummary = buildMetrics?.actionSummary ?? {};
+  const runnerCount: { name?: string; count?: number }[] = actionSummary.runnerCount ?? [];
+  const countFor = (name: string) =>
+    runnerCount.filter((runner) => runner.name === name).reduce((sum, runner) => sum + (Number(runner.count) || 0), 0);
+
+  return {
+    actionsCreated: Number(actionSummary.actionsCreated) || 0,
+    actionsExecuted: Number(actionSummary.actionsExecuted) || 0,
+    remoteCacheHits: countFor("remote cache hit"),
+    diskCacheHits: countFor("disk cache hit"),
+    actionCacheHits: Number(actionSummary.actionCacheStatistics?.hits) || 0,
+    actionCacheMisses: Number(actionSummary.actionCacheStatistics?.misses) || 0,
+    criticalPathMillis: buildMetrics?.timingMetrics?.criticalPathTime
+      ? parseMillis(undefined, buildMetrics.timingMetrics.criticalPathTime)
+      : undefined,
+  };
+}
+
+export class BepEventProcessor {
+  private namedSets = new Map<string, { files: BepFile[]; fileSets: string[] }>();
+  private startTimeMillis?: number;
+  private summary: BazelBuildSummary = {
+    targets: [],
+    failedActions: [],
+    tests: [],
+  };
+
+  /**
+   * Process a single BEP JSON line
+   * Returns the typed events it produced (most lines produce zero or one)
+   */
+  processLine(line: string): BazelBuildEvent[] {
+    if (!line.trim()) {
+      return [];
+    }
+
+    let event: BepEvent;
+    try {
+      event = JSON.parse(line);
+    } catch (error) {
+      commonLogger.warn("Skipping malformed BEP line", { line: line.slice(0, 200), error });
+      return [];
+    }
+
+    const typed = this.convert(event);
+    if (typed) {
+      this.accumulate(typed);
+      return [typed];
+    }
+    return [];
+  }
+
+  /**
+   * Summary of everything seen so far
+   */
+  getSummary(): BazelBuildSummary {
+    return this.summary;
+  }
+
+  private convert(event: BepEvent): BazelBuildEvent | undefined {
+    const id = event.id ?? {};
+
+    if (id.started && event.started) {
+      return {
+        type: "started",
+        command: event.started.command ?? "",
+        startTimeMillis: parseMillis(event.started.startTimeMillis),
+      };
+    }
+
+    if (id.progress && event.progress) {
+      return {
+        type: "progress",
+        stdout: event.progress.stdout ?? "",
+        stderr: event.progress.stderr ?? "",
+      };
+    }
+
+    if (id.targetConfigured) {
+      return {
+        type: "targetConfigured",
+        label: id.targetConfigured.label,
+        kind: event.configured?.targetKind?.replace(/ rule$/, ""),
+      };
+    }
+
+    if (id.namedSet && event.namedSetOfFiles) {
+      this.namedSets.set(id.namedSet.id, {
+        files: event.namedSetOfFiles.files ?? [],
+        fileSets: (event.namedSetOfFiles.fileSets ?? []).map((set: { id: string }) => set.id),
+      });
+      return undefined;
+    }
+
+    if (id.actionCompleted && event.action && event.action.success === false) {
+      return {
+        type: "actionFailed",
+        label: event.action.label ?? id.actionCompleted.label,
+        mnemonic: event.action.type,
+        exitCode: event.action.exitCode,
+        primaryOutput: id.actionCompleted.primaryOutput,
+        stderrPath: toLocalPath(event.action.stderr),
+        message: event.action.failureDetail?.message,
+      };
+    }
+
+    if (id.targetCompleted) {
+      const completed = event.completed;
+      return {
+        type: "targetCompleted",
+        label: id.targetCompleted.label,
+        success: completed?.success === true,
+        outputFiles: completed ? this.resolveOutputFiles(completed) : [],
+      };
+    }
+
+    if (id.testResult && event.testResult) {
+      const outputs: BepFile[] = event.testResult.testActionOutput ?? [];
+      return {
+        type: "testResult",
+        label: id.testResult.label,
+        status: (event.testResult.status ?? "NO_STATUS") as BazelTestStatus,
+        durationMillis: parseMillis(event.testResult.testAttemptDurationMillis, event.testResult.testAttemptDuration),
+        run: id.testResult.run ?? 1,
+        shard: id.testResult.shard ?? 1,
+        attempt: id.testResult.attempt ?? 1,
+        cached: event.testResult.cachedLocally === true || event.testResult.executionInfo?.cachedRemotely === true,
+        testLogPath: toLocalPath(outputs.find((output) => output.name === "test.log")),
+        testXmlPath: toLocalPath(outputs.find((output) => output.name === "test.xml")),
+      };
+    }
+
+    if (id.testSummary && event.testSummary) {
+      return {
+        type: "testSummary",
+        label: id.testSummary.label,
+        status: (event.testSummary.overallStatus ?? "NO_STATUS") as BazelTestStatus,
+        totalRunCount: event.testSummary.totalRunCount ?? 0,
+        durationMillis: parseMillis(event.testSummary.totalRunDurationMillis, event.testSummary.totalRunDuration),
+      };
+    }
+
+    if (id.buildFinished && event.finished) {
+      // The name is always set (code 0 of SUCCESS is left out of the JSON), overallSuccess is deprecated
+      const exitCode: string | undefined = event.finished.exitCode?.name;
+      return {
+        type: "buildFinished",
+        success: exitCode !== undefined ? exitCode === "SUCCESS" : event.finished.overallSuccess === true,
+        exitCode: exitCode,
+        finishTimeMillis: parseMillis(event.finished.finishTimeMillis),
+      };
+    }
+
+    if (id.buildMetrics && event.buildMetrics) {
+      return { type: "buildMetrics", metrics: parseMetrics(event.buildMetrics) };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve files of the default output group through the named set graph
+   */
+  private resolveOutputFiles(completed: any): string[] {
+    const files = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (setId: string) => {
+      if (visited.has(setId)) return;
+      visited.add(setId);
+
+      const namedSet = this.namedSets.get(setId);
+      if (!namedSet) return;
+
+      for (const file of namedSet.files) {
+        const localPath = toLocalPath(file);
+        if (localPath) files.add(localPath);
+      }
+      for (const childId of namedSet.fileSets) {
+        visit(childId);
+      }
+    };
+
+    const outputGroups: { name: string; fileSets?: { id: string }[] }[] = completed.outputGroup ?? [];
+    for (const group of outputGroups.filter((group) => group.name === "default")) {
+      for (const set of group.fileSets ?? []) {
+        visit(set.id);
+      }
+    }
+
+    // Older Bazel versions only report `importantOutput`
+    for (const file of completed.importantOutput ?? []) {
+      const localPath = toLocalPath(file);
+      if (localPath) files.add(localPath);
+    }
+
+    return [...files];
+  }
+
+  private accumulate(event: BazelBuildEvent): void {
+    const summary = this.summary;
+
+    switch (event.type) {
+      case "started":
+        summary.command = event.command;
+        this.startTimeMillis = event.startTimeMillis;
+        break;
+      case "actionFailed":
+        summary.failedActions.push(event);
+        break;
+      case "targetCompleted": {
+        const existing = summary.targets.find((target) => target.label === event.label);
+        if (existing) {
+          existing.success = existing.success && event.success;
+          existing.outputFiles = [...new Set([...existing.outputFiles, ...event.outputFiles])];
+        } else {
+          summary.targets.push({ label: event.label, success: event.success, outputFiles: event.outputFiles });
+        }
+        break;
+      }
+      case "testResult": {
+        // Keep the latest attempt until the test summary arrives
+        const existing = summary.tests.find((test) => test.label === event.label);
+        if (existing) {
+          existing.status = event.status;
+          existing.durationMillis = event.durationMillis;
+          existing.cached = event.cached;
+        } else {
+          summary.tests.push({
+            label: event.label,
+            status: event.status,
+            durationMillis: event.durationMillis,
+            cached: event.cached,
+          });
+        }
+        break;
+      }
+      case "testSummary": {
+        const existing = summary.tests.find((test) => test.label === event.label);
+        if (existing) {
+          existing.status = event.status;
+          existing.durationMillis = event.durationMillis || existing.durationMillis;
+        } else {
+          summary.tests.push({
+            label: event.label,
+            status: event.status,
+            durationMillis: event.durationMillis,
+            cached: false,
+          });
+        }
+        break;
+      }
+      case "buildFinished":
+        summary.success = event.success;
+        summary.exitCode = event.exitCode;
+        if (this.startTimeMillis && event.finishTimeMillis) {
+          summary.durationMillis = event.finishTimeMillis - this.startTimeMillis;
+        }
+        break;
+      case "buildMetrics":
+        summary.metrics = event.metrics;
+        break;
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * BSP Client
+ *
+ * Minimal Build Server Protocol client: starts a build server from the argv of a BSP connection
+ * file and talks JSON-RPC with it over stdio, framed with Content-Length headers like LSP. Used to
+ * check the server on its own, SourceKit-LSP normally is the only one talking to it.
+ */
+
+import { type ChildProcess, spawn } from "node:child_process";
+import * as path from "node:path";
+import { ExtensionError } from "../../shared/errors/errors.js";
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const HEADER_SEPARATOR = "\r\n\r\n";
+const CONTENT_LENGTH_REGEX = /^Content-Length:\s*(\d+)\s*$/im;
+const METHOD_NOT_FOUND = -32601;
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+// build/shutdown and build/exit, after which the server is killed
+const SHUTDOWN_TIMEOUT_MS = 2000;
+const MAX_STDERR_LENGTH = 20_000;
+const MAX_MESSAGES = 100;
+
+/**
+ * Frame a JSON-RPC message, the length counts bytes and not characters
+ */
+export function encodeBspMessage(message: object): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, "utf8")}${HEADER_SEPARATOR}${body}`;
+}
+
+/**
+ * Splits the stdout of a build server into JSON-RPC messages, chunks may end anywhere in a message
+ */
+export class BspMessageReader {
+  private buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer | string): JsonRpcMessage[] {
+    this.buffer = Buffer.concat([this.buffer, typeof chunk === "string" ? Buffer.from(chunk, "utf8") : chunk]);
+
+    const messages: JsonRpcMessage[] = [];
+    let message = this.readMessage();
+    while (message) {
+      messages.push(message);
+      message = this.readMessage();
+    }
+    return messages;
+  }
+
+  private readMessage(): JsonRpcMessage | undefined {
+    const headerEnd = this.buffer.indexOf(HEADER_SEPARATOR);
+    if (headerEnd === -1) {
+      return undefined;
+    }
+
+    const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+    const contentLength = header.match(CONTENT_LENGTH_REGEX);
+    if (!contentLength) {
+      throw new ExtensionError("BSP message without a Content-Length header", { context: { header } });
+    }
+
+    const start = headerEnd + HEADER_SEPARATOR.length;
+    const end = start + Number(contentLength[1]);
+    if (this.buffer.length < end) {
+      return undefined;
+    }
+    const body = this.buffer.subarray(start, end).toString("utf8");
+    this.buffer = this.buffer.subarray(end);
+    return JSON.parse(body);
+  }
+}
+
+/**
+ * Build server process with requests and notifications over its stdio
+ * Every request is rejected once the server exits, fails to start or sends something unreadable
+ */
+export class BspClient {
+  private process: ChildProcess;
+  private reader = new BspMessageReader();
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private stderr = "";
+  private messages: string[] = [];
+  private failure: Error | undefined;
+  private exited: Promise<void>;
+
+  constructor(options: { argv: string[]; cwd: string }) {
+    const [command, ...args] = options.argv;
+    // Relative paths in the argv are relative to the workspace, like for SourceKit-LSP
+    const executable = command.includes("/") ? path.resolve(options.cwd, command) : command;
+
+    this.process = spawn(executable, args, { cwd: options.cwd, stdio: ["pipe", "pipe", "pipe"] });
+    this.exited = new Promise((resolve) => {
+      this.process.on("error", (error) => {
+        this.fail(
+          new ExtensionError(`Failed to start the build server: ${error.message}`, { context: { argv: options.argv } }),
+        );
+        resolve();
+      });
+      this.process.on("exit", (code, signal) => {
+        this.fail(
+          new ExtensionError(`Build server exited ${signal ? `with signal ${signal}` : `with code ${code}`}`, {
+            context: { argv: options.argv },
+          }),
+        );
+        resolve();
+      });
+    });
+
+    this.process.stdout?.on("data", (data: Buffer) => {
+      let messages: JsonRpcMessage[];
+      try {
+        messages = this.reader.push(data);
+      } catch (error) {
+        this.fail(new ExtensionError(`Unreadable message from the build server: ${error}`));
+        this.process.kill();
+        return;
+      }
+      for (const message of messages) {
+        this.handleMessage(message);
+      }
+    });
+    this.process.stderr?.on("data", (data: Buffer) => {
+      this.stderr = (this.stderr + data.toString()).slice(-MAX_STDERR_LENGTH);
+    });
+    // Writing to a server that already exited, the exit event rejects the requests
+    this.process.stdin?.on("error", () => {});
+  }
+
+  /**
+   * End of what the server wrote to stderr, where sourcekit-bazel-bsp reports startup failures
+   */
+  getStderr(): string {
+    return this.stderr;
+  }
+
+  /**
+   * Messages of build/logMessage and build/showMessage notifications, oldest first
+   */
+  getMessages(): string[] {
+    return this.messages;
+  }
+
+  request<T>(method: string, params: unknown, timeoutMillis = DEFAULT_REQUEST_TIMEOUT_MS): Promise<T> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new ExtensionError(`${method} timed out after ${timeoutMillis / 1000}s`, { context: { method } }));
+      }, timeoutMillis);
+      this.pending.set(id, { method, resolve, reject, timer });
+      this.send({ jsonrpc: "2.0", id: id, method: method, params: params });
+    });
+  }
+
+  notify(method: string, params?: unknown): void {
+    if (!this.failure) {
+      this.send({ jsonrpc: "2.0", method: method, params: params });
+    }
+  }
+
+  /**
+   * Ask the server to shut down and exit, killing it if it doesn't in time
+   */
+  async shutdown(): Promise<void> {
+    if (!this.failure) {
+      try {
+        await this.request("build/shutdown", null, SHUTDOWN_TIMEOUT_MS);
+        this.notify("build/exit");
+      } catch {
+        // Killed below
+      }
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), SHUTDOWN_TIMEOUT_MS);
+    });
+    const hasExited = await Promise.race([this.exited.then(() => true), timeout]);
+    clearTimeout(timer);
+    if (!hasExited) {
+      this.process.kill();
+      await this.exited;
+    }
+  }
+
+  private send(message: JsonRpcMessage): void {
+    this.process.stdin?.write(encodeBspMessage(message));
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // Request from the server, none is needed to answer the requests the client sends
+    if (message.method && message.id !== undefined && message.id !== null) {
+      this.send({
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code: METHOD_NOT_FOUND, message: `Unsupported method ${message.method}` },
+      });
+      return;
+    }
+
+    if (message.method) {
+      if (message.method === "build/logMessage" || message.method === "build/showMessage") {
+        const text = (message.params as { message?: unknown } | undefined)?.message;
+        if (typeof text === "string") {
+          this.messages.push(text);
+          this.messages.splice(0, Math.max(0, this.messages.length - MAX_MESSAGES));
+        }
+      }
+      return;
+    }
+
+    const request = typeof message.id === "number" ? this.pending.get(message.id) : undefined;
+    if (!request) {
+      return; // Response to a request that already timed out
+    }
+    this.pending.delete(message.id as number);
+    clearTimeout(request.timer);
+    if (message.error) {
+      request.reject(
+        new ExtensionError(`${request.method} failed: ${message.error.message}`, {
+          context: { method: request.method, code: message.error.code, data: message.error.data },
+        }),
+      );
+    } else {
+      request.resolve(message.result);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(this.failure);
+    }
+    this.pending.clear();
+  }
+}
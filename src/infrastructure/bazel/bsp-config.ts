@@ -0,0 +1,213 @@
+/**
+ * BSP Config
+ *
+ * Generates .bsp/skbsp.json from a template: the built-in one, with the fields of the
+ * `bsp.configTemplate` setting on top. Strings can use ${buildLabel}, ${packagePath},
+ * ${targetName} and ${workspaceRoot}. With several targets (an index set) every
+ * `--target ${buildLabel}` pair of argv is repeated and other argv values list the
+ * values of all targets, comma separated. The generated argv is checked against the
+ * flags the installed sourcekit-bazel-bsp binary prints with --help.
+ */
+
+import * as path from "node:path";
+import { z } from "zod";
+import type { BspConfig } from "../../domain/entities/bazel/types.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspaceConfig } from "../../shared/utils/config.js";
+import { exec } from "../../shared/utils/exec.js";
+import { isFileExists } from "../../shared/utils/files.js";
+
+export const BSP_CONFIG_VARIABLES = ["buildLabel", "packagePath", "targetName", "workspaceRoot"] as const;
+
+export type BspConfigVariables = Record<(typeof BSP_CONFIG_VARIABLES)[number], string>;
+
+// Variables that differ between the targets of an index set
+const TARGET_VARIABLES = new Set(["buildLabel", "packagePath", "targetName"]);
+
+export const DEFAULT_BSP_CONFIG_TEMPLATE: BspConfig = {
+  name: "sourcekit-bazel-bsp",
+  version: "0.2.0",
+  bspVersion: "2.2.0",
+  languages: ["c", "cpp", "objective-c", "objective-cpp", "swift"],
+  argv: [
+    ".bsp/sourcekit-bazel-bsp",
+    "serve",
+    "--target",
+    "${buildLabel}",
+    "--bazel-wrapper",
+    "bazelisk",
+    "--build-test-suffix",
+    "_(PLAT)_skbsp",
+    "--build-test-platform-placeholder",
+    "(PLAT)",
+    "--index-build-batch-size",
+    "10",
+    "--index-flag",
+    "config=skbsp",
+    "--files-to-watch",
+    "${packagePath}/**/*.swift,${packagePath}/**/*.h,${packagePath}/**/*.m",
+  ],
+};
+
+// Same rules as schemas/skbsp.schema.json, which validates the file in the editor
+const bspConfigSchema = z
+  .object({
+    name: z.string().min(1),
+    version: z.string().min(1),
+    bspVersion: z.string().min(1),
+    languages: z.array(z.string().min(1)).min(1),
+    argv: z.array(z.string()).min(2, "needs the binary and its subcommand (serve)"),
+  })
+  .passthrough();
+
+const VARIABLE_REGEX = /\$\{(\w+)\}/g;
+const FLAG_REGEX = /(?:^|[\s,[])(--[a-zA-Z0-9][\w-]*)/g;
+
+/**
+ * Built-in template with the fields of the `bsp.configTemplate` setting replacing the built-in ones
+ */
+export function getBspConfigTemplate(): BspConfig {
+  const overrides = getWorkspaceConfig("bsp.configTemplate");
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    return DEFAULT_BSP_CONFIG_TEMPLATE;
+  }
+  return { ...DEFAULT_BSP_CONFIG_TEMPLATE, ...overrides };
+}
+
+/**
+ * Variables of the selected target, the root package is "." so paths stay relative
+ */
+export function getBspConfigVariables(buildLabel: string, workspaceRoot: string): BspConfigVariables {
+  const [packagePath, targetName] = buildLabel.replace(/^@?\/\//, "").split(":");
+  return {
+    buildLabel: buildLabel,
+    packagePath: packagePath || ".",
+    targetName: targetName ?? path.basename(packagePath),
+    workspaceRoot: workspaceRoot,
+  };
+}
+
+/**
+ * Replace ${variable} in every string of the template, unknown variables are kept and reported
+ * The first target fills the fields outside of argv
+ */
+export function renderBspConfig(
+  template: BspConfig,
+  targets: BspConfigVariables[],
+): { config: BspConfig; unknownVariables: string[] } {
+  const unknownVariables = new Set<string>();
+
+  const renderString = (value: string, variables: BspConfigVariables): string =>
+    value.replace(VARIABLE_REGEX, (match, name: string) => {
+      if (Object.hasOwn(variables, name)) {
+        return variables[name as keyof BspConfigVariables];
+      }
+      unknownVariables.add(name);
+      return match;
+    });
+
+  const render = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return renderString(value, targets[0]);
+    }
+    if (Array.isArray(value)) {
+      return value.map(render);
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, render(child)]));
+    }
+    return value;
+  };
+
+  const renderArgv = (argv: unknown): unknown => {
+    if (!Array.isArray(argv) || targets.length < 2) {
+      return render(argv);
+    }
+    const rendered: unknown[] = [];
+    for (let index = 0; index < argv.length; index++) {
+      const arg = argv[index];
+      const next = argv[index + 1];
+      if (arg === "--target" && usesTargetVariables(next)) {
+        rendered.push(...targets.flatMap((variables) => [arg, renderString(next, variables)]));
+        index++;
+      } else if (usesTargetVariables(arg)) {
+        rendered.push([...new Set(targets.map((variables) => renderString(arg, variables)))].join(","));
+      } else {
+        rendered.push(render(arg));
+      }
+    }
+    return rendered;
+  };
+
+  const config = { ...(render(template) as BspConfig), argv: renderArgv(template.argv) as string[] };
+  return { config: config, unknownVariables: [...unknownVariables] };
+}
+
+function usesTargetVariables(value: unknown): value is string {
+  return (
+    typeof value === "string" && [...value.matchAll(VARIABLE_REGEX)].some(([, name]) => TARGET_VARIABLES.has(name))
+  );
+}
+
+/**
+ * Problems of a config against the schema, empty when it is valid
+ */
+export function validateBspConfig(config: unknown): string[] {
+  const result = bspConfigSchema.safeParse(config);
+  if (result.success) {
+    return [];
+  }
+  return result.error.issues.map((issue) => `${issue.path.join(".") || "config"}: ${issue.message}`);
+}
+
+/**
+ * Flags listed in the --help output of a sourcekit-bazel-bsp subcommand
+ */
+export function parseHelpFlags(help: string): Set<string> {
+  return new Set([...help.matchAll(FLAG_REGEX)].map((match) => match[1]));
+}
+
+/**
+ * Targets a config indexes, the values of its --target flags
+ */
+export function getBspConfigTargets(argv: string[]): string[] {
+  const targets: string[] = [];
+  argv.forEach((arg, index) => {
+    if (arg === "--target" && argv[index + 1]) {
+      targets.push(argv[index + 1]);
+    } else if (arg.startsWith("--target=")) {
+      targets.push(arg.slice("--target=".length));
+    }
+  });
+  return targets;
+}
+
+/**
+ * Flags of the argv (after the binary and subcommand) the binary doesn't know
+ */
+export function findUnknownFlags(argv: string[], knownFlags: Set<string>): string[] {
+  const flags = argv
+    .slice(2)
+    .filter((arg) => arg.startsWith("--"))
+    .map((arg) => arg.split("=")[0]);
+  return [...new Set(flags)].filter((flag) => !knownFlags.has(flag));
+}
+
+/**
+ * Flags supported by the installed binary, undefined when it is missing or doesn't print any help
+ */
+export async function readSupportedFlags(argv: string[], workspaceRoot: string): Promise<Set<string> | undefined> {
+  const binaryPath = path.resolve(workspaceRoot, argv[0]);
+  if (!(await isFileExists(binaryPath))) {
+    return undefined;
+  }
+
+  try {
+    const help = await exec({ command: binaryPath, args: [argv[1], "--help"], cwd: workspaceRoot });
+    const flags = parseHelpFlags(help);
+    return flags.size > 0 ? flags : undefined;
+  } catch (error) {
+    commonLogger.warn("Failed to read the flags of sourcekit-bazel-bsp", { binaryPath, error });
+    return undefined;
+  }
+}
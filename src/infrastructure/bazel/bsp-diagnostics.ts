@@ -0,0 +1,302 @@
+/**
+ * BSP Diagnostics
+ *
+ * Starts the build server of .bsp/skbsp.json with the built-in BSP client and asks it what
+ * SourceKit-LSP would: the targets, their sources and the compiler arguments of a file. Each step
+ * is recorded with its result, so the report shows where a broken setup stops answering.
+ */
+
+import * as path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type {
+  BspDiagnosticsReport,
+  BspDiagnosticsStep,
+  BspDiagnosticsTarget,
+} from "../../domain/entities/bazel/types.js";
+import { BspClient } from "./bsp-client.js";
+
+interface BuildTargetIdentifier {
+  uri: string;
+}
+
+interface InitializeBuildResult {
+  displayName: string;
+  version: string;
+  bspVersion: string;
+}
+
+interface WorkspaceBuildTargetsResult {
+  targets: { id: BuildTargetIdentifier; displayName?: string; languageIds?: string[] }[];
+}
+
+interface SourcesResult {
+  items: { target: BuildTargetIdentifier; sources: { uri: string; kind: number }[] }[];
+}
+
+interface SourceKitOptionsResult {
+  compilerArguments: string[];
+  workingDirectory?: string;
+}
+
+const SOURCE_ITEM_KIND_DIRECTORY = 2;
+const STEPS = ["build/initialize", "workspace/buildTargets", "buildTarget/sources", "textDocument/sourceKitOptions"];
+// The server may query or build with Bazel before it answers
+const DEFAULT_REQUEST_TIMEOUT_MS = 120_000;
+const MAX_LISTED_SOURCES = 20;
+const MAX_LISTED_MESSAGES = 30;
+const MAX_STDERR_LINES = 50;
+
+const LANGUAGE_IDS: Record<string, string> = {
+  ".swift": "swift",
+  ".m": "objective-c",
+  ".h": "objective-c",
+  ".mm": "objective-cpp",
+  ".c": "c",
+  ".cc": "cpp",
+  ".cpp": "cpp",
+  ".hpp": "cpp",
+};
+
+const formatMillis = (millis: number) => (millis >= 1000 ? `${(millis / 1000).toFixed(1)}s` : `${millis}ms`);
+
+function uriToPath(uri: string): string {
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return uri; // Not a file URI
+  }
+}
+
+/**
+ * Target whose sources contain the file, a file listed itself wins over a directory containing it
+ */
+export function findTargetForFile(targets: BspDiagnosticsTarget[], filePath: string): string | undefined {
+  const isFile = (target: BspDiagnosticsTarget) =>
+    target.sources.some((source) => !source.directory && uriToPath(source.uri) === filePath);
+  const isInDirectory = (target: BspDiagnosticsTarget) =>
+    target.sources.some(
+      (source) => source.directory && filePath.startsWith(`${uriToPath(source.uri).replace(/\/$/, "")}/`),
+    );
+  return (targets.find(isFile) ?? targets.find(isInDirectory))?.uri;
+}
+
+async function runStep<T>(
+  report: BspDiagnosticsReport,
+  method: string,
+  callback: () => Promise<T>,
+): Promise<T | undefined> {
+  const startTime = Date.now();
+  const step: BspDiagnosticsStep = { method: method, status: "ok" };
+  report.steps.push(step);
+  try {
+    return await callback();
+  } catch (error) {
+    step.status = "failed";
+    step.error = error instanceof Error ? error.message : String(error);
+    return undefined;
+  } finally {
+    step.durationMillis = Date.now() - startTime;
+  }
+}
+
+async function runSteps(
+  client: BspClient,
+  report: BspDiagnosticsReport,
+  options: { workspaceRoot: string; activeFile?: string; requestTimeoutMillis: number },
+): Promise<void> {
+  const request = <T>(method: string, params: unknown) =>
+    client.request<T>(method, params, options.requestTimeoutMillis);
+
+  const initialized = await runStep(report, "build/initialize", () =>
+    request<InitializeBuildResult>("build/initialize", {
+      displayName: "Bazel BSP",
+      version: "1.0.0",
+      bspVersion: "2.2.0",
+      rootUri: pathToFileURL(options.workspaceRoot).href,
+      capabilities: { languageIds: ["swift", "objective-c", "objective-cpp", "c", "cpp"] },
+    }),
+  );
+  if (!initialized) {
+    return;
+  }
+  report.server = { name: initialized.displayName, version: initialized.version, bspVersion: initialized.bspVersion };
+  client.notify("build/initialized", {});
+
+  const buildTargets = await runStep(report, "workspace/buildTargets", () =>
+    request<WorkspaceBuildTargetsResult>("workspace/buildTargets", {}),
+  );
+  if (!buildTargets) {
+    return;
+  }
+  report.targets = buildTargets.targets.map((target) => ({
+    uri: target.id.uri,
+    displayName: target.displayName,
+    languageIds: target.languageIds ?? [],
+    sources: [],
+  }));
+  if (report.targets.length === 0) {
+    return; // Nothing to ask the sources of
+  }
+
+  const sources = await runStep(report, "buildTarget/sources", () =>
+    request<SourcesResult>("buildTarget/sources", { targets: report.targets.map((target) => ({ uri: target.uri })) }),
+  );
+  if (!sources) {
+    return;
+  }
+  for (const item of sources.items) {
+    const target = report.targets.find((candidate) => candidate.uri === item.target.uri);
+    target?.sources.push(
+      ...item.sources.map((source) => ({ uri: source.uri, directory: source.kind === SOURCE_ITEM_KIND_DIRECTORY })),
+    );
+  }
+
+  if (!options.activeFile) {
+    return;
+  }
+  const activeFile: NonNullable<BspDiagnosticsReport["activeFile"]> = {
+    path: options.activeFile,
+    target: findTargetForFile(report.targets, options.activeFile),
+  };
+  report.activeFile = activeFile;
+  const target = activeFile.target;
+  if (!target) {
+    return;
+  }
+
+  const sourceKitOptions = await runStep(report, "textDocument/sourceKitOptions", () =>
+    request<SourceKitOptionsResult | null>("textDocument/sourceKitOptions", {
+      textDocument: { uri: pathToFileURL(options.activeFile as string).href },
+      target: { uri: target },
+      language: LANGUAGE_IDS[path.extname(activeFile.path)] ?? "swift",
+    }),
+  );
+  activeFile.compilerArguments = sourceKitOptions?.compilerArguments;
+  activeFile.workingDirectory = sourceKitOptions?.workingDirectory;
+}
+
+/**
+ * Start the build server, run the requests SourceKit-LSP depends on and shut it down again
+ * Never throws for a failing server, the failure is part of the report
+ */
+export async function runBspDiagnostics(options: {
+  argv: string[];
+  workspaceRoot: string;
+  activeFile?: string; // Absolute path of the file to ask the compiler arguments of
+  requestTimeoutMillis?: number;
+}): Promise<BspDiagnosticsReport> {
+  const report: BspDiagnosticsReport = { argv: options.argv, steps: [], targets: [], messages: [], stderr: "" };
+
+  const client = new BspClient({ argv: options.argv, cwd: options.workspaceRoot });
+  try {
+    await runSteps(client, report, {
+      workspaceRoot: options.workspaceRoot,
+      activeFile: options.activeFile,
+      requestTimeoutMillis: options.requestTimeoutMillis ?? DEFAULT_REQUEST_TIMEOUT_MS,
+    });
+  } finally {
+    await client.shutdown();
+  }
+
+  // Steps that didn't run, with the reason
+  const failedStep = report.steps.find((step) => step.status === "failed");
+  for (const method of STEPS.slice(report.steps.length)) {
+    let reason: string;
+    if (failedStep) {
+      reason = `${failedStep.method} failed`;
+    } else if (report.targets.length === 0) {
+      reason = "No targets";
+    } else if (!options.activeFile) {
+      reason = "No active file";
+    } else {
+      reason = "No target contains the active file";
+    }
+    report.steps.push({ method: method, status: "skipped", error: reason });
+  }
+
+  report.messages = client.getMessages();
+  report.stderr = client.getStderr();
+  return report;
+}
+
+function formatStep(step: BspDiagnosticsStep): string {
+  const duration = step.durationMillis !== undefined ? formatMillis(step.durationMillis) : "";
+  const result = {
+    ok: "✅ OK",
+    failed: `❌ ${step.error ?? "Failed"}`,
+    skipped: `⏭️ Skipped${step.error ? ` (${step.error})` : ""}`,
+  }[step.status];
+  return `| \`${step.method}\` | ${result.replace(/\|/g, "\\|").replace(/\n/g, " ")} | ${duration} |`;
+}
+
+function formatSource(source: { uri: string; directory: boolean }, workspaceRoot: string): string {
+  const sourcePath = uriToPath(source.uri);
+  const relativePath = path.isAbsolute(sourcePath) ? path.relative(workspaceRoot, sourcePath) : sourcePath;
+  return `- ${relativePath.startsWith("..") ? sourcePath : relativePath}${source.directory ? "/ (directory)" : ""}`;
+}
+
+/**
+ * Markdown report, source paths relative to the workspace
+ */
+export function formatBspDiagnosticsReport(report: BspDiagnosticsReport, workspaceRoot: string): string {
+  const lines: string[] = ["# BSP Server Diagnostics", "", `Command: \`${report.argv.join(" ")}\``];
+  if (report.server) {
+    lines.push(`Server: ${report.server.name} ${report.server.version} (BSP ${report.server.bspVersion})`);
+  }
+
+  lines.push("", "## Requests", "", "| Request | Result | Time |", "| --- | --- | --- |");
+  lines.push(...report.steps.map(formatStep));
+
+  const initialized = report.steps.some((step) => step.method === "build/initialize" && step.status === "ok");
+  if (initialized) {
+    lines.push("", `## Targets (${report.targets.length})`, "");
+    if (report.targets.length === 0) {
+      lines.push("The server reported no targets, check the --target flags of the config.");
+    } else {
+      lines.push("| Target | Languages | Sources |", "| --- | --- | --- |");
+      for (const target of report.targets) {
+        lines.push(`| \`${target.uri}\` | ${target.languageIds.join(", ")} | ${target.sources.length} |`);
+      }
+    }
+
+    for (const target of report.targets.filter((candidate) => candidate.sources.length > 0)) {
+      lines.push("", `### ${target.displayName ?? target.uri}`, "");
+      lines.push(...target.sources.slice(0, MAX_LISTED_SOURCES).map((source) => formatSource(source, workspaceRoot)));
+      if (target.sources.length > MAX_LISTED_SOURCES) {
+        lines.push(`- … and ${target.sources.length - MAX_LISTED_SOURCES} more`);
+      }
+    }
+  }
+
+  const { activeFile } = report;
+  if (activeFile) {
+    lines.push("", "## Active File", "", `File: \`${path.relative(workspaceRoot, activeFile.path)}\``);
+    if (!activeFile.target) {
+      lines.push("", "No target lists this file in its sources, SourceKit-LSP has no compiler arguments for it.");
+    } else {
+      lines.push(`Target: \`${activeFile.target}\``);
+      if (activeFile.workingDirectory) {
+        lines.push(`Working directory: \`${activeFile.workingDirectory}\``);
+      }
+      if (activeFile.compilerArguments) {
+        lines.push("", `Compiler arguments (${activeFile.compilerArguments.length}):`, "", "```");
+        lines.push(...activeFile.compilerArguments, "```");
+      } else if (report.steps.some((step) => step.method === "textDocument/sourceKitOptions" && step.status === "ok")) {
+        lines.push("", "The server has no compiler arguments for the file yet, the target may not be built.");
+      }
+    }
+  }
+
+  if (report.messages.length > 0) {
+    lines.push("", "## Server Messages", "", "```");
+    lines.push(...report.messages.slice(-MAX_LISTED_MESSAGES), "```");
+  }
+
+  const stderrLines = report.stderr.trimEnd().split("\n").filter(Boolean);
+  if (stderrLines.length > 0) {
+    lines.push("", "## Server Stderr", "", "```");
+    lines.push(...stderrLines.slice(-MAX_STDERR_LINES), "```");
+  }
+
+  return `${lines.join("\n")}\n`;
+}
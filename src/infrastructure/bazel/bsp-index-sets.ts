@@ -0,0 +1,44 @@
+/**
+ * BSP Index Sets
+ *
+ * Named groups of targets (e.g. an app with its widget and tests) the generated .bsp/skbsp.json
+ * indexes together. Every Bazel workspace keeps its own list and the name of the active set.
+ */
+
+import type { BspIndexSet } from "../../domain/entities/bazel/types.js";
+
+/**
+ * Add labels to the set with the given name, creating it when it doesn't exist
+ */
+export function addToIndexSet(sets: BspIndexSet[], name: string, labels: string[]): BspIndexSet[] {
+  const existing = sets.find((set) => set.name === name);
+  if (!existing) {
+    return [...sets, { name: name, labels: [...new Set(labels)] }];
+  }
+  return sets.map((set) => (set === existing ? { name: name, labels: [...new Set([...set.labels, ...labels])] } : set));
+}
+
+/**
+ * Replace the labels of a set, a set without labels is removed
+ */
+export function updateIndexSet(sets: BspIndexSet[], name: string, labels: string[]): BspIndexSet[] {
+  if (labels.length === 0) {
+    return sets.filter((set) => set.name !== name);
+  }
+  return sets.map((set) => (set.name === name ? { name: name, labels: [...new Set(labels)] } : set));
+}
+
+/**
+ * Labels the generated config indexes: those of the active set, or the selected target without one
+ */
+export function getIndexedLabels(
+  sets: BspIndexSet[],
+  activeSetName: string | undefined,
+  selectedLabel: string | undefined,
+): string[] {
+  const activeSet = sets.find((set) => set.name === activeSetName);
+  if (activeSet) {
+    return activeSet.labels;
+  }
+  return selectedLabel ? [selectedLabel] : [];
+}
@@ -0,0 +1,233 @@
+/**
+ * BSP Log Parser
+ *
+ * Health of sourcekit-bazel-bsp from its log: the config and targets it loaded, the indexing
+ * batch in progress, index builds and errors grouped by kind. Works line by line on `log stream`
+ * and `log show` output (default and compact styles) and on plain captured text, so a live stream
+ * and a saved log give the same state.
+ */
+
+import type { BspErrorGroup, BspErrorKind, BspHealthState, BspLogEntry } from "../../domain/entities/bazel/types.js";
+
+// "2025-01-10 10:15:42.123456-0800 ..." (log stream, log show) or "2025-01-10T10:15:42.123Z ..."
+const TIMESTAMP_REGEX = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})(\.\d+)?(Z|[+-]\d{2}:?\d{2})?\s+/;
+// "... sourcekit-bazel-bsp: (SourceKitBazelBSP) ..." (default style) or "... sourcekit-bazel-bsp[123:4a5b] ..." (compact)
+const PROCESS_REGEX = /\bsourcekit-bazel-bsp(?:\[[\w:]+\]|:)\s*(?:\([^)]*\)\s*)?/;
+// Type column before the process: "Error", "Default", ... (default style) or "E", "Df", ... (compact style)
+const LOG_TYPE_REGEX = /(?:^|\s)(Default|Info|Debug|Error|Fault|Df|Db|I|E|F)(?=\s)/;
+// "[com.spotify.sourcekit-bazel-bsp:BSPServer] ..."
+const CATEGORY_REGEX = /^\[[\w.-]+:([\w.-]+)\]\s*/;
+// Plain text: "error: ...", "[ERROR] ...", "warning: ..."
+const MESSAGE_LEVEL_REGEX = /^\[?(error|fault|warning|warn|info|debug)\]?:?\s/i;
+// Header lines of `log stream`
+const LOG_HEADER_REGEX = /^(?:Filtering the log data|Timestamp\s+(?:Thread|Ty))/;
+// biome-ignore lint/suspicious/noControlCharactersInRegex: strips ANSI color codes from captured terminal output
+const ANSI_ESCAPE_REGEX = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+// "Initializing build server", "Received build/initialize request", "Starting sourcekit-bazel-bsp"
+const SERVER_START_REGEX =
+  /\b(?:build\/initialize|initializ(?:e|ing)\s+(?:the\s+)?(?:build\s+)?server|starting\s+sourcekit-bazel-bsp)\b/i;
+// "Loaded config from /repo/.bsp/skbsp.json", "Using configuration: ..."
+const CONFIG_REGEX = /\b(?:load(?:ed|ing)|read(?:ing)?|using|parsed)\b.*?\bconfig(?:uration)?\b(?:.*?(\S+\.json)\b)?/i;
+// "Processing batch 2/5", "Indexing batch 2 of 5"
+const BATCH_REGEX = /\bbatch\s+(\d+)\s*(?:\/|of)\s*(\d+)/i;
+// "Starting index build", "Building 12 targets", "Running bazel build ..."
+const BUILD_STARTED_REGEX =
+  /\b(?:start(?:ing|ed)\s+(?:the\s+)?(?:index(?:ing)?\s+)?build|building\s+(?:\d+\s+)?(?:targets?|batch)|running\s+bazel(?:isk)?\s+build)\b/i;
+// "Build failed: ...", "Failed to build //App:App"
+const BUILD_FAILED_REGEX = /\b(?:(?:index(?:ing)?\s+)?build\s+failed|failed\s+to\s+build)\b/i;
+// "Build finished in 12.3s", "Index build completed", "Finished building"
+const BUILD_FINISHED_REGEX =
+  /\b(?:(?:index(?:ing)?\s+)?build\s+(?:finished|completed|succeeded|done)|finished\s+building)\b/i;
+// "in 12.3s", "took 850ms", "after 2 seconds"
+const DURATION_REGEX = /\b(?:in|took|after)\s+([\d.]+)\s*(ms|s|secs?|seconds?)\b/i;
+// "//App:App", "@repo//Libs/Core:Core", but not "https://..."
+const LABEL_REGEX = /(?<![\w:/])@{0,2}[\w.-]*\/\/[^\s,'"\])]*/g;
+
+const ERROR_KIND_PATTERNS: [BspErrorKind, RegExp][] = [
+  ["compiler", /\.(?:swift|m|mm|c|cc|cpp|h):\d+|\bcompil|\bswiftc\b|\bclang\b/i],
+  ["config", /\bconfig|skbsp\.json|\bunknown option|\bunrecognized|\binvalid argument|\bmissing (?:argument|value)/i],
+  ["connection", /\bconnection|\bjson-?rpc|\bbroken pipe|\bsocket|\btimed? ?out\b|\bdisconnect/i],
+  ["bazel", /\bbazel|\bbuild failed|\bfailed to build|\bno such (?:target|package)|\banalysis of target|\bexit code/i],
+];
+
+const LOG_LEVELS: Record<string, BspLogEntry["level"]> = {
+  default: "info",
+  info: "info",
+  df: "info",
+  i: "info",
+  debug: "debug",
+  db: "debug",
+  error: "error",
+  fault: "error",
+  e: "error",
+  f: "error",
+  warning: "warning",
+  warn: "warning",
+};
+
+const MAX_GROUP_LINES = 50;
+const MAX_BUILD_LINES = 500;
+
+function parseTimestamp(match: RegExpMatchArray): number | undefined {
+  const [, date, time, fraction, zone = ""] = match;
+  const millis = fraction ? fraction.slice(0, 4).padEnd(4, "0") : "";
+  const offset = /^[+-]\d{4}$/.test(zone) ? `${zone.slice(0, 3)}:${zone.slice(3)}` : zone;
+  const timestamp = Date.parse(`${date}T${time}${millis}${offset}`);
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+function parseDuration(message: string): number | undefined {
+  const match = message.match(DURATION_REGEX);
+  if (!match) {
+    return undefined;
+  }
+  const value = Number(match[1]);
+  return match[2].toLowerCase() === "ms" ? value : Math.round(value * 1000);
+}
+
+const appendLine = (lines: string[], line: string, max: number) => {
+  lines.push(line);
+  if (lines.length > max) {
+    lines.splice(0, lines.length - max);
+  }
+};
+
+/**
+ * Parse one log line, undefined for empty lines and `log stream` headers
+ */
+export function parseBspLogLine(line: string): BspLogEntry | undefined {
+  let rest = line.replace(ANSI_ESCAPE_REGEX, "").trim();
+  if (!rest || LOG_HEADER_REGEX.test(rest)) {
+    return undefined;
+  }
+
+  let timestamp: number | undefined;
+  const timestampMatch = rest.match(TIMESTAMP_REGEX);
+  if (timestampMatch) {
+    timestamp = parseTimestamp(timestampMatch);
+    rest = rest.slice(timestampMatch[0].length);
+  }
+
+  let level: BspLogEntry["level"] | undefined;
+  const processMatch = rest.match(PROCESS_REGEX);
+  if (processMatch?.index !== undefined) {
+    const logType = rest.slice(0, processMatch.index).match(LOG_TYPE_REGEX)?.[1];
+    level = logType ? LOG_LEVELS[logType.toLowerCase()] : undefined;
+    rest = rest.slice(processMatch.index + processMatch[0].length);
+  }
+
+  let category: string | undefined;
+  const categoryMatch = rest.match(CATEGORY_REGEX);
+  if (categoryMatch) {
+    category = categoryMatch[1];
+    rest = rest.slice(categoryMatch[0].length);
+  }
+
+  const messageLevel = rest.match(MESSAGE_LEVEL_REGEX)?.[1];
+  level ??= messageLevel ? LOG_LEVELS[messageLevel.toLowerCase()] : "info";
+
+  return { timestamp: timestamp, level: level, category: category, message: rest.trim(), line: line };
+}
+
+/**
+ * Kind of an error message, by what it mentions
+ */
+export function classifyBspError(message: string): BspErrorKind {
+  return ERROR_KIND_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? "other";
+}
+
+export function createBspHealthState(): BspHealthState {
+  return { targets: [], errors: [] };
+}
+
+function recordError(state: BspHealthState, entry: BspLogEntry): void {
+  const kind = classifyBspError(entry.message);
+  const group: BspErrorGroup = state.errors.find((candidate) => candidate.kind === kind) ?? {
+    kind: kind,
+    count: 0,
+    lastMessage: "",
+    lines: [],
+  };
+  group.count++;
+  group.lastMessage = entry.message;
+  group.lastTimestamp = entry.timestamp ?? group.lastTimestamp;
+  appendLine(group.lines, entry.line, MAX_GROUP_LINES);
+
+  state.errors = [group, ...state.errors.filter((candidate) => candidate !== group)];
+}
+
+/**
+ * Update the state with a log entry, in place so a long stream doesn't copy it on every line
+ * A server start begins a new state, earlier builds and errors belong to the previous server
+ */
+export function applyBspLogEntry(state: BspHealthState, entry: BspLogEntry): void {
+  const { message } = entry;
+
+  if (SERVER_START_REGEX.test(message)) {
+    Object.assign(state, createBspHealthState(), {
+      serverStartTimestamp: entry.timestamp,
+      configPath: undefined,
+      batch: undefined,
+      currentBuild: undefined,
+      lastBuild: undefined,
+    });
+  }
+
+  if (state.currentBuild) {
+    appendLine(state.currentBuild.lines, entry.line, MAX_BUILD_LINES);
+  }
+
+  const batch = message.match(BATCH_REGEX);
+  if (batch) {
+    state.batch = { current: Number(batch[1]), total: Number(batch[2]) };
+  }
+
+  const isBuildFailed = BUILD_FAILED_REGEX.test(message);
+  const isBuildFinished = !isBuildFailed && BUILD_FINISHED_REGEX.test(message);
+  if (isBuildFailed || isBuildFinished) {
+    const build = state.currentBuild ?? { status: "running", lines: [entry.line] };
+    const elapsed =
+      build.startTimestamp !== undefined && entry.timestamp !== undefined
+        ? entry.timestamp - build.startTimestamp
+        : undefined;
+    build.status = isBuildFailed ? "failed" : "succeeded";
+    build.durationMillis = parseDuration(message) ?? elapsed;
+    build.failure = isBuildFailed ? message : undefined;
+    state.lastBuild = build;
+    state.currentBuild = undefined;
+    if (isBuildFinished && state.batch && state.batch.current >= state.batch.total) {
+      state.batch = undefined;
+    }
+  } else if (BUILD_STARTED_REGEX.test(message)) {
+    state.currentBuild = { status: "running", startTimestamp: entry.timestamp, lines: [entry.line] };
+  } else if (!batch) {
+    const config = message.match(CONFIG_REGEX);
+    if (config) {
+      state.configPath = config[1] ?? state.configPath;
+    }
+    // Targets of a build or batch are only a part of the ones the server indexes
+    const labels = /\btargets?\b/i.test(message) ? (message.match(LABEL_REGEX) ?? []) : [];
+    if (labels.length > 0) {
+      state.targets = [...new Set(labels)];
+    }
+  }
+
+  if (entry.level === "error" || isBuildFailed) {
+    recordError(state, entry);
+  }
+}
+
+/**
+ * Health state of a whole captured log
+ */
+export function parseBspLog(text: string): BspHealthState {
+  const state = createBspHealthState();
+  for (const line of text.split(/\r?\n/)) {
+    const entry = parseBspLogLine(line);
+    if (entry) {
+      applyBspLogEntry(state, entry);
+    }
+  }
+  return state;
+}
@@ -0,0 +1,77 @@
+/**
+ * BSP Setup Rules
+ *
+ * Discovery of the rules that write .bsp/skbsp.json (`setup_sourcekit_bsp` from sourcekit-bazel-bsp, or a
+ * custom rule kind from the `bsp.setupRuleKind` setting), ranked by how close they are to the selected target.
+ */
+
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspaceConfig } from "../../shared/utils/config.js";
+import { queryRulesOfKind } from "./bazel-query.js";
+
+export const DEFAULT_SETUP_RULE_KIND = "setup_sourcekit_bsp";
+
+// target: depends on (or is named after) the selected target, package: in its package or a parent package,
+// root: in the root package, other: anywhere else
+export type BspSetupRuleScope = "target" | "package" | "root" | "other";
+
+export interface BspSetupRuleCandidate {
+  label: string;
+  scope: BspSetupRuleScope;
+}
+
+const SCOPE_ORDER: BspSetupRuleScope[] = ["target", "package", "root", "other"];
+
+function splitLabel(label: string): { packagePath: string; name: string } {
+  const [packagePath, name] = label.replace(/^@?\/\//, "").split(":");
+  return { packagePath, name: name ?? packagePath.split("/").pop() ?? "" };
+}
+
+function getScope(label: string, selectedLabel: string | undefined, dependingOnTarget: string[]): BspSetupRuleScope {
+  const candidate = splitLabel(label);
+  if (selectedLabel) {
+    const selected = splitLabel(selectedLabel);
+    const isNamedAfterTarget =
+      candidate.packagePath === selected.packagePath && candidate.name === `setup_${selected.name.toLowerCase()}_bsp`;
+    if (dependingOnTarget.includes(label) || isNamedAfterTarget) {
+      return "target";
+    }
+    const isParentPackage =
+      candidate.packagePath !== "" && selected.packagePath.startsWith(`${candidate.packagePath}/`);
+    if (candidate.packagePath === selected.packagePath || isParentPackage) {
+      return "package";
+    }
+  }
+  return candidate.packagePath === "" ? "root" : "other";
+}
+
+/**
+ * Order setup rules by scope, closer packages first within the package scope
+ */
+export function rankSetupRules(
+  labels: string[],
+  options?: { selectedLabel?: string; dependingOnTarget?: string[] },
+): BspSetupRuleCandidate[] {
+  const depth = (label: string) => splitLabel(label).packagePath.split("/").length;
+
+  return [...new Set(labels)]
+    .map((label) => ({ label, scope: getScope(label, options?.selectedLabel, options?.dependingOnTarget ?? []) }))
+    .sort(
+      (a, b) =>
+        SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope) ||
+        (a.scope === "package" ? depth(b.label) - depth(a.label) : 0) ||
+        a.label.localeCompare(b.label),
+    );
+}
+
+/**
+ * Query the setup rules of the workspace, ranked for the selected target
+ */
+export async function discoverSetupRules(selectedLabel?: string, cwd?: string): Promise<BspSetupRuleCandidate[]> {
+  const kind = getWorkspaceConfig("bsp.setupRuleKind") || DEFAULT_SETUP_RULE_KIND;
+  const { labels, dependingOnTarget } = await queryRulesOfKind(kind, { dependingOn: selectedLabel, cwd });
+
+  const candidates = rankSetupRules(labels, { selectedLabel, dependingOnTarget });
+  commonLogger.log("Discovered BSP setup rules", { kind, selectedLabel, candidates });
+  return candidates;
+}
@@ -0,0 +1,190 @@
+import * as fs from "node:fs/promises";
+import type { BazelBuildEvent, BazelBuildSummary } from "../../domain/entities/bazel/types.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { removeFile, tempFilePath } from "../../shared/utils/files.js";
+import type { ExtensionContext } from "../vscode/extension-context.js";
+import { BepEventProcessor } from "./bep-parser.js";
+
+const DEFAULT_POLL_INTERVAL_MS = 250;
+
+/**
+ * Build Event Stream
+ *
+ * Tails the BEP JSON file Bazel writes while a command runs (`--build_event_json_file`)
+ * and dispatches typed events as they arrive. Call `stop()` after the command exits to
+ * read the remainder of the file and get the final summary.
+ */
+export class BuildEventStream {
+  readonly filePath: string;
+  private processor = new BepEventProcessor();
+  private onEvent?: (event: BazelBuildEvent) => void;
+  private pollIntervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private reading?: Promise<void>;
+  private offset = 0;
+  private pending = "";
+
+  constructor(options: { filePath: string; onEvent?: (event: BazelBuildEvent) => void; pollIntervalMs?: number }) {
+    this.filePath = options.filePath;
+    this.onEvent = options.onEvent;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Create a stream backed by a fresh file in the extension temp directory
+   */
+  static async create(
+    context: ExtensionContext,
+    options: { onEvent?: (event: BazelBuildEvent) => void } = {},
+  ): Promise<BuildEventStream> {
+    const { path: filePath } = await tempFilePath(context, { prefix: "bep", extension: "json" });
+    return new BuildEventStream({ filePath, onEvent: options.onEvent });
+  }
+
+  /**
+   * Flags that make Bazel write this stream
+   */
+  get bazelFlags(): string[] {
+    return [`--build_event_json_file=${this.filePath}`];
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop tailing, process whatever is left in the file and return the summary
+   */
+  async stop(options: { removeFile?: boolean } = {}): Promise<BazelBuildSummary> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    await this.poll();
+
+    // The last event may not be newline-terminated
+    if (this.pending.trim()) {
+      this.dispatch(this.pending);
+      this.pending = "";
+    }
+
+    if (options.removeFile !== false) {
+      await removeFile(this.filePath).catch(() => undefined);
+    }
+
+    return this.processor.getSummary();
+  }
+
+  getSummary(): BazelBuildSummary {
+    return this.processor.getSummary();
+  }
+
+  /**
+   * Read newly appended data (reads are serialized so events keep their order)
+   */
+  poll(): Promise<void> {
+    if (!this.reading) {
+      this.reading = this.readNewData().finally(() => {
+        this.reading = undefined;
+      });
+    }
+    return this.reading;
+  }
+
+  private async readNewData(): Promise<void> {
+    let handle: fs.FileHandle | undefined;
+    try {
+      handle = await fs.open(this.filePath, "r");
+      const { size } = await handle.stat();
+      if (size <= this.offset) return;
+
+      const buffer = Buffer.alloc(size - this.offset);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, this.offset);
+      this.offset += bytesRead;
+
+      const lines = (this.pending + buffer.subarray(0, bytesRead).toString("utf8")).split("\n");
+      this.pending = lines.pop() ?? "";
+
+      for (const line of lines) {
+        this.dispatch(line);
+      }
+    } catch (error) {
+      // Bazel creates the file only once the command has started
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        commonLogger.warn("Failed to read build event file", { filePath: this.filePath, error });
+      }
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  private dispatch(line: string): void {
+    for (const event of this.processor.processLine(line)) {
+      try {
+        this.onEvent?.(event);
+      } catch (error) {
+        commonLogger.error("Build event listener failed", { error, eventType: event.type });
+      }
+    }
+  }
+}
+
+/**
+ * Human-readable summary printed at the end of a build or test
+ */
+export function formatBuildSummary(summary: BazelBuildSummary): string {
+  const lines = ["📊 Build summary"];
+
+  const failedTargets = summary.targets.filter((target) => !target.success);
+  if (summary.targets.length > 0) {
+    lines.push(`   Targets: ${summary.targets.length - failedTargets.length} built, ${failedTargets.length} failed`);
+  }
+
+  if (summary.metrics) {
+    const { actionsExecuted, actionsCreated, remoteCacheHits, diskCacheHits, actionCacheHits } = summary.metrics;
+    lines.push(`   Actions: ${actionsExecuted} executed / ${actionsCreated} created`);
+    lines.push(`   Cache hits: ${remoteCacheHits} remote, ${diskCacheHits} disk, ${actionCacheHits} action cache`);
+  }
+
+  if (summary.tests.length > 0) {
+    const count = (...statuses: string[]) => summary.tests.filter((test) => statuses.includes(test.status)).length;
+    const cached = summary.tests.filter((test) => test.cached).length;
+    const failed = summary.tests.length - count("PASSED", "FLAKY");
+    lines.push(
+      `   Tests: ${count("PASSED")} passed, ${failed} failed, ${count("FLAKY")} flaky${cached > 0 ? ` (${cached} cached)` : ""}`,
+    );
+    for (const test of summary.tests.filter((test) => test.status !== "PASSED")) {
+      lines.push(`      - ${test.status} ${test.label}`);
+    }
+  }
+
+  if (summary.failedActions.length > 0) {
+    lines.push("   ❌ Failed actions:");
+    for (const action of summary.failedActions) {
+      const exitCode = action.exitCode !== undefined ? ` (exit ${action.exitCode})` : "";
+      lines.push(`      - ${action.mnemonic ?? "Action"} ${action.label ?? action.primaryOutput ?? ""}${exitCode}`);
+    }
+  }
+
+  for (const target of failedTargets) {
+    lines.push(`   ❌ ${target.label}`);
+  }
+
+  const outputs = summary.targets.flatMap((target) => target.outputFiles);
+  if (outputs.length > 0) {
+    lines.push("   Outputs:");
+    for (const output of outputs) {
+      lines.push(`      - ${output}`);
+    }
+  }
+
+  if (summary.durationMillis !== undefined) {
+    lines.push(`   Bazel time: ${(summary.durationMillis / 1000).toFixed(2)}s`);
+  }
+
+  return lines.join("\n");
+}
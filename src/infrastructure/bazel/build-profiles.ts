@@ -0,0 +1,118 @@
+/**
+ * Bazel Build Profiles
+ *
+ * Named sets of `--config` values, flags, env and startup options stored in the
+ * `bazelbsp.bazel.buildProfiles` setting. A profile is applied when it is explicitly
+ * selected, when one of its label patterns matches the target, or when it is
+ * attached to the current build mode.
+ */
+
+import type { BazelBuildProfile, BuildModeString } from "../../domain/entities/bazel/types.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspaceConfig } from "../../shared/utils/config.js";
+
+export interface ResolvedBuildProfile {
+  name: string;
+  profile: BazelBuildProfile;
+  /** Why the profile was picked, shown in the terminal header */
+  reason: string;
+}
+
+/**
+ * Read build profiles from settings
+ */
+export function getBuildProfiles(): Record<string, BazelBuildProfile> {
+  const profiles = getWorkspaceConfig("bazel.buildProfiles");
+  if (!profiles || typeof profiles !== "object" || Array.isArray(profiles)) {
+    return {};
+  }
+  return profiles;
+}
+
+/**
+ * Check if a label matches a Bazel-style pattern
+ * Supports exact labels, `//pkg:*` / `//pkg:all` (whole package) and `//pkg/...` (package and subpackages)
+ */
+export function matchesLabelPattern(label: string, pattern: string): boolean {
+  const [labelPackage] = label.split(":");
+
+  if (pattern === "//...") {
+    return label.startsWith("//");
+  }
+
+  if (pattern.endsWith("/...")) {
+    const prefix = pattern.slice(0, -"/...".length);
+    return labelPackage === prefix || labelPackage.startsWith(`${prefix}/`);
+  }
+
+  if (pattern.endsWith(":*") || pattern.endsWith(":all")) {
+    return labelPackage === pattern.slice(0, pattern.lastIndexOf(":"));
+  }
+
+  return label === pattern;
+}
+
+/**
+ * Pick the build profile for a target
+ * Order: explicitly selected profile, first profile whose label patterns match, first profile attached to the build mode
+ */
+export function resolveBuildProfile(options: {
+  label: string;
+  buildMode: BuildModeString;
+  selectedProfile?: string;
+}): ResolvedBuildProfile | undefined {
+  const { label, buildMode, selectedProfile } = options;
+  const profiles = getBuildProfiles();
+
+  if (selectedProfile) {
+    const profile = profiles[selectedProfile];
+    if (profile) {
+      return { name: selectedProfile, profile, reason: "selected" };
+    }
+    commonLogger.warn("Selected build profile not found in settings", { selectedProfile });
+  }
+
+  const matchesMode = (profile: BazelBuildProfile) => !profile.buildModes || profile.buildModes.includes(buildMode);
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    const pattern = profile.targets?.find((pattern) => matchesLabelPattern(label, pattern));
+    if (pattern && matchesMode(profile)) {
+      return { name, profile, reason: `matches ${pattern}` };
+    }
+  }
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (!profile.targets?.length && profile.buildModes?.includes(buildMode)) {
+      return { name, profile, reason: `build mode ${buildMode}` };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Assemble the bazel argv for a build
+ * Built-in flags come first so profile flags can override them, and flags of the invocation (e.g. from
+ * an MCP tool) override both. `command` can be switched to `cquery` to inspect the target under
+ * exactly the same configuration as the build.
+ */
+export function getBuildArgs(options: {
+  label: string;
+  defaultFlags: string[];
+  profile?: BazelBuildProfile;
+  extraFlags?: string[];
+  command?: "build" | "cquery";
+}): string[] {
+  const { label, defaultFlags, profile, extraFlags = [], command = "build" } = options;
+  const inheritDefaults = profile?.inheritDefaults !== false;
+
+  return [
+    ...(profile?.startupOptions ?? []),
+    command,
+    label,
+    ...(inheritDefaults ? defaultFlags : []),
+    ...(profile?.configs ?? []).map((config) => `--config=${config}`),
+    ...(profile?.flags ?? []),
+    ...extraFlags,
+  ];
+}
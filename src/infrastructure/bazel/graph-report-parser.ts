@@ -0,0 +1,111 @@
+import * as path from "node:path";
+import type {
+  BazelGraphReport,
+  BazelGraphReportTarget,
+  BazelQueryResult,
+  BazelQueryTarget,
+} from "../../domain/entities/bazel/types.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspaceConfig } from "../../shared/utils/config.js";
+import { isFileExists, readJsonFile } from "../../shared/utils/files.js";
+import { BazelParser } from "./bazel-parser.js";
+
+const DEFAULT_GRAPH_REPORT_PATH = ".bsp/skbsp_generated/graph_report.json";
+
+/**
+ * Graph Report Parser
+ *
+ * Reads the target graph report written by sourcekit-bazel-bsp and converts it
+ * into the same `BazelQueryResult` shape produced by `bazel query`, additionally
+ * recording which top-level app every dependency belongs to.
+ */
+// biome-ignore lint/complexity/noStaticOnlyClass: Parser class provides organized namespace for related parsing functions
+export class GraphReportParser {
+  /**
+   * Resolve the graph report location from settings (relative paths are resolved against the workspace)
+   */
+  static getGraphReportPath(workspacePath: string): string {
+    const configPath = getWorkspaceConfig("bazel.graphReportPath") || DEFAULT_GRAPH_REPORT_PATH;
+    return path.isAbsolute(configPath) ? configPath : path.join(workspacePath, configPath);
+  }
+
+  /**
+   * Load targets from the graph report
+   * Returns null when the report does not exist so callers can fall back to `bazel query`
+   */
+  static async loadFromWorkspace(workspacePath: string): Promise<BazelQueryResult | null> {
+    const reportPath = GraphReportParser.getGraphReportPath(workspacePath);
+
+    if (!(await isFileExists(reportPath))) {
+      commonLogger.log("Graph report not found", { reportPath });
+      return null;
+    }
+
+    try {
+      const report = await readJsonFile<BazelGraphReport>(reportPath);
+      const result = GraphReportParser.parseGraphReport(report);
+      commonLogger.log("Loaded targets from graph report", {
+        reportPath,
+        statistics: result.statistics,
+      });
+      return result;
+    } catch (error) {
+      commonLogger.error("Error reading graph report", { error, reportPath });
+      throw new Error(`Failed to read graph report ${reportPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Convert a parsed graph report into a query result
+   */
+  static parseGraphReport(report: BazelGraphReport): BazelQueryResult {
+    const targets = {
+      runnable: [] as BazelQueryTarget[],
+      test: [] as BazelQueryTarget[],
+      buildable: [] as BazelQueryTarget[],
+    };
+    const topLevelParents: Record<string, string[]> = {};
+    const classify = BazelParser.createRuleKindClassifier();
+    const unclassified = new Set<string>();
+
+    const addTarget = (entry: BazelGraphReportTarget, parents: string[]) => {
+      const kind = entry.kind ?? entry.ruleType;
+      if (!entry.label || !kind) {
+        commonLogger.warn("Skipping graph report entry without label or kind", { entry });
+        return;
+      }
+
+      const category = classify(kind);
+      if (!category) {
+        unclassified.add(kind);
+        return;
+      }
+      if (category === "ignore") {
+        return;
+      }
+
+      // Same label can appear under several top-level targets, keep the first occurrence
+      if (!targets[category].some((target) => target.target === entry.label)) {
+        targets[category].push({ type: kind, target: entry.label });
+      }
+
+      if (parents.length > 0) {
+        const existing = topLevelParents[entry.label] ?? [];
+        topLevelParents[entry.label] = [...existing, ...parents.filter((parent) => !existing.includes(parent))];
+      }
+    };
+
+    for (const entry of report.topLevelTargets ?? []) {
+      addTarget(entry, []);
+    }
+
+    for (const entry of report.dependencyTargets ?? []) {
+      const parents = entry.parents ?? (entry.topLevelParent ? [entry.topLevelParent] : []);
+      addTarget(entry, parents);
+    }
+
+    BazelParser.reportUnclassifiedRuleKinds(unclassified);
+
+    return BazelParser.buildQueryResult(targets, { source: "graphReport", topLevelParents });
+  }
+}
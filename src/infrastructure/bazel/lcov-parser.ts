@@ -0,0 +1,118 @@
+import * as path from "node:path";
+import type { BazelCoverageFile, BazelCoverageSummary } from "../../domain/entities/bazel/types.js";
+
+// "/private/var/tmp/_bazel_user/<hash>/execroot/<workspace>/Libs/Core/Model.swift"
+const EXECROOT_PREFIX_REGEX = /^.*?\/execroot\/[^/]+\//;
+// "bazel-out/ios_sim_arm64-fastbuild/bin/Libs/Core/Model.swift"
+const BAZEL_OUT_PREFIX_REGEX = /^bazel-out\/[^/]+\/(?:bin|genfiles)\//;
+
+/**
+ * Map a source file from an LCOV report back to a file in the workspace
+ * Returns undefined for external repositories and files outside of the workspace (SDKs, toolchains)
+ */
+export function resolveCoveragePath(sourceFile: string, workspaceRoot: string): string | undefined {
+  if (path.isAbsolute(sourceFile) && !EXECROOT_PREFIX_REGEX.test(sourceFile)) {
+    const relative = path.relative(workspaceRoot, sourceFile);
+    return relative.startsWith("..") ? undefined : sourceFile;
+  }
+
+  const relative = sourceFile.replace(EXECROOT_PREFIX_REGEX, "").replace(BAZEL_OUT_PREFIX_REGEX, "");
+  if (relative.startsWith("external/") || relative.startsWith("bazel-out/")) {
+    return undefined;
+  }
+  return path.join(workspaceRoot, relative);
+}
+
+/**
+ * Parse an LCOV report (Bazel's combined `_coverage_report.dat`)
+ * Records of the same file, e.g. from several test targets, are merged by adding up their hits
+ */
+export function parseLcov(content: string, workspaceRoot: string): BazelCoverageFile[] {
+  const lineHits = new Map<string, Map<number, number>>();
+  const branchHits = new Map<string, Map<string, BazelCoverageFile["branches"][number]>>();
+  let current: string | undefined;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    const separator = line.indexOf(":");
+    const key = separator === -1 ? line : line.slice(0, separator);
+    const value = line.slice(separator + 1);
+
+    if (key === "SF") {
+      current = resolveCoveragePath(value, workspaceRoot);
+      if (current && !lineHits.has(current)) {
+        lineHits.set(current, new Map());
+        branchHits.set(current, new Map());
+      }
+    } else if (key === "end_of_record") {
+      current = undefined;
+    } else if (current && key === "DA") {
+      const [lineNumber, hits] = value.split(",").map(Number);
+      if (Number.isNaN(lineNumber) || Number.isNaN(hits)) continue;
+      const lines = lineHits.get(current);
+      lines?.set(lineNumber, (lines.get(lineNumber) ?? 0) + hits);
+    } else if (current && key === "BRDA") {
+      const [lineNumber, block, branch, taken] = value.split(",");
+      const branchKey = `${lineNumber},${block},${branch}`;
+      const branches = branchHits.get(current);
+      const existing = branches?.get(branchKey);
+      // "-" means the branch was never reached
+      const takenCount = taken === "-" ? 0 : Number(taken) || 0;
+      branches?.set(branchKey, {
+        line: Number(lineNumber),
+        block: Number(block),
+        branch: Number(branch),
+        taken: (existing?.taken ?? 0) + takenCount,
+      });
+    }
+  }
+
+  return [...lineHits.entries()].map(([filePath, lines]) => ({
+    path: filePath,
+    lines: [...lines.entries()].map(([line, hits]) => ({ line, hits })).sort((a, b) => a.line - b.line),
+    branches: [...(branchHits.get(filePath)?.values() ?? [])].sort((a, b) => a.line - b.line),
+  }));
+}
+
+/**
+ * Total line and branch coverage of the given files
+ */
+export function summarizeCoverage(files: BazelCoverageFile[]): BazelCoverageSummary {
+  const summary: BazelCoverageSummary = { linesFound: 0, linesHit: 0, branchesFound: 0, branchesHit: 0 };
+  for (const file of files) {
+    summary.linesFound += file.lines.length;
+    summary.linesHit += file.lines.filter((line) => line.hits > 0).length;
+    summary.branchesFound += file.branches.length;
+    summary.branchesHit += file.branches.filter((branch) => branch.taken > 0).length;
+  }
+  return summary;
+}
+
+/**
+ * "78.5%" or undefined when nothing was instrumented
+ */
+export function formatCoveragePercent(hit: number, found: number): string | undefined {
+  if (found === 0) {
+    return undefined;
+  }
+  return `${Math.floor((hit / found) * 1000) / 10}%`;
+}
+
+export type LineCoverageState = "covered" | "partial" | "uncovered";
+
+/**
+ * Coverage state of every instrumented line
+ * A covered line is "partial" when some of its branches were never taken
+ */
+export function getLineCoverage(file: BazelCoverageFile): Map<number, LineCoverageState> {
+  const states = new Map<number, LineCoverageState>();
+  for (const { line, hits } of file.lines) {
+    states.set(line, hits > 0 ? "covered" : "uncovered");
+  }
+  for (const { line, taken } of file.branches) {
+    if (taken === 0 && states.get(line) === "covered") {
+      states.set(line, "partial");
+    }
+  }
+  return states;
+}
@@ -0,0 +1,129 @@
+/**
+ * Bazel Target Search
+ *
+ * Fuzzy matching of discovered targets by label, rule kind and package path, used by
+ * the Find Target picker and the filter of the BAZEL TARGETS view.
+ */
+
+import type { BazelQueryResult, BazelTargetCategory, BazelTargetFilter } from "../../domain/entities/bazel/types.js";
+import { BazelParser } from "./bazel-parser.js";
+
+export const ALL_TARGET_CATEGORIES: (keyof BazelTargetCategory)[] = ["runnable", "test", "buildable"];
+
+export interface BazelTargetSearchEntry {
+  label: string; // //Apps/MyApp:App
+  name: string;
+  packagePath: string; // Apps/MyApp
+  pathParts: string[];
+  category: keyof BazelTargetCategory;
+  kind?: string; // Missing for results cached before rule kinds were recorded
+}
+
+export interface BazelTargetSearchMatch<T extends BazelTargetSearchEntry = BazelTargetSearchEntry> {
+  entry: T;
+  score: number;
+}
+
+/**
+ * Flatten a query result into searchable entries
+ */
+export function listSearchEntries(result: BazelQueryResult): BazelTargetSearchEntry[] {
+  return ALL_TARGET_CATEGORIES.flatMap((category) =>
+    BazelParser.getAllTargets(result.tree, category).map((label) => {
+      const [packagePath, name] = label.slice(2).split(":");
+      return {
+        label: label,
+        name: name,
+        packagePath: packagePath,
+        pathParts: packagePath ? packagePath.split("/") : [],
+        category: category,
+        kind: result.ruleKinds?.[label],
+      };
+    }),
+  );
+}
+
+/**
+ * Score how well the characters of a pattern appear in order in a text, undefined when they don't
+ * Consecutive characters score highest, then characters at the start of a word (after / : _ - . or a camelCase hump)
+ */
+export function fuzzyScore(pattern: string, text: string): number | undefined {
+  const lowerPattern = pattern.toLowerCase();
+  const lowerText = text.toLowerCase();
+
+  let score = 0;
+  let textIndex = 0;
+  let previousIndex = -2;
+  for (const char of lowerPattern) {
+    const index = lowerText.indexOf(char, textIndex);
+    if (index === -1) {
+      return undefined;
+    }
+
+    score += 1;
+    if (index === previousIndex + 1) {
+      score += 3;
+    }
+    const before = text[index - 1];
+    const isWordStart =
+      index === 0 || "/:_-. ".includes(before) || (text[index] !== lowerText[index] && before === lowerText[index - 1]);
+    if (isWordStart) {
+      score += 2;
+    }
+
+    previousIndex = index;
+    textIndex = index + 1;
+  }
+
+  // Prefer shorter texts when the characters match equally well
+  return score - text.length / 100;
+}
+
+/**
+ * Score a target for a query, every whitespace separated word has to match the name, label or rule kind
+ */
+export function matchSearchEntry(entry: BazelTargetSearchEntry, query: string): number | undefined {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+
+  let score = 0;
+  for (const word of words) {
+    const nameScore = fuzzyScore(word, entry.name);
+    const scores = [
+      nameScore === undefined ? undefined : nameScore * 2, // Target names are what people search for
+      fuzzyScore(word, entry.label),
+      entry.kind ? fuzzyScore(word, entry.kind) : undefined,
+    ].filter((value): value is number => value !== undefined);
+    if (scores.length === 0) {
+      return undefined;
+    }
+    score += Math.max(...scores);
+  }
+  return score;
+}
+
+/**
+ * Targets matching a filter, best matches first
+ */
+export function searchTargets<T extends BazelTargetSearchEntry>(
+  entries: T[],
+  filter: BazelTargetFilter,
+): BazelTargetSearchMatch<T>[] {
+  const matches: BazelTargetSearchMatch<T>[] = [];
+  for (const entry of entries) {
+    if (!filter.categories.includes(entry.category)) {
+      continue;
+    }
+    const score = matchSearchEntry(entry, filter.text);
+    if (score !== undefined) {
+      matches.push({ entry, score });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score || a.entry.label.localeCompare(b.entry.label));
+}
+
+/**
+ * Whether a filter hides anything
+ */
+export function isTargetFilterActive(filter: BazelTargetFilter): boolean {
+  return filter.text.trim() !== "" || ALL_TARGET_CATEGORIES.some((category) => !filter.categories.includes(category));
+}
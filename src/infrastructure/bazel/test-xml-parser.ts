@@ -0,0 +1,157 @@
+import * as path from "node:path";
+import type { BazelBuildEvent, BazelTestCaseResult } from "../../domain/entities/bazel/types.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { readTextFile } from "../../shared/utils/files.js";
+import { decodeXml, parseXmlAttributes } from "./xml-utils.js";
+
+const TEST_SUITE_REGEX = /<testsuite\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testsuite>)/g;
+const TEST_CASE_REGEX = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+const FAILURE_REGEX = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/;
+const SKIPPED_REGEX = /<skipped\b/;
+const CDATA_REGEX = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+// "Tests/ExampleTests.swift:12: error: ..." (XCTest) or "ExampleTests.swift:12:5: Expectation failed" (Swift Testing)
+const SOURCE_LOCATION_REGEX = /([^\s:"'()]+\.(?:swift|mm?|cc?|cpp|h)):(\d+)(?::(\d+))?/;
+
+function textContent(body: string | undefined): string {
+  if (!body) return "";
+  // CDATA is kept verbatim, everything else is entity-encoded
+  const parts: string[] = [];
+  let lastIndex = 0;
+  for (const match of body.matchAll(CDATA_REGEX)) {
+    parts.push(decodeXml(body.slice(lastIndex, match.index)), match[1]);
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  parts.push(decodeXml(body.slice(lastIndex)));
+  return parts.join("").trim();
+}
+
+/**
+ * Find the first source location mentioned in a failure message
+ * Relative paths are resolved against the workspace root
+ */
+export function parseFailureLocation(
+  message: string,
+  workspaceRoot: string,
+): BazelTestCaseResult["location"] | undefined {
+  const match = message.match(SOURCE_LOCATION_REGEX);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, file, line, column] = match;
+  return {
+    file: path.isAbsolute(file) ? file : path.join(workspaceRoot, file),
+    line: Number(line),
+    column: column ? Number(column) : undefined,
+  };
+}
+
+function parseTestCase(
+  attributesSource: string,
+  body: string | undefined,
+  suiteName: string | undefined,
+  workspaceRoot: string,
+): BazelTestCaseResult {
+  const attributes = parseXmlAttributes(attributesSource);
+  const time = Number.parseFloat(attributes.time ?? "");
+
+  const testCase: BazelTestCaseResult = {
+    name: attributes.name ?? "",
+    className: attributes.classname || suiteName || undefined,
+    status: "passed",
+    durationMillis: Number.isNaN(time) ? undefined : Math.round(time * 1000),
+  };
+
+  const failure = body?.match(FAILURE_REGEX);
+  if (failure) {
+    const failureAttributes = parseXmlAttributes(failure[2]);
+    const text = textContent(failure[3]);
+    const message = [failureAttributes.message, text].filter(Boolean).join("\n");
+
+    testCase.status = "failed";
+    testCase.message = message || failure[1];
+    testCase.location = parseFailureLocation(message, workspaceRoot);
+  } else if (body && SKIPPED_REGEX.test(body)) {
+    testCase.status = "skipped";
+  }
+
+  return testCase;
+}
+
+/**
+ * Parse test cases from a JUnit XML report (rules_apple, rules_swift and Bazel's own fallback report)
+ */
+export function parseTestXml(xml: string, workspaceRoot: string): BazelTestCaseResult[] {
+  const results: BazelTestCaseResult[] = [];
+
+  for (const suite of xml.matchAll(TEST_SUITE_REGEX)) {
+    const suiteName = parseXmlAttributes(suite[1]).name;
+    for (const testCase of (suite[2] ?? "").matchAll(TEST_CASE_REGEX)) {
+      results.push(parseTestCase(testCase[1], testCase[2], suiteName, workspaceRoot));
+    }
+  }
+
+  return results.filter((result) => result.name);
+}
+
+/**
+ * Class name without the module prefix, as test filters expect it ("MyTests.ExampleTests" -> "ExampleTests")
+ */
+export function getShortClassName(className: string): string {
+  return className.split(".").pop() ?? className;
+}
+
+/**
+ * Build a `--test_filter` value for the given classes or test cases
+ * ("ExampleTests" runs a whole class, "ExampleTests/testSomething" a single case)
+ */
+export function buildTestFilter(entries: { className?: string; name?: string }[]): string {
+  const filters = entries.map(({ className, name }) => {
+    // Swift Testing reports functions as "example()"
+    const testName = name?.replace(/\(\)$/, "");
+    if (!className) return testName ?? "";
+    return testName ? `${getShortClassName(className)}/${testName}` : getShortClassName(className);
+  });
+  return [...new Set(filters.filter(Boolean))].join(",");
+}
+
+/**
+ * Read the test.xml of every attempt and shard Bazel reported for a target, oldest attempt first
+ * Bazel's own fallback report (a single case named after the target) is skipped
+ */
+export async function readTestResultCases(
+  label: string,
+  testResults: Extract<BazelBuildEvent, { type: "testResult" }>[],
+  workspaceRoot: string,
+): Promise<{ attempt: number; cases: BazelTestCaseResult[] }[]> {
+  const fallbackCaseName = label.replace(/^\/\//, "").replace(":", "/");
+  const attempts: { attempt: number; cases: BazelTestCaseResult[] }[] = [];
+
+  for (const result of [...testResults].sort((a, b) => a.attempt - b.attempt)) {
+    if (result.label !== label || !result.testXmlPath) continue;
+    try {
+      const cases = parseTestXml(await readTextFile(result.testXmlPath), workspaceRoot);
+      attempts.push({
+        attempt: result.attempt,
+        cases: cases.filter((testCase) => testCase.name !== fallbackCaseName),
+      });
+    } catch (error) {
+      commonLogger.warn("Failed to read test.xml", { label, testXmlPath: result.testXmlPath, error });
+    }
+  }
+
+  return attempts;
+}
+
+/**
+ * Final outcome of each case, later attempts of flaky tests override earlier ones
+ */
+export function getLatestTestCases(attempts: { cases: BazelTestCaseResult[] }[]): BazelTestCaseResult[] {
+  const cases = new Map<string, BazelTestCaseResult>();
+  for (const { cases: attemptCases } of attempts) {
+    for (const testCase of attemptCases) {
+      cases.set(`${testCase.className ?? ""}/${testCase.name}`, testCase);
+    }
+  }
+  return [...cases.values()];
+}
@@ -0,0 +1,156 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import * as zlib from "node:zlib";
+import type { BazelTraceProfileAction, BazelTraceProfileSummary } from "../../domain/entities/bazel/types.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { prepareStoragePath } from "../../shared/utils/bazel-utils.js";
+import { createDirectory, removeFile } from "../../shared/utils/files.js";
+import type { ExtensionContext } from "../vscode/extension-context.js";
+
+/**
+ * JSON Trace Profile
+ *
+ * Reads the Chrome trace format Bazel writes with `--profile=<file>` (gzipped when the file ends in `.gz`)
+ * and summarizes it: phases, critical path, slowest actions and time spent on remote caching and execution.
+ */
+
+const gunzip = promisify(zlib.gunzip);
+
+const PROFILES_DIRECTORY = "trace-profiles";
+const MAX_KEPT_PROFILES = 10;
+const SLOWEST_ACTIONS = 20;
+
+// Trace event, timestamps and durations are in microseconds
+interface TraceEvent {
+  name?: string;
+  cat?: string;
+  ph?: string;
+  ts?: number;
+  dur?: number;
+  tid?: number;
+  args?: Record<string, any>;
+}
+
+const toMillis = (micros: number | undefined) => Math.round((micros ?? 0) / 1000);
+
+// Critical path components are named "action '<description>'"
+const stripActionPrefix = (name: string) => name.replace(/^action '(.*)'$/, "$1");
+
+function toAction(event: TraceEvent): BazelTraceProfileAction {
+  return {
+    description: stripActionPrefix(event.name ?? "unknown action"),
+    mnemonic: event.args?.mnemonic,
+    target: event.args?.target,
+    durationMillis: toMillis(event.dur),
+  };
+}
+
+/**
+ * Summarize a parsed trace profile
+ * Phases are instant markers, each lasts until the next one (the last one until the end of the trace)
+ */
+export function summarizeTraceProfile(trace: { traceEvents?: TraceEvent[] } | TraceEvent[]): BazelTraceProfileSummary {
+  const events = Array.isArray(trace) ? trace : (trace.traceEvents ?? []);
+
+  let start = Number.POSITIVE_INFINITY;
+  let end = 0;
+  for (const event of events) {
+    if (event.ph === "M" || event.ts === undefined) continue;
+    start = Math.min(start, event.ts);
+    end = Math.max(end, event.ts + (event.dur ?? 0));
+  }
+  if (start === Number.POSITIVE_INFINITY) {
+    start = 0;
+  }
+
+  const markers = events
+    .filter((event) => event.cat === "build phase marker" && event.ts !== undefined)
+    .sort((a, b) => (a.ts as number) - (b.ts as number));
+  const phases = markers.map((marker, index) => ({
+    name: marker.name ?? "unknown phase",
+    durationMillis: toMillis((markers[index + 1]?.ts ?? end) - (marker.ts as number)),
+  }));
+  const sumPhases = (pattern: RegExp) =>
+    phases.filter((phase) => pattern.test(phase.name)).reduce((sum, phase) => sum + phase.durationMillis, 0);
+
+  const components = events.filter((event) => event.cat === "critical path component").map(toAction);
+  const actions = events.filter((event) => event.cat === "action processing");
+
+  const remote = new Map<string, { category: string; count: number; totalMillis: number }>();
+  for (const event of events) {
+    if (!event.cat || !/remote|upload|download/i.test(event.cat)) continue;
+    const entry = remote.get(event.cat) ?? { category: event.cat, count: 0, totalMillis: 0 };
+    entry.count++;
+    entry.totalMillis += toMillis(event.dur);
+    remote.set(event.cat, entry);
+  }
+
+  return {
+    totalMillis: toMillis(end - start),
+    analysisMillis: sumPhases(/analy[sz]/i),
+    executionMillis: sumPhases(/build artifacts|execut/i),
+    phases,
+    criticalPath: {
+      totalMillis: components.reduce((sum, component) => sum + component.durationMillis, 0),
+      components,
+    },
+    actionCount: actions.length,
+    slowestActions: actions
+      .map(toAction)
+      .sort((a, b) => b.durationMillis - a.durationMillis)
+      .slice(0, SLOWEST_ACTIONS),
+    remote: [...remote.values()].sort((a, b) => b.totalMillis - a.totalMillis),
+  };
+}
+
+/**
+ * Read and summarize a trace profile, plain or gzipped
+ * The whole trace is parsed in memory, profiles of very large builds can take a few seconds
+ */
+export async function readTraceProfile(filePath: string): Promise<BazelTraceProfileSummary> {
+  let content = await fs.readFile(filePath);
+  // gzip magic number, Bazel compresses profiles whose name ends in .gz
+  if (content[0] === 0x1f && content[1] === 0x8b) {
+    content = await gunzip(content);
+  }
+  return summarizeTraceProfile(JSON.parse(content.toString("utf8")));
+}
+
+/**
+ * Fresh profile path in the extension storage, only the most recent profiles are kept
+ */
+export async function createTraceProfilePath(context: ExtensionContext, label: string): Promise<string> {
+  const directory = path.join(await prepareStoragePath(context), PROFILES_DIRECTORY);
+  await createDirectory(directory);
+
+  const existing = (await fs.readdir(directory)).filter((file) => file.endsWith(".json.gz")).sort();
+  for (const file of existing.slice(0, Math.max(0, existing.length - MAX_KEPT_PROFILES + 1))) {
+    await removeFile(path.join(directory, file)).catch((error) => {
+      commonLogger.warn("Failed to remove old trace profile", { file, error });
+    });
+  }
+
+  const name = label.replace(/^\/\//, "").replace(/[^A-Za-z0-9_.-]+/g, "_");
+  return path.join(directory, `${Date.now()}_${name}.json.gz`);
+}
+
+function formatSeconds(millis: number): string {
+  return `${(millis / 1000).toFixed(2)}s`;
+}
+
+/**
+ * Short summary for the terminal, the panel shows the details
+ */
+export function formatTraceProfileSummary(summary: BazelTraceProfileSummary): string {
+  const lines = [
+    "⏱️  Trace profile",
+    `   Total: ${formatSeconds(summary.totalMillis)} (analysis ${formatSeconds(summary.analysisMillis)}, execution ${formatSeconds(summary.executionMillis)})`,
+    `   Critical path: ${formatSeconds(summary.criticalPath.totalMillis)} in ${summary.criticalPath.components.length} action(s)`,
+  ];
+  const slowest = summary.slowestActions[0];
+  if (slowest) {
+    lines.push(`   Slowest action: ${slowest.description} (${formatSeconds(slowest.durationMillis)})`);
+  }
+  return lines.join("\n");
+}
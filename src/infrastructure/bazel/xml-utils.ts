@@ -0,0 +1,21 @@
+// Bazel only writes simple XML (test.xml, query --output=xml), regular expressions are enough to read it
+
+const ATTRIBUTE_REGEX = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+export function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith("#x")) return String.fromCodePoint(Number.parseInt(code.slice(2), 16));
+    if (code.startsWith("#")) return String.fromCodePoint(Number.parseInt(code.slice(1), 10));
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+export function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_REGEX)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
@@ -0,0 +1,66 @@
+import * as crypto from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspaceFolderPath } from "../../shared/utils/bazel-utils.js";
+import type { ExtensionContext } from "../vscode/extension-context.js";
+
+const TOKEN_SECRET_PREFIX = "bazelbsp.mcp.authToken";
+
+/**
+ * Secret storage is shared by all windows, the key keeps one token per workspace
+ */
+function getTokenSecretKey(workspacePath: string): string {
+  const workspaceHash = crypto.createHash("sha256").update(workspacePath).digest("hex").slice(0, 16);
+  return `${TOKEN_SECRET_PREFIX}.${workspaceHash}`;
+}
+
+/**
+ * Bearer token MCP clients of this workspace must send, generated on first use and kept in the secret storage
+ */
+export async function getMcpAuthToken(context: ExtensionContext, options?: { regenerate?: boolean }): Promise<string> {
+  const key = getTokenSecretKey(getWorkspaceFolderPath());
+
+  const existing = options?.regenerate ? undefined : await context.secrets.get(key);
+  if (existing) {
+    return existing;
+  }
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  await context.secrets.store(key, token);
+  commonLogger.log("Generated MCP auth token for workspace");
+  return token;
+}
+
+/**
+ * Check an `Authorization: Bearer <token>` header in constant time
+ */
+export function isAuthorized(authorization: string | undefined, token: string): boolean {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const expected = Buffer.from(token);
+  const received = Buffer.from(match[1]);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Express middleware rejecting requests without the workspace token
+ */
+export function createAuthMiddleware(token: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (isAuthorized(req.header("authorization"), token)) {
+      next();
+      return;
+    }
+
+    commonLogger.warn("Rejected unauthorized MCP request", { path: req.path, method: req.method });
+    res.setHeader("WWW-Authenticate", 'Bearer realm="bazelbsp"');
+    res.status(401).json({
+      jsonrpc: "2.0",
+      error: { code: -32001, message: "Unauthorized: missing or invalid bearer token" },
+      id: null,
+    });
+  };
+}
@@ -1,12 +1,12 @@
-import * as fs from "node:fs";
+import * as crypto from "node:crypto";
 import http from "node:http";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import express, { type Express, type Request, type Response } from "express";
-import * as vscode from "vscode";
-import { type ZodRawShape, z } from "zod";
+import { type CallToolResult, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import express, { type Request, type Response } from "express";
+import type { ZodRawShape } from "zod";
 import type { ExtensionContext } from "../../infrastructure/vscode/extension-context.js";
 import { commonLogger } from "../../shared/logger/logger.js";
 // executeCommand import removed - now using individual command tools
@@ -15,146 +15,265 @@ import {
   bazelCleanImplementation,
   bazelCleanSchema,
 } from "../../shared/utils/bazel-clean-tool.js";
+import {
+  type ListTargetsArgs,
+  type OwningTargetsArgs,
+  type TargetDepsArgs,
+  type TargetInfoArgs,
+  type TargetRdepsArgs,
+  listTargetsImplementation,
+  listTargetsSchema,
+  owningTargetsImplementation,
+  owningTargetsSchema,
+  targetDepsImplementation,
+  targetDepsSchema,
+  targetInfoImplementation,
+  targetInfoSchema,
+  targetRdepsImplementation,
+  targetRdepsSchema,
+} from "../../shared/utils/bazel-query-tools.js";
+import {
+  type BazelTargetToolArgs,
+  bazelBuildSchema,
+  bazelRunSchema,
+  bazelTargetToolImplementation,
+  bazelTestSchema,
+} from "../../shared/utils/bazel-target-tools.js";
 import {
   type TakeScreenshotArgs,
   takeScreenshotImplementation,
   takeScreenshotSchema,
 } from "../../shared/utils/screenshot-tool.js";
+import { createAuthMiddleware } from "./auth.js";
 import { setupMetrics } from "./metrics";
+import { registerBazelPrompts } from "./prompts.js";
+import { McpResourceUpdates, registerBazelResources } from "./resources.js";
 import type { McpServerInstance, McpServerOptions, McpToolDefinition } from "./types.js";
 
-const SSE_ENDPOINT = "/sse";
+const MCP_ENDPOINT = "/mcp"; // Streamable HTTP
+const SSE_ENDPOINT = "/sse"; // Deprecated HTTP+SSE transport, kept for older clients
 const MESSAGES_ENDPOINT = "/messages";
 const METRICS_ENDPOINT = "/metrics";
 
-// Helper function to create simple command tools
-const createCommandTool = (
-  commandId: string,
-  toolName: string,
-  description: string,
-  extensionContext: ExtensionContext,
-) => {
-  const schema = z.object({}).describe(`${description}`);
-
-  const implementation = async (
-    _args: any,
-    _frameworkExtra: RequestHandlerExtra<any, any>,
-  ): Promise<CallToolResult> => {
-    const timeoutSeconds = 600;
-
-    let eventListener: vscode.Disposable | undefined;
-    const waitForCompletionPromise = new Promise<"completed">((resolve) => {
-      eventListener = extensionContext.simpleTaskCompletionEmitter.event(() => {
-        commonLogger.log("🎯 MCP: Received completion event");
-        resolve("completed");
-      });
-    });
+const DEFAULT_PORT = 61333;
+// Other windows (one server per workspace) or other tools may already use the port
+const MAX_PORT_ATTEMPTS = 10;
 
-    commonLogger.log(`🚀 MCP: Starting command ${commandId}, waiting for completion...`);
+/**
+ * Listen on the first free port starting from `port`
+ * @returns the port the server is listening on
+ */
+export function listenOnAvailablePort(
+  httpServer: http.Server,
+  options: { port: number; host: string; maxAttempts: number },
+): Promise<number> {
+  const { port, host, maxAttempts } = options;
 
-    const timeoutPromise = new Promise<"timeout">((resolve) => {
-      setTimeout(() => resolve("timeout"), timeoutSeconds * 1000);
+  return new Promise<number>((resolve, reject) => {
+    const tryListen = (attempt: number) => {
+      const candidate = port + attempt;
+      const onError = (err: NodeJS.ErrnoException) => {
+        httpServer.off("listening", onListening);
+        if (err.code === "EADDRINUSE" && attempt + 1 < maxAttempts) {
+          commonLogger.warn(`MCP port ${candidate} is busy, trying ${candidate + 1}`);
+          tryListen(attempt + 1);
+        } else {
+          reject(err);
+        }
+      };
+      const onListening = () => {
+        httpServer.off("error", onError);
+        resolve(candidate);
+      };
+      httpServer.once("error", onError);
+      httpServer.once("listening", onListening);
+      httpServer.listen(candidate, host);
+    };
+    tryListen(0);
+  });
+}
+
+function registerBazelTools(server: McpServer, extensionContext: ExtensionContext): void {
+  // === BAZEL COMMANDS ===
+
+  server.tool(
+    "bazel_test",
+    "Runs unit tests of a Bazel test target (ios_unit_test or swift_test). Pass 'label' to choose the target, otherwise the currently selected one is used. Use 'testFilter' to run only some test cases.",
+    bazelTestSchema.shape,
+    async (args: BazelTargetToolArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return bazelTargetToolImplementation("bazelbsp.bazel.test", args, { extensionContext }, frameworkExtra);
+    },
+  );
+
+  server.tool(
+    "bazel_run",
+    "Builds, launches, and attaches LLDB debugger to a Bazel app target on iOS simulator or device. Pass 'label' and 'destinationId' to choose what to run and where, otherwise the current selection is used. Allows setting breakpoints and inspecting app state. This is the primary run command.",
+    bazelRunSchema.shape,
+    async (args: BazelTargetToolArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return bazelTargetToolImplementation("bazelbsp.bazel.debug", args, { extensionContext }, frameworkExtra);
+    },
+  );
+
+  server.tool(
+    "bazel_build",
+    "Builds a Bazel target without running it. Pass 'label', 'destinationId' and 'buildMode' to choose what and how to build, otherwise the current selection is used.",
+    bazelBuildSchema.shape,
+    async (args: BazelTargetToolArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return bazelTargetToolImplementation("bazelbsp.bazel.build", args, { extensionContext }, frameworkExtra);
+    },
+  );
+
+  // Bazel Clean
+  server.tool(
+    "bazel_clean",
+    "Clean Bazel build cache. Use expunge=true for complete cleanup (removes all caches), or expunge=false/omitted for regular clean (keeps analysis cache).",
+    bazelCleanSchema.shape,
+    async (args: BazelCleanArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return bazelCleanImplementation(args, { extensionContext }, frameworkExtra);
+    },
+  );
+
+  // === BAZEL GRAPH QUERIES ===
+  server.tool(
+    "list_targets",
+    "Lists Bazel targets discovered in the workspace with their category (runnable, test, buildable). Filter by category, package ('//Libs/Core' or '//Libs/...') or label text. Results are paginated.",
+    listTargetsSchema.shape,
+    async (args: ListTargetsArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return listTargetsImplementation(args, { extensionContext }, frameworkExtra);
+    },
+  );
+
+  server.tool(
+    "target_deps",
+    "Lists the rules a Bazel target depends on (direct dependencies by default, use depth for transitive ones). Results are paginated.",
+    targetDepsSchema.shape,
+    async (args: TargetDepsArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return targetDepsImplementation(args, { extensionContext }, frameworkExtra);
+    },
+  );
+
+  server.tool(
+    "target_rdeps",
+    "Lists the rules in the workspace that depend on a Bazel target (direct dependents by default, use depth for transitive ones). Results are paginated.",
+    targetRdepsSchema.shape,
+    async (args: TargetRdepsArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return targetRdepsImplementation(args, { extensionContext }, frameworkExtra);
+    },
+  );
+
+  server.tool(
+    "owning_targets_for_file",
+    "Finds the Bazel targets that list a source file in their attributes (srcs, hdrs, resources, ...). Use it to know which target to build or test after editing a file.",
+    owningTargetsSchema.shape,
+    async (args: OwningTargetsArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return owningTargetsImplementation(args, { extensionContext }, frameworkExtra);
+    },
+  );
+
+  server.tool(
+    "target_info",
+    "Shows the rule kind, BUILD file location, srcs and other explicitly set attributes of a Bazel target.",
+    targetInfoSchema.shape,
+    async (args: TargetInfoArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return targetInfoImplementation(args, { extensionContext }, frameworkExtra);
+    },
+  );
+
+  // === SCREENSHOT COMMANDS ===
+  server.tool(
+    "take_simulator_screenshot",
+    "Takes a screenshot of running iOS simulator and returns as image context.",
+    takeScreenshotSchema.shape,
+    async (args: TakeScreenshotArgs, _frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
+      return takeScreenshotImplementation(args, { extensionContext: extensionContext });
+    },
+  );
+}
+
+export function createMcpServer(options: McpServerOptions, extensionContext: ExtensionContext): McpServerInstance {
+  const app = express();
+  const extraTools: McpToolDefinition<any>[] = [];
+  const resourceUpdates = new McpResourceUpdates(extensionContext);
+
+  // Every session gets its own server, a server can only be connected to one transport at a time
+  const createSessionServer = () => {
+    const server = new McpServer({
+      name: options.name,
+      version: options.version,
     });
+    registerBazelTools(server, extensionContext);
+    for (const tool of extraTools) {
+      server.tool(tool.name, tool.description, tool.schema, tool.implementation);
+    }
+    registerBazelPrompts(server, extensionContext);
+    const removeResources = registerBazelResources(server, extensionContext, resourceUpdates);
+    server.server.onclose = removeResources;
+    return server;
+  };
+
+  const sseTransports: { [sessionId: string]: SSEServerTransport } = {};
+  const streamableTransports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+  const metricsRegistry = setupMetrics();
+  let httpServer: http.Server | undefined;
+  let port: number | undefined;
+
+  // --- Setup Routes ---
+  app.use([MCP_ENDPOINT, SSE_ENDPOINT, MESSAGES_ENDPOINT], createAuthMiddleware(options.authToken));
 
+  app.post(MCP_ENDPOINT, express.json(), async (req: Request, res: Response) => {
+    const sessionId = req.header("mcp-session-id");
     try {
-      vscode.commands.executeCommand(commandId).then(
-        () => {},
-        (initError) => commonLogger.error(`Error returned from executeCommand ${commandId}`, { initError }),
-      );
-    } catch (execError: any) {
-      commonLogger.error(`Error initiating command ${commandId}`, { execError });
-      eventListener?.dispose();
-      return {
-        content: [{ type: "text", text: `Error initiating ${commandId}: ${execError.message}` }],
-        isError: true,
-      };
-    }
+      let transport = sessionId ? streamableTransports[sessionId] : undefined;
 
-    const raceResult = await Promise.race([waitForCompletionPromise, timeoutPromise]);
-    eventListener?.dispose();
+      if (!transport) {
+        if (sessionId || !isInitializeRequest(req.body)) {
+          res.status(400).json({
+            jsonrpc: "2.0",
+            error: { code: -32000, message: "Bad Request: no valid session ID provided" },
+            id: null,
+          });
+          return;
+        }
 
-    if (raceResult === "timeout") {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `TIMEOUT after ${timeoutSeconds}s waiting for command ${commandId} to signal completion.`,
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => crypto.randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            streamableTransports[newSessionId] = newTransport;
+            commonLogger.log(`Streamable HTTP session: sessionId=${newSessionId}`);
           },
-        ],
-        isError: true,
-      };
-    }
-    // Read the actual command output from the UI log file
-    try {
-      const logPath = extensionContext.UI_LOG_PATH();
-      const logContent = fs.readFileSync(logPath, "utf-8").trim();
-
-      if (logContent.length > 0) {
-        // Check the final status - look for success markers
-        const hasSuccess =
-          logContent.includes("✅") ||
-          logContent.toLowerCase().includes("completed successfully") ||
-          logContent.toLowerCase().includes("launched successfully") ||
-          logContent.includes("🎉");
-
-        // Only flag as error if no success markers found AND has error indicators
-        const hasError =
-          !hasSuccess &&
-          (logContent.toLowerCase().includes("error:") ||
-            logContent.includes("❌") ||
-            logContent.toLowerCase().includes("failed"));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: hasError
-                ? `Command ${commandId} encountered an error:\n\n${logContent}`
-                : `Command ${commandId} completed successfully.\n\nOutput:\n${logContent}`,
-            },
-          ],
-          isError: hasError,
+        });
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) delete streamableTransports[newTransport.sessionId];
         };
+        await createSessionServer().connect(newTransport);
+        transport = newTransport;
       }
 
-      // No log content - command completed with no output
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Command ${commandId} completed with no output.`,
-          },
-        ],
-        isError: false,
-      };
-    } catch (readError) {
-      commonLogger.error(`Error reading UI log file for ${commandId}`, { readError });
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Command ${commandId} completed but could not read output log.`,
-          },
-        ],
-        isError: true,
-      };
+      await transport.handleRequest(req, res, req.body);
+    } catch (err) {
+      commonLogger.error("Error handling Streamable HTTP request", { err, sessionId });
+      if (!res.headersSent) res.status(500).send("Error handling request");
     }
-  };
-
-  return { toolName, schema: schema.shape, implementation };
-};
-
-export function createMcpServer(options: McpServerOptions, extensionContext: ExtensionContext): McpServerInstance {
-  const app = express();
-  const server = new McpServer({
-    name: options.name,
-    version: options.version,
   });
 
-  const transports: { [sessionId: string]: SSEServerTransport } = {};
-  const metricsRegistry = setupMetrics();
+  // GET opens the stream for server notifications, DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.header("mcp-session-id");
+    const transport = sessionId ? streamableTransports[sessionId] : undefined;
+    if (!transport) {
+      res.status(400).send("Invalid or missing session ID");
+      return;
+    }
+    try {
+      await transport.handleRequest(req, res);
+    } catch (err) {
+      commonLogger.error("Error handling Streamable HTTP request", { err, sessionId });
+      if (!res.headersSent) res.status(500).send("Error handling request");
+    }
+  };
+  app.get(MCP_ENDPOINT, handleSessionRequest);
+  app.delete(MCP_ENDPOINT, handleSessionRequest);
 
-  // --- Setup Routes ---
   app.get(SSE_ENDPOINT, async (_: Request, res: Response) => {
     commonLogger.log(`Received GET ${SSE_ENDPOINT}`);
     try {
@@ -170,15 +289,15 @@ export function createMcpServer(options: McpServerOptions, extensionContext: Ext
       }, keepAliveIntervalMs);
 
       const transport = new SSEServerTransport(MESSAGES_ENDPOINT, res);
-      transports[transport.sessionId] = transport;
+      sseTransports[transport.sessionId] = transport;
       commonLogger.log(`SSE Connection: sessionId=${transport.sessionId}`);
 
       res.on("close", () => {
         clearInterval(keepAliveTimer);
-        delete transports[transport.sessionId];
+        delete sseTransports[transport.sessionId];
       });
 
-      await server.connect(transport);
+      await createSessionServer().connect(transport);
     } catch (err) {
       commonLogger.error("Error handling SSE connection", { err });
       if (!res.headersSent) res.status(500).send("SSE Connection Error");
@@ -188,7 +307,7 @@ export function createMcpServer(options: McpServerOptions, extensionContext: Ext
   app.post(MESSAGES_ENDPOINT, express.json(), async (req: Request, res: Response) => {
     const sessionId = req.query.sessionId as string;
 
-    const transport = transports[sessionId];
+    const transport = sseTransports[sessionId];
     if (transport) {
       try {
         await transport.handlePostMessage(req, res, req.body);
@@ -213,88 +332,39 @@ export function createMcpServer(options: McpServerOptions, extensionContext: Ext
     }
   });
 
-  // === BAZEL COMMANDS ===
-
-  const bazelTest = createCommandTool(
-    "bazelbsp.bazel.testSelected",
-    "bazel_test",
-    "Run tests for the currently selected Bazel target",
-    extensionContext,
-  );
-  server.tool(
-    bazelTest.toolName,
-    "Runs unit tests for the currently selected Bazel test target. Target must be a test type (ios_unit_test or swift_test).",
-    bazelTest.schema,
-    bazelTest.implementation,
-  );
-
-  const bazelRun = createCommandTool(
-    "bazelbsp.bazel.debug",
-    "bazel_run",
-    "Build, launch, and attach debugger to the selected Bazel app target",
-    extensionContext,
-  );
-  server.tool(
-    bazelRun.toolName,
-    "Builds, launches, and attaches LLDB debugger to the currently selected Bazel target on iOS simulator or device. Allows setting breakpoints and inspecting app state. This is the primary run command.",
-    bazelRun.schema,
-    bazelRun.implementation,
-  );
-
-  const bazelBuild = createCommandTool(
-    "bazelbsp.bazel.buildSelected",
-    "bazel_build",
-    "Build the currently selected Bazel target without running",
-    extensionContext,
-  );
-  server.tool(
-    bazelBuild.toolName,
-    "Builds the currently selected Bazel target. Compiles code without running the app.",
-    bazelBuild.schema,
-    bazelBuild.implementation,
-  );
-
-  // Bazel Clean
-  server.tool(
-    "bazel_clean",
-    "Clean Bazel build cache. Use expunge=true for complete cleanup (removes all caches), or expunge=false/omitted for regular clean (keeps analysis cache).",
-    bazelCleanSchema.shape,
-    async (args: BazelCleanArgs, frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
-      return bazelCleanImplementation(args, { extensionContext }, frameworkExtra);
-    },
-  );
-
-  // === SCREENSHOT COMMANDS ===
-  server.tool(
-    "take_simulator_screenshot",
-    "Takes a screenshot of running iOS simulator and returns as image context.",
-    takeScreenshotSchema.shape,
-    async (args: TakeScreenshotArgs, _frameworkExtra: RequestHandlerExtra<any, any>): Promise<CallToolResult> => {
-      return takeScreenshotImplementation(args, { extensionContext: extensionContext });
-    },
-  );
-
   const registerTool = <T extends ZodRawShape>(tool: McpToolDefinition<T>): void => {
-    server.tool(tool.name, tool.description, tool.schema, tool.implementation);
+    // Applies to sessions started from now on
+    extraTools.push(tool);
   };
 
   return {
     app,
-    server,
     registerTool,
+    get port() {
+      return port;
+    },
     start: async () => {
-      const port = options.port || 8000;
-      return new Promise<Express>((resolve, reject) => {
-        const httpServer = http.createServer(app);
-        httpServer.on("error", (err) => {
-          commonLogger.error("HTTP server listen error", { err });
-          reject(err);
-        });
-        httpServer.listen(port, () => {
-          commonLogger.log(`MCP server listening on port ${port}`);
-          resolve(app);
-        });
+      const host = options.host ?? "127.0.0.1";
+      httpServer = http.createServer(app);
+      port = await listenOnAvailablePort(httpServer, {
+        port: options.port ?? DEFAULT_PORT,
+        host,
+        maxAttempts: options.maxPortAttempts ?? MAX_PORT_ATTEMPTS,
+      });
+      commonLogger.log(`MCP server listening on ${host}:${port}`);
+      return port;
+    },
+    stop: async () => {
+      const transports = [...Object.values(streamableTransports), ...Object.values(sseTransports)];
+      await Promise.allSettled(transports.map((transport) => transport.close()));
+      await new Promise<void>((resolve) => {
+        if (!httpServer) return resolve();
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
       });
+      httpServer = undefined;
+      port = undefined;
+      resourceUpdates.dispose();
     },
   };
 }
@@ -1,12 +1,50 @@
 import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { Counter, Histogram, Registry } from "prom-client";
+import { Counter, Gauge, Histogram, Registry } from "prom-client";
 import type { ZodRawShape, ZodTypeAny, z } from "zod";
+import type { BazelBuildSummary } from "../../domain/entities/bazel/types.js";
 import { commonLogger } from "../../shared/logger/logger.js"; // Use commonLogger
 
-// Create a registry for MCP-specific metrics
+// Registry served on the MCP server's /metrics endpoint, for MCP and for the rest of the extension
 const registry = new Registry();
 
+// Target labels and destinations come from the workspace, a monorepo would otherwise create a series per target
+const MAX_LABEL_VALUES = 50;
+const OTHER_LABEL_VALUE = "other";
+const UNKNOWN_LABEL_VALUE = "unknown";
+
+/**
+ * Keeps the first `maxValues` distinct values of every label name, later ones are reported as "other"
+ */
+export class LabelValueLimiter {
+  private values = new Map<string, Set<string>>();
+
+  constructor(private maxValues = MAX_LABEL_VALUES) {}
+
+  limit(labelName: string, value: string | undefined): string {
+    if (!value) {
+      return UNKNOWN_LABEL_VALUE;
+    }
+
+    const seen = this.values.get(labelName) ?? new Set<string>();
+    this.values.set(labelName, seen);
+    if (seen.has(value)) {
+      return value;
+    }
+    if (seen.size >= this.maxValues) {
+      return OTHER_LABEL_VALUE;
+    }
+    seen.add(value);
+    return value;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+const labelValues = new LabelValueLimiter();
+
 // Define the metrics
 export const TOOL_CALLS = new Counter({
   name: "mcp_tool_calls_total",
@@ -22,6 +60,140 @@ export const TOOL_LATENCY = new Histogram({
   registers: [registry],
 });
 
+export const BUILD_DURATION = new Histogram({
+  name: "bazel_build_duration_seconds",
+  help: "Duration of bazel commands in seconds",
+  labelNames: ["command", "label", "mode", "destination", "status"],
+  buckets: [5, 15, 30, 60, 120, 300, 600, 1200, 2400],
+  registers: [registry],
+});
+
+export const CACHE_HITS = new Counter({
+  name: "bazel_cache_hits_total",
+  help: "Actions served from a cache instead of being executed locally",
+  labelNames: ["command", "cache"],
+  registers: [registry],
+});
+
+export const CACHE_MISSES = new Counter({
+  name: "bazel_cache_misses_total",
+  help: "Actions executed locally because no cache had their result",
+  labelNames: ["command"],
+  registers: [registry],
+});
+
+export const CACHE_HIT_RATIO = new Gauge({
+  name: "bazel_cache_hit_ratio",
+  help: "Share of actions served from a cache in the last bazel command of a target",
+  labelNames: ["command", "label"],
+  registers: [registry],
+});
+
+export const TEST_RESULTS = new Counter({
+  name: "bazel_test_results_total",
+  help: "Test target results by status",
+  labelNames: ["label", "status"],
+  registers: [registry],
+});
+
+export const SIMULATOR_OPERATION_DURATION = new Histogram({
+  name: "simulator_operation_duration_seconds",
+  help: "Duration of simulator boot, app install and app launch in seconds",
+  labelNames: ["operation", "status"],
+  buckets: [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [registry],
+});
+
+export const DEVICE_OPERATION_DURATION = new Histogram({
+  name: "device_operation_duration_seconds",
+  help: "Duration of app install and app launch on physical devices in seconds",
+  labelNames: ["operation", "status"],
+  buckets: [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [registry],
+});
+
+export const BSP_SETUP = new Counter({
+  name: "bsp_setup_total",
+  help: "BSP config setups by method and outcome",
+  labelNames: ["method", "status"],
+  registers: [registry],
+});
+
+/**
+ * Share of actions served from the action, remote or disk cache
+ * @returns undefined when no action was looked up (e.g. nothing changed since the last build)
+ */
+export function getCacheHitRatio(metrics: NonNullable<BazelBuildSummary["metrics"]>): number | undefined {
+  const lookups = metrics.actionCacheHits + metrics.actionCacheMisses;
+  if (lookups === 0) {
+    return undefined;
+  }
+  const hits = metrics.actionCacheHits + metrics.remoteCacheHits + metrics.diskCacheHits;
+  return Math.min(1, hits / lookups);
+}
+
+/**
+ * Record duration, cache usage and test results of a bazel command from its Build Event Protocol summary
+ */
+export function recordBuildMetrics(
+  summary: BazelBuildSummary,
+  options: { label: string; buildMode?: string; destination?: string },
+): void {
+  const command = labelValues.limit("command", summary.command);
+  const label = labelValues.limit("label", options.label);
+
+  if (summary.durationMillis !== undefined) {
+    BUILD_DURATION.labels({
+      command,
+      label,
+      mode: labelValues.limit("mode", options.buildMode),
+      destination: labelValues.limit("destination", options.destination),
+      status: summary.success ? "success" : "failure",
+    }).observe(summary.durationMillis / 1000);
+  }
+
+  if (summary.metrics) {
+    const { actionCacheHits, actionCacheMisses, remoteCacheHits, diskCacheHits } = summary.metrics;
+    CACHE_HITS.labels({ command, cache: "action" }).inc(actionCacheHits);
+    CACHE_HITS.labels({ command, cache: "remote" }).inc(remoteCacheHits);
+    CACHE_HITS.labels({ command, cache: "disk" }).inc(diskCacheHits);
+    // Remote and disk cache hits are action cache misses that didn't have to run
+    CACHE_MISSES.labels({ command }).inc(Math.max(0, actionCacheMisses - remoteCacheHits - diskCacheHits));
+
+    const ratio = getCacheHitRatio(summary.metrics);
+    if (ratio !== undefined) {
+      CACHE_HIT_RATIO.labels({ command, label }).set(ratio);
+    }
+  }
+
+  for (const test of summary.tests) {
+    TEST_RESULTS.labels({ label: labelValues.limit("label", test.label), status: test.status }).inc();
+  }
+}
+
+/**
+ * Time an operation in a histogram, with its outcome as "status" label
+ */
+export async function observeDuration<T>(
+  histogram: Histogram<string>,
+  labels: Record<string, string>,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const end = histogram.startTimer(labels);
+  try {
+    const result = await operation();
+    end({ status: "success" });
+    return result;
+  } catch (error) {
+    end({ status: "failure" });
+    throw error;
+  }
+}
+
+export function recordBspSetup(method: string, status: "success" | "failure"): void {
+  BSP_SETUP.labels({ method, status }).inc();
+}
+
 /**
  * Setup metrics for the MCP server
  * @returns Registry - Prometheus metrics registry
@@ -43,6 +215,7 @@ export function getMetrics(): Registry {
  */
 export function resetMetrics(): void {
   registry.resetMetrics();
+  labelValues.reset();
 }
 
 /**
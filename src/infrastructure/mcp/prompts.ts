@@ -0,0 +1,139 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { formatRuleInfo } from "../../shared/utils/bazel-query-tools.js";
+import { getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import { queryDeps, queryTargetInfo } from "../bazel/bazel-query.js";
+import type { ExtensionContext } from "../vscode/extension-context.js";
+import { formatInvocationSummary } from "./tool-results.js";
+
+// Failed actions repeat the diagnostics, a few are enough to point at the broken targets
+const MAX_FAILED_ACTIONS = 10;
+const MAX_FAILING_TESTS = 30;
+const MAX_LISTED_DEPS = 50;
+
+function userPrompt(text: string): GetPromptResult {
+  return { messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+export function createFixBuildFailurePrompt(context: ExtensionContext): GetPromptResult {
+  const result = context.lastBuildInvocation;
+  if (!result) {
+    return userPrompt(
+      "No build has run in this window yet. Build the selected target with the bazel_build tool first.",
+    );
+  }
+  if (result.status === "succeeded") {
+    return userPrompt(`The last build (${result.command}) succeeded, there is nothing to fix.`);
+  }
+
+  const lines = [
+    "The last Bazel build failed. Find the root cause in the output below and fix the source or BUILD files.",
+    "Fix the first error first, later errors are often caused by it. Rebuild with the bazel_build tool to verify.",
+    "",
+    formatInvocationSummary(result, getWorkspacePath()),
+  ];
+
+  const failedActions = context.lastBuildSummary?.failedActions ?? [];
+  if (failedActions.length > 0) {
+    lines.push("", "Failed actions:");
+    for (const action of failedActions.slice(0, MAX_FAILED_ACTIONS)) {
+      const exitCode = action.exitCode !== undefined ? ` (exit code ${action.exitCode})` : "";
+      lines.push(`- ${action.label ?? "unknown target"}: ${action.mnemonic ?? "action"}${exitCode}`);
+    }
+  }
+
+  return userPrompt(lines.join("\n"));
+}
+
+export function createFixFailingTestsPrompt(context: ExtensionContext): GetPromptResult {
+  const failingCases = context.testHistoryManager.getFailingCases();
+  const failedTargets = (context.lastBuildSummary?.tests ?? []).filter((test) => test.status !== "PASSED");
+  if (failingCases.length === 0 && failedTargets.length === 0) {
+    return userPrompt("No failing tests are recorded. Run the tests with the bazel_test tool first.");
+  }
+
+  const lines = [
+    "These tests failed on their latest run. Decide for each whether the test or the code under test is wrong and fix it.",
+    "Re-run only the fixed cases with the bazel_test tool and its testFilter parameter.",
+  ];
+
+  if (failingCases.length > 0) {
+    lines.push("", "Failing test cases:");
+    for (const testCase of failingCases.slice(0, MAX_FAILING_TESTS)) {
+      const name = testCase.className ? `${testCase.className}/${testCase.name}` : testCase.name;
+      lines.push(`- ${testCase.label}: ${name}`);
+    }
+    if (failingCases.length > MAX_FAILING_TESTS) {
+      lines.push(`- ... ${failingCases.length - MAX_FAILING_TESTS} more`);
+    }
+  }
+
+  if (failedTargets.length > 0) {
+    lines.push("", "Test targets of the last run:");
+    for (const test of failedTargets) {
+      lines.push(`- ${test.label}: ${test.status}`);
+    }
+  }
+
+  const result = context.lastBuildInvocation;
+  if (result?.tests.length) {
+    lines.push("", formatInvocationSummary(result, getWorkspacePath()));
+  }
+
+  return userPrompt(lines.join("\n"));
+}
+
+export async function createExplainTargetPrompt(label: string): Promise<GetPromptResult> {
+  const lines = [
+    `Explain what the Bazel target ${label} is for, what it builds and how it fits into the workspace.`,
+    "Read its sources where needed, and use the target_rdeps tool to see who depends on it.",
+  ];
+
+  try {
+    const [rule, deps] = await Promise.all([queryTargetInfo(label), queryDeps(label)]);
+    lines.push("", formatRuleInfo(rule), "", `Direct dependencies (${deps.length}):`);
+    lines.push(...deps.slice(0, MAX_LISTED_DEPS).map((dep) => `- ${dep.target} (${dep.type})`));
+    if (deps.length > MAX_LISTED_DEPS) {
+      lines.push(`- ... ${deps.length - MAX_LISTED_DEPS} more, see the target_deps tool`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    lines.push("", `Querying the target failed (${message}), use the target_info tool instead.`);
+  }
+
+  return userPrompt(lines.join("\n"));
+}
+
+/**
+ * Prompts inline the current build state, so assistants don't need to read logs first
+ */
+export function registerBazelPrompts(server: McpServer, context: ExtensionContext): void {
+  server.registerPrompt(
+    "fix_build_failure",
+    {
+      title: "Fix the last build failure",
+      description: "Diagnostics, failed actions and output of the last failed build, with instructions to fix it",
+    },
+    () => createFixBuildFailurePrompt(context),
+  );
+
+  server.registerPrompt(
+    "fix_failing_tests",
+    {
+      title: "Fix failing tests",
+      description: "Test cases that failed on their latest run, with the output of the last test run",
+    },
+    () => createFixFailingTestsPrompt(context),
+  );
+
+  server.registerPrompt(
+    "explain_target",
+    {
+      title: "Explain a Bazel target",
+      description: "Rule kind, attributes and dependencies of a target, with instructions to explain it",
+      argsSchema: { label: z.string().min(1).describe("Bazel target label, e.g. '//Libs/Core:Core'") },
+    },
+    ({ label }) => createExplainTargetPrompt(label),
+  );
+}
@@ -0,0 +1,241 @@
+import events from "node:events";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import * as vscode from "vscode";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import { getWorkspaceConfig } from "../../shared/utils/config.js";
+import type { ExtensionContext } from "../vscode/extension-context.js";
+
+export const RESOURCE_URIS = {
+  buildLog: "bazelbsp://build/log",
+  buildSummary: "bazelbsp://build/summary",
+  bspConfig: "bazelbsp://bsp/config",
+  selection: "bazelbsp://workspace/selection",
+  extensionLog: "bazelbsp://logs/extension",
+} as const;
+
+export type ResourceUri = (typeof RESOURCE_URIS)[keyof typeof RESOURCE_URIS];
+
+type IEventMap = {
+  updated: [uri: ResourceUri];
+};
+
+const BSP_CONFIG_PATH = ".bsp/skbsp.json";
+const EXTENSION_LOG_MESSAGES = 200;
+// The extension logs a lot during a build, subscribers only need to hear about it now and then
+const EXTENSION_LOG_UPDATE_DELAY_MS = 2000;
+
+/**
+ * Watches the sources of all resources and tells every session which resource changed
+ */
+export class McpResourceUpdates implements vscode.Disposable {
+  private emitter = new events.EventEmitter<IEventMap>();
+  private watcher: vscode.FileSystemWatcher;
+  private logUpdateTimer: NodeJS.Timeout | undefined;
+  private removeListeners: () => void;
+  private disposed = false;
+
+  constructor(context: ExtensionContext) {
+    const buildLogUpdated = () => this.emit(RESOURCE_URIS.buildLog);
+    const buildSummaryUpdated = () => this.emit(RESOURCE_URIS.buildSummary);
+    const selectionUpdated = () => this.emit(RESOURCE_URIS.selection);
+    const extensionLogUpdated = () => this.scheduleExtensionLogUpdate();
+
+    context.on("buildInvocationFinished", buildLogUpdated);
+    context.on("buildSummaryUpdated", buildSummaryUpdated);
+    context.on("workspaceConfigChanged", selectionUpdated);
+    context.buildManager.on("selectedBazelTargetUpdated", selectionUpdated);
+    context.destinationsManager.on("xcodeDestinationForBuildUpdated", selectionUpdated);
+    context.destinationsManager.on("xcodeDestinationForTestingUpdated", selectionUpdated);
+    commonLogger.on("logged", extensionLogUpdated);
+    // The context and the logger outlive the server, their listeners are removed when it stops
+    this.removeListeners = () => {
+      context.off("buildInvocationFinished", buildLogUpdated);
+      context.off("buildSummaryUpdated", buildSummaryUpdated);
+      context.off("workspaceConfigChanged", selectionUpdated);
+      context.buildManager.off("selectedBazelTargetUpdated", selectionUpdated);
+      context.destinationsManager.off("xcodeDestinationForBuildUpdated", selectionUpdated);
+      context.destinationsManager.off("xcodeDestinationForTestingUpdated", selectionUpdated);
+      commonLogger.off("logged", extensionLogUpdated);
+    };
+
+    const bspConfigUpdated = () => this.emit(RESOURCE_URIS.bspConfig);
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(getWorkspacePath(), BSP_CONFIG_PATH),
+    );
+    this.watcher.onDidCreate(bspConfigUpdated);
+    this.watcher.onDidChange(bspConfigUpdated);
+    this.watcher.onDidDelete(bspConfigUpdated);
+  }
+
+  /**
+   * @returns function removing the listener, called when the session closes
+   */
+  onDidUpdate(listener: (uri: ResourceUri) => void): () => void {
+    this.emitter.on("updated", listener);
+    return () => this.emitter.off("updated", listener);
+  }
+
+  private emit(uri: ResourceUri): void {
+    if (!this.disposed) {
+      this.emitter.emit("updated", uri);
+    }
+  }
+
+  private scheduleExtensionLogUpdate(): void {
+    if (this.logUpdateTimer || this.disposed) {
+      return;
+    }
+    this.logUpdateTimer = setTimeout(() => {
+      this.logUpdateTimer = undefined;
+      this.emit(RESOURCE_URIS.extensionLog);
+    }, EXTENSION_LOG_UPDATE_DELAY_MS);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    clearTimeout(this.logUpdateTimer);
+    this.removeListeners();
+    this.watcher.dispose();
+    this.emitter.removeAllListeners();
+  }
+}
+
+function textResource(uri: URL, text: string, mimeType = "text/plain"): ReadResourceResult {
+  return { contents: [{ uri: uri.href, mimeType, text }] };
+}
+
+function jsonResource(uri: URL, value: unknown): ReadResourceResult {
+  return textResource(uri, JSON.stringify(value, null, 2), "application/json");
+}
+
+export function readBuildLog(context: ExtensionContext, uri: URL): ReadResourceResult {
+  const result = context.lastBuildInvocation;
+  if (!result) {
+    return textResource(uri, "No build has run in this window yet.");
+  }
+  return textResource(uri, `${result.command} ${result.status} (invocation ${result.id})\n\n${result.log}`);
+}
+
+export function readBuildSummary(context: ExtensionContext, uri: URL): ReadResourceResult {
+  const summary = context.lastBuildSummary;
+  if (!summary) {
+    return textResource(uri, "No bazel command has reported build events in this window yet.");
+  }
+  return jsonResource(uri, summary);
+}
+
+async function readBspConfig(uri: URL): Promise<ReadResourceResult> {
+  const configPath = path.join(getWorkspacePath(), BSP_CONFIG_PATH);
+  try {
+    return textResource(uri, await fs.readFile(configPath, "utf8"), "application/json");
+  } catch {
+    return textResource(
+      uri,
+      `${BSP_CONFIG_PATH} does not exist. Run "Bazel BSP: Setup BSP Config for Selected Target" to generate it.`,
+    );
+  }
+}
+
+export function readSelection(context: ExtensionContext, uri: URL): ReadResourceResult {
+  const configBuildMode = getWorkspaceConfig("bazel.buildMode");
+  return jsonResource(uri, {
+    target: context.buildManager.getSelectedBazelTargetData() ?? null,
+    buildDestination: context.destinationsManager.getSelectedXcodeDestinationForBuild() ?? null,
+    testingDestination: context.destinationsManager.getSelectedXcodeDestinationForTesting() ?? null,
+    buildMode:
+      configBuildMode && configBuildMode !== "ask"
+        ? configBuildMode
+        : (context.getWorkspaceState("bazel.buildMode") ?? null),
+    buildProfile: context.getWorkspaceState("bazel.buildProfile") ?? null,
+  });
+}
+
+/**
+ * Register the resources on a session's server
+ * @returns function to call when the session closes
+ */
+export function registerBazelResources(
+  server: McpServer,
+  context: ExtensionContext,
+  updates: McpResourceUpdates,
+): () => void {
+  server.registerResource(
+    "build-log",
+    RESOURCE_URIS.buildLog,
+    {
+      title: "Latest build log",
+      description: "Terminal output of the last command that ran bazel (build, test, run, clean)",
+      mimeType: "text/plain",
+    },
+    async (uri) => readBuildLog(context, uri),
+  );
+
+  server.registerResource(
+    "build-summary",
+    RESOURCE_URIS.buildSummary,
+    {
+      title: "Last build summary",
+      description: "Targets, failed actions, test results and cache metrics from the Build Event Protocol",
+      mimeType: "application/json",
+    },
+    async (uri) => readBuildSummary(context, uri),
+  );
+
+  server.registerResource(
+    "bsp-config",
+    RESOURCE_URIS.bspConfig,
+    {
+      title: "BSP config",
+      description: `sourcekit-bazel-bsp configuration (${BSP_CONFIG_PATH})`,
+      mimeType: "application/json",
+    },
+    async (uri) => readBspConfig(uri),
+  );
+
+  server.registerResource(
+    "selection",
+    RESOURCE_URIS.selection,
+    {
+      title: "Current selection",
+      description: "Selected Bazel target, build and testing destinations, build mode and build profile",
+      mimeType: "application/json",
+    },
+    async (uri) => readSelection(context, uri),
+  );
+
+  server.registerResource(
+    "extension-log",
+    RESOURCE_URIS.extensionLog,
+    {
+      title: "Extension log",
+      description: `Last ${EXTENSION_LOG_MESSAGES} messages of the bazelbsp output channel`,
+      mimeType: "text/plain",
+    },
+    async (uri) => textResource(uri, commonLogger.lastFormatted(EXTENSION_LOG_MESSAGES)),
+  );
+
+  // Only resources the client subscribed to get update notifications
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return updates.onDidUpdate((uri) => {
+    if (!subscriptions.has(uri) || !server.isConnected()) {
+      return;
+    }
+    // Not logged: a failing notification would log, which updates the extension log again
+    server.server.sendResourceUpdated({ uri }).catch(() => {});
+  });
+}
@@ -0,0 +1,119 @@
+import * as path from "node:path";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { CommandInvocationResult } from "../vscode/command-invocation.js";
+
+// The full log is in the structured content, the text summary only needs the end of it
+const SUMMARY_LOG_LINES = 80;
+const SUMMARY_MAX_DIAGNOSTICS = 20;
+
+function formatDuration(millis: number): string {
+  return millis >= 60_000
+    ? `${Math.floor(millis / 60_000)}m ${Math.round((millis % 60_000) / 1000)}s`
+    : `${(millis / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Human readable summary of an invocation, derived only from its structured fields
+ */
+export function formatInvocationSummary(result: CommandInvocationResult, workspaceRoot?: string): string {
+  const exitCode = result.exitCode !== undefined ? `, exit code ${result.exitCode}` : "";
+  const bazelExitCode = result.bazelExitCode ? `, bazel ${result.bazelExitCode}` : "";
+  const lines = [
+    `${result.command} ${result.status} in ${formatDuration(result.durationMillis)}${exitCode}${bazelExitCode}`,
+    `Invocation: ${result.id}`,
+  ];
+
+  if (result.error) {
+    lines.push(`Error: ${result.error}`);
+  }
+
+  if (result.diagnostics.length > 0) {
+    lines.push("", `Diagnostics (${result.diagnostics.length}):`);
+    for (const diagnostic of result.diagnostics.slice(0, SUMMARY_MAX_DIAGNOSTICS)) {
+      const file = workspaceRoot ? path.relative(workspaceRoot, diagnostic.file) : diagnostic.file;
+      lines.push(`- ${file}:${diagnostic.line}:${diagnostic.column}: ${diagnostic.severity}: ${diagnostic.message}`);
+    }
+    if (result.diagnostics.length > SUMMARY_MAX_DIAGNOSTICS) {
+      lines.push(`- ... ${result.diagnostics.length - SUMMARY_MAX_DIAGNOSTICS} more`);
+    }
+  }
+
+  if (result.artifacts.length > 0) {
+    lines.push("", "Artifacts:", ...result.artifacts.map((artifact) => `- ${artifact}`));
+  }
+
+  if (result.tests.length > 0) {
+    lines.push("", "Tests:");
+    for (const test of result.tests) {
+      lines.push(`- ${test.label}: ${test.status}${test.cached ? " (cached)" : ""}`);
+    }
+  }
+
+  if (result.log) {
+    const logLines = result.log.split("\n");
+    const omitted =
+      logLines.length > SUMMARY_LOG_LINES ? ` (last ${SUMMARY_LOG_LINES} of ${logLines.length} lines)` : "";
+    lines.push("", `Output${omitted}:`, ...logLines.slice(-SUMMARY_LOG_LINES));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * MCP tool result for a command invocation: a text summary plus the same fields as structured content
+ */
+export function createInvocationToolResult(result: CommandInvocationResult, workspaceRoot?: string): CallToolResult {
+  return {
+    content: [{ type: "text", text: formatInvocationSummary(result, workspaceRoot) }],
+    structuredContent: { ...result },
+    isError: result.status !== "succeeded",
+  };
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+/**
+ * One page of a list result, `nextOffset` is set while there are more items
+ */
+export interface ToolResultPage<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+  nextOffset?: number;
+}
+
+export function paginate<T>(items: T[], options?: { offset?: number; limit?: number }): ToolResultPage<T> {
+  const offset = Math.max(0, options?.offset ?? 0);
+  const limit = Math.min(Math.max(1, options?.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const end = offset + limit;
+
+  return {
+    items: items.slice(offset, end),
+    total: items.length,
+    offset,
+    limit,
+    nextOffset: end < items.length ? end : undefined,
+  };
+}
+
+/**
+ * MCP tool result for one page of a list: one line per item plus the page as structured content
+ */
+export function createPageToolResult<T>(
+  title: string,
+  page: ToolResultPage<T>,
+  formatItem: (item: T) => string,
+): CallToolResult {
+  const range = page.items.length > 0 ? `${page.offset + 1}-${page.offset + page.items.length}` : "none";
+  const lines = [`${title}: ${range} of ${page.total}`, ...page.items.map((item) => `- ${formatItem(item)}`)];
+  if (page.nextOffset !== undefined) {
+    lines.push("", `More results available, call again with offset=${page.nextOffset}`);
+  }
+
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: { ...page },
+  };
+}
@@ -1,4 +1,3 @@
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
@@ -22,10 +21,27 @@ export interface McpServerOptions {
   version: string;
 
   /**
-   * Port to listen on
-   * @default 8000
+   * First port to try, the next ones are used when it is busy
+   * @default 61333
    */
   port?: number;
+
+  /**
+   * Address to bind to
+   * @default "127.0.0.1"
+   */
+  host?: string;
+
+  /**
+   * How many consecutive ports to try before giving up
+   * @default 10
+   */
+  maxPortAttempts?: number;
+
+  /**
+   * Bearer token clients must send in the Authorization header
+   */
+  authToken: string;
 }
 
 /**
@@ -38,19 +54,25 @@ export interface McpServerInstance {
   app: Express;
 
   /**
-   * McpServer instance from the SDK
+   * Port the server is listening on, undefined until started
    */
-  server: McpServer;
+  readonly port: number | undefined;
 
   /**
-   * Register a tool with the server
+   * Register a tool with the server, applies to sessions started afterwards
    */
   registerTool: <T extends ZodRawShape>(tool: McpToolDefinition<T>) => void;
 
   /**
    * Start the server
+   * @returns the port the server is listening on
+   */
+  start: () => Promise<number>;
+
+  /**
+   * Close all sessions and stop listening
    */
-  start: () => Promise<Express>;
+  stop: () => Promise<void>;
 }
 
 /**
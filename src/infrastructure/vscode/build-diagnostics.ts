@@ -0,0 +1,118 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { BazelBuildEvent } from "../../domain/entities/bazel/types.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { readTextFile } from "../../shared/utils/files.js";
+
+export interface CompilerDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  severity: "error" | "warning";
+  message: string;
+}
+
+// swiftc/clang format: "path/to/File.swift:12:5: error: message"
+const COMPILER_DIAGNOSTIC_REGEX = /^(.+?):(\d+):(?:(\d+):)?\s+(error|warning):\s+(.*)$/;
+// biome-ignore lint/suspicious/noControlCharactersInRegex: strips ANSI color codes from compiler output
+const ANSI_ESCAPE_REGEX = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Parse compiler errors and warnings from action stderr
+ * Relative paths are resolved against the workspace root (Bazel reports sources relative to it)
+ */
+export function parseCompilerDiagnostics(output: string, workspaceRoot: string): CompilerDiagnostic[] {
+  const diagnostics: CompilerDiagnostic[] = [];
+
+  for (const rawLine of output.split("\n")) {
+    const match = rawLine.replace(ANSI_ESCAPE_REGEX, "").trim().match(COMPILER_DIAGNOSTIC_REGEX);
+    if (!match) continue;
+
+    const [, file, line, column, severity, message] = match;
+    diagnostics.push({
+      file: path.isAbsolute(file) ? file : path.join(workspaceRoot, file),
+      line: Number(line),
+      column: column ? Number(column) : 1,
+      severity: severity as CompilerDiagnostic["severity"],
+      message,
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Problems panel entries produced from failed actions in the Build Event Protocol stream
+ */
+export class BuildDiagnostics {
+  private collection: vscode.DiagnosticCollection;
+  private entries = new Map<string, vscode.Diagnostic[]>();
+  private reported: CompilerDiagnostic[] = [];
+
+  constructor() {
+    this.collection = vscode.languages.createDiagnosticCollection("bazelbsp");
+  }
+
+  /**
+   * Clear diagnostics from the previous build
+   */
+  clear(): void {
+    this.entries.clear();
+    this.reported = [];
+    this.collection.clear();
+  }
+
+  /**
+   * Diagnostics published since the last clear, in the order they were reported
+   */
+  getDiagnostics(): CompilerDiagnostic[] {
+    return [...this.reported];
+  }
+
+  /**
+   * Read the stderr of a failed action and publish the compiler diagnostics it contains
+   * Returns the number of diagnostics added
+   */
+  async addFailedAction(
+    event: Extract<BazelBuildEvent, { type: "actionFailed" }>,
+    workspaceRoot: string,
+  ): Promise<number> {
+    if (!event.stderrPath) {
+      return 0;
+    }
+
+    let output: string;
+    try {
+      output = await readTextFile(event.stderrPath);
+    } catch (error) {
+      commonLogger.warn("Failed to read action stderr", { stderrPath: event.stderrPath, error });
+      return 0;
+    }
+
+    const diagnostics = parseCompilerDiagnostics(output, workspaceRoot);
+    for (const diagnostic of diagnostics) {
+      const position = new vscode.Position(Math.max(0, diagnostic.line - 1), Math.max(0, diagnostic.column - 1));
+      const entry = new vscode.Diagnostic(
+        new vscode.Range(position, position),
+        diagnostic.message,
+        diagnostic.severity === "error" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+      );
+      entry.source = event.mnemonic ? `bazel ${event.mnemonic}` : "bazel";
+
+      const fileEntries = this.entries.get(diagnostic.file) ?? [];
+      // Same diagnostic can be reported by several actions (e.g. per-architecture compiles)
+      if (!fileEntries.some((existing) => existing.message === entry.message && existing.range.isEqual(entry.range))) {
+        fileEntries.push(entry);
+        this.reported.push(diagnostic);
+      }
+      this.entries.set(diagnostic.file, fileEntries);
+      this.collection.set(vscode.Uri.file(diagnostic.file), fileEntries);
+    }
+
+    return diagnostics.length;
+  }
+
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
@@ -0,0 +1,79 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+
+const BUILD_FILE_PATTERN = "**/{BUILD,BUILD.bazel,*.bzl,MODULE.bazel}";
+const BUILD_FILE_NAMES = ["BUILD", "BUILD.bazel"];
+
+// Saving several BUILD files (e.g. a buildozer run or a branch switch) results in one refresh
+const CHANGE_DEBOUNCE_MS = 1000;
+
+/**
+ * Packages to re-query for changed build files of one Bazel workspace
+ * Macros (.bzl) and MODULE.bazel can change any package, so they require a full query instead
+ */
+export function classifyBuildFileChanges(
+  files: string[],
+  workspaceRoot: string,
+): { packages: string[]; requiresFullQuery: boolean } {
+  const packages = new Set<string>();
+  let requiresFullQuery = false;
+
+  for (const file of files) {
+    const name = path.basename(file);
+    if (!BUILD_FILE_NAMES.includes(name)) {
+      requiresFullQuery = true;
+      continue;
+    }
+
+    const packagePath = path.relative(workspaceRoot, path.dirname(file)).split(path.sep).join("/");
+    // The tree has no node for the root package
+    if (packagePath && !packagePath.startsWith("..")) {
+      packages.add(packagePath);
+    }
+  }
+
+  return { packages: [...packages].sort(), requiresFullQuery };
+}
+
+/**
+ * Watches BUILD, BUILD.bazel, *.bzl and MODULE.bazel files of all workspace folders
+ * Changes are reported in batches, once no file changed for a second
+ */
+export class BuildFileWatcher implements vscode.Disposable {
+  private watcher: vscode.FileSystemWatcher;
+  private changedFiles = new Set<string>();
+  private timer: NodeJS.Timeout | undefined;
+
+  private _onDidChangeBuildFiles = new vscode.EventEmitter<string[]>();
+  readonly onDidChangeBuildFiles = this._onDidChangeBuildFiles.event;
+
+  constructor() {
+    const onChange = (uri: vscode.Uri) => this.addChangedFile(uri.fsPath);
+
+    this.watcher = vscode.workspace.createFileSystemWatcher(BUILD_FILE_PATTERN);
+    this.watcher.onDidCreate(onChange);
+    this.watcher.onDidChange(onChange);
+    this.watcher.onDidDelete(onChange);
+  }
+
+  private addChangedFile(filePath: string): void {
+    // External repositories behind the bazel-* convenience symlinks are not part of the workspace
+    if (filePath.split(path.sep).some((part) => part.startsWith("bazel-"))) {
+      return;
+    }
+
+    this.changedFiles.add(filePath);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      const files = [...this.changedFiles];
+      this.changedFiles.clear();
+      this._onDidChangeBuildFiles.fire(files);
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.watcher.dispose();
+    this._onDidChangeBuildFiles.dispose();
+  }
+}
@@ -0,0 +1,134 @@
+import * as crypto from "node:crypto";
+import type { BazelBuildSummary } from "../../domain/entities/bazel/types.js";
+import type { CompilerDiagnostic } from "./build-diagnostics.js";
+
+export type CommandInvocationStatus = "succeeded" | "failed" | "cancelled" | "timeout";
+
+/**
+ * Everything one command run produced, returned to MCP clients instead of the shared UI log
+ */
+export interface CommandInvocationResult {
+  id: string;
+  command: string;
+  status: CommandInvocationStatus;
+  exitCode?: number; // Exit code of the failed process, if any
+  bazelExitCode?: string; // Exit code name of the last bazel command (SUCCESS, BUILD_FAILURE, TESTS_FAILED, ...)
+  durationMillis: number;
+  error?: string;
+  diagnostics: CompilerDiagnostic[];
+  artifacts: string[]; // Output files of successfully built targets
+  tests: BazelBuildSummary["tests"];
+  log: string; // Terminal output of this invocation only
+}
+
+// Keep the end of very long logs, that's where failures are
+const MAX_LOG_LENGTH = 200_000;
+
+// biome-ignore lint/suspicious/noControlCharactersInRegex: strips ANSI color codes from terminal output
+const ANSI_ESCAPE_REGEX = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Collects the output, diagnostics and artifacts of a single command run
+ *
+ * It's attached to the command's execution scope, so tasks and builds started by the command
+ * can report to it without knowing who is waiting for the result.
+ */
+export class CommandInvocation {
+  readonly id = crypto.randomUUID();
+  readonly command: string;
+
+  private startedAt = Date.now();
+  private log = "";
+  private diagnostics: CompilerDiagnostic[] = [];
+  private artifacts = new Set<string>();
+  private tests: BazelBuildSummary["tests"] = [];
+  private error?: string;
+  private exitCode?: number;
+  private bazelExitCode?: string;
+  private cancelled = false;
+  private result?: CommandInvocationResult;
+  private resolveCompleted!: (result: CommandInvocationResult) => void;
+
+  /**
+   * Resolved once the command finishes (before any error dialog is dismissed)
+   */
+  readonly completed: Promise<CommandInvocationResult>;
+
+  constructor(command: string) {
+    this.command = command;
+    this.completed = new Promise((resolve) => {
+      this.resolveCompleted = resolve;
+    });
+  }
+
+  get isFinished(): boolean {
+    return this.result !== undefined;
+  }
+
+  appendOutput(output: string): void {
+    this.log += output.replace(ANSI_ESCAPE_REGEX, "").replace(/\r\n/g, "\n");
+    if (this.log.length > MAX_LOG_LENGTH) {
+      this.log = this.log.slice(-MAX_LOG_LENGTH);
+    }
+  }
+
+  /**
+   * Record the outcome of a bazel command, a command can run several of them
+   */
+  recordBuild(summary: BazelBuildSummary, diagnostics: CompilerDiagnostic[]): void {
+    for (const diagnostic of diagnostics) {
+      const duplicate = this.diagnostics.some(
+        (existing) =>
+          existing.file === diagnostic.file &&
+          existing.line === diagnostic.line &&
+          existing.message === diagnostic.message,
+      );
+      if (!duplicate) this.diagnostics.push(diagnostic);
+    }
+    for (const target of summary.targets) {
+      if (!target.success) continue;
+      for (const file of target.outputFiles) {
+        this.artifacts.add(file);
+      }
+    }
+    this.tests.push(...summary.tests);
+    this.bazelExitCode = summary.exitCode ?? this.bazelExitCode;
+  }
+
+  recordError(message: string, exitCode?: number): void {
+    // The first error is the cause, later ones are usually just the command unwinding
+    this.error ??= message;
+    if (exitCode !== undefined) {
+      this.exitCode ??= exitCode;
+    }
+  }
+
+  /**
+   * A cancelled task ends without an error, the command would otherwise look successful
+   */
+  recordCancelled(): void {
+    this.cancelled = true;
+  }
+
+  finish(status: CommandInvocationStatus): CommandInvocationResult {
+    if (this.result) {
+      return this.result;
+    }
+
+    this.result = {
+      id: this.id,
+      command: this.command,
+      status: status === "succeeded" && this.cancelled ? "cancelled" : status,
+      exitCode: this.exitCode,
+      bazelExitCode: this.bazelExitCode,
+      durationMillis: Date.now() - this.startedAt,
+      error: this.error,
+      diagnostics: [...this.diagnostics],
+      artifacts: [...this.artifacts],
+      tests: [...this.tests],
+      log: this.log.trim(),
+    };
+    this.resolveCompleted(this.result);
+    return this.result;
+  }
+}
@@ -0,0 +1,118 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { BazelCoverageFile, BazelCoverageSummary } from "../../domain/entities/bazel/types.js";
+import { type LineCoverageState, getLineCoverage, summarizeCoverage } from "../bazel/lcov-parser.js";
+
+const COVERAGE_COLORS: Record<LineCoverageState, string> = {
+  covered: "rgba(46, 160, 67, 0.8)",
+  partial: "rgba(210, 153, 34, 0.8)",
+  uncovered: "rgba(248, 81, 73, 0.8)",
+};
+
+function createGutterIcon(color: string): vscode.Uri {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="3" height="16"><rect width="3" height="16" fill="${color}"/></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`);
+}
+
+/**
+ * Gutter decorations for the latest `bazel coverage` report
+ *
+ * Lines are marked as covered, partially covered (some branches never taken) or uncovered
+ * in every visible editor, and the report stays until the next coverage run or until cleared.
+ */
+export class CoverageDecorations implements vscode.Disposable {
+  private files = new Map<string, BazelCoverageFile>();
+  private decorationTypes: Record<LineCoverageState, vscode.TextEditorDecorationType>;
+  private disposables: vscode.Disposable[] = [];
+
+  private _onDidChangeCoverage = new vscode.EventEmitter<void>();
+  readonly onDidChangeCoverage = this._onDidChangeCoverage.event;
+
+  constructor() {
+    const createDecorationType = (state: LineCoverageState) =>
+      vscode.window.createTextEditorDecorationType({
+        gutterIconPath: createGutterIcon(COVERAGE_COLORS[state]),
+        gutterIconSize: "contain",
+        overviewRulerColor: COVERAGE_COLORS[state],
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+      });
+    this.decorationTypes = {
+      covered: createDecorationType("covered"),
+      partial: createDecorationType("partial"),
+      uncovered: createDecorationType("uncovered"),
+    };
+
+    this.disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors((editors) => {
+        for (const editor of editors) {
+          this.decorate(editor);
+        }
+      }),
+    );
+  }
+
+  dispose(): void {
+    for (const disposable of [...this.disposables, ...Object.values(this.decorationTypes)]) {
+      disposable.dispose();
+    }
+    this._onDidChangeCoverage.dispose();
+  }
+
+  /**
+   * Replace the current report and redraw visible editors
+   */
+  setReport(files: BazelCoverageFile[]): void {
+    this.files = new Map(files.map((file) => [file.path, file]));
+    this.redraw();
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.redraw();
+  }
+
+  hasCoverage(): boolean {
+    return this.files.size > 0;
+  }
+
+  /**
+   * Coverage of all reported files inside a directory, undefined when none of them was instrumented
+   */
+  getSummary(directory: string): BazelCoverageSummary | undefined {
+    const prefix = directory.endsWith(path.sep) ? directory : `${directory}${path.sep}`;
+    const files = [...this.files.values()].filter((file) => file.path.startsWith(prefix));
+    return files.length > 0 ? summarizeCoverage(files) : undefined;
+  }
+
+  private redraw(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      this.decorate(editor);
+    }
+    this._onDidChangeCoverage.fire();
+  }
+
+  private decorate(editor: vscode.TextEditor): void {
+    const file = this.files.get(editor.document.uri.fsPath);
+    const ranges: Record<LineCoverageState, vscode.DecorationOptions[]> = { covered: [], partial: [], uncovered: [] };
+
+    if (file) {
+      const hits = new Map(file.lines.map(({ line, hits }) => [line, hits]));
+      for (const [line, state] of getLineCoverage(file)) {
+        if (line < 1 || line > editor.document.lineCount) continue;
+
+        const branches = file.branches.filter((branch) => branch.line === line);
+        const taken = branches.filter((branch) => branch.taken > 0).length;
+        const hoverMessage = [
+          `Hits: ${hits.get(line) ?? 0}`,
+          ...(branches.length > 0 ? [`Branches taken: ${taken}/${branches.length}`] : []),
+        ].join("\n\n");
+
+        ranges[state].push({ range: new vscode.Range(line - 1, 0, line - 1, 0), hoverMessage });
+      }
+    }
+
+    for (const state of Object.keys(ranges) as LineCoverageState[]) {
+      editor.setDecorations(this.decorationTypes[state], ranges[state]);
+    }
+  }
+}
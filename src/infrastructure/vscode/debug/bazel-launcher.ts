@@ -12,6 +12,7 @@ import type { ExtensionContext } from "../../../infrastructure/vscode/extension-
 import { commonLogger } from "../../../shared/logger/logger.js";
 import { exec } from "../../../shared/utils/exec.js";
 import { getSimulatorByUdid, waitForSimulatorBoot } from "../../../shared/utils/simulator-utils.js";
+import { DEVICE_OPERATION_DURATION, SIMULATOR_OPERATION_DURATION, observeDuration } from "../../mcp/metrics.js";
 
 export interface BazelLaunchOptions {
   /** Path to the .app bundle */
@@ -60,15 +61,18 @@ export async function launchBazelAppOnSimulator(
 
   context.updateProgressStatus("Preparing simulator");
 
-  // 1. Ensure only the target simulator is booted (shuts down others)
-  const { ensureSingleSimulator } = await import("../../../shared/utils/simulator-utils.js");
-  await ensureSingleSimulator(context, simulatorId);
+  const simulator = await observeDuration(SIMULATOR_OPERATION_DURATION, { operation: "boot" }, async () => {
+    // 1. Ensure only the target simulator is booted (shuts down others)
+    const { ensureSingleSimulator } = await import("../../../shared/utils/simulator-utils.js");
+    await ensureSingleSimulator(context, simulatorId);
 
-  // 2. Get fresh simulator state after ensuring it's booted
-  const simulator = await getSimulatorByUdid(context, { udid: simulatorId });
+    // 2. Get fresh simulator state after ensuring it's booted
+    const booted = await getSimulatorByUdid(context, { udid: simulatorId });
 
-  // 3. Wait for simulator to be fully ready
-  await waitForSimulatorBoot(simulator.udid, 60000);
+    // 3. Wait for simulator to be fully ready
+    await waitForSimulatorBoot(booted.udid, 60000);
+    return booted;
+  });
 
   // 4. Terminate existing instances (before installing)
   context.updateProgressStatus("Terminating existing instances");
@@ -87,98 +91,100 @@ export async function launchBazelAppOnSimulator(
   }
 
   // 5. Install app on simulator (with timeout and retry)
-  context.updateProgressStatus("Installing app on simulator");
-  commonLogger.log(`Installing app on simulator: ${simulator.name}`);
+  await observeDuration(SIMULATOR_OPERATION_DURATION, { operation: "install" }, async () => {
+    context.updateProgressStatus("Installing app on simulator");
+    commonLogger.log(`Installing app on simulator: ${simulator.name}`);
 
-  const installTimeout = 200000; // 200 seconds timeout
-  let installAttempt = 0;
-  const maxAttempts = 2;
+    const installTimeout = 200000; // 200 seconds timeout
+    let installAttempt = 0;
+    const maxAttempts = 2;
 
-  while (installAttempt < maxAttempts) {
-    installAttempt++;
+    while (installAttempt < maxAttempts) {
+      installAttempt++;
 
-    try {
-      const installPromise = exec({
-        command: "xcrun",
-        args: ["simctl", "install", simulator.udid, appPath],
-        cancellable: true,
-        progressTitle: `Installing app on ${simulator.name}`,
-      });
+      try {
+        const installPromise = exec({
+          command: "xcrun",
+          args: ["simctl", "install", simulator.udid, appPath],
+          cancellable: true,
+          progressTitle: `Installing app on ${simulator.name}`,
+        });
 
-      const timeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error("Install timeout")), installTimeout),
-      );
+        const timeoutPromise = new Promise((_, reject) =>
+          setTimeout(() => reject(new Error("Install timeout")), installTimeout),
+        );
 
-      await Promise.race([installPromise, timeoutPromise]);
+        await Promise.race([installPromise, timeoutPromise]);
 
-      // Success!
-      commonLogger.log("✅ App installed successfully on simulator", {
-        simulator: simulator.name,
-        appPath,
-        bundleId,
-        attempt: installAttempt,
-      });
-      break;
-    } catch (error) {
-      if (error instanceof Error && error.message === "Install timeout" && installAttempt < maxAttempts) {
-        // Install timed out, try restarting simulator
-        commonLogger.warn(
-          `⚠️ Install timed out after ${installTimeout / 1000}s (attempt ${installAttempt}/${maxAttempts})`,
-          {
-            simulator: simulator.name,
-            udid: simulator.udid,
-            appPath,
-            timeout: installTimeout,
-          },
-        );
-        context.updateProgressStatus("Restarting simulator (install timeout)");
-
-        try {
-          // Shutdown simulator
-          await exec({
-            command: "xcrun",
-            args: ["simctl", "shutdown", simulator.udid],
-          }).catch(() => {
-            // Ignore errors - might already be shut down
-          });
-
-          // Wait longer for shutdown to complete
-          await new Promise((resolve) => setTimeout(resolve, 3000));
-
-          // Boot simulator again
-          await exec({
-            command: "xcrun",
-            args: ["simctl", "boot", simulator.udid],
-          });
-
-          // Wait for it to boot with longer timeout
-          await waitForSimulatorBoot(simulator.udid, 60000);
-
-          commonLogger.log("♻️ Simulator restarted successfully, retrying installation", {
-            simulator: simulator.name,
-            attempt: installAttempt + 1,
-          });
-          context.updateProgressStatus("Retrying app installation");
-
-          // Loop will retry install
-        } catch (restartError) {
-          const errorMsg = restartError instanceof Error ? restartError.message : String(restartError);
-          commonLogger.error("Failed to restart simulator after install timeout", {
-            restartError,
-            simulator: simulator.name,
-            udid: simulator.udid,
-            attempt: installAttempt,
-          });
-          throw new Error(
-            `App installation failed and simulator restart failed.\nSimulator: ${simulator.name} (${simulator.udid})\nAttempt: ${installAttempt}/${maxAttempts}\nError: ${errorMsg}\n\nTry:\n1. Restart Simulator.app manually\n2. Run: xcrun simctl shutdown all && xcrun simctl boot ${simulator.udid}\n3. Check available disk space\n4. Check Console.app for simulator errors`,
+        // Success!
+        commonLogger.log("✅ App installed successfully on simulator", {
+          simulator: simulator.name,
+          appPath,
+          bundleId,
+          attempt: installAttempt,
+        });
+        break;
+      } catch (error) {
+        if (error instanceof Error && error.message === "Install timeout" && installAttempt < maxAttempts) {
+          // Install timed out, try restarting simulator
+          commonLogger.warn(
+            `⚠️ Install timed out after ${installTimeout / 1000}s (attempt ${installAttempt}/${maxAttempts})`,
+            {
+              simulator: simulator.name,
+              udid: simulator.udid,
+              appPath,
+              timeout: installTimeout,
+            },
           );
+          context.updateProgressStatus("Restarting simulator (install timeout)");
+
+          try {
+            // Shutdown simulator
+            await exec({
+              command: "xcrun",
+              args: ["simctl", "shutdown", simulator.udid],
+            }).catch(() => {
+              // Ignore errors - might already be shut down
+            });
+
+            // Wait longer for shutdown to complete
+            await new Promise((resolve) => setTimeout(resolve, 3000));
+
+            // Boot simulator again
+            await exec({
+              command: "xcrun",
+              args: ["simctl", "boot", simulator.udid],
+            });
+
+            // Wait for it to boot with longer timeout
+            await waitForSimulatorBoot(simulator.udid, 60000);
+
+            commonLogger.log("♻️ Simulator restarted successfully, retrying installation", {
+              simulator: simulator.name,
+              attempt: installAttempt + 1,
+            });
+            context.updateProgressStatus("Retrying app installation");
+
+            // Loop will retry install
+          } catch (restartError) {
+            const errorMsg = restartError instanceof Error ? restartError.message : String(restartError);
+            commonLogger.error("Failed to restart simulator after install timeout", {
+              restartError,
+              simulator: simulator.name,
+              udid: simulator.udid,
+              attempt: installAttempt,
+            });
+            throw new Error(
+              `App installation failed and simulator restart failed.\nSimulator: ${simulator.name} (${simulator.udid})\nAttempt: ${installAttempt}/${maxAttempts}\nError: ${errorMsg}\n\nTry:\n1. Restart Simulator.app manually\n2. Run: xcrun simctl shutdown all && xcrun simctl boot ${simulator.udid}\n3. Check available disk space\n4. Check Console.app for simulator errors`,
+            );
+          }
+        } else {
+          // Other error or max attempts reached
+          throw error;
         }
-      } else {
-        // Other error or max attempts reached
-        throw error;
       }
     }
-  }
+  });
 
   // 6. Launch app with or without debugger flag
   context.updateProgressStatus("Launching app on simulator");
@@ -203,11 +209,13 @@ export async function launchBazelAppOnSimulator(
     envVars: Object.keys(launchEnv).length,
   });
 
-  const output = await exec({
-    command: "xcrun",
-    args: launchArgs,
-    env: launchEnv,
-  });
+  const output = await observeDuration(SIMULATOR_OPERATION_DURATION, { operation: "launch" }, () =>
+    exec({
+      command: "xcrun",
+      args: launchArgs,
+      env: launchEnv,
+    }),
+  );
 
   // Parse PID from output
   // Output format: "com.example.MyApp: 12345"
@@ -293,12 +301,14 @@ export async function launchBazelAppOnDevice(
   // 2. Install app on device
   context.updateProgressStatus("Installing app on device");
   commonLogger.log(`Installing app on device: ${destination.name}`);
-  await exec({
-    command: "xcrun",
-    args: ["devicectl", "device", "install", "app", "--device", deviceId, appPath],
-    cancellable: true,
-    progressTitle: `Installing app on ${destination.name}`,
-  });
+  await observeDuration(DEVICE_OPERATION_DURATION, { operation: "install" }, () =>
+    exec({
+      command: "xcrun",
+      args: ["devicectl", "device", "install", "app", "--device", deviceId, appPath],
+      cancellable: true,
+      progressTitle: `Installing app on ${destination.name}`,
+    }),
+  );
 
   // 3. Launch app with devicectl using JSON output
   context.updateProgressStatus("Launching app on device");
@@ -336,11 +346,13 @@ export async function launchBazelAppOnDevice(
     envVars: Object.keys(launchEnv).length,
   });
 
-  await exec({
-    command: "xcrun",
-    args: launchArgs,
-    env: launchEnv,
-  });
+  await observeDuration(DEVICE_OPERATION_DURATION, { operation: "launch" }, () =>
+    exec({
+      command: "xcrun",
+      args: launchArgs,
+      env: launchEnv,
+    }),
+  );
 
   // Parse JSON output to get PID
   type DeviceLaunchResult = {
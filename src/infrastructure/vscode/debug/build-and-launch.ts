@@ -8,14 +8,19 @@
 
 import * as path from "node:path";
 import * as vscode from "vscode";
+import type { BazelBuildSummary, BuildModeString } from "../../../domain/entities/bazel/types.js";
 import type { DeviceDestination } from "../../../domain/entities/destination/device-types.js";
 import type { SimulatorDestination } from "../../../domain/entities/destination/simulator-types.js";
 import type { ExtensionContext } from "../../../infrastructure/vscode/extension-context.js";
 import type { BazelTreeItem } from "../../../presentation/tree-providers/export.provider.js";
 import { commonLogger } from "../../../shared/logger/logger.js";
+import { getWorkspacePath } from "../../../shared/utils/bazel-utils.js";
 import { exec } from "../../../shared/utils/exec.js";
+import { isFileExists } from "../../../shared/utils/files.js";
 import { ProgressManager } from "../../../shared/utils/progress-manager.js";
 import type { TaskTerminal } from "../../../shared/utils/tasks.js";
+import { extractIpa, isAppBundleOutput, queryBuildOutputs, selectAppBundleOutput } from "../../bazel/bazel-outputs.js";
+import { BazelProgressReporter, getBuildHistoryKey } from "../../bazel/bazel-progress.js";
 import {
   type BazelLaunchResult,
   getBundleIdentifier,
@@ -33,6 +38,10 @@ export interface BuildAndLaunchOptions {
   destination: SimulatorDestination | DeviceDestination;
   /** Whether to attach debugger after launch */
   attachDebugger: boolean;
+  /** Build mode, defaults to debug when attaching the debugger and release otherwise */
+  buildMode?: BuildModeString;
+  /** Additional bazel build flags */
+  extraFlags?: string[];
   /** Debug port for LLDB connection (only used if attachDebugger is true) */
   debugPort?: number;
   /** Launch arguments */
@@ -78,9 +87,11 @@ async function buildStep(
     bazelItem: BazelTreeItem;
     destination: SimulatorDestination | DeviceDestination;
     attachDebugger: boolean;
+    buildMode: BuildModeString;
+    extraFlags?: string[];
   },
-): Promise<void> {
-  const { bazelItem, destination, attachDebugger } = options;
+): Promise<BazelBuildSummary> {
+  const { bazelItem, destination, attachDebugger, buildMode, extraFlags } = options;
 
   progress.nextStep("Building with debug symbols");
 
@@ -92,133 +103,108 @@ async function buildStep(
     terminal.write(`   Target: ${bazelItem.target.buildLabel}\n`);
   }
 
+  const reporter = new BazelProgressReporter({
+    context,
+    progress,
+    historyKey: getBuildHistoryKey({ command: "build", label: bazelItem.target.buildLabel, variant: buildMode }),
+  });
+
   // Use unified build logic
   const { buildBazelTarget } = await import("../../bazel/bazel-build.js");
-  await buildBazelTarget({
+  const summary = await buildBazelTarget({
     bazelItem,
     destination,
-    buildMode: attachDebugger ? "debug" : "release",
+    buildMode,
+    extraFlags,
     terminal,
     context,
+    onBuildEvent: (event) => {
+      if (progress.isCancelled()) return;
+
+      if (event.type === "progress") {
+        reporter.handleOutput(event.stderr);
+      } else if (event.type === "targetCompleted") {
+        progress.updateStep(`${event.label} ${event.success ? "built" : "failed"}`);
+      }
+    },
   });
+
+  reporter.finish(summary);
+  return summary;
 }
 
 /**
  * Locate the built app bundle
+ * Uses the outputs reported in the build event stream, falling back to asking Bazel
+ * (cquery with the same flags as the build), and extracts .ipa archives
  */
 async function locateAppBundle(
+  context: ExtensionContext,
   terminal: TaskTerminal,
   progress: ProgressManager,
   options: {
     bazelItem: BazelTreeItem;
     destination: SimulatorDestination | DeviceDestination;
     attachDebugger: boolean;
+    buildMode: BuildModeString;
+    extraFlags?: string[];
+    buildSummary?: BazelBuildSummary;
   },
 ): Promise<string> {
-  const { bazelItem, destination, attachDebugger } = options;
-
-  // Convert build label to path: "//Apps/Foo:Bar" → "Apps/Foo/Bar"
-  const packagePath = bazelItem.target.buildLabel.replace("//", "").replace(":", "/");
+  const { bazelItem, destination, attachDebugger, buildMode, extraFlags, buildSummary } = options;
 
   progress.nextStep("Locating app bundle");
 
   if (attachDebugger) {
     terminal.write("\n📦 Step 2/6: Locating app bundle...\n");
-    terminal.write(`   Package: ${packagePath}\n`);
   } else {
     terminal.write("\n📦 Step 2/4: Locating app bundle...\n");
-    terminal.write(`   Package: ${packagePath}\n`);
   }
-
-  // Find Bazel workspace root
-  let workspaceRoot = bazelItem.package.path;
-  let attempts = 0;
-  const maxAttempts = 10;
-
-  while (attempts < maxAttempts) {
-    try {
-      const hasWorkspace = await exec({
-        command: "test",
-        args: ["-f", path.join(workspaceRoot, "WORKSPACE")],
-      })
-        .then(() => true)
-        .catch(() => false);
-
-      const hasModule = await exec({
-        command: "test",
-        args: ["-f", path.join(workspaceRoot, "MODULE.bazel")],
-      })
-        .then(() => true)
-        .catch(() => false);
-
-      if (hasWorkspace || hasModule) {
-        break;
-      }
-    } catch {}
-
-    const parent = path.dirname(workspaceRoot);
-    if (parent === workspaceRoot) break;
-    workspaceRoot = parent;
-    attempts++;
+  const reportedOutputs =
+    buildSummary?.targets.find((target) => target.label === bazelItem.target.buildLabel)?.outputFiles ?? [];
+
+  let outputs = reportedOutputs;
+  if (!reportedOutputs.some(isAppBundleOutput)) {
+    terminal.write(`   Querying outputs of ${bazelItem.target.buildLabel}\n`);
+    outputs = await queryBuildOutputs({
+      bazelItem,
+      destination,
+      buildMode,
+      extraFlags,
+      context,
+    });
   }
+  const candidates = outputs.filter(isAppBundleOutput);
 
-  terminal.write(`   Workspace: ${path.basename(workspaceRoot)}\n`);
-
-  // Look for app bundle or IPA
-  const basePaths = [
-    path.join(workspaceRoot, `bazel-bin/${packagePath}`),
-    path.resolve(bazelItem.package.path, `bazel-bin/${packagePath}`),
-  ];
-
-  let appPath: string | undefined;
-
-  if (destination.type === "iOSDevice") {
-    // Try IPA first for device builds
-    for (const basePath of basePaths) {
-      const ipaPath = `${basePath}.ipa`;
-      try {
-        await exec({ command: "test", args: ["-e", ipaPath] });
-        appPath = ipaPath;
-        terminal.write(`   Found IPA: ${appPath}\n`);
-        break;
-      } catch {
-        // Try .app
-        const appBundlePath = `${basePath}.app`;
-        try {
-          await exec({ command: "test", args: ["-e", appBundlePath] });
-          appPath = appBundlePath;
-          terminal.write(`   Found APP: ${appPath}\n`);
-          break;
-        } catch {}
-      }
-    }
-  } else {
-    // For simulator, look for .app
-    for (const tryPath of basePaths.map((p) => `${p}.app`)) {
-      try {
-        await terminal.execute({
-          command: "test",
-          args: ["-d", tryPath],
-        });
-        appPath = tryPath;
-        terminal.write(`   Found app bundle: ${appPath}\n`);
-        break;
-      } catch {}
+  if (candidates.length > 1) {
+    terminal.write(`   Found ${candidates.length} candidate outputs:\n`);
+    for (const candidate of candidates) {
+      terminal.write(`      - ${candidate}\n`);
     }
   }
 
-  if (!appPath) {
-    terminal.write("   ❌ App bundle not found. Tried:\n");
-    for (const basePath of basePaths) {
-      terminal.write(`      - ${basePath}.ipa\n`);
-      terminal.write(`      - ${basePath}.app\n`);
+  const outputPath = selectAppBundleOutput(candidates);
+
+  if (!outputPath || !(await isFileExists(outputPath))) {
+    terminal.write("   ❌ App bundle not found. Outputs reported by Bazel:\n");
+    for (const output of outputs) {
+      terminal.write(`      - ${output}\n`);
     }
     throw new Error(
-      `App bundle not found after build.\nExpected: bazel-bin/${packagePath}.{ipa,app}\nBuild label: ${bazelItem.target.buildLabel}\n\nBuild may have succeeded but output location is unexpected. Try:\n1. Check build output for the actual location\n2. Look in workspace root for bazel-bin directory\n3. Run: bazel info bazel-bin\n4. Verify target type produces an application bundle`,
+      `App bundle not found after build.\nBuild label: ${bazelItem.target.buildLabel}\nOutputs: ${outputs.length > 0 ? outputs.join(", ") : "none"}\n\nBuild may have succeeded but the target does not produce an .app or .ipa. Try:\n1. Check build output for the actual location\n2. Run: bazel cquery ${bazelItem.target.buildLabel} --output=files\n3. Verify target type produces an application bundle`,
     );
   }
 
-  return appPath;
+  if (outputPath.endsWith(".ipa")) {
+    terminal.write(`   Found IPA: ${outputPath}\n`);
+    terminal.write("   Extracting IPA...\n");
+    const appPath = await extractIpa(context, outputPath);
+    terminal.write(`   Extracted app bundle: ${appPath}\n`);
+    return appPath;
+  }
+
+  terminal.write(`   Found app bundle: ${outputPath}\n`);
+  return outputPath;
 }
 
 /**
@@ -440,7 +426,10 @@ async function attachDebuggerToApp(
   terminal.write("\n🐛 Step 6/6: Attaching VSCode debugger...\n");
 
   try {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    // Source paths in the debug info are relative to the Bazel workspace the app was built in
+    const workspaceRoot = getWorkspacePath();
+    const workspaceFolder =
+      vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workspaceRoot)) ?? vscode.workspace.workspaceFolders?.[0];
     const isDevice = destination.type === "iOSDevice";
     terminal.write(`   Workspace: ${workspaceFolder?.name || "undefined"}\n`);
     terminal.write(`   Debug type: ${isDevice ? "lldb-dap (device)" : "lldb-dap (simulator)"}\n`);
@@ -450,7 +439,7 @@ async function attachDebuggerToApp(
       type: "bazelbsp-bazel-lldb",
       request: "attach",
       name: isDevice ? "Bazel BSP: Bazel Debug (Device)" : "Bazel BSP: Bazel Debug",
-      debuggerRoot: workspaceFolder?.uri.fsPath || "${workspaceFolder}",
+      debuggerRoot: workspaceRoot,
       debugPort: debugPort,
       program: launchResult.appPath,
       internalConsoleOptions: "openOnSessionStart",
@@ -506,6 +495,8 @@ export async function buildAndLaunchBazelApp(
     destination,
     attachDebugger,
     debugPort = DEFAULT_DEBUG_PORT,
+    buildMode = attachDebugger ? "debug" : "release",
+    extraFlags,
     launchArgs = [],
     launchEnv = {},
   } = options;
@@ -532,10 +523,23 @@ export async function buildAndLaunchBazelApp(
   }
 
   // Step 1: Build
-  await buildStep(context, terminal, progress, { bazelItem, destination, attachDebugger });
+  const buildSummary = await buildStep(context, terminal, progress, {
+    bazelItem,
+    destination,
+    attachDebugger,
+    buildMode,
+    extraFlags,
+  });
 
   // Step 2: Locate app bundle
-  const appPath = await locateAppBundle(terminal, progress, { bazelItem, destination, attachDebugger });
+  const appPath = await locateAppBundle(context, terminal, progress, {
+    bazelItem,
+    destination,
+    attachDebugger,
+    buildMode,
+    extraFlags,
+    buildSummary,
+  });
 
   // Get bundle ID
   const bundleId = await getBundleIdentifier(appPath);
@@ -3,14 +3,26 @@ import * as crypto from "node:crypto";
 import * as events from "node:events";
 import * as path from "node:path";
 import * as vscode from "vscode";
+import type { BuildAnalyticsManager } from "../../application/services/build-analytics-manager.service";
 import type { BuildManager } from "../../application/services/build-manager.service";
 import type { DestinationsManager } from "../../application/services/destination-manager.service";
+import type { TestHistoryManager } from "../../application/services/test-history-manager.service";
 import type { ToolsManager } from "../../application/services/tools-manager.service";
+import type {
+  BazelBuildRecord,
+  BazelBuildSummary,
+  BazelTestCaseHistory,
+  BspIndexSet,
+} from "../../domain/entities/bazel/types.js";
 import type { DestinationType, SelectedDestination } from "../../domain/entities/destination/types.js";
 import type { ProgressStatusBar } from "../../presentation/status-bars/progress-status-bar";
 import { type ErrorMessageAction, ExtensionError, TaskError } from "../../shared/errors/errors.js";
 import { commonLogger } from "../../shared/logger/logger.js";
+import { getActiveBazelWorkspace } from "../../shared/utils/bazel-workspaces.js";
 import { QuickPickCancelledError } from "../../shared/utils/quick-pick.js";
+import { BuildDiagnostics } from "./build-diagnostics.js";
+import { CommandInvocation, type CommandInvocationResult } from "./command-invocation.js";
+import { CoverageDecorations } from "./coverage-decorations.js";
 
 export type LastLaunchedAppDeviceContext = {
   type: "device";
@@ -70,11 +82,20 @@ type WorkspaceTypes = {
   "build.xcodeBuildServerAutogenreateInfoShown": boolean;
   "build.selectedBazelTarget": any; // Bazel target selection
   "bazel.buildMode": "debug" | "release" | "release-with-symbols"; // Bazel build mode selection
+  "bazel.buildProfile": string; // Explicitly selected build profile (unset = automatic)
+  "bazel.buildDurations": Record<string, number[]>; // "<command> <label>" -> recent successful durations (ms)
+  "bazel.buildAnalytics": BazelBuildRecord[]; // Recent build, test, run and debug invocations, oldest first
+  "bazel.lastTraceProfile": string; // Path of the last JSON trace profile written by a build
+  "bsp.setupRules": Record<string, string>; // Selected target label -> chosen setup rule ("" = generated config)
+  "bsp.indexSets": BspIndexSet[];
+  "bsp.activeIndexSet": string; // Name of the index set the generated config indexes (unset = selected target)
   "testing.xcodeTarget": string;
+  "testing.history": Record<string, BazelTestCaseHistory>; // Test case key -> recent outcomes
   "testing.xcodeConfiguration": string;
   "testing.xcodeDestination": SelectedDestination;
   "testing.xcodeScheme": string;
   "bazel.selectedTarget": string;
+  "bazel.activeWorkspace": string; // Bazel workspace commands run in, multi-root windows only
   "bazelQuery.recentTargets": Array<{
     name: string;
     type: "runnable" | "test" | "buildable";
@@ -84,6 +105,20 @@ type WorkspaceTypes = {
 };
 
 type WorkspaceStateKey = keyof WorkspaceTypes;
+
+// Selections kept separately for every Bazel workspace of a multi-root window
+const BAZEL_WORKSPACE_STATE_KEYS: ReadonlySet<WorkspaceStateKey> = new Set([
+  "build.selectedBazelTarget",
+  "build.xcodeDestination",
+  "bazel.buildMode",
+  "bazel.buildAnalytics",
+  "bazel.buildDurations",
+  "bazelQuery.recentTargets",
+  "bsp.setupRules",
+  "bsp.indexSets",
+  "bsp.activeIndexSet",
+  "testing.history",
+] as const);
 type SessionStateKey = "NONE_KEY";
 
 /**
@@ -92,16 +127,30 @@ type SessionStateKey = "NONE_KEY";
 type IEventMap = {
   executionScopeClosed: [scope: ExecutionScope];
   workspaceConfigChanged: [];
+  buildSummaryUpdated: [summary: BazelBuildSummary];
+  buildInvocationFinished: [result: CommandInvocationResult];
 };
 type IEventKey = keyof IEventMap;
 
+type CommandCallback = (context: ExtensionContext, ...args: any[]) => Promise<unknown>;
+
+// Long enough for a clean build of a large app
+const COMMAND_INVOCATION_TIMEOUT_MS = 600_000;
+
 export class ExtensionContext {
   private _context: vscode.ExtensionContext;
   public destinationsManager: DestinationsManager;
   public toolsManager: ToolsManager;
   public buildManager: BuildManager;
+  public testHistoryManager: TestHistoryManager;
+  public buildAnalyticsManager: BuildAnalyticsManager;
   public progressStatusBar: ProgressStatusBar;
+  public buildDiagnostics: BuildDiagnostics;
+  public coverage: CoverageDecorations;
   private _sessionState: Map<SessionStateKey, unknown> = new Map();
+  private commandCallbacks = new Map<string, CommandCallback>();
+  private _lastBuildSummary: BazelBuildSummary | undefined;
+  private _lastBuildInvocation: CommandInvocationResult | undefined;
 
   // Create for each command and task execution separate execution scope with unique ID
   // to be able to track what is currently running
@@ -113,13 +162,21 @@ export class ExtensionContext {
     destinationsManager: DestinationsManager;
     buildManager: BuildManager;
     toolsManager: ToolsManager;
+    testHistoryManager: TestHistoryManager;
+    buildAnalyticsManager: BuildAnalyticsManager;
     progressStatusBar: ProgressStatusBar;
   }) {
     this._context = options.context;
     this.destinationsManager = options.destinationsManager;
     this.buildManager = options.buildManager;
     this.toolsManager = options.toolsManager;
+    this.testHistoryManager = options.testHistoryManager;
+    this.buildAnalyticsManager = options.buildAnalyticsManager;
     this.progressStatusBar = options.progressStatusBar;
+    this.buildDiagnostics = new BuildDiagnostics();
+    this.disposable(this.buildDiagnostics);
+    this.coverage = new CoverageDecorations();
+    this.disposable(this.coverage);
 
     vscode.workspace.onDidChangeConfiguration((event) => {
       const affected = event.affectsConfiguration("bazelbsp");
@@ -154,6 +211,10 @@ export class ExtensionContext {
     return this._context.extensionPath;
   }
 
+  get secrets() {
+    return this._context.secrets;
+  }
+
   disposable(disposable: vscode.Disposable) {
     this._context.subscriptions.push(disposable);
   }
@@ -190,61 +251,151 @@ export class ExtensionContext {
     this.emitter.on(event, listener as any); // todo: fix this any
   }
 
-  registerCommand(commandName: string, callback: (context: ExtensionContext, ...args: any[]) => Promise<unknown>) {
+  off<K extends IEventKey>(event: K, listener: (...args: IEventMap[K]) => void): void {
+    this.emitter.off(event, listener as any);
+  }
+
+  registerCommand(commandName: string, callback: CommandCallback) {
+    this.commandCallbacks.set(commandName, callback);
     return vscode.commands.registerCommand(commandName, async (...args: any[]) => {
-      const commandContext = new CommandExecutionScope({ commandName: commandName });
-
-      return await this.startExecutionScope(commandContext, async () => {
-        try {
-          return await callback(this, ...args);
-        } catch (error) {
-          // User can cancel the quick pick dialog by pressing Escape or clicking outside of it.
-          // In this case, we just stop the execution of the command and throw a QuickPickCancelledError.
-          // Since it is more user action, then an error, we skip the error reporting.
-          if (error instanceof QuickPickCancelledError) {
-            // Fire completion event for MCP
-            this.simpleTaskCompletionEmitter.fire();
-            return;
-          }
+      return await this.runCommand(commandName, callback, args);
+    });
+  }
+
+  /**
+   * Run a registered command and collect what it produced (output, diagnostics, artifacts, tests)
+   * Used by MCP tools, so results don't depend on the shared UI log or on other commands running at the same time
+   */
+  async invokeCommand(
+    commandName: string,
+    args: any[] = [],
+    options?: { timeoutMillis?: number },
+  ): Promise<CommandInvocationResult> {
+    const callback = this.commandCallbacks.get(commandName);
+    if (!callback) {
+      throw new ExtensionError(`Command ${commandName} is not registered`);
+    }
+
+    const invocation = new CommandInvocation(commandName);
+    void this.runCommand(commandName, callback, args, invocation);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<CommandInvocationResult>((resolve) => {
+      timer = setTimeout(() => {
+        invocation.recordError("Timed out waiting for the command to finish");
+        resolve(invocation.finish("timeout"));
+      }, options?.timeoutMillis ?? COMMAND_INVOCATION_TIMEOUT_MS);
+    });
+
+    try {
+      return await Promise.race([invocation.completed, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Invocation of the command that is currently running
+   */
+  getCommandInvocation(): CommandInvocation | undefined {
+    const scope = this.getExecutionScope();
+    return scope?.type === "command" ? scope.invocation : undefined;
+  }
+
+  private async runCommand(
+    commandName: string,
+    callback: CommandCallback,
+    args: any[],
+    invocation = new CommandInvocation(commandName),
+  ): Promise<unknown> {
+    const commandContext = new CommandExecutionScope({ commandName: commandName, invocation: invocation });
+    void invocation.completed.then((result) => this.recordBuildInvocation(result));
+
+    return await this.startExecutionScope(commandContext, async () => {
+      try {
+        const result = await callback(this, ...args);
+        invocation.finish("succeeded");
+        return result;
+      } catch (error) {
+        // User can cancel the quick pick dialog by pressing Escape or clicking outside of it.
+        // In this case, we just stop the execution of the command and throw a QuickPickCancelledError.
+        // Since it is more user action, then an error, we skip the error reporting.
+        if (error instanceof QuickPickCancelledError) {
+          invocation.finish("cancelled");
+          // Fire completion event for MCP
+          this.simpleTaskCompletionEmitter.fire();
+          return;
+        }
 
-          if (error instanceof ExtensionError) {
-            // Handle default error
-            commonLogger.error(error.message, {
-              command: commandName,
-              errorContext: error.options?.context,
-              error: error,
-            });
-            if (error instanceof TaskError) {
-              // Fire completion event for MCP
-              this.simpleTaskCompletionEmitter.fire();
-              return; // do nothing
-            }
-
-            await this.showCommandErrorMessage(`bazelbsp: ${error.message}`, {
-              actions: error.options?.actions,
-            });
+        if (error instanceof ExtensionError) {
+          invocation.recordError(error.message);
+          invocation.finish("failed");
 
+          // Handle default error
+          commonLogger.error(error.message, {
+            command: commandName,
+            errorContext: error.options?.context,
+            error: error,
+          });
+          if (error instanceof TaskError) {
             // Fire completion event for MCP
             this.simpleTaskCompletionEmitter.fire();
-            return;
+            return; // do nothing
           }
 
-          // Handle unexpected error
-          const errorMessage: string =
-            error instanceof Error ? error.message : (error?.toString() ?? "[unknown error]");
-          commonLogger.error(errorMessage, {
-            command: commandName,
-            error: error,
+          await this.showCommandErrorMessage(`bazelbsp: ${error.message}`, {
+            actions: error.options?.actions,
           });
-          await this.showCommandErrorMessage(`bazelbsp: ${errorMessage}`);
 
-          // Fire completion event for MCP (in case ErrorManager already fired it, this is idempotent)
+          // Fire completion event for MCP
           this.simpleTaskCompletionEmitter.fire();
+          return;
         }
-      });
+
+        // Handle unexpected error
+        const errorMessage: string = error instanceof Error ? error.message : (error?.toString() ?? "[unknown error]");
+        invocation.recordError(errorMessage);
+        invocation.finish("failed");
+
+        commonLogger.error(errorMessage, {
+          command: commandName,
+          error: error,
+        });
+        await this.showCommandErrorMessage(`bazelbsp: ${errorMessage}`);
+
+        // Fire completion event for MCP (in case ErrorManager already fired it, this is idempotent)
+        this.simpleTaskCompletionEmitter.fire();
+      }
     });
   }
 
+  /**
+   * Commands that ran bazel or a task have output, the rest (selecting a target, ...) are not builds
+   */
+  private recordBuildInvocation(result: CommandInvocationResult): void {
+    if (!result.log && !result.bazelExitCode) {
+      return;
+    }
+    this._lastBuildInvocation = result;
+    this.emitter.emit("buildInvocationFinished", result);
+  }
+
+  get lastBuildInvocation(): CommandInvocationResult | undefined {
+    return this._lastBuildInvocation;
+  }
+
+  /**
+   * Summary of the Build Event Protocol stream of the last bazel command, from the UI or MCP
+   */
+  setLastBuildSummary(summary: BazelBuildSummary): void {
+    this._lastBuildSummary = summary;
+    this.emitter.emit("buildSummaryUpdated", summary);
+  }
+
+  get lastBuildSummary(): BazelBuildSummary | undefined {
+    return this._lastBuildSummary;
+  }
+
   /**
    * Show error message with proper actions
    */
@@ -294,12 +445,31 @@ export class ExtensionContext {
     return this._sessionState.get(key) as T | undefined;
   }
 
-  updateWorkspaceState<T extends WorkspaceStateKey>(key: T, value: WorkspaceTypes[T] | undefined) {
-    this._context.workspaceState.update(`bazelbsp.${key}`, value);
+  /**
+   * Selections of the first workspace folder keep their original keys, other Bazel workspaces get a suffix
+   */
+  private getWorkspaceStateKey(key: WorkspaceStateKey, bazelWorkspace?: string): string {
+    const root = bazelWorkspace ?? getActiveBazelWorkspace();
+    if (!BAZEL_WORKSPACE_STATE_KEYS.has(key) || !root || root === vscode.workspace.workspaceFolders?.[0]?.uri.fsPath) {
+      return `bazelbsp.${key}`;
+    }
+    return `bazelbsp.${key}@${root}`;
+  }
+
+  /**
+   * Per-workspace selections (target, destination, build mode) are read and written for the active Bazel
+   * workspace, unless another one is given
+   */
+  updateWorkspaceState<T extends WorkspaceStateKey>(
+    key: T,
+    value: WorkspaceTypes[T] | undefined,
+    bazelWorkspace?: string,
+  ) {
+    this._context.workspaceState.update(this.getWorkspaceStateKey(key, bazelWorkspace), value);
   }
 
-  getWorkspaceState<T extends WorkspaceStateKey>(key: T): WorkspaceTypes[T] | undefined {
-    return this._context.workspaceState.get(`bazelbsp.${key}`);
+  getWorkspaceState<T extends WorkspaceStateKey>(key: T, bazelWorkspace?: string): WorkspaceTypes[T] | undefined {
+    return this._context.workspaceState.get(this.getWorkspaceStateKey(key, bazelWorkspace));
   }
 
   /**
@@ -318,8 +488,8 @@ export class ExtensionContext {
     void this.destinationsManager.refresh();
   }
 
-  updateProgressStatus(message: string, cancellable = false) {
-    this.progressStatusBar.updateText(message, cancellable);
+  updateProgressStatus(message: string, cancellable = false, details?: string) {
+    this.progressStatusBar.updateText(message, cancellable, details);
   }
 }
 
@@ -327,11 +497,13 @@ export class CommandExecutionScope {
   id: string;
   type = "command" as const;
   commandName: string;
+  invocation?: CommandInvocation; // Output and results of the run, MCP tools wait for it
 
-  constructor(options: { commandName: string }) {
+  constructor(options: { commandName: string; invocation?: CommandInvocation }) {
     this.id = crypto.randomUUID();
     this.type = "command";
     this.commandName = options.commandName;
+    this.invocation = options.invocation;
   }
 }
 
@@ -0,0 +1,443 @@
+import * as path from "node:path";
+import { quote } from "shell-quote";
+import * as vscode from "vscode";
+import type { BazelBuildEvent, BazelQueryResult, BazelTestCaseResult } from "../../domain/entities/bazel/types.js";
+import type { DeviceDestination } from "../../domain/entities/destination/device-types.js";
+import type { SimulatorDestination } from "../../domain/entities/destination/simulator-types.js";
+import type { BazelTreeProvider } from "../../presentation/tree-providers/bazel-tree.provider.js";
+import { commonLogger } from "../../shared/logger/logger.js";
+import { askDestinationToRunOn, getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import { getWorkspaceConfig } from "../../shared/utils/config.js";
+import { exec } from "../../shared/utils/exec.js";
+import { readTextFile } from "../../shared/utils/files.js";
+import { type TaskTerminal, runTask } from "../../shared/utils/tasks.js";
+import { BazelParser } from "../bazel/bazel-parser.js";
+import { formatCoveragePercent, parseLcov, summarizeCoverage } from "../bazel/lcov-parser.js";
+import {
+  buildTestFilter,
+  getLatestTestCases,
+  getShortClassName,
+  readTestResultCases,
+} from "../bazel/test-xml-parser.js";
+import type { ExtensionContext } from "./extension-context.js";
+
+type TestResultEvent = Extract<BazelBuildEvent, { type: "testResult" }>;
+
+interface TestItemData {
+  label: string; // Bazel test target the item belongs to
+  className?: string; // Set for suite and test case items
+  name?: string; // Set for test case items
+}
+
+interface QueuedTarget {
+  item: vscode.TestItem;
+  // Undefined when the whole target runs, otherwise the suites/cases for --test_filter
+  filters?: TestItemData[];
+}
+
+interface RunOptions {
+  debug: boolean;
+  // Set for coverage runs, flags that make `bazel coverage` match `buildBazelTarget`
+  coverageFlags?: string[];
+}
+
+const DEFAULT_DEBUG_PROCESS_NAME = "xctest";
+
+/**
+ * Test Explorer integration
+ *
+ * Registers every test target from the Bazel tree with VS Code's Testing API. Test cases
+ * appear as children once a target has run and its test.xml has been parsed, so later
+ * runs of a single suite or case pass `--test_filter` instead of running the whole target.
+ */
+export class BazelTestController implements vscode.Disposable {
+  private context: ExtensionContext;
+  private controller: vscode.TestController;
+  private itemData = new WeakMap<vscode.TestItem, TestItemData>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(options: { context: ExtensionContext; treeProvider: BazelTreeProvider }) {
+    this.context = options.context;
+    this.controller = vscode.tests.createTestController("bazelbsp", "Bazel Tests");
+
+    this.controller.refreshHandler = async () => {
+      options.treeProvider.refresh();
+    };
+
+    this.controller.createRunProfile(
+      "Run",
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runTests(request, token, { debug: false }),
+      true,
+    );
+    this.controller.createRunProfile(
+      "Debug",
+      vscode.TestRunProfileKind.Debug,
+      (request, token) => this.runTests(request, token, { debug: true }),
+      true,
+    );
+    this.controller.createRunProfile(
+      "Run with Coverage",
+      vscode.TestRunProfileKind.Coverage,
+      (request, token) => this.runTests(request, token, { debug: false, coverage: true }),
+      true,
+    );
+
+    this.disposables.push(options.treeProvider.onDidLoadTargets((result) => this.syncTargets(result)));
+
+    const queryResult = options.treeProvider.getQueryResult();
+    if (queryResult) {
+      this.syncTargets(queryResult);
+    }
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.controller.dispose();
+  }
+
+  /**
+   * Add new test targets and drop the ones that no longer exist
+   * Existing items keep the test cases discovered by previous runs
+   */
+  private syncTargets(result: BazelQueryResult): void {
+    const labels = BazelParser.getAllTargets(result.tree, "test");
+    const existing = new Map(this.controller.items);
+
+    const items = labels.map((label) => {
+      const item = existing.get(label) ?? this.controller.createTestItem(label, label);
+      this.itemData.set(item, { label });
+      return item;
+    });
+    this.controller.items.replace(items);
+
+    commonLogger.log("Synced test targets with Test Explorer", { count: items.length });
+  }
+
+  private async runTests(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    options: { debug: boolean; coverage?: boolean },
+  ): Promise<void> {
+    const run = this.controller.createTestRun(request);
+    const queue = this.collectQueue(request);
+    const coverageReports: string[] = [];
+
+    try {
+      let coverageFlags: string[] | undefined;
+      if (options.coverage) {
+        try {
+          coverageFlags = await this.getCoverageFlags();
+        } catch (error) {
+          const message = new vscode.TestMessage(error instanceof Error ? error.message : "No destination selected");
+          for (const target of queue.values()) {
+            run.errored(target.item, message);
+          }
+          return;
+        }
+      }
+
+      for (const target of queue.values()) {
+        if (token.isCancellationRequested) {
+          run.skipped(target.item);
+          continue;
+        }
+        const reported = await this.runTarget(run, target, token, { debug: options.debug, coverageFlags });
+        if (coverageFlags && reported) {
+          // Every `bazel coverage` invocation overwrites the combined report, a target that failed
+          // before the tests ran left the report of the previous one behind
+          const report = await this.readCoverageReport(target.item.id);
+          if (report) coverageReports.push(report);
+        }
+      }
+
+      if (coverageReports.length > 0) {
+        const files = parseLcov(coverageReports.join("\n"), getWorkspacePath());
+        this.context.coverage.setReport(files);
+
+        const summary = summarizeCoverage(files);
+        const lines = formatCoveragePercent(summary.linesHit, summary.linesFound) ?? "n/a";
+        const branches = formatCoveragePercent(summary.branchesHit, summary.branchesFound) ?? "n/a";
+        run.appendOutput(`\r\nCoverage: ${lines} of lines, ${branches} of branches in ${files.length} file(s)\r\n`);
+      }
+    } finally {
+      run.end();
+    }
+  }
+
+  /**
+   * Coverage runs build for the same platform as `buildBazelTarget` and produce one combined LCOV report
+   */
+  private async getCoverageFlags(): Promise<string[]> {
+    const destination = await askDestinationToRunOn(this.context);
+    const { getPlatformFlags } = await import("../bazel/bazel-build.js");
+    return [...getPlatformFlags(destination as SimulatorDestination | DeviceDestination), "--combined_report=lcov"];
+  }
+
+  private async readCoverageReport(label: string): Promise<string | undefined> {
+    try {
+      const outputPath = await exec({ command: "bazel", args: ["info", "output_path"] });
+      return await readTextFile(path.join(outputPath.trim(), "_coverage", "_coverage_report.dat"));
+    } catch (error) {
+      commonLogger.warn("Failed to read coverage report", { label, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Group requested items by Bazel target, a whole target wins over individual cases
+   */
+  private collectQueue(request: vscode.TestRunRequest): Map<string, QueuedTarget> {
+    const queue = new Map<string, QueuedTarget>();
+    const excluded = new Set(request.exclude?.map((item) => item.id));
+
+    const items = request.include ?? [...this.controller.items].map(([, item]) => item);
+
+    for (const item of items) {
+      const data = this.itemData.get(item);
+      if (!data || excluded.has(item.id)) continue;
+
+      const targetItem = this.controller.items.get(data.label);
+      if (!targetItem) continue;
+
+      const queued = queue.get(data.label) ?? { item: targetItem, filters: [] };
+      if (!data.className && !data.name) {
+        queued.filters = undefined;
+      } else {
+        queued.filters?.push(data);
+      }
+      queue.set(data.label, queued);
+    }
+
+    return queue;
+  }
+
+  /**
+   * Run the tests of one target, false when Bazel reported no test results
+   */
+  private async runTarget(
+    run: vscode.TestRun,
+    target: QueuedTarget,
+    token: vscode.CancellationToken,
+    options: RunOptions,
+  ): Promise<boolean> {
+    const label = target.item.id;
+    const workspaceRoot = getWorkspacePath();
+    const testFilter = target.filters?.length ? buildTestFilter(target.filters) : undefined;
+    const taskName = `Bazel Test: ${label}`;
+
+    run.started(target.item);
+
+    const args = [options.coverageFlags ? "coverage" : "test", label, "--test_output=errors"];
+    if (testFilter) {
+      args.push(`--test_filter=${testFilter}`);
+    }
+    if (options.coverageFlags) {
+      args.push(...options.coverageFlags);
+    }
+    if (options.debug) {
+      const { getBuildModeFlags } = await import("../bazel/bazel-build.js");
+      // Results must not come from cache and a test paused in the debugger must not time out
+      args.push(...getBuildModeFlags("debug"), "--cache_test_results=no", "--test_timeout=86400");
+    }
+
+    const testResults: TestResultEvent[] = [];
+    const cancellation = token.onCancellationRequested(() => {
+      for (const execution of vscode.tasks.taskExecutions.filter((task) => task.task.name === taskName)) {
+        execution.terminate();
+      }
+    });
+    // Not awaited, LLDB only finishes attaching once `bazel test` launches the test runner
+    const debugSession = options.debug ? this.startDebugSession(label) : undefined;
+
+    const runTests = async (terminal: TaskTerminal) => {
+      const { executeWithBuildEvents } = await import("../bazel/bazel-build.js");
+      await executeWithBuildEvents({
+        context: this.context,
+        terminal,
+        metricLabels: { label },
+        onBuildEvent: (event) => {
+          if (event.type === "testResult") testResults.push(event);
+        },
+        execute: async (bepFlags) => {
+          await terminal.execute({
+            command: "sh",
+            args: ["-c", `cd "${workspaceRoot}" && ${quote(["bazel", ...args, ...bepFlags])}`],
+            onOutputLine: async ({ value }) => {
+              run.appendOutput(`${value}\r\n`, undefined, target.item);
+            },
+          });
+        },
+      });
+    };
+
+    let failure: unknown;
+    try {
+      await runTask(this.context, {
+        name: taskName,
+        lock: "bazelbsp.bazel.test",
+        terminateLocked: true,
+        // Debug and coverage runs take longer than plain test runs, they would skew the build analytics
+        callback:
+          options.debug || options.coverageFlags
+            ? runTests
+            : this.context.buildAnalyticsManager.recorded({ command: "test", label }, runTests),
+      });
+    } catch (error) {
+      // Failing tests make bazel exit with a non-zero code, results are still reported below
+      failure = error;
+    } finally {
+      cancellation.dispose();
+      await debugSession?.stop();
+    }
+
+    if (testResults.length === 0) {
+      const message = failure instanceof Error ? failure.message : "Bazel did not report any test results";
+      run.errored(target.item, new vscode.TestMessage(token.isCancellationRequested ? "Cancelled" : message));
+      return false;
+    }
+
+    await this.reportResults(run, target, testResults, workspaceRoot);
+    return true;
+  }
+
+  /**
+   * Wait for the test runner process with LLDB, Bazel launches it once the tests are built
+   * The attach runs alongside the task, `stop` ends the session once the tests finished
+   */
+  private startDebugSession(label: string): { stop: () => Promise<void> } {
+    const processName = getWorkspaceConfig("testing.debugProcessName") || DEFAULT_DEBUG_PROCESS_NAME;
+    const sessionName = `Debug ${label}`;
+
+    let session: vscode.DebugSession | undefined;
+    const listener = vscode.debug.onDidStartDebugSession((started) => {
+      if (started.name === sessionName) session = started;
+    });
+    const attached = Promise.resolve(
+      vscode.debug.startDebugging(undefined, {
+        type: "lldb",
+        request: "attach",
+        name: sessionName,
+        program: processName,
+        waitFor: true,
+      }),
+    )
+      .then((started) => {
+        if (!started) {
+          commonLogger.warn("Failed to start test debug session", { label, processName });
+        }
+      })
+      .catch((error) => {
+        commonLogger.warn("Failed to start test debug session", { label, processName, error });
+      })
+      .finally(() => listener.dispose());
+
+    return {
+      stop: async () => {
+        if (!session) {
+          // The session never started, there is nothing to wait for
+          listener.dispose();
+          return;
+        }
+        // Also ends an attach still waiting for a test runner that never launched
+        await vscode.debug.stopDebugging(session);
+        await attached;
+      },
+    };
+  }
+
+  private async reportResults(
+    run: vscode.TestRun,
+    target: QueuedTarget,
+    testResults: TestResultEvent[],
+    workspaceRoot: string,
+  ): Promise<void> {
+    const attempts = await readTestResultCases(target.item.id, testResults, workspaceRoot);
+    await this.context.testHistoryManager.recordRun(target.item.id, attempts, { workspaceRoot });
+
+    const suiteStatus = new Map<vscode.TestItem, boolean>();
+    for (const testCase of getLatestTestCases(attempts)) {
+      const item = this.getTestCaseItem(target.item, testCase);
+      const suite = item.parent;
+      if (suite && suite !== target.item) {
+        suiteStatus.set(suite, (suiteStatus.get(suite) ?? true) && testCase.status !== "failed");
+      }
+
+      if (testCase.status === "passed") {
+        run.passed(item, testCase.durationMillis);
+      } else if (testCase.status === "skipped") {
+        run.skipped(item);
+      } else {
+        run.failed(item, this.createFailureMessage(testCase), testCase.durationMillis);
+      }
+    }
+
+    for (const [suite, passed] of suiteStatus) {
+      if (passed) {
+        run.passed(suite);
+      } else {
+        run.failed(suite, new vscode.TestMessage("One or more tests failed"));
+      }
+    }
+
+    const latest = testResults[testResults.length - 1];
+    const durationMillis = testResults.reduce((sum, result) => sum + result.durationMillis, 0);
+    if (testResults.some((result) => result.status === "PASSED")) {
+      run.passed(target.item, durationMillis);
+    } else {
+      const message = new vscode.TestMessage(
+        `Test ${latest.status}${latest.testLogPath ? `\nLog: ${latest.testLogPath}` : ""}`,
+      );
+      run.failed(target.item, message, durationMillis);
+    }
+  }
+
+  /**
+   * Get or create the item for a test case, grouped by its class/suite
+   */
+  private getTestCaseItem(targetItem: vscode.TestItem, testCase: BazelTestCaseResult): vscode.TestItem {
+    const label = targetItem.id;
+    let parent = targetItem;
+
+    if (testCase.className) {
+      const suiteId = `${label}::${getShortClassName(testCase.className)}`;
+      let suite = targetItem.children.get(suiteId);
+      if (!suite) {
+        suite = this.controller.createTestItem(suiteId, getShortClassName(testCase.className));
+        targetItem.children.add(suite);
+      }
+      this.itemData.set(suite, { label, className: testCase.className });
+      parent = suite;
+    }
+
+    const caseId = `${parent.id}/${testCase.name}`;
+    const uri = testCase.location ? vscode.Uri.file(testCase.location.file) : undefined;
+    let item = parent.children.get(caseId);
+    if (!item || (uri && item.uri?.fsPath !== uri.fsPath)) {
+      // uri can't be changed after creation
+      item = this.controller.createTestItem(caseId, testCase.name, uri);
+      parent.children.add(item);
+    }
+    if (testCase.location) {
+      const position = new vscode.Position(Math.max(0, testCase.location.line - 1), 0);
+      item.range = new vscode.Range(position, position);
+    }
+    this.itemData.set(item, { label, className: testCase.className, name: testCase.name });
+
+    return item;
+  }
+
+  private createFailureMessage(testCase: BazelTestCaseResult): vscode.TestMessage {
+    const message = new vscode.TestMessage(testCase.message ?? "Test failed");
+    if (testCase.location) {
+      const position = new vscode.Position(
+        Math.max(0, testCase.location.line - 1),
+        Math.max(0, (testCase.location.column ?? 1) - 1),
+      );
+      message.location = new vscode.Location(vscode.Uri.file(testCase.location.file), position);
+    }
+    return message;
+  }
+}
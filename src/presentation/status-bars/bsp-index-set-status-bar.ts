@@ -0,0 +1,42 @@
+import * as vscode from "vscode";
+import type { ExtensionContext } from "../../infrastructure/vscode/extension-context.js";
+
+export class BspIndexSetStatusBar {
+  context: ExtensionContext;
+  item: vscode.StatusBarItem;
+
+  constructor(options: { context: ExtensionContext }) {
+    this.context = options.context;
+
+    const itemId = "bazelbsp.bsp.indexSet.statusBar";
+    this.item = vscode.window.createStatusBarItem(itemId, vscode.StatusBarAlignment.Left, -3);
+    this.item.name = "Bazel BSP: Index Set";
+    this.item.command = "bazelbsp.system.switchBSPIndexSet";
+
+    this.update();
+  }
+
+  update() {
+    const sets = this.context.getWorkspaceState("bsp.indexSets") ?? [];
+
+    // Only useful once there is something to switch to
+    if (sets.length === 0) {
+      this.item.hide();
+      return;
+    }
+
+    const activeSet = sets.find((set) => set.name === this.context.getWorkspaceState("bsp.activeIndexSet"));
+    if (activeSet) {
+      this.item.text = `$(layers) ${activeSet.name}`;
+      this.item.tooltip = `BSP Index Set: ${activeSet.name}\n${activeSet.labels.join("\n")}\nClick to switch`;
+    } else {
+      this.item.text = "$(layers) Selected Target";
+      this.item.tooltip = "BSP indexes the selected target\nClick to switch to an index set";
+    }
+    this.item.show();
+  }
+
+  dispose() {
+    this.item.dispose();
+  }
+}
@@ -53,6 +53,13 @@ export class BuildModeStatusBar {
       this.item.tooltip = "Build Mode: Ask each time\nClick to set default";
     }
 
+    // Append the explicitly selected build profile, if any
+    const buildProfile = this.context.getWorkspaceState("bazel.buildProfile");
+    if (buildProfile) {
+      displayText = `${displayText} · ${buildProfile}`;
+      this.item.tooltip = `${this.item.tooltip}\nBuild Profile: ${buildProfile}`;
+    }
+
     this.item.text = displayText;
   }
 
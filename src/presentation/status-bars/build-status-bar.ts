@@ -1,5 +1,7 @@
 import * as vscode from "vscode";
 import type { ExtensionContext } from "../../infrastructure/vscode/extension-context.js";
+import { getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import { getBazelWorkspaceName } from "../../shared/utils/bazel-workspaces.js";
 
 export class BazelTargetStatusBar {
   context: ExtensionContext;
@@ -36,7 +38,11 @@ export class BazelTargetStatusBar {
       }
 
       this.item.text = `${icon} ${selectedTargetData.targetName}`;
-      this.item.tooltip = `Selected Bazel Target: ${selectedTargetData.targetName} (${targetType})\nPackage: ${selectedTargetData.packageName}\nClick to open Bazel Targets view`;
+      this.item.tooltip = `Selected Bazel Target: ${selectedTargetData.targetName} (${targetType})\nPackage: ${selectedTargetData.packageName}`;
+      if (this.context.buildManager.getWorkspaceRoots().length > 1) {
+        this.item.tooltip += `\nWorkspace: ${getBazelWorkspaceName(getWorkspacePath())}`;
+      }
+      this.item.tooltip += "\nClick to open Bazel Targets view";
       this.item.command = {
         command: "workbench.view.extension.bazelbsp-view",
         title: "Open Bazel Targets",
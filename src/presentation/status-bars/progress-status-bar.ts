@@ -20,6 +20,7 @@ export class ProgressStatusBar {
 
   messageMapping: Map<string, string> = new Map();
   cancellableMapping: Map<string, boolean> = new Map();
+  detailsMapping: Map<string, string> = new Map();
   private cancelCallbacks: Map<string, () => void> = new Map();
 
   constructor() {
@@ -43,6 +44,7 @@ export class ProgressStatusBar {
     this.cancelButton.dispose();
     this.messageMapping.clear();
     this.cancellableMapping.clear();
+    this.detailsMapping.clear();
     this.cancelCallbacks.clear();
   }
 
@@ -64,6 +66,7 @@ export class ProgressStatusBar {
       const scopeId = scope.id ?? DEFAULT_SCOPE_ID;
       this.messageMapping.delete(scopeId);
       this.cancellableMapping.delete(scopeId);
+      this.detailsMapping.delete(scopeId);
       this.cancelCallbacks.delete(scopeId);
       this.displayBar();
     });
@@ -73,10 +76,19 @@ export class ProgressStatusBar {
     });
   }
 
-  updateText(text: string, cancellable = false) {
+  /**
+   * Show text for the current scope, `details` (e.g. the slowest running action)
+   * go to the tooltip only
+   */
+  updateText(text: string, cancellable = false, details?: string) {
     const scopeId = this.context.getExecutionScopeId() ?? DEFAULT_SCOPE_ID;
     this.messageMapping.set(scopeId, text);
     this.cancellableMapping.set(scopeId, cancellable);
+    if (details) {
+      this.detailsMapping.set(scopeId, details);
+    } else {
+      this.detailsMapping.delete(scopeId);
+    }
     this.displayBar();
   }
 
@@ -100,6 +112,7 @@ export class ProgressStatusBar {
       // Remove the operation from tracking
       this.messageMapping.delete(scopeId);
       this.cancellableMapping.delete(scopeId);
+      this.detailsMapping.delete(scopeId);
       this.cancelCallbacks.delete(scopeId);
       this.displayBar();
     }
@@ -147,13 +160,17 @@ export class ProgressStatusBar {
 
     // In simplest case, when we have only one message, we can show it directly in the status bar
     if (this.messageMapping.size === 1) {
-      const text = this.messageMapping.values().next().value;
+      const [scopeId, text] = this.messageMapping.entries().next().value as [string, string];
       this.statusBar.text = `$(gear~spin) ${text}...`;
 
-      const isCancellable = Array.from(this.cancellableMapping.values())[0];
-      if (isCancellable) {
+      const details = this.detailsMapping.get(scopeId);
+      const isCancellable = this.cancellableMapping.get(scopeId);
+      if (isCancellable || details) {
         this.statusBar.tooltip = new vscode.MarkdownString(
-          "Click to open terminal\n\n$(x) Click **Cancel** button to stop",
+          [details, "Click to open terminal", isCancellable ? "$(x) Click **Cancel** button to stop" : undefined]
+            .filter(Boolean)
+            .join("\n\n"),
+          true,
         );
       } else {
         this.statusBar.tooltip = "Click to open terminal";
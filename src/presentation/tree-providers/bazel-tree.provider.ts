@@ -1,37 +1,86 @@
+import * as path from "node:path";
 import * as vscode from "vscode";
-import type { BazelQueryResult } from "../../domain/entities/bazel/types.js";
+import type { BazelQueryResult, BazelTargetFilter } from "../../domain/entities/bazel/types.js";
 import { BazelParser } from "../../infrastructure/bazel/bazel-parser.js";
+import { GraphReportParser } from "../../infrastructure/bazel/graph-report-parser.js";
+import {
+  ALL_TARGET_CATEGORIES,
+  isTargetFilterActive,
+  listSearchEntries,
+  searchTargets,
+} from "../../infrastructure/bazel/target-search.js";
+import { classifyBuildFileChanges } from "../../infrastructure/vscode/build-file-watcher.js";
+import type { CoverageDecorations } from "../../infrastructure/vscode/coverage-decorations.js";
 import { commonLogger } from "../../shared/logger/logger.js";
-import { getWorkspacePath } from "../../shared/utils/bazel-utils.js";
+import {
+  detectBazelWorkspaceRoots,
+  findBazelWorkspaceRoot,
+  getActiveBazelWorkspace,
+  getBazelWorkspaceName,
+} from "../../shared/utils/bazel-workspaces.js";
+import { cacheManager } from "../../shared/utils/cache-manager.js";
+import { getWorkspaceConfig } from "../../shared/utils/config.js";
+import { isFileExists } from "../../shared/utils/files.js";
 import { ImageManager } from "../../shared/utils/image-manager.js";
 import { RecentTargetsManager } from "./helpers/recent-targets-manager.js";
 import {
   BazelQueryCategoryItem, // Keep for backward compatibility
+  BazelQueryFilterItem,
   BazelQueryFolderItem,
   BazelQueryRecentsSectionItem,
   BazelQueryTargetItem,
+  BazelQueryWorkspaceItem,
 } from "./items/bazel-query-tree-item.js";
 
+// Targets of one Bazel workspace
+interface WorkspaceTargets {
+  root: string;
+  queryResult: BazelQueryResult | null;
+  loadError: string | null;
+  recentsManager: RecentTargetsManager;
+  refreshing: boolean; // Full discovery is running, the previous or cached targets are shown meanwhile
+  updatingPackages: boolean; // Changed packages are being re-queried
+  stale: boolean; // Build files changed in a way only a full discovery picks up
+}
+
+// What the filter leaves visible in one query result
+interface FilterMatches {
+  labels: Set<string>;
+  packages: Set<string>; // Packages with matching targets
+  folders: Set<string>; // Matching packages and their parent folders
+}
+
 /**
  * Tree provider for bazel query-based target discovery
  * Supports lazy loading at the last folder level before targets
+ * A multi-root window (or nested MODULE.bazel) gets one section per Bazel workspace
+ *
+ * Discovered targets are cached, so the tree shows up right away on startup while discovery runs again.
+ * Changed BUILD files only re-query their packages.
+ *
+ * The filter hides targets that don't match and folders without matching targets.
  */
 export class BazelTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined | null | undefined>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  private queryResult: BazelQueryResult | null = null;
+  // Fired after targets are (re)discovered, e.g. to sync the Test Explorer
+  private _onDidLoadTargets = new vscode.EventEmitter<BazelQueryResult>();
+  readonly onDidLoadTargets = this._onDidLoadTargets.event;
+
+  private workspaces: WorkspaceTargets[] = [];
   private isLoading = false;
-  private loadError: string | null = null;
-  private workspaceRoot: string;
+  private packageUpdates: Promise<void> = Promise.resolve();
+  private filter: BazelTargetFilter = { text: "", categories: [...ALL_TARGET_CATEGORIES] };
+  // Keyed by query result, so refreshed or updated targets are matched again
+  private filterMatches = new WeakMap<BazelQueryResult, FilterMatches>();
   private buildManager: any;
-  private recentsManager: RecentTargetsManager;
   private imageManager: ImageManager;
+  private coverage?: CoverageDecorations;
 
-  constructor(buildManager?: any) {
-    this.workspaceRoot = getWorkspacePath();
+  constructor(buildManager?: any, coverage?: CoverageDecorations) {
     this.buildManager = buildManager;
-    this.recentsManager = new RecentTargetsManager(buildManager?._context);
+    this.coverage = coverage;
     this.imageManager = new ImageManager(buildManager?._context?.extensionPath || "");
 
     // Listen to selection changes to update highlighting and recents
@@ -40,8 +89,19 @@ export class BazelTreeProvider implements vscode.TreeDataProvider<vscode.TreeIte
         this.updateRecentTargets();
         this._onDidChangeTreeData.fire(undefined);
       });
+
+      // Commands and the Test Explorer follow the active workspace
+      this.buildManager.on("activeWorkspaceUpdated", () => {
+        this.fireLoadedTargets();
+        this._onDidChangeTreeData.fire(undefined);
+      });
     }
 
+    // Show the coverage summary of each package after coverage runs
+    this.coverage?.onDidChangeCoverage(() => {
+      this._onDidChangeTreeData.fire(undefined);
+    });
+
     // Load targets on initialization (will load recents after query completes)
     void this.loadTargets();
   }
@@ -51,43 +111,139 @@ export class BazelTreeProvider implements vscode.TreeDataProvider<vscode.TreeIte
    */
   private updateRecentTargets(): void {
     const selectedTarget = this.getSelectedBazelTargetData();
-    if (!selectedTarget?.buildLabel || !this.queryResult) {
+    const workspace = this.getActiveWorkspaceTargets();
+    if (!selectedTarget?.buildLabel || !workspace?.queryResult) {
       return;
     }
 
     // Delegate to the recents manager
-    this.recentsManager.addTarget(selectedTarget.buildLabel, this.queryResult.tree);
+    workspace.recentsManager.addTarget(selectedTarget.buildLabel, workspace.queryResult.tree);
   }
 
   /**
-   * Get selected target data (for highlighting)
+   * Get selected target data (for highlighting), of the active workspace unless another one is given
    */
-  getSelectedBazelTargetData(): any {
-    return this.buildManager?.getSelectedBazelTargetData();
+  getSelectedBazelTargetData(workspaceRoot?: string): any {
+    return this.buildManager?.getSelectedBazelTargetData(workspaceRoot);
   }
 
   /**
-   * Load all targets using bazel query
+   * Get top-level app labels that depend on the given target (graph report backend only)
    */
-  async loadTargets(): Promise<void> {
-    if (this.isLoading) return;
+  getTopLevelParents(buildLabel: string, workspaceRoot?: string): string[] {
+    const workspace = workspaceRoot ? this.getWorkspaceTargets(workspaceRoot) : this.getActiveWorkspaceTargets();
+    return workspace?.queryResult?.topLevelParents?.[buildLabel] ?? [];
+  }
 
-    this.isLoading = true;
-    this.loadError = null;
+  private getWorkspaceTargets(workspaceRoot: string): WorkspaceTargets | undefined {
+    return this.workspaces.find((workspace) => workspace.root === workspaceRoot);
+  }
+
+  /**
+   * Targets of the active Bazel workspace, the first one until a workspace is activated
+   */
+  private getActiveWorkspaceTargets(): WorkspaceTargets | undefined {
+    const activeWorkspace = getActiveBazelWorkspace();
+    return (activeWorkspace && this.getWorkspaceTargets(activeWorkspace)) || this.workspaces[0];
+  }
+
+  /**
+   * Discover targets with the configured backend
+   * Falls back to bazel query when the graph report is not available
+   */
+  private async discoverTargets(cwd: string): Promise<BazelQueryResult> {
+    const discovery = getWorkspaceConfig("bazel.targetDiscovery") ?? "query";
+
+    if (discovery === "graphReport") {
+      const graphResult = await GraphReportParser.loadFromWorkspace(cwd);
+      if (graphResult) {
+        return graphResult;
+      }
+      commonLogger.log("Graph report not available, falling back to bazel query");
+    }
+
+    return await BazelParser.queryAllTargets(cwd);
+  }
+
+  private fireLoadedTargets(): void {
+    const queryResult = this.getQueryResult();
+    if (queryResult) {
+      this._onDidLoadTargets.fire(queryResult);
+    }
+  }
+
+  /**
+   * Workspace entry with the cached targets of the previous session, if any
+   */
+  private createWorkspaceTargets(root: string): WorkspaceTargets {
+    const workspace: WorkspaceTargets = {
+      root: root,
+      queryResult: cacheManager.getQueryResult(root) ?? null,
+      loadError: null,
+      recentsManager: new RecentTargetsManager(this.buildManager?._context, root),
+      refreshing: false,
+      updatingPackages: false,
+      stale: false,
+    };
+    if (workspace.queryResult) {
+      workspace.recentsManager.loadFromCache(workspace.queryResult.tree);
+    }
+    return workspace;
+  }
+
+  /**
+   * Load the targets of one Bazel workspace, a failure is shown in its section only
+   */
+  private async loadWorkspaceTargets(workspace: WorkspaceTargets): Promise<void> {
+    workspace.refreshing = true;
+    workspace.loadError = null;
     this._onDidChangeTreeData.fire(undefined);
 
     try {
-      const cwd = getWorkspacePath();
-      this.queryResult = await BazelParser.queryAllTargets(cwd);
+      const queryResult = await this.discoverTargets(workspace.root);
+      workspace.queryResult = queryResult;
+      workspace.stale = false;
       commonLogger.log("Loaded bazel targets", {
-        statistics: this.queryResult.statistics,
+        workspaceRoot: workspace.root,
+        source: queryResult.source,
+        statistics: queryResult.statistics,
       });
 
       // Load cached recent targets after query completes
-      this.recentsManager.loadFromCache(this.queryResult.tree);
+      workspace.recentsManager.loadFromCache(queryResult.tree);
+      await cacheManager.cacheQueryResult(workspace.root, queryResult);
     } catch (error) {
-      this.loadError = error instanceof Error ? error.message : String(error);
-      commonLogger.error("Failed to load bazel targets", { error });
+      workspace.loadError = error instanceof Error ? error.message : String(error);
+      commonLogger.error("Failed to load bazel targets", { workspaceRoot: workspace.root, error });
+    } finally {
+      workspace.refreshing = false;
+    }
+  }
+
+  /**
+   * Load all targets of all Bazel workspaces using the configured discovery backend
+   * Workspaces are queried one after another, each one starts its own Bazel server
+   */
+  async loadTargets(): Promise<void> {
+    if (this.isLoading) return;
+
+    this.isLoading = true;
+    this._onDidChangeTreeData.fire(undefined);
+
+    try {
+      const roots = await detectBazelWorkspaceRoots();
+      this.buildManager?.setWorkspaceRoots(roots);
+
+      // Keep showing the previous (or cached) targets while discovery runs
+      this.workspaces = roots.map((root) => this.getWorkspaceTargets(root) ?? this.createWorkspaceTargets(root));
+      this.fireLoadedTargets();
+
+      for (const workspace of this.workspaces) {
+        await this.loadWorkspaceTargets(workspace);
+      }
+      this.fireLoadedTargets();
+    } catch (error) {
+      commonLogger.error("Failed to detect Bazel workspaces", { error });
     } finally {
       this.isLoading = false;
       this._onDidChangeTreeData.fire(undefined);
@@ -95,85 +251,294 @@ export class BazelTreeProvider implements vscode.TreeDataProvider<vscode.TreeIte
   }
 
   /**
-   * Refresh the tree by reloading targets
+   * Refresh the tree by reloading targets, the current ones stay visible until discovery finishes
    */
   refresh(): void {
-    this.queryResult = null;
     void this.loadTargets();
   }
 
   /**
-   * Clear recent targets
+   * Re-query the packages of changed BUILD files and splice them into the tree
+   * Changes that can affect any package (macros, MODULE.bazel) only mark the tree as stale
+   */
+  applyBuildFileChanges(files: string[]): Promise<void> {
+    // One update at a time, each one starts from the result of the previous one
+    this.packageUpdates = this.packageUpdates.then(() => this.updateChangedPackages(files));
+    return this.packageUpdates;
+  }
+
+  private async updateChangedPackages(files: string[]): Promise<void> {
+    if (getWorkspaceConfig("bazel.watchBuildFiles") === false) {
+      return;
+    }
+
+    const roots = this.workspaces.map((workspace) => workspace.root);
+    for (const workspace of this.workspaces) {
+      const workspaceFiles = files.filter((file) => findBazelWorkspaceRoot(file, roots) === workspace.root);
+      // A running discovery picks the changes up by itself
+      if (workspaceFiles.length === 0 || !workspace.queryResult || workspace.refreshing) {
+        continue;
+      }
+
+      const changes = classifyBuildFileChanges(workspaceFiles, workspace.root);
+      // The graph report is written by the build server and can't be patched with query results
+      if (changes.requiresFullQuery || workspace.queryResult.source === "graphReport") {
+        commonLogger.log("Bazel targets are stale", { workspaceRoot: workspace.root, files: workspaceFiles });
+        workspace.stale = true;
+        this._onDidChangeTreeData.fire(undefined);
+        continue;
+      }
+      if (changes.packages.length > 0) {
+        await this.updatePackages(workspace, workspace.queryResult, changes.packages);
+      }
+    }
+  }
+
+  private async updatePackages(
+    workspace: WorkspaceTargets,
+    queryResult: BazelQueryResult,
+    packages: string[],
+  ): Promise<void> {
+    workspace.updatingPackages = true;
+    this._onDidChangeTreeData.fire(undefined);
+
+    try {
+      // Deleted packages can't be queried, they are only removed from the tree
+      const existingPackages: string[] = [];
+      for (const packagePath of packages) {
+        const packageDir = path.join(workspace.root, ...packagePath.split("/"));
+        if (
+          (await isFileExists(path.join(packageDir, "BUILD.bazel"))) ||
+          (await isFileExists(path.join(packageDir, "BUILD")))
+        ) {
+          existingPackages.push(packagePath);
+        }
+      }
+
+      const targets =
+        existingPackages.length > 0
+          ? await BazelParser.queryPackageTargets(existingPackages, workspace.root)
+          : { runnable: [], test: [], buildable: [] };
+
+      // A full discovery finished meanwhile and already has the changes
+      if (workspace.queryResult !== queryResult) {
+        return;
+      }
+
+      workspace.queryResult = BazelParser.spliceTargets(queryResult, packages, targets);
+      commonLogger.log("Updated changed Bazel packages", {
+        workspaceRoot: workspace.root,
+        packages,
+        statistics: workspace.queryResult.statistics,
+      });
+      await cacheManager.cacheQueryResult(workspace.root, workspace.queryResult);
+      if (workspace === this.getActiveWorkspaceTargets()) {
+        this.fireLoadedTargets();
+      }
+    } catch (error) {
+      // E.g. a BUILD file with a syntax error while it's being edited, the previous targets stay
+      commonLogger.warn("Failed to update changed Bazel packages", { workspaceRoot: workspace.root, packages, error });
+      workspace.stale = true;
+    } finally {
+      workspace.updatingPackages = false;
+      this._onDidChangeTreeData.fire(undefined);
+    }
+  }
+
+  getFilter(): BazelTargetFilter {
+    return this.filter;
+  }
+
+  /**
+   * Filter the tree, an empty text with all categories shows everything again
+   */
+  setFilter(filter: BazelTargetFilter): void {
+    this.filter = filter;
+    this.filterMatches = new WeakMap();
+    void vscode.commands.executeCommand("setContext", "bazelbsp.bazelQuery.filterActive", isTargetFilterActive(filter));
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  clearFilter(): void {
+    this.setFilter({ text: "", categories: [...ALL_TARGET_CATEGORIES] });
+  }
+
+  /**
+   * Targets of the filter in a query result, undefined when the filter shows everything
+   */
+  private getFilterMatches(queryResult: BazelQueryResult): FilterMatches | undefined {
+    if (!isTargetFilterActive(this.filter)) {
+      return undefined;
+    }
+
+    let matches = this.filterMatches.get(queryResult);
+    if (!matches) {
+      matches = { labels: new Set(), packages: new Set(), folders: new Set() };
+      for (const { entry } of searchTargets(listSearchEntries(queryResult), this.filter)) {
+        matches.labels.add(entry.label);
+        matches.packages.add(entry.packagePath);
+        for (let index = 1; index <= entry.pathParts.length; index++) {
+          matches.folders.add(entry.pathParts.slice(0, index).join("/"));
+        }
+      }
+      this.filterMatches.set(queryResult, matches);
+    }
+    return matches;
+  }
+
+  /**
+   * Discovered targets of every Bazel workspace, for searching across all of them
+   */
+  getWorkspaceQueryResults(): { workspaceRoot: string; queryResult: BazelQueryResult }[] {
+    return this.workspaces.flatMap((workspace) =>
+      workspace.queryResult ? [{ workspaceRoot: workspace.root, queryResult: workspace.queryResult }] : [],
+    );
+  }
+
+  /**
+   * Clear recent targets of all workspaces
    */
   clearRecents(): void {
-    this.recentsManager.clear();
+    for (const workspace of this.workspaces) {
+      workspace.recentsManager.clear();
+    }
     this._onDidChangeTreeData.fire(undefined);
   }
 
+  /**
+   * Status line on top of a workspace: discovery running, failed or outdated
+   */
+  private getWorkspaceStatusItem(workspace: WorkspaceTargets): vscode.TreeItem | undefined {
+    if (workspace.refreshing || workspace.updatingPackages) {
+      const label = workspace.refreshing ? "Refreshing bazel targets..." : "Updating changed packages...";
+      const loadingItem = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+      loadingItem.iconPath = new vscode.ThemeIcon("loading~spin");
+      return loadingItem;
+    }
+
+    if (workspace.loadError) {
+      const errorItem = new vscode.TreeItem(`Error: ${workspace.loadError}`, vscode.TreeItemCollapsibleState.None);
+      errorItem.iconPath = new vscode.ThemeIcon("error");
+      errorItem.contextValue = "bazelQueryError";
+      errorItem.command = {
+        command: "bazelbsp.bazelQuery.refresh",
+        title: "Retry",
+      };
+      return errorItem;
+    }
+
+    if (workspace.stale) {
+      const staleItem = new vscode.TreeItem("Targets may be outdated", vscode.TreeItemCollapsibleState.None);
+      staleItem.description = "Click to refresh";
+      staleItem.tooltip = "Build files changed in a way that needs a full target discovery";
+      staleItem.iconPath = new vscode.ThemeIcon("warning");
+      staleItem.contextValue = "bazelQueryStale";
+      staleItem.command = {
+        command: "bazelbsp.bazelQuery.refresh",
+        title: "Refresh",
+      };
+      return staleItem;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Sections of one workspace: status, Recents and top-level folders
+   */
+  private getWorkspaceChildren(workspace: WorkspaceTargets | undefined): vscode.TreeItem[] {
+    const statusItem = workspace && this.getWorkspaceStatusItem(workspace);
+
+    if (!workspace?.queryResult) {
+      if (statusItem) {
+        return [statusItem];
+      }
+      const emptyItem = new vscode.TreeItem("No targets found", vscode.TreeItemCollapsibleState.None);
+      emptyItem.iconPath = new vscode.ThemeIcon("info");
+      return [emptyItem];
+    }
+
+    const items: vscode.TreeItem[] = statusItem ? [statusItem] : [];
+
+    const filterMatches = this.getFilterMatches(workspace.queryResult);
+    if (filterMatches?.labels.size === 0) {
+      const emptyItem = new vscode.TreeItem("No matching targets", vscode.TreeItemCollapsibleState.None);
+      emptyItem.iconPath = new vscode.ThemeIcon("info");
+      return [...items, emptyItem];
+    }
+
+    // First, add Recents section if there are recent targets (hidden while filtering)
+    if (!filterMatches && workspace.recentsManager.getCount() > 0) {
+      items.push(new BazelQueryRecentsSectionItem(workspace.recentsManager.getCount(), workspace.root));
+    }
+
+    // Then, add top-level folders (Apps, Packages, etc.)
+    const folders = this.getChildrenAtPath(workspace, []);
+    items.push(...folders);
+
+    return items;
+  }
+
   /**
    * Get tree items for display
    */
   async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
     // Root level - show loading, error, or root item
     if (!element) {
-      if (this.isLoading) {
+      if (this.isLoading && this.workspaces.length === 0) {
         const loadingItem = new vscode.TreeItem("Loading bazel targets...", vscode.TreeItemCollapsibleState.None);
         loadingItem.iconPath = new vscode.ThemeIcon("loading~spin");
         return [loadingItem];
       }
 
-      if (this.loadError) {
-        const errorItem = new vscode.TreeItem(`Error: ${this.loadError}`, vscode.TreeItemCollapsibleState.None);
-        errorItem.iconPath = new vscode.ThemeIcon("error");
-        errorItem.contextValue = "bazelQueryError";
-        errorItem.command = {
-          command: "bazelbsp.bazelQuery.refresh",
-          title: "Retry",
-        };
-        return [errorItem];
-      }
-
-      if (!this.queryResult) {
-        const emptyItem = new vscode.TreeItem("No targets found", vscode.TreeItemCollapsibleState.None);
-        emptyItem.iconPath = new vscode.ThemeIcon("info");
-        return [emptyItem];
-      }
-
-      const items: vscode.TreeItem[] = [];
+      const items: vscode.TreeItem[] = isTargetFilterActive(this.filter) ? [new BazelQueryFilterItem(this.filter)] : [];
 
-      // First, add Recents section if there are recent targets
-      if (this.recentsManager.getCount() > 0) {
-        items.push(new BazelQueryRecentsSectionItem(this.recentsManager.getCount()));
+      // A single workspace keeps the flat layout
+      if (this.workspaces.length <= 1) {
+        return [...items, ...this.getWorkspaceChildren(this.workspaces[0])];
       }
 
-      // Then, add top-level folders (Apps, Packages, etc.)
-      const folders = this.getChildrenAtPath([]);
-      items.push(...folders);
+      const activeRoot = this.getActiveWorkspaceTargets()?.root;
+      const workspaceItems = this.workspaces.map(
+        (workspace) =>
+          new BazelQueryWorkspaceItem(
+            workspace.root,
+            getBazelWorkspaceName(workspace.root),
+            workspace.root === activeRoot,
+            workspace.loadError,
+          ),
+      );
+      return [...items, ...workspaceItems];
+    }
 
-      return items;
+    // Workspace section - show its recents and folders
+    if (element instanceof BazelQueryWorkspaceItem) {
+      return this.getWorkspaceChildren(this.getWorkspaceTargets(element.workspaceRoot));
     }
 
     // Recents section - show recent targets
     if (element instanceof BazelQueryRecentsSectionItem) {
-      return this.recentsManager
-        .getAll()
-        .map(
-          (recent) => new BazelQueryTargetItem(recent.name, recent.type, recent.pathParts, this.workspaceRoot, this),
-        );
+      const workspace = this.getWorkspaceTargets(element.workspaceRoot);
+      return (workspace?.recentsManager.getAll() ?? []).map(
+        (recent) => new BazelQueryTargetItem(recent.name, recent.type, recent.pathParts, element.workspaceRoot, this),
+      );
     }
 
     // Folder item - show both targets AND subfolders
     if (element instanceof BazelQueryFolderItem) {
+      const workspace = this.getWorkspaceTargets(element.workspaceRoot);
+      if (!workspace) return [];
+
       const items: vscode.TreeItem[] = [];
 
       // First, if this folder has direct targets, add them at the top
       if (element.hasTargets) {
-        const targetItems = this.loadTargetsForFolder(element.pathParts);
+        const targetItems = this.loadTargetsForFolder(workspace, element.pathParts);
         items.push(...targetItems);
       }
 
       // Then, add child folders after targets
-      const childFolders = this.getChildrenAtPath(element.pathParts);
+      const childFolders = this.getChildrenAtPath(workspace, element.pathParts);
       items.push(...childFolders);
 
       return items;
@@ -181,9 +546,9 @@ export class BazelTreeProvider implements vscode.TreeDataProvider<vscode.TreeIte
 
     // Category item - show targets (deprecated, keeping for backward compatibility)
     if (element instanceof BazelQueryCategoryItem) {
+      const workspaceRoot = this.getActiveWorkspaceTargets()?.root ?? "";
       return element.targets.map(
-        (targetName) =>
-          new BazelQueryTargetItem(targetName, element.category, element.pathParts, this.workspaceRoot, this),
+        (targetName) => new BazelQueryTargetItem(targetName, element.category, element.pathParts, workspaceRoot, this),
       );
     }
 
@@ -193,28 +558,52 @@ export class BazelTreeProvider implements vscode.TreeDataProvider<vscode.TreeIte
   /**
    * Get child folders at a specific path
    */
-  private getChildrenAtPath(pathParts: string[]): vscode.TreeItem[] {
-    if (!this.queryResult) return [];
+  private getChildrenAtPath(workspace: WorkspaceTargets, pathParts: string[]): vscode.TreeItem[] {
+    const queryResult = workspace.queryResult;
+    if (!queryResult) return [];
 
-    const children = BazelParser.getChildrenAtPath(this.queryResult.tree, pathParts);
+    const filterMatches = this.getFilterMatches(queryResult);
+    const children = BazelParser.getChildrenAtPath(queryResult.tree, pathParts).filter(
+      (childName) => !filterMatches || filterMatches.folders.has([...pathParts, childName].join("/")),
+    );
 
     return children.map((childName) => {
       const childPath = [...pathParts, childName];
-      const hasTargets = this.queryResult ? BazelParser.hasTargetsAtPath(this.queryResult.tree, childPath) : false;
-
-      return new BazelQueryFolderItem(childName, childPath, hasTargets, this.imageManager.getBazelIcon());
+      const hasTargets = filterMatches
+        ? filterMatches.packages.has(childPath.join("/"))
+        : BazelParser.hasTargetsAtPath(queryResult.tree, childPath);
+
+      const coverage = this.coverage?.getSummary(path.join(workspace.root, ...childPath));
+
+      const item = new BazelQueryFolderItem(
+        childName,
+        childPath,
+        workspace.root,
+        hasTargets,
+        this.imageManager.getBazelIcon(),
+        coverage,
+      );
+      // Show the matches of a text filter without expanding every folder by hand
+      if (this.filter.text.trim()) {
+        item.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+      }
+      return item;
     });
   }
 
   /**
    * Load targets for a specific folder (lazy loading)
    */
-  private loadTargetsForFolder(pathParts: string[]): vscode.TreeItem[] {
-    if (!this.queryResult) return [];
+  private loadTargetsForFolder(workspace: WorkspaceTargets, pathParts: string[]): vscode.TreeItem[] {
+    if (!workspace.queryResult) return [];
 
-    const targets = BazelParser.getTargetsAtPath(this.queryResult.tree, pathParts);
+    const targets = BazelParser.getTargetsAtPath(workspace.queryResult.tree, pathParts);
     if (!targets) return [];
 
+    const filterMatches = this.getFilterMatches(workspace.queryResult);
+    const isVisible = (targetName: string) =>
+      !filterMatches || filterMatches.labels.has(`//${pathParts.join("/")}:${targetName}`);
+
     commonLogger.log("Loading targets for folder", {
       path: pathParts.join("/"),
       targets: targets,
@@ -225,16 +614,16 @@ export class BazelTreeProvider implements vscode.TreeDataProvider<vscode.TreeIte
     // Add all targets directly (no category grouping)
     // Order: runnable, test, buildable
     // Pass this provider for selection state checking
-    for (const targetName of targets.runnable) {
-      items.push(new BazelQueryTargetItem(targetName, "runnable", pathParts, this.workspaceRoot, this));
+    for (const targetName of targets.runnable.filter(isVisible)) {
+      items.push(new BazelQueryTargetItem(targetName, "runnable", pathParts, workspace.root, this));
     }
 
-    for (const targetName of targets.test) {
-      items.push(new BazelQueryTargetItem(targetName, "test", pathParts, this.workspaceRoot, this));
+    for (const targetName of targets.test.filter(isVisible)) {
+      items.push(new BazelQueryTargetItem(targetName, "test", pathParts, workspace.root, this));
     }
 
-    for (const targetName of targets.buildable) {
-      items.push(new BazelQueryTargetItem(targetName, "buildable", pathParts, this.workspaceRoot, this));
+    for (const targetName of targets.buildable.filter(isVisible)) {
+      items.push(new BazelQueryTargetItem(targetName, "buildable", pathParts, workspace.root, this));
     }
 
     return items;
@@ -248,9 +637,9 @@ export class BazelTreeProvider implements vscode.TreeDataProvider<vscode.TreeIte
   }
 
   /**
-   * Get the current query result (for external use)
+   * Get the query result of the active workspace (for external use)
    */
   getQueryResult(): BazelQueryResult | null {
-    return this.queryResult;
+    return this.getActiveWorkspaceTargets()?.queryResult ?? null;
   }
 }
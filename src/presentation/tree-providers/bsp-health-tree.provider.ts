@@ -0,0 +1,200 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { BspHealthManager } from "../../application/services/bsp-health-manager.service.js";
+import type { BspErrorGroup, BspErrorKind, BspIndexBuild } from "../../domain/entities/bazel/types.js";
+
+type EventData = vscode.TreeItem | undefined | null;
+
+const formatMillis = (millis: number) => (millis >= 1000 ? `${(millis / 1000).toFixed(1)}s` : `${millis}ms`);
+
+const ERROR_KIND_LABELS: Record<BspErrorKind, string> = {
+  compiler: "Compiler",
+  config: "Config",
+  connection: "Connection",
+  bazel: "Bazel",
+  other: "Other",
+};
+
+/**
+ * Tree view with the live state of sourcekit-bazel-bsp: server process, loaded config, indexing
+ * progress, the last index build and recent errors grouped by kind
+ */
+export class BspHealthTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<EventData>();
+  readonly onDidChangeTreeData: vscode.Event<EventData> = this._onDidChangeTreeData.event;
+
+  manager: BspHealthManager;
+
+  constructor(options: { manager: BspHealthManager }) {
+    this.manager = options.manager;
+    this.manager.on("updated", () => {
+      this.refresh();
+    });
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(null);
+  }
+
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    if (!element) {
+      return [
+        this.getServerItem(),
+        this.getConfigItem(),
+        this.getIndexingItem(),
+        this.getLastBuildItem(),
+        new BspHealthErrorsItem(this.manager.getState().errors),
+      ];
+    }
+
+    if (element instanceof BspHealthConfigItem) {
+      return element.targets.map((target) => {
+        const item = new vscode.TreeItem(target);
+        item.iconPath = new vscode.ThemeIcon("target");
+        return item;
+      });
+    }
+    if (element instanceof BspHealthErrorsItem) {
+      return element.groups.map((group) => new BspHealthErrorGroupItem(group));
+    }
+    return [];
+  }
+
+  async getTreeItem(element: vscode.TreeItem): Promise<vscode.TreeItem> {
+    return element;
+  }
+
+  private getServerItem(): vscode.TreeItem {
+    const server = this.manager.getServerStatus();
+    const startTimestamp = this.manager.getState().serverStartTimestamp;
+
+    const item = new vscode.TreeItem("Server");
+    item.contextValue = "bspHealthServer";
+    if (server.running) {
+      item.description = server.pid ? `Running (pid ${server.pid})` : "Running";
+      item.iconPath = new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed"));
+    } else {
+      item.description = "Not running";
+      item.iconPath = new vscode.ThemeIcon("circle-slash");
+      item.tooltip = "SourceKit-LSP starts sourcekit-bazel-bsp when a Swift file is opened";
+    }
+    if (server.running && startTimestamp !== undefined) {
+      item.tooltip = `Started ${new Date(startTimestamp).toLocaleString()}`;
+    }
+    return item;
+  }
+
+  private getConfigItem(): vscode.TreeItem {
+    const config = this.manager.getConfigStatus();
+    const state = this.manager.getState();
+    // The targets the server reported are the ones it actually loaded, the file may have changed since
+    const targets = state.targets.length > 0 ? state.targets : (config?.targets ?? []);
+    return new BspHealthConfigItem(config?.exists ? (state.configPath ?? config.path) : undefined, targets);
+  }
+
+  private getIndexingItem(): vscode.TreeItem {
+    const { batch, currentBuild } = this.manager.getState();
+
+    const item = new vscode.TreeItem("Indexing");
+    const details = [
+      batch ? `Batch ${batch.current}/${batch.total}` : undefined,
+      currentBuild ? "building" : undefined,
+    ].filter(Boolean);
+    item.description = details.length > 0 ? details.join(", ") : "Idle";
+    item.iconPath = new vscode.ThemeIcon(currentBuild ? "sync~spin" : "database");
+    if (currentBuild) {
+      item.tooltip = currentBuild.startTimestamp
+        ? `Index build running since ${new Date(currentBuild.startTimestamp).toLocaleTimeString()}`
+        : "Index build running";
+      item.command = openLogCommand("Index Build", currentBuild.lines);
+    }
+    return item;
+  }
+
+  private getLastBuildItem(): vscode.TreeItem {
+    const build = this.manager.getState().lastBuild;
+    if (!build) {
+      const item = new vscode.TreeItem("Last Index Build");
+      item.description = this.manager.getLogUnavailableReason() ?? "None yet";
+      item.iconPath = new vscode.ThemeIcon("history");
+      return item;
+    }
+    return new BspHealthBuildItem(build);
+  }
+}
+
+function openLogCommand(title: string, lines: string[]): vscode.Command {
+  return {
+    command: "bazelbsp.system.openBSPLog",
+    title: "Open Log",
+    arguments: [{ title: title, lines: lines }],
+  };
+}
+
+export class BspHealthConfigItem extends vscode.TreeItem {
+  constructor(
+    public readonly configPath: string | undefined,
+    public readonly targets: string[],
+  ) {
+    super(
+      "Config",
+      targets.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+    );
+
+    this.contextValue = "bspHealthConfig";
+    if (!configPath) {
+      this.description = ".bsp/skbsp.json not found";
+      this.iconPath = new vscode.ThemeIcon("warning");
+      return;
+    }
+
+    this.description = `${path.basename(path.dirname(configPath))}/${path.basename(configPath)} · ${targets.length} targets`;
+    this.tooltip = configPath;
+    this.iconPath = new vscode.ThemeIcon("settings-gear");
+    this.command = { command: "vscode.open", title: "Open Config", arguments: [vscode.Uri.file(configPath)] };
+  }
+}
+
+export class BspHealthBuildItem extends vscode.TreeItem {
+  constructor(public readonly build: BspIndexBuild) {
+    super("Last Index Build");
+
+    const duration = build.durationMillis !== undefined ? formatMillis(build.durationMillis) : undefined;
+    if (build.status === "failed") {
+      this.description = duration ? `Failed after ${duration}` : "Failed";
+      this.iconPath = new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed"));
+      this.tooltip = build.failure;
+    } else {
+      this.description = duration ? `Succeeded in ${duration}` : "Succeeded";
+      this.iconPath = new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed"));
+    }
+    this.contextValue = "bspHealthBuild";
+    this.command = openLogCommand("Last Index Build", build.lines);
+  }
+}
+
+export class BspHealthErrorsItem extends vscode.TreeItem {
+  constructor(public readonly groups: BspErrorGroup[]) {
+    super(
+      "Recent Errors",
+      groups.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None,
+    );
+
+    this.description = groups.length > 0 ? `${groups.reduce((total, group) => total + group.count, 0)}` : "None";
+    this.iconPath = new vscode.ThemeIcon(groups.length > 0 ? "warning" : "check");
+  }
+}
+
+export class BspHealthErrorGroupItem extends vscode.TreeItem {
+  constructor(public readonly group: BspErrorGroup) {
+    super(`${ERROR_KIND_LABELS[group.kind]} (${group.count})`);
+
+    this.description = group.lastMessage;
+    this.tooltip = group.lastTimestamp
+      ? `${group.lastMessage}\n\nLast seen ${new Date(group.lastTimestamp).toLocaleString()}`
+      : group.lastMessage;
+    this.iconPath = new vscode.ThemeIcon("error");
+    this.contextValue = "bspHealthErrorGroup";
+    this.command = openLogCommand(`${ERROR_KIND_LABELS[group.kind]} Errors`, group.lines);
+  }
+}
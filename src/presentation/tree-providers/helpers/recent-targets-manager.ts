@@ -11,14 +11,17 @@ export interface RecentTarget {
 }
 
 /**
- * Manages recent Bazel targets with persistence
+ * Manages recent Bazel targets of one Bazel workspace with persistence
  */
 export class RecentTargetsManager {
   private recentTargets: RecentTarget[] = [];
   private readonly MAX_RECENT_TARGETS = 3;
   private readonly CACHE_KEY = "bazelQuery.recentTargets";
 
-  constructor(private context?: ExtensionContext) {}
+  constructor(
+    private context?: ExtensionContext,
+    private workspaceRoot?: string,
+  ) {}
 
   /**
    * Load recent targets from cache
@@ -37,7 +40,7 @@ export class RecentTargetsManager {
         return;
       }
 
-      const cached = this.context.getWorkspaceState(this.CACHE_KEY);
+      const cached = this.context.getWorkspaceState(this.CACHE_KEY, this.workspaceRoot);
       commonLogger.log("Retrieved cached data", {
         hasCached: !!cached,
         isArray: Array.isArray(cached),
@@ -103,7 +106,7 @@ export class RecentTargetsManager {
         return;
       }
 
-      this.context.updateWorkspaceState(this.CACHE_KEY, this.recentTargets);
+      this.context.updateWorkspaceState(this.CACHE_KEY, this.recentTargets, this.workspaceRoot);
       commonLogger.log("💾 Saved recent targets to cache", { count: this.recentTargets.length });
     } catch (error) {
       commonLogger.error("Failed to save recent targets to cache", { error });
@@ -1,10 +1,56 @@
 import * as vscode from "vscode";
+import type { BazelCoverageSummary, BazelTargetFilter } from "../../../domain/entities/bazel/types.js";
+import { formatCoveragePercent } from "../../../infrastructure/bazel/lcov-parser.js";
+
+/**
+ * Tree item representing one Bazel workspace of a multi-root window
+ */
+export class BazelQueryWorkspaceItem extends vscode.TreeItem {
+  constructor(
+    public readonly workspaceRoot: string,
+    name: string,
+    isActive: boolean,
+    loadError?: string | null,
+  ) {
+    super(name, isActive ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.contextValue = isActive ? "bazelQueryWorkspace&active=true" : "bazelQueryWorkspace";
+    this.iconPath = new vscode.ThemeIcon(
+      loadError ? "warning" : "root-folder",
+      isActive ? new vscode.ThemeColor("bazelbsp.simulator.booted") : undefined,
+    );
+    this.description = isActive ? "✓" : undefined;
+    this.tooltip = isActive ? `${workspaceRoot}\nActive: commands run in this workspace` : workspaceRoot;
+  }
+}
+
+/**
+ * Tree item showing the active filter on top of the tree, click to change it
+ */
+export class BazelQueryFilterItem extends vscode.TreeItem {
+  constructor(filter: BazelTargetFilter) {
+    const text = filter.text.trim();
+    super(text ? `Filter: ${text}` : "Filter", vscode.TreeItemCollapsibleState.None);
+
+    this.contextValue = "bazelQueryFilter";
+    this.iconPath = new vscode.ThemeIcon("filter-filled");
+    this.description = filter.categories.length < 3 ? filter.categories.join(", ") || "no categories" : undefined;
+    this.tooltip = "Only matching targets are shown, click to change the filter";
+    this.command = {
+      command: "bazelbsp.bazelQuery.filter",
+      title: "Filter Bazel Targets",
+    };
+  }
+}
 
 /**
  * Tree item representing the Recents section
  */
 export class BazelQueryRecentsSectionItem extends vscode.TreeItem {
-  constructor(public readonly recentCount: number) {
+  constructor(
+    public readonly recentCount: number,
+    public readonly workspaceRoot: string,
+  ) {
     super("Recents", vscode.TreeItemCollapsibleState.Expanded);
 
     this.contextValue = "bazelQueryRecents";
@@ -23,8 +69,10 @@ export class BazelQueryFolderItem extends vscode.TreeItem {
   constructor(
     label: string,
     pathParts: string[],
+    public readonly workspaceRoot: string,
     public readonly hasTargets: boolean,
     bazelIcon?: vscode.Uri,
+    coverage?: BazelCoverageSummary,
   ) {
     // If this folder has targets, make it collapsible (lazy loading)
     // Otherwise, make it expandable to show subfolders
@@ -39,9 +87,28 @@ export class BazelQueryFolderItem extends vscode.TreeItem {
     this.iconPath = bazelIcon || new vscode.ThemeIcon("folder");
 
     this.tooltip = `/${pathParts.join("/")}`;
+
+    // Summary of the latest coverage run for sources in this folder
+    const lines = coverage && formatCoveragePercent(coverage.linesHit, coverage.linesFound);
+    if (coverage && lines) {
+      const branches = formatCoveragePercent(coverage.branchesHit, coverage.branchesFound);
+      this.description = `${lines} covered`;
+      this.tooltip += `\nLines: ${coverage.linesHit}/${coverage.linesFound} (${lines})`;
+      if (branches) {
+        this.tooltip += `\nBranches: ${coverage.branchesHit}/${coverage.branchesFound} (${branches})`;
+      }
+    }
   }
 }
 
+/**
+ * Provider callbacks used by target items to render selection and parent info
+ */
+export interface BazelQueryTargetItemProvider {
+  getSelectedBazelTargetData(workspaceRoot?: string): any;
+  getTopLevelParents?(buildLabel: string, workspaceRoot?: string): string[];
+}
+
 /**
  * Tree item representing a bazel target (runnable, test, or buildable)
  * Compatible with BazelTreeItem interface for commands
@@ -70,21 +137,25 @@ export class BazelQueryTargetItem extends vscode.TreeItem {
   // Workspace path for commands
   public readonly workspacePath: string;
 
+  // Bazel workspace the target belongs to, commands run there
+  public readonly workspaceRoot: string;
+
   // Provider for selection state
-  public provider?: { getSelectedBazelTargetData(): any };
+  public provider?: BazelQueryTargetItemProvider;
 
   constructor(
     targetName: string,
     targetType: "runnable" | "test" | "buildable",
     pathParts: string[],
     workspaceRoot: string,
-    provider?: { getSelectedBazelTargetData(): any },
+    provider?: BazelQueryTargetItemProvider,
   ) {
     super(targetName, vscode.TreeItemCollapsibleState.None);
 
     this.targetName = targetName;
     this.targetType = targetType;
     this.fullPath = `//${pathParts.join("/")}:${targetName}`;
+    this.workspaceRoot = workspaceRoot;
     this.provider = provider;
 
     // Convert targetType to legacy type
@@ -112,7 +183,7 @@ export class BazelQueryTargetItem extends vscode.TreeItem {
     this.workspacePath = `${absolutePath}/BUILD.bazel`;
 
     // Check if this target is currently selected
-    const selectedTargetData = this.provider?.getSelectedBazelTargetData();
+    const selectedTargetData = this.provider?.getSelectedBazelTargetData(workspaceRoot);
     const isSelected = selectedTargetData?.buildLabel === this.target.buildLabel;
 
     // Use different color for selected vs unselected targets
@@ -143,7 +214,11 @@ export class BazelQueryTargetItem extends vscode.TreeItem {
     }
     this.contextValue = contextValue;
 
+    const parents = this.provider?.getTopLevelParents?.(this.fullPath, workspaceRoot) ?? [];
     this.tooltip = `${this.fullPath}\nType: ${targetType}`;
+    if (parents.length > 0) {
+      this.tooltip += `\nUsed by: ${parents.join(", ")}`;
+    }
 
     // Set command to select the target when clicked
     // Pass serializable data including target and package info
@@ -155,6 +230,7 @@ export class BazelQueryTargetItem extends vscode.TreeItem {
           target: this.target,
           package: this.package,
           workspacePath: this.workspacePath,
+          workspaceRoot: this.workspaceRoot,
         },
       ],
     };
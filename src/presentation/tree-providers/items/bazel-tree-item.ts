@@ -12,12 +12,15 @@ export class BazelTreeItem extends vscode.TreeItem {
   public target: BazelTarget;
   public package: BazelPackage;
   public workspacePath: string;
+  // Bazel workspace the target belongs to, unset for items created before multi-root support
+  public workspaceRoot?: string;
 
   constructor(options: {
     target: BazelTarget;
     package: BazelPackage;
     provider: IBazelTreeProvider;
     workspacePath: string;
+    workspaceRoot?: string;
   }) {
     // Validate required properties
     if (!options.target) {
@@ -38,6 +41,7 @@ export class BazelTreeItem extends vscode.TreeItem {
     this.target = options.target;
     this.package = options.package;
     this.workspacePath = options.workspacePath;
+    this.workspaceRoot = options.workspaceRoot;
 
     // Check if this target is currently selected by comparing build labels
     const selectedTargetData = this.provider.getSelectedBazelTargetData();
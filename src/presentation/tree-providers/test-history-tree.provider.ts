@@ -0,0 +1,113 @@
+import * as vscode from "vscode";
+import type { TestHistoryManager } from "../../application/services/test-history-manager.service.js";
+import type { BazelTestCaseHistory } from "../../domain/entities/bazel/types.js";
+
+type EventData = vscode.TreeItem | undefined | null;
+
+type SectionKind = "flaky" | "regressions" | "failing";
+
+const formatMillis = (millis: number) => (millis >= 1000 ? `${(millis / 1000).toFixed(2)}s` : `${millis}ms`);
+
+/**
+ * Tree view with test cases that need attention according to the recorded test history:
+ * flaky cases, duration regressions and cases that failed on their latest run
+ */
+export class TestHistoryTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<EventData>();
+  readonly onDidChangeTreeData: vscode.Event<EventData> = this._onDidChangeTreeData.event;
+
+  manager: TestHistoryManager;
+
+  constructor(options: { manager: TestHistoryManager }) {
+    this.manager = options.manager;
+    this.manager.on("updated", () => {
+      this.refresh();
+    });
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(null);
+  }
+
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    if (!element) {
+      const sections = [
+        new TestHistorySectionItem("flaky", "Flaky", this.manager.getFlakyCases().length),
+        new TestHistorySectionItem("regressions", "Duration Regressions", this.manager.getDurationRegressions().length),
+        new TestHistorySectionItem("failing", "Failing", this.manager.getFailingCases().length),
+      ];
+      if (sections.every((section) => section.count === 0)) {
+        const emptyItem = new vscode.TreeItem("No flaky, slower or failing tests recorded");
+        emptyItem.iconPath = new vscode.ThemeIcon("pass");
+        return [emptyItem];
+      }
+      return sections;
+    }
+
+    if (element instanceof TestHistorySectionItem) {
+      switch (element.kind) {
+        case "flaky":
+          return this.manager.getFlakyCases().map((history) => {
+            const runs = history.runs.filter((run) => run.status !== "skipped");
+            const failures = runs.filter((run) => run.status === "failed").length;
+            return new TestHistoryCaseItem(history, `${failures}/${runs.length} failed`);
+          });
+        case "regressions":
+          return this.manager
+            .getDurationRegressions()
+            .map(
+              (regression) =>
+                new TestHistoryCaseItem(
+                  regression.history,
+                  `${formatMillis(regression.baselineMillis)} → ${formatMillis(regression.latestMillis)}`,
+                ),
+            );
+        case "failing":
+          return this.manager.getFailingCases().map((history) => new TestHistoryCaseItem(history, history.label));
+      }
+    }
+
+    return [];
+  }
+
+  async getTreeItem(element: vscode.TreeItem): Promise<vscode.TreeItem> {
+    return element;
+  }
+}
+
+export class TestHistorySectionItem extends vscode.TreeItem {
+  constructor(
+    public readonly kind: SectionKind,
+    label: string,
+    public readonly count: number,
+  ) {
+    super(label, count > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+
+    this.description = `${count}`;
+    this.contextValue = `testHistorySection-${kind}`;
+    this.iconPath = new vscode.ThemeIcon(kind === "flaky" ? "warning" : kind === "regressions" ? "watch" : "error");
+  }
+}
+
+export class TestHistoryCaseItem extends vscode.TreeItem {
+  constructor(
+    public readonly history: BazelTestCaseHistory,
+    description: string,
+  ) {
+    super(history.className ? `${history.className}.${history.name}` : history.name);
+
+    this.description = description;
+    this.contextValue = "testHistoryCase";
+    this.iconPath = new vscode.ThemeIcon("beaker");
+
+    const recent = history.runs
+      .slice(-10)
+      .map((run) => {
+        const duration = run.durationMillis !== undefined ? ` ${formatMillis(run.durationMillis)}` : "";
+        const commit = run.commit ? ` @ ${run.commit.slice(0, 8)}` : "";
+        return `- ${run.status}${duration}${commit} (${new Date(run.timestamp).toLocaleString()})`;
+      })
+      .join("\n");
+    this.tooltip = new vscode.MarkdownString(`**${history.label}**\n\nRecent runs:\n${recent}`);
+  }
+}
@@ -0,0 +1,182 @@
+import * as crypto from "node:crypto";
+import * as vscode from "vscode";
+import type {
+  BuildAnalyticsManager,
+  BuildAnalyticsReport,
+  BuildTargetStats,
+} from "../../application/services/build-analytics-manager.service.js";
+import {
+  formatMillis,
+  formatPercent,
+  renderBarChart,
+  renderCards,
+  renderColumnChart,
+  renderSection,
+  renderToolbar,
+  renderWebviewDocument,
+} from "./webview-html.js";
+
+// The trend chart gets unreadable with more bars than this
+const MAX_TREND_DAYS = 30;
+
+type PanelMessage = { command: "export"; format: "csv" | "json" } | { command: "clear" };
+
+const targetName = (stats: BuildTargetStats) => `${stats.command} ${stats.label}`;
+
+/**
+ * Dashboard HTML with the charts of a report
+ */
+export function renderBuildAnalyticsHtml(
+  report: BuildAnalyticsReport,
+  options: { cspSource: string; nonce: string },
+): string {
+  const trend = report.trend.slice(-MAX_TREND_DAYS);
+
+  const cards = renderCards([
+    ["Invocations", String(report.runs)],
+    ["Failure rate", formatPercent(report.failureRate)],
+    ["Average duration", formatMillis(report.averageMillis)],
+  ]);
+
+  const sections = [
+    renderSection(
+      `Average duration per day (last ${MAX_TREND_DAYS} days)`,
+      trend.some((point) => point.averageMillis > 0)
+        ? renderColumnChart(
+            trend.map((point) => ({
+              label: point.date,
+              value: point.averageMillis,
+              text: `${formatMillis(point.averageMillis)}, ${point.runs} runs`,
+            })),
+          )
+        : undefined,
+      "No successful invocations recorded yet.",
+    ),
+    renderSection(
+      "Failure rate per day",
+      trend.some((point) => point.failures > 0)
+        ? renderColumnChart(
+            trend.map((point) => ({
+              label: point.date,
+              value: point.failures / point.runs,
+              text: `${point.failures} of ${point.runs} failed`,
+              failed: true,
+            })),
+          )
+        : undefined,
+      "No failures recorded.",
+    ),
+    renderSection(
+      "Slowest targets",
+      report.slowestTargets.length > 0
+        ? renderBarChart(
+            report.slowestTargets.map((stats) => {
+              const criticalPath =
+                stats.averageCriticalPathMillis !== undefined
+                  ? `, critical path ${formatMillis(stats.averageCriticalPathMillis)}`
+                  : "";
+              return {
+                label: targetName(stats),
+                value: stats.averageMillis,
+                text: `${formatMillis(stats.averageMillis)} avg, ${formatMillis(stats.maxMillis)} max${criticalPath}`,
+              };
+            }),
+          )
+        : undefined,
+      "No successful invocations recorded yet.",
+    ),
+    renderSection(
+      "Most failing targets",
+      report.failingTargets.length > 0
+        ? renderBarChart(
+            report.failingTargets.map((stats) => ({
+              label: targetName(stats),
+              value: stats.failureRate,
+              text: `${formatPercent(stats.failureRate)} (${stats.failures} of ${stats.runs})`,
+              failed: true,
+            })),
+          )
+        : undefined,
+      "No failures recorded.",
+    ),
+    renderSection(
+      "Build modes (build, run and debug)",
+      report.modes.length > 0
+        ? renderBarChart(
+            report.modes.map((mode) => ({
+              label: mode.mode,
+              value: mode.averageMillis,
+              text: `${formatMillis(mode.averageMillis)} avg, ${formatMillis(mode.medianMillis)} median, ${mode.runs} runs`,
+            })),
+          )
+        : undefined,
+      "No builds recorded yet.",
+    ),
+  ].join("");
+
+  const toolbar = renderToolbar([
+    { label: "Export CSV", command: "export", format: "csv" },
+    { label: "Export JSON", command: "export", format: "json" },
+    { label: "Clear", command: "clear", secondary: true },
+  ]);
+
+  return renderWebviewDocument({ ...options, title: "Build Analytics", body: `${toolbar}${cards}${sections}` });
+}
+
+/**
+ * Webview panel with charts of the recorded build analytics, re-rendered whenever a record is added
+ */
+export class BuildAnalyticsPanel implements vscode.Disposable {
+  static readonly viewType = "bazelbsp.buildAnalytics";
+
+  private panel: vscode.WebviewPanel | undefined;
+  manager: BuildAnalyticsManager;
+
+  constructor(options: { manager: BuildAnalyticsManager }) {
+    this.manager = options.manager;
+    this.manager.on("updated", () => {
+      this.update();
+    });
+  }
+
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal();
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      BuildAnalyticsPanel.viewType,
+      "Build Analytics",
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+      },
+    );
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+    this.panel.webview.onDidReceiveMessage((message: PanelMessage) => {
+      if (message.command === "export") {
+        void vscode.commands.executeCommand("bazelbsp.analytics.export", message.format);
+      } else if (message.command === "clear") {
+        void vscode.commands.executeCommand("bazelbsp.analytics.clear");
+      }
+    });
+    this.update();
+  }
+
+  update(): void {
+    if (!this.panel) {
+      return;
+    }
+    this.panel.webview.html = renderBuildAnalyticsHtml(this.manager.getReport(), {
+      cspSource: this.panel.webview.cspSource,
+      nonce: crypto.randomBytes(16).toString("base64"),
+    });
+  }
+
+  dispose(): void {
+    this.panel?.dispose();
+  }
+}
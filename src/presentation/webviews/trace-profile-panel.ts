@@ -0,0 +1,152 @@
+import * as crypto from "node:crypto";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { BazelTraceProfileAction, BazelTraceProfileSummary } from "../../domain/entities/bazel/types.js";
+import {
+  escapeHtml,
+  formatMillis,
+  renderBarChart,
+  renderCards,
+  renderSection,
+  renderToolbar,
+  renderWebviewDocument,
+} from "./webview-html.js";
+
+// Critical paths of incremental builds are short, clean builds can have hundreds of steps
+const MAX_CRITICAL_PATH_COMPONENTS = 30;
+
+type PanelMessage = { command: "export" } | { command: "reveal" };
+
+function actionBar(action: BazelTraceProfileAction) {
+  const details = [action.mnemonic, action.target].filter(Boolean).join(", ");
+  return {
+    label: action.description,
+    value: action.durationMillis,
+    text: details ? `${formatMillis(action.durationMillis)} (${details})` : formatMillis(action.durationMillis),
+  };
+}
+
+/**
+ * Summary HTML of a trace profile
+ */
+export function renderTraceProfileHtml(
+  summary: BazelTraceProfileSummary,
+  options: { tracePath: string; cspSource: string; nonce: string },
+): string {
+  const toolbar = renderToolbar([
+    { label: "Export Summary", command: "export" },
+    { label: "Reveal Trace File", command: "reveal", secondary: true },
+  ]);
+
+  const cards = renderCards([
+    ["Total", formatMillis(summary.totalMillis)],
+    ["Analysis", formatMillis(summary.analysisMillis)],
+    ["Execution", formatMillis(summary.executionMillis)],
+    ["Critical path", formatMillis(summary.criticalPath.totalMillis)],
+    ["Actions", String(summary.actionCount)],
+  ]);
+
+  const components = summary.criticalPath.components;
+  const omittedComponents =
+    components.length > MAX_CRITICAL_PATH_COMPONENTS
+      ? `<p class="empty">${components.length - MAX_CRITICAL_PATH_COMPONENTS} shorter steps not shown</p>`
+      : "";
+
+  const sections = [
+    renderSection(
+      "Phases",
+      summary.phases.length > 0
+        ? renderBarChart(
+            summary.phases.map((phase) => ({
+              label: phase.name,
+              value: phase.durationMillis,
+              text: formatMillis(phase.durationMillis),
+            })),
+          )
+        : undefined,
+      "The profile has no phase markers.",
+    ),
+    renderSection(
+      `Critical path (${components.length} steps)`,
+      components.length > 0
+        ? renderBarChart(
+            [...components]
+              .sort((a, b) => b.durationMillis - a.durationMillis)
+              .slice(0, MAX_CRITICAL_PATH_COMPONENTS)
+              .map(actionBar),
+          ) + omittedComponents
+        : undefined,
+      "The profile has no critical path, Bazel only records it for builds that executed actions.",
+    ),
+    renderSection(
+      `Slowest actions (top ${summary.slowestActions.length})`,
+      summary.slowestActions.length > 0 ? renderBarChart(summary.slowestActions.map(actionBar)) : undefined,
+      "No actions were executed, the build was fully cached.",
+    ),
+    renderSection(
+      "Remote cache and execution",
+      summary.remote.length > 0
+        ? renderBarChart(
+            summary.remote.map((entry) => ({
+              label: entry.category,
+              value: entry.totalMillis,
+              text: `${formatMillis(entry.totalMillis)} in ${entry.count} event(s)`,
+            })),
+          )
+        : undefined,
+      "No remote cache or remote execution activity was recorded.",
+    ),
+  ].join("");
+
+  return renderWebviewDocument({
+    ...options,
+    title: "Trace Profile",
+    body: `${toolbar}<p class="empty">${escapeHtml(path.basename(options.tracePath))}</p>${cards}${sections}`,
+  });
+}
+
+/**
+ * Webview panel with the summary of one trace profile
+ */
+export class TraceProfilePanel implements vscode.Disposable {
+  static readonly viewType = "bazelbsp.traceProfile";
+
+  private panel: vscode.WebviewPanel | undefined;
+  private tracePath: string | undefined;
+
+  show(summary: BazelTraceProfileSummary, tracePath: string): void {
+    this.tracePath = tracePath;
+    if (!this.panel) {
+      this.panel = vscode.window.createWebviewPanel(
+        TraceProfilePanel.viewType,
+        "Trace Profile",
+        vscode.ViewColumn.Active,
+        {
+          enableScripts: true,
+        },
+      );
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+      });
+      this.panel.webview.onDidReceiveMessage((message: PanelMessage) => {
+        if (!this.tracePath) return;
+        if (message.command === "export") {
+          void vscode.commands.executeCommand("bazelbsp.bazel.exportTraceProfile", this.tracePath);
+        } else if (message.command === "reveal") {
+          void vscode.commands.executeCommand("revealFileInOS", vscode.Uri.file(this.tracePath));
+        }
+      });
+    }
+
+    this.panel.webview.html = renderTraceProfileHtml(summary, {
+      tracePath,
+      cspSource: this.panel.webview.cspSource,
+      nonce: crypto.randomBytes(16).toString("base64"),
+    });
+    this.panel.reveal();
+  }
+
+  dispose(): void {
+    this.panel?.dispose();
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * HTML building blocks shared by the webview panels
+ * Everything is inline so the panels need no local resources, colors come from the VS Code theme
+ */
+
+export type Bar = { label: string; value: number; text: string; failed?: boolean };
+
+export type ToolbarButton = { label: string; command: string; format?: string; secondary?: boolean };
+
+export function formatMillis(millis: number): string {
+  if (millis >= 60_000) {
+    return `${Math.floor(millis / 60_000)}m ${Math.round((millis % 60_000) / 1000)}s`;
+  }
+  return millis >= 1000 ? `${(millis / 1000).toFixed(1)}s` : `${millis}ms`;
+}
+
+export const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Vertical bars, labelled with the end of the label (e.g. "01-05" of "2026-01-05")
+ */
+export function renderColumnChart(bars: Bar[]): string {
+  const max = Math.max(...bars.map((bar) => bar.value), 1);
+  const columns = bars.map((bar) => {
+    const height = Math.max(1, Math.round((bar.value / max) * 100));
+    const title = escapeHtml(`${bar.label}: ${bar.text}`);
+    return `<div class="column" title="${title}"><div class="bar${bar.failed ? " failed" : ""}" style="height: ${height}%"></div><span>${escapeHtml(bar.label.slice(5))}</span></div>`;
+  });
+  return `<div class="columns">${columns.join("")}</div>`;
+}
+
+/**
+ * Horizontal bars with the label on the left and the value on the right
+ */
+export function renderBarChart(bars: Bar[]): string {
+  const max = Math.max(...bars.map((bar) => bar.value), 1);
+  const rows = bars.map((bar) => {
+    const width = Math.max(1, Math.round((bar.value / max) * 100));
+    return `<div class="row"><span class="label" title="${escapeHtml(bar.label)}">${escapeHtml(bar.label)}</span><div class="track"><div class="bar${bar.failed ? " failed" : ""}" style="width: ${width}%"></div></div><span class="value">${escapeHtml(bar.text)}</span></div>`;
+  });
+  return `<div class="rows">${rows.join("")}</div>`;
+}
+
+export function renderSection(title: string, content: string | undefined, empty: string): string {
+  return `<section><h2>${escapeHtml(title)}</h2>${content ?? `<p class="empty">${escapeHtml(empty)}</p>`}</section>`;
+}
+
+export function renderCards(cards: [label: string, value: string][]): string {
+  const items = cards.map(
+    ([label, value]) =>
+      `<div class="card"><span>${escapeHtml(label)}</span><strong>${escapeHtml(value)}</strong></div>`,
+  );
+  return `<div class="cards">${items.join("")}</div>`;
+}
+
+/**
+ * Buttons post `{ command, format }` to the panel
+ */
+export function renderToolbar(buttons: ToolbarButton[]): string {
+  const items = buttons.map((button) => {
+    const format = button.format ? ` data-format="${escapeHtml(button.format)}"` : "";
+    const className = button.secondary ? ' class="secondary"' : "";
+    return `<button${className} data-command="${escapeHtml(button.command)}"${format}>${escapeHtml(button.label)}</button>`;
+  });
+  return `<div class="toolbar">${items.join("")}</div>`;
+}
+
+export function renderWebviewDocument(options: {
+  title: string;
+  body: string;
+  cspSource: string;
+  nonce: string;
+}): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${options.cspSource} 'unsafe-inline'; script-src 'nonce-${options.nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(options.title)}</title>
+<style>
+  body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); padding: 0 16px 16px; }
+  h2 { font-size: 1.1em; margin: 24px 0 8px; }
+  .toolbar { display: flex; gap: 8px; margin: 16px 0; }
+  button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; cursor: pointer; }
+  button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+  .cards { display: flex; gap: 12px; }
+  .card { border: 1px solid var(--vscode-panel-border); padding: 8px 16px; display: flex; flex-direction: column; }
+  .card strong { font-size: 1.6em; }
+  .columns { display: flex; align-items: flex-end; gap: 4px; height: 160px; }
+  .column { flex: 1; display: flex; flex-direction: column; justify-content: flex-end; align-items: center; height: 100%; min-width: 0; }
+  .column span { font-size: 0.75em; opacity: 0.7; }
+  .column .bar { width: 100%; }
+  .bar { background: var(--vscode-charts-blue); }
+  .bar.failed { background: var(--vscode-charts-red); }
+  .row { display: flex; align-items: center; gap: 8px; margin: 4px 0; }
+  .row .label { width: 35%; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .row .track { flex: 1; }
+  .row .bar { height: 12px; }
+  .row .value { width: 30%; font-size: 0.9em; opacity: 0.8; }
+  .empty { opacity: 0.7; }
+</style>
+</head>
+<body>
+${options.body}
+<script nonce="${options.nonce}">
+  const vscode = acquireVsCodeApi();
+  for (const button of document.querySelectorAll("button")) {
+    button.addEventListener("click", () => {
+      vscode.postMessage({ command: button.dataset.command, format: button.dataset.format });
+    });
+  }
+</script>
+</body>
+</html>`;
+}
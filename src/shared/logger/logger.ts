@@ -1,3 +1,4 @@
+import events from "node:events";
 import * as vscode from "vscode";
 import { ExtensionError } from "../errors/errors.js";
 
@@ -15,6 +16,11 @@ enum LogLevel {
   error = 3,
 }
 
+type IEventMap = {
+  logged: [];
+};
+type IEventKey = keyof IEventMap;
+
 interface Message {
   message: string;
   level: LogLevel;
@@ -30,6 +36,7 @@ export class Logger {
   private outputChannel: vscode.OutputChannel;
   private messages: Message[];
   private maxMessages: number;
+  private emitter = new events.EventEmitter<IEventMap>();
 
   // Log level is global for all loggers in the extension
   static level: LogLevel = LogLevel.info;
@@ -115,6 +122,15 @@ export class Logger {
     if (this.messages.length >= this.maxMessages) {
       this.messages.shift();
     }
+    this.emitter.emit("logged");
+  }
+
+  on<K extends IEventKey>(event: K, listener: (...args: IEventMap[K]) => void): void {
+    this.emitter.on(event, listener as any);
+  }
+
+  off<K extends IEventKey>(event: K, listener: (...args: IEventMap[K]) => void): void {
+    this.emitter.off(event, listener as any);
   }
 
   private getNow() {
@@ -0,0 +1,203 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { BazelQueryTarget, BazelRuleInfo, BazelTargetCategory } from "../../domain/entities/bazel/types.js";
+import { BazelParser } from "../../infrastructure/bazel/bazel-parser.js";
+import { queryDeps, queryOwningTargets, queryRdeps, queryTargetInfo } from "../../infrastructure/bazel/bazel-query.js";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  createPageToolResult,
+  paginate,
+} from "../../infrastructure/mcp/tool-results.js";
+import type { ExtensionContext } from "../../infrastructure/vscode/extension-context.js";
+import { commonLogger } from "../logger/logger.js";
+
+export type BazelQueryToolExtra = {
+  extensionContext: ExtensionContext;
+};
+
+const paginationShape = {
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Index of the first result to return. Use 'nextOffset' of the previous page to continue."),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .describe(`Maximum number of results to return (default ${DEFAULT_PAGE_SIZE}).`),
+};
+
+const labelSchema = z.string().min(1).describe("Bazel target label, e.g. '//Libs/Core:Core'.");
+
+const depthSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(100)
+  .optional()
+  .describe("How many levels to follow (default 1, direct edges only).");
+
+export const listTargetsSchema = z.object({
+  category: z
+    .enum(["runnable", "test", "buildable"])
+    .optional()
+    .describe("Only list apps and extensions (runnable), tests (test) or libraries (buildable)."),
+  package: z
+    .string()
+    .optional()
+    .describe("Only list targets of a package, e.g. '//Libs/Core', or below it with '//Libs/...'."),
+  query: z.string().optional().describe("Only list targets whose label contains this text (case insensitive)."),
+  ...paginationShape,
+});
+
+export const targetDepsSchema = z.object({ label: labelSchema, depth: depthSchema, ...paginationShape });
+
+export const targetRdepsSchema = z.object({ label: labelSchema, depth: depthSchema, ...paginationShape });
+
+export const owningTargetsSchema = z.object({
+  path: z.string().min(1).describe("Source file path, absolute or relative to the workspace root."),
+  ...paginationShape,
+});
+
+export const targetInfoSchema = z.object({ label: labelSchema });
+
+export type ListTargetsArgs = z.infer<typeof listTargetsSchema>;
+export type TargetDepsArgs = z.infer<typeof targetDepsSchema>;
+export type TargetRdepsArgs = z.infer<typeof targetRdepsSchema>;
+export type OwningTargetsArgs = z.infer<typeof owningTargetsSchema>;
+export type TargetInfoArgs = z.infer<typeof targetInfoSchema>;
+
+const TARGET_CATEGORIES: (keyof BazelTargetCategory)[] = ["runnable", "test", "buildable"];
+const MAX_LISTED_VALUES = 50;
+
+function createErrorResult(toolName: string, error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  commonLogger.error(`MCP: ${toolName} failed`, { error });
+  return { content: [{ type: "text", text: `${toolName} failed: ${message}` }], isError: true };
+}
+
+const formatQueryTarget = (target: BazelQueryTarget) => `${target.target} (${target.type})`;
+
+/**
+ * "//Libs/Core" matches only that package, "//Libs/..." matches it and everything below it
+ */
+export function matchesPackage(label: string, pattern: string): boolean {
+  const labelPackage = label.replace(/^\/\//, "").split(":")[0];
+  const normalized = pattern.trim().replace(/^\/\//, "").replace(/:.*$/, "").replace(/\/$/, "");
+
+  if (normalized === "...") {
+    return true;
+  }
+  if (normalized.endsWith("/...")) {
+    const prefix = normalized.slice(0, -"/...".length);
+    return labelPackage === prefix || labelPackage.startsWith(`${prefix}/`);
+  }
+  return labelPackage === normalized;
+}
+
+export async function listTargetsImplementation(
+  args: ListTargetsArgs,
+  extra: BazelQueryToolExtra,
+  _frameworkExtra: RequestHandlerExtra<any, any>,
+): Promise<CallToolResult> {
+  const queryResult = extra.extensionContext.buildManager.getQueryResult();
+  if (!queryResult) {
+    return createErrorResult("list_targets", "Bazel targets are not loaded yet. Refresh the BAZEL TARGETS view.");
+  }
+
+  const query = args.query?.toLowerCase();
+  const categories = args.category ? [args.category] : TARGET_CATEGORIES;
+  const targets = categories
+    .flatMap((category) => BazelParser.getAllTargets(queryResult.tree, category).map((label) => ({ label, category })))
+    .filter((target) => !args.package || matchesPackage(target.label, args.package))
+    .filter((target) => !query || target.label.toLowerCase().includes(query))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  return createPageToolResult(
+    "Bazel targets",
+    paginate(targets, args),
+    (target) => `${target.label} (${target.category})`,
+  );
+}
+
+export async function targetDepsImplementation(
+  args: TargetDepsArgs,
+  _extra: BazelQueryToolExtra,
+  _frameworkExtra: RequestHandlerExtra<any, any>,
+): Promise<CallToolResult> {
+  try {
+    const deps = await queryDeps(args.label, { depth: args.depth });
+    return createPageToolResult(`Dependencies of ${args.label}`, paginate(deps, args), formatQueryTarget);
+  } catch (error) {
+    return createErrorResult("target_deps", error);
+  }
+}
+
+export async function targetRdepsImplementation(
+  args: TargetRdepsArgs,
+  _extra: BazelQueryToolExtra,
+  _frameworkExtra: RequestHandlerExtra<any, any>,
+): Promise<CallToolResult> {
+  try {
+    const rdeps = await queryRdeps(args.label, { depth: args.depth });
+    return createPageToolResult(`Targets depending on ${args.label}`, paginate(rdeps, args), formatQueryTarget);
+  } catch (error) {
+    return createErrorResult("target_rdeps", error);
+  }
+}
+
+export async function owningTargetsImplementation(
+  args: OwningTargetsArgs,
+  _extra: BazelQueryToolExtra,
+  _frameworkExtra: RequestHandlerExtra<any, any>,
+): Promise<CallToolResult> {
+  try {
+    const owners = await queryOwningTargets(args.path);
+    return createPageToolResult(`Targets owning ${args.path}`, paginate(owners, args), formatQueryTarget);
+  } catch (error) {
+    return createErrorResult("owning_targets_for_file", error);
+  }
+}
+
+/**
+ * Text summary of a rule, long lists (e.g. srcs of a big module) are cut, the structured content has all of them
+ */
+export function formatRuleInfo(rule: BazelRuleInfo): string {
+  const lines = [`${rule.label} (${rule.kind})`];
+  if (rule.location) {
+    lines.push(`Location: ${rule.location}`);
+  }
+  for (const [name, value] of Object.entries(rule.attributes)) {
+    if (name === "name") continue;
+    if (!Array.isArray(value)) {
+      lines.push(`${name}: ${value}`);
+      continue;
+    }
+    const more = value.length > MAX_LISTED_VALUES ? `, ... ${value.length - MAX_LISTED_VALUES} more` : "";
+    lines.push(`${name} (${value.length}): ${value.slice(0, MAX_LISTED_VALUES).join(", ")}${more}`);
+  }
+  return lines.join("\n");
+}
+
+export async function targetInfoImplementation(
+  args: TargetInfoArgs,
+  _extra: BazelQueryToolExtra,
+  _frameworkExtra: RequestHandlerExtra<any, any>,
+): Promise<CallToolResult> {
+  try {
+    const rule = await queryTargetInfo(args.label);
+    const srcs = rule.attributes.srcs;
+    return {
+      content: [{ type: "text", text: formatRuleInfo(rule) }],
+      structuredContent: { ...rule, srcs: Array.isArray(srcs) ? srcs : [] },
+    };
+  } catch (error) {
+    return createErrorResult("target_info", error);
+  }
+}
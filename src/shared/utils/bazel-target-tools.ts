@@ -0,0 +1,100 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { BazelCommandOptions } from "../../application/use-cases/bazel/bazel-commands.use-case.js";
+import { createInvocationToolResult } from "../../infrastructure/mcp/tool-results.js";
+import type { ExtensionContext } from "../../infrastructure/vscode/extension-context.js";
+import { commonLogger } from "../logger/logger.js";
+import { getWorkspacePath } from "./bazel-utils.js";
+
+export type BazelTargetToolExtra = {
+  extensionContext: ExtensionContext;
+};
+
+const labelSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    "Bazel target label, e.g. '//Apps/MyApp:MyApp'. If omitted, the target selected in the BAZEL TARGETS view is used.",
+  );
+
+const destinationIdSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe(
+    "Simulator or device UDID to build for. If omitted, the selected destination is used; the call fails when none is selected.",
+  );
+
+const buildModeSchema = z
+  .enum(["debug", "release", "release-with-symbols"])
+  .optional()
+  .describe(
+    "Build mode. If omitted, the 'bazelbsp.bazel.buildMode' setting or the last used mode is used; the call fails when there is none.",
+  );
+
+const extraFlagsSchema = z
+  .array(z.string().startsWith("-", "Extra flags must start with '-'"))
+  .optional()
+  .describe("Additional bazel flags appended after the configured ones, e.g. ['--config=ci', '--verbose_failures'].");
+
+export const bazelBuildSchema = z.object({
+  label: labelSchema,
+  destinationId: destinationIdSchema,
+  buildMode: buildModeSchema,
+  extraFlags: extraFlagsSchema,
+});
+
+export const bazelTestSchema = z.object({
+  label: labelSchema,
+  testFilter: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only run matching test cases (passed as --test_filter), e.g. 'LoginTests/testValidPassword'."),
+  extraFlags: extraFlagsSchema,
+});
+
+export const bazelRunSchema = z.object({
+  label: labelSchema,
+  destinationId: destinationIdSchema,
+  buildMode: buildModeSchema.describe(
+    "Build mode. Defaults to 'debug', which is required for breakpoints; other modes still launch the app.",
+  ),
+  extraFlags: extraFlagsSchema,
+});
+
+export type BazelTargetToolArgs = BazelCommandOptions;
+
+/**
+ * Run a build/test/run command for the given target without changing the user's selection
+ */
+export async function bazelTargetToolImplementation(
+  commandId: string,
+  args: BazelTargetToolArgs,
+  extra: BazelTargetToolExtra,
+  _frameworkExtra: RequestHandlerExtra<any, any>,
+): Promise<CallToolResult> {
+  const { extensionContext } = extra;
+
+  commonLogger.log(`🚀 MCP: Starting command ${commandId}`, { args });
+
+  try {
+    // The first argument is the tree item, commands resolve the label from the options instead
+    // Nobody is there to answer a quick pick, a missing destination or build mode fails the call
+    const result = await extensionContext.invokeCommand(commandId, [undefined, { ...args, nonInteractive: true }]);
+    commonLogger.log(`🎯 MCP: Command ${commandId} finished`, {
+      invocationId: result.id,
+      status: result.status,
+      durationMillis: result.durationMillis,
+    });
+    return createInvocationToolResult(result, getWorkspacePath());
+  } catch (execError: any) {
+    commonLogger.error(`Error initiating command ${commandId}`, { execError });
+    return {
+      content: [{ type: "text", text: `Error initiating ${commandId}: ${execError.message}` }],
+      isError: true,
+    };
+  }
+}
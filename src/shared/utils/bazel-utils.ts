@@ -8,6 +8,7 @@ import type { ExtensionContext } from "../../infrastructure/vscode/extension-con
 import type { DestinationPlatform } from "../constants/destination-constants";
 import { ExtensionError } from "../errors/errors.js";
 import { commonLogger } from "../logger/logger.js";
+import { getActiveBazelWorkspace, getBazelWorkspaceRoots } from "../utils/bazel-workspaces.js";
 import { getWorkspaceConfig } from "../utils/config.js";
 import { splitSupportedDestinatinos } from "../utils/destination-utils.js";
 import { createDirectory, findFilesRecursive, removeDirectory } from "../utils/files.js";
@@ -162,10 +163,19 @@ export async function getDestinationById(
 }
 
 /**
- * Get the path of the current workspace
+ * Get the path of the active Bazel workspace, commands run there
+ * In a multi-root window it follows the selected target, otherwise it is the workspace folder
  * @throws {ExtensionError} If no workspace is open
  */
 export function getWorkspacePath(): string {
+  return getActiveBazelWorkspace() ?? getWorkspaceFolderPath();
+}
+
+/**
+ * Get the path of the first workspace folder, for state that belongs to the window rather than a Bazel workspace
+ * @throws {ExtensionError} If no workspace is open
+ */
+export function getWorkspaceFolderPath(): string {
   try {
     if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
       throw new ExtensionError("No workspace folder found. Please open a folder or workspace first.");
@@ -251,22 +261,25 @@ export function getCurrentBazelWorkspacePath(context: ExtensionContext): string
 }
 
 /**
- * Detect Bazel workspace paths in the given directory
+ * Detect Bazel package paths in all Bazel workspaces of the window
  */
 export async function detectBazelWorkspacesPaths(): Promise<string[]> {
-  const workspace = getWorkspacePath();
-
-  // Look for BUILD.bazel files for Bazel projects
-  const bazelBuildPaths = await findFilesRecursive({
-    directory: workspace,
-    depth: 4,
-    maxResults: 50, // Limit Bazel files to prevent performance issues
-    matcher: (file) => {
-      return file.name === "BUILD.bazel" || file.name === "BUILD";
-    },
-  });
+  const bazelBuildPaths: string[] = [];
+
+  for (const workspace of getBazelWorkspaceRoots()) {
+    // Look for BUILD.bazel files for Bazel projects
+    const paths = await findFilesRecursive({
+      directory: workspace,
+      depth: 4,
+      maxResults: 50, // Limit Bazel files to prevent performance issues
+      matcher: (file) => {
+        return file.name === "BUILD.bazel" || file.name === "BUILD";
+      },
+    });
+    bazelBuildPaths.push(...paths);
+  }
 
-  return bazelBuildPaths;
+  return [...new Set(bazelBuildPaths)];
 }
 
 export async function restartSwiftLSP() {
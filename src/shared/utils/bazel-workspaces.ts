@@ -0,0 +1,103 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { commonLogger } from "../logger/logger.js";
+import { findFilesRecursive } from "./files.js";
+
+/**
+ * Bazel workspaces of the window
+ *
+ * Every workspace folder can be a Bazel workspace and can contain nested ones (a directory with its own
+ * MODULE.bazel or WORKSPACE). Commands run in the active Bazel workspace, which follows the selected target.
+ */
+
+const WORKSPACE_MARKERS = ["MODULE.bazel", "WORKSPACE.bazel", "WORKSPACE"];
+
+// Nested workspaces are usually examples or tools next to the main one, deeper ones are vendored sources
+const NESTED_WORKSPACE_DEPTH = 3;
+const MAX_NESTED_WORKSPACES = 20;
+
+let bazelWorkspaceRoots: string[] = [];
+let activeBazelWorkspace: string | undefined;
+
+function getWorkspaceFolderPaths(): string[] {
+  return (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath);
+}
+
+/**
+ * Find the Bazel workspaces of all workspace folders, folders without any marker file are kept as is
+ */
+export async function detectBazelWorkspaceRoots(): Promise<string[]> {
+  const roots: string[] = [];
+
+  for (const folder of getWorkspaceFolderPaths()) {
+    const markers = await findFilesRecursive({
+      directory: folder,
+      depth: NESTED_WORKSPACE_DEPTH,
+      maxResults: MAX_NESTED_WORKSPACES,
+      ignore: ["node_modules", ".git", "external"],
+      matcher: (file) => file.isFile() && WORKSPACE_MARKERS.includes(file.name),
+    });
+
+    const folderRoots = new Set(markers.map((marker) => path.dirname(marker)));
+    if (folderRoots.size === 0) {
+      // Not a Bazel workspace, keep the folder so target discovery reports why
+      folderRoots.add(folder);
+    }
+    roots.push(...[...folderRoots].sort());
+  }
+
+  commonLogger.log("Detected Bazel workspaces", { roots });
+  return [...new Set(roots)];
+}
+
+export function setBazelWorkspaceRoots(roots: string[]): void {
+  bazelWorkspaceRoots = roots;
+}
+
+/**
+ * Known Bazel workspaces, the workspace folders until detection finished
+ */
+export function getBazelWorkspaceRoots(): string[] {
+  return bazelWorkspaceRoots.length > 0 ? bazelWorkspaceRoots : getWorkspaceFolderPaths();
+}
+
+export function setActiveBazelWorkspace(root: string | undefined): void {
+  activeBazelWorkspace = root;
+}
+
+export function getActiveBazelWorkspace(): string | undefined {
+  return activeBazelWorkspace;
+}
+
+/**
+ * Innermost known Bazel workspace containing the given path
+ */
+export function findBazelWorkspaceRoot(
+  filePath: string,
+  roots: string[] = getBazelWorkspaceRoots(),
+): string | undefined {
+  let match: string | undefined;
+  for (const root of roots) {
+    const relative = path.relative(root, filePath);
+    const isInside = relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+    if (isInside && (!match || root.length > match.length)) {
+      match = root;
+    }
+  }
+  return match;
+}
+
+/**
+ * Short name of a Bazel workspace: the folder name, or the path from its workspace folder when nested
+ */
+export function getBazelWorkspaceName(root: string): string {
+  const folder = vscode.workspace.workspaceFolders?.find((folder) => {
+    const relative = path.relative(folder.uri.fsPath, root);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+  });
+  if (!folder) {
+    return path.basename(root);
+  }
+  const relative = path.relative(folder.uri.fsPath, root);
+  return relative ? `${folder.name}/${relative.split(path.sep).join("/")}` : folder.name;
+}
@@ -1,5 +1,6 @@
 import type {
   BazelPackageInfo,
+  BazelQueryResult,
   BazelScheme,
   BazelTarget,
   BazelXcodeConfiguration,
@@ -29,6 +30,9 @@ export interface CacheData {
   // Discovery cache
   discoveredBazelPaths: string[];
 
+  // Discovered targets per Bazel workspace root, shown while discovery runs again
+  queryResults: Record<string, BazelQueryResult>;
+
   // Cache metadata
   version: string;
   createdAt: number;
@@ -38,7 +42,7 @@ export interface CacheData {
 class CacheManager {
   private data: CacheData;
   private context?: ExtensionContext;
-  private readonly CACHE_VERSION = "2.0.0"; // Bumped to invalidate old Xcode caches
+  private readonly CACHE_VERSION = "2.1.0"; // Bumped for the cached query results
 
   constructor() {
     this.data = this.initializeEmptyCache();
@@ -48,6 +52,7 @@ class CacheManager {
     return {
       bazelWorkspaces: {},
       discoveredBazelPaths: [],
+      queryResults: {},
       version: this.CACHE_VERSION,
       createdAt: Date.now(),
     };
@@ -143,6 +148,21 @@ class CacheManager {
     return this.data.discoveredBazelPaths;
   }
 
+  /**
+   * Cache the discovered targets of a Bazel workspace
+   */
+  async cacheQueryResult(workspacePath: string, result: BazelQueryResult): Promise<void> {
+    this.data.queryResults[workspacePath] = result;
+    await this.saveToStorage();
+  }
+
+  /**
+   * Get the cached targets of a Bazel workspace
+   */
+  getQueryResult(workspacePath: string): BazelQueryResult | undefined {
+    return this.data.queryResults[workspacePath];
+  }
+
   /**
    * Clear all cached data
    */
@@ -161,6 +181,7 @@ class CacheManager {
     return {
       bazelWorkspaceCount: Object.keys(this.data.bazelWorkspaces).length,
       discoveredPathsCount: this.data.discoveredBazelPaths.length,
+      queryResultCount: Object.keys(this.data.queryResults).length,
       version: this.data.version,
       createdAt: this.data.createdAt,
       lastCleared: this.data.lastCleared,
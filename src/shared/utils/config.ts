@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import type { BazelBuildProfile, BazelTargetClassification, BspConfig } from "../../domain/entities/bazel/types.js";
 
 type Config = {
   "format.path": string;
@@ -18,7 +19,15 @@ type Config = {
   "build.launchEnv": { [key: string]: string };
   "bazel.buildMode": "debug" | "release" | "release-with-symbols" | "ask";
   "bazel.queryExcludePaths": string[];
+  "bazel.targetDiscovery": "query" | "graphReport";
+  "bazel.graphReportPath": string;
+  "bazel.watchBuildFiles": boolean;
+  "bazel.targetClassification": Record<string, BazelTargetClassification>;
+  "bazel.buildProfiles": Record<string, BazelBuildProfile>;
+  "bazel.traceProfile": boolean;
   "bsp.autoUpdateOnTargetChange": boolean;
+  "bsp.setupRuleKind": string;
+  "bsp.configTemplate": Partial<BspConfig>;
   "system.taskExecutor": "v1" | "v2";
   "system.logLevel": "debug" | "info" | "warn" | "error";
   "system.autoRevealTerminal": boolean;
@@ -27,12 +36,14 @@ type Config = {
   "xcodebuildserver.autogenerate": boolean;
   "testing.configuration": string;
   "testing.framework": "xctest" | "swift-testing" | "auto";
+  "testing.debugProcessName": string;
   "periphery.config": string;
   "periphery.format": string;
   "periphery.quiet": boolean;
   "periphery.runAfterBuild": boolean;
   "periphery.retainPublic": boolean;
   "periphery.retainObjcAccessible": boolean;
+  "mcp.port": number;
 };
 
 type ConfigKey = keyof Config;
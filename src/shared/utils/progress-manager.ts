@@ -13,6 +13,17 @@ export interface ProgressOptions {
   cancellable?: boolean; // Whether the operation can be cancelled
 }
 
+/**
+ * Real progress of the current step reported by the underlying tool (e.g. Bazel's `[N / M]` actions)
+ */
+export interface ActionProgress {
+  completed: number;
+  total: number;
+  running?: number;
+  remainingMillis?: number;
+  slowestAction?: { description: string; elapsedSeconds?: number };
+}
+
 /**
  * Error thrown when an operation is cancelled
  */
@@ -34,6 +45,7 @@ export class ProgressManager {
   private taskName: string;
   private startTime: number;
   private stepStartTime = 0;
+  private stepFraction?: number; // Known completion of the current step (0..1), if reported
   private _cancelled = false;
   private cancellable: boolean;
 
@@ -79,6 +91,7 @@ export class ProgressManager {
 
     this.currentStepIndex++;
     this.stepStartTime = Date.now();
+    this.stepFraction = undefined;
 
     const step = this.steps[this.currentStepIndex];
     if (!step) {
@@ -125,6 +138,40 @@ export class ProgressManager {
     this.context.updateProgressStatus(progressText, this.cancellable);
   }
 
+  /**
+   * Update current step with the real number of completed actions
+   * Percentage never goes backwards even if the total grows as new actions are discovered
+   * @throws {OperationCancelledError} if the operation has been cancelled
+   */
+  updateActionProgress(actionProgress: ActionProgress): void {
+    this.throwIfCancelled();
+
+    if (this.currentStepIndex < 0 || this.currentStepIndex >= this.steps.length) {
+      return;
+    }
+
+    const { completed, total, running, remainingMillis, slowestAction } = actionProgress;
+    if (total > 0) {
+      this.stepFraction = Math.max(this.stepFraction ?? 0, Math.min(1, completed / total));
+    }
+
+    const parts = [`${completed.toLocaleString("en-US")}/${total.toLocaleString("en-US")} actions`];
+    if (running) {
+      parts.push(`${running} running`);
+    }
+    if (remainingMillis !== undefined) {
+      parts.push(`~${formatDuration(remainingMillis)} left`);
+    }
+
+    const step = this.steps[this.currentStepIndex];
+    const progressText = this.formatProgressText(`${step.name}: ${parts.join(", ")}`, this.calculateProgress());
+    const details = slowestAction
+      ? `Slowest action: ${slowestAction.description}${slowestAction.elapsedSeconds !== undefined ? ` (${slowestAction.elapsedSeconds}s)` : ""}`
+      : undefined;
+
+    this.context.updateProgressStatus(progressText, this.cancellable, details);
+  }
+
   /**
    * Mark current step as complete and update status
    */
@@ -171,9 +218,9 @@ export class ProgressManager {
       completedWeight += this.steps[i].weight || 1;
     }
 
-    // Add 50% of current step weight (assuming we're midway through it)
+    // Add the reported fraction of the current step, or 50% of its weight (assuming we're midway through it)
     if (this.currentStepIndex >= 0 && this.currentStepIndex < this.steps.length) {
-      completedWeight += (this.steps[this.currentStepIndex].weight || 1) * 0.5;
+      completedWeight += (this.steps[this.currentStepIndex].weight || 1) * (this.stepFraction ?? 0.5);
     }
 
     return Math.min(100, (completedWeight / totalWeight) * 100);
@@ -255,15 +302,23 @@ export class ProgressManager {
   }
 }
 
+/**
+ * Format milliseconds as "45s" or "2m 05s"
+ */
+function formatDuration(millis: number): string {
+  const totalSeconds = Math.max(1, Math.round(millis / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds.toString().padStart(2, "0")}s` : `${seconds}s`;
+}
+
 /**
  * Predefined progress steps for common operations
  */
 export const ProgressSteps = {
   BUILD: [
-    { name: "Resolving dependencies", weight: 1 },
-    { name: "Compiling sources", weight: 3 },
-    { name: "Linking binaries", weight: 2 },
-    { name: "Code signing", weight: 1 },
+    { name: "Analyzing targets", weight: 1 },
+    { name: "Executing actions", weight: 5 },
     { name: "Finalizing build", weight: 1 },
   ],
 
@@ -284,9 +339,8 @@ export const ProgressSteps = {
   ],
 
   TEST: [
-    { name: "Building test target", weight: 2 },
-    { name: "Preparing test environment", weight: 1 },
-    { name: "Running tests", weight: 4 },
+    { name: "Analyzing targets", weight: 1 },
+    { name: "Building and running tests", weight: 5 },
     { name: "Collecting results", weight: 1 },
   ],
 
@@ -3,6 +3,7 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import { quote } from "shell-quote";
 import * as vscode from "vscode";
+import type { CommandInvocation } from "../../infrastructure/vscode/command-invocation.js";
 import type { ExtensionContext } from "../../infrastructure/vscode/extension-context.js";
 import { TaskError } from "../errors/errors.js";
 import { commonLogger } from "../logger/logger.js";
@@ -42,6 +43,13 @@ class ExecuteTaskError extends Error {
   }
 }
 
+/**
+ * Whether a task callback failed because the user cancelled the command it was running
+ */
+export function isTaskCancelledError(error: unknown): boolean {
+  return error instanceof ExecuteTaskError && error.errorCode === 130;
+}
+
 const TERMINAL_COLOR_MAP: Record<TerminalTextColor, string> = {
   green: "32",
   red: "31",
@@ -127,6 +135,7 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
   private closeEmitter = new vscode.EventEmitter<number>();
   private process: ChildProcess | null = null;
   private _uiLogListenerDisposable: vscode.Disposable | undefined;
+  private _invocationListenerDisposable: vscode.Disposable | undefined;
 
   public context: ExtensionContext;
 
@@ -134,12 +143,18 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
     context: ExtensionContext,
     private options: {
       callback: (terminal: TaskTerminalV2) => Promise<void>;
+      // Invocation of the command that started the task, receives the task output
+      invocation?: CommandInvocation;
     },
   ) {
     this.context = context;
     // --- ADD Listener in Constructor ---
     this._uiLogListenerDisposable = this.setupUiLogListener();
     // -----------------------------------
+    const invocation = options.invocation;
+    if (invocation) {
+      this._invocationListenerDisposable = this.onDidWrite((output) => invocation.appendOutput(output));
+    }
   }
 
   onDidWrite = this.writeEmitter.event;
@@ -365,6 +380,7 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
 
   close(): void {
     this._uiLogListenerDisposable?.dispose();
+    this._invocationListenerDisposable?.dispose();
     this.closeSuccessfully();
   }
 
@@ -400,9 +416,13 @@ export class TaskTerminalV2 implements vscode.Pseudoterminal, TaskTerminal {
         // If task was canceled, change message color to green
         if (errorCode === 130) {
           options.color = "yellow";
+          this.options.invocation?.recordCancelled();
           this.closeTerminal(0, "🫡 Command was cancelled by user", options);
           return;
         }
+        this.options.invocation?.recordError(`${error.message}: ${error.command}`, errorCode);
+      } else {
+        this.options.invocation?.recordError(error instanceof Error ? error.message : String(error));
       }
 
       // Closing the terminal with error information
@@ -446,10 +466,14 @@ export class TaskTerminalV1 implements TaskTerminal {
       source?: string;
       error?: string;
       problemMatchers?: string[];
+      // Invocation of the command that started the task. The output of shell tasks can't be read,
+      // it only receives the executed commands, the written messages and the errors
+      invocation?: CommandInvocation;
     },
   ) {}
 
   write(data: string, _options?: TerminalWriteOptions): void {
+    this.options.invocation?.appendOutput(`${data}\n`);
     this.execute({
       command: "echo",
       args: [data],
@@ -476,6 +500,7 @@ export class TaskTerminalV1 implements TaskTerminal {
 
   async execute(options: CommandOptions): Promise<void> {
     const command = this.commandLine(options);
+    this.options.invocation?.appendOutput(`🚀 Executing command:\n${command}\n\n`);
 
     const task = new vscode.Task(
       { type: "shell" },
@@ -503,6 +528,7 @@ export class TaskTerminalV1 implements TaskTerminal {
               args: args,
               errorCode: e.exitCode,
             });
+            this.options.invocation?.recordError(`${message}: ${command}`, e.exitCode);
             reject(error);
           } else {
             resolve();
@@ -548,7 +574,7 @@ async function runTaskV1(
     callback: (terminal: TaskTerminal) => Promise<void>;
   },
 ): Promise<void> {
-  const terminal = new TaskTerminalV1(context, options);
+  const terminal = new TaskTerminalV1(context, { ...options, invocation: context.getCommandInvocation() });
   await options.callback(terminal);
 }
 
@@ -578,6 +604,7 @@ async function runTaskV2(
   }
 
   const currentScope = context.getExecutionScope();
+  const invocation = context.getCommandInvocation();
   const task = new vscode.Task(
     {
       type: "custom",
@@ -588,6 +615,7 @@ async function runTaskV2(
     options.source ?? "bazelbsp",
     new vscode.CustomExecution(async () => {
       return new TaskTerminalV2(context, {
+        invocation,
         callback: (terminal) => {
           // we propagate current command to the callback because vscode.CustomExecution
           // breaks the context that we use to show progress
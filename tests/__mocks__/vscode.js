@@ -13,6 +13,12 @@ const vscode = {
       update: jest.fn(),
     })),
     onDidChangeConfiguration: jest.fn(),
+    createFileSystemWatcher: jest.fn(() => ({
+      onDidCreate: jest.fn(),
+      onDidChange: jest.fn(),
+      onDidDelete: jest.fn(),
+      dispose: jest.fn(),
+    })),
   },
   window: {
     createOutputChannel: jest.fn(() => ({
@@ -52,8 +58,18 @@ const vscode = {
     registerDebugConfigurationProvider: jest.fn(),
     startDebugging: jest.fn(),
     stopDebugging: jest.fn(),
+    onDidStartDebugSession: jest.fn(() => ({ dispose: jest.fn() })),
     activeDebugSession: null,
   },
+  tests: {
+    createTestController: jest.fn(),
+  },
+  TestRunProfileKind: {
+    Run: 1,
+    Debug: 2,
+    Coverage: 3,
+  },
+  TestMessage: jest.fn((message) => ({ message })),
   Uri: {
     file: jest.fn((path) => ({ fsPath: path })),
     parse: jest.fn((uri) => ({ fsPath: uri })),
@@ -66,6 +82,7 @@ const vscode = {
     fire: jest.fn(),
     dispose: jest.fn(),
   })),
+  RelativePattern: jest.fn(),
   TreeItem: jest.fn(),
   TreeItemCollapsibleState: {
     None: 0,
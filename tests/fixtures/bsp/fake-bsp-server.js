@@ -0,0 +1,130 @@
+// Scripted Build Server Protocol server for the BSP client tests
+// Usage: node fake-bsp-server.js [scenario], scenario is one of:
+//   ok                 answers every request (default)
+//   sources-error      answers buildTarget/sources with an error
+//   no-options         answers textDocument/sourceKitOptions with null
+//   exit-on-initialize exits before answering build/initialize
+//   hang               never answers build/initialize
+// Every received method is written to stderr so tests can check what the client sent.
+
+const scenario = process.argv[2] ?? "ok";
+let rootPath = process.cwd();
+let buffer = Buffer.alloc(0);
+
+function send(message) {
+  const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+  const framed = `Content-Length: ${Buffer.byteLength(body, "utf8")}\r\n\r\n${body}`;
+  // Written in two chunks, the client has to put messages back together
+  const middle = Math.floor(framed.length / 2);
+  process.stdout.write(framed.slice(0, middle));
+  process.stdout.write(framed.slice(middle));
+}
+
+function targets() {
+  return [
+    { id: { uri: "//App:App" }, displayName: "App", languageIds: ["swift"] },
+    { id: { uri: "//Libs/Core:Core" }, displayName: "Core", languageIds: ["swift", "objective-c"] },
+    { id: { uri: "//Libs/Empty:Empty" }, displayName: "Empty", languageIds: ["swift"] },
+  ];
+}
+
+function sources() {
+  const file = (relativePath) => ({ uri: `file://${rootPath}/${relativePath}`, kind: 1, generated: false });
+  return [
+    { target: { uri: "//App:App" }, sources: [file("App/AppDelegate.swift"), file("App/ContentView.swift")] },
+    {
+      target: { uri: "//Libs/Core:Core" },
+      sources: [{ uri: `file://${rootPath}/Libs/Core/Sources/`, kind: 2, generated: false }, file("Libs/Core/Core.m")],
+    },
+    { target: { uri: "//Libs/Empty:Empty" }, sources: [] },
+  ];
+}
+
+function handle(message) {
+  process.stderr.write(`received ${message.method ?? `response ${message.id}`}\n`);
+
+  switch (message.method) {
+    case "build/initialize":
+      if (scenario === "exit-on-initialize") {
+        process.stderr.write("error: unknown option --bazel-wrapper\n");
+        process.exit(64);
+      }
+      if (scenario === "hang") {
+        return;
+      }
+      rootPath = new URL(message.params.rootUri).pathname;
+      // A request from the server, the client has to answer it without getting confused
+      send({ id: "server-1", method: "window/workDoneProgress/create", params: { token: "index" } });
+      send({ method: "build/logMessage", params: { type: 3, message: "Initializing build server" } });
+      send({
+        id: message.id,
+        result: {
+          displayName: "fake-bsp",
+          version: "0.1.0",
+          bspVersion: "2.2.0",
+          capabilities: { languageIds: ["swift"] },
+        },
+      });
+      return;
+    case "workspace/buildTargets":
+      send({ id: message.id, result: { targets: targets() } });
+      return;
+    case "buildTarget/sources":
+      if (scenario === "sources-error") {
+        send({ id: message.id, error: { code: -32603, message: "bazel query failed" } });
+        return;
+      }
+      send({
+        id: message.id,
+        result: { items: sources().filter((item) => message.params.targets.some((t) => t.uri === item.target.uri)) },
+      });
+      return;
+    case "textDocument/sourceKitOptions":
+      if (scenario === "no-options") {
+        send({ id: message.id, result: null });
+        return;
+      }
+      send({
+        id: message.id,
+        result: {
+          compilerArguments: [
+            "-module-name",
+            message.params.target.uri.split(":")[1],
+            "-sdk",
+            "/SDKs/iPhoneSimulator.sdk",
+          ],
+          workingDirectory: `${rootPath}/bazel-out`,
+        },
+      });
+      return;
+    case "build/shutdown":
+      send({ id: message.id, result: null });
+      return;
+    case "build/exit":
+      process.exit(0);
+      return;
+    default:
+      if (message.method && message.id !== undefined) {
+        send({ id: message.id, error: { code: -32601, message: `Unknown method ${message.method}` } });
+      }
+  }
+}
+
+process.stdin.on("data", (chunk) => {
+  buffer = Buffer.concat([buffer, chunk]);
+  for (;;) {
+    const headerEnd = buffer.indexOf("\r\n\r\n");
+    if (headerEnd === -1) {
+      return;
+    }
+    const length = Number(/Content-Length: (\d+)/i.exec(buffer.subarray(0, headerEnd).toString())[1]);
+    const start = headerEnd + 4;
+    if (buffer.length < start + length) {
+      return;
+    }
+    const message = JSON.parse(buffer.subarray(start, start + length).toString("utf8"));
+    buffer = buffer.subarray(start + length);
+    handle(message);
+  }
+});
+process.stdin.on("end", () => process.exit(0));
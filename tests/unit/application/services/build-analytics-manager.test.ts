@@ -0,0 +1,259 @@
+import {
+  BuildAnalyticsManager,
+  buildRecordsToCsv,
+  buildRecordsToJson,
+  compareBuildModes,
+  createBuildAnalyticsReport,
+  getBuildTrend,
+  getFailingTargets,
+  getSlowestTargets,
+} from "../../../../src/application/services/build-analytics-manager.service";
+import type { BazelBuildRecord, BazelBuildSummary } from "../../../../src/domain/entities/bazel/types";
+import { setActiveBazelWorkspace } from "../../../../src/shared/utils/bazel-workspaces";
+import { OperationCancelledError } from "../../../../src/shared/utils/progress-manager";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date(2026, 0, 5, 12).getTime();
+
+function createRecord(record: Partial<BazelBuildRecord> = {}): BazelBuildRecord {
+  return {
+    command: "build",
+    label: "//App:App",
+    buildMode: "debug",
+    timestamp: START,
+    durationMillis: 1000,
+    success: true,
+    ...record,
+  };
+}
+
+function createContext(initial: BazelBuildRecord[] = []) {
+  let records: BazelBuildRecord[] | undefined = initial;
+  const context = {
+    lastBuildSummary: undefined as BazelBuildSummary | undefined,
+    getWorkspaceState: jest.fn(() => records),
+    updateWorkspaceState: jest.fn((_key: string, value: BazelBuildRecord[] | undefined) => {
+      records = value;
+    }),
+  };
+  return context;
+}
+
+describe("getBuildTrend", () => {
+  it("should group records per day and average only successful runs", () => {
+    const trend = getBuildTrend([
+      createRecord({ timestamp: START + DAY, durationMillis: 4000 }),
+      createRecord({ durationMillis: 1000 }),
+      createRecord({ durationMillis: 3000 }),
+      createRecord({ durationMillis: 100, success: false }),
+    ]);
+
+    expect(trend).toEqual([
+      { date: "2026-01-05", runs: 3, failures: 1, averageMillis: 2000 },
+      { date: "2026-01-06", runs: 1, failures: 0, averageMillis: 4000 },
+    ]);
+  });
+});
+
+describe("getSlowestTargets", () => {
+  it("should rank command and target pairs by average duration", () => {
+    const slowest = getSlowestTargets([
+      createRecord({ label: "//Libs/Core:Core", durationMillis: 500 }),
+      createRecord({ durationMillis: 2000, criticalPathMillis: 1500 }),
+      createRecord({ durationMillis: 4000, criticalPathMillis: 2500 }),
+      createRecord({ command: "test", label: "//App:Tests", durationMillis: 1000 }),
+    ]);
+
+    expect(slowest.map((stats) => `${stats.command} ${stats.label}`)).toEqual([
+      "build //App:App",
+      "test //App:Tests",
+      "build //Libs/Core:Core",
+    ]);
+    expect(slowest[0]).toMatchObject({
+      runs: 2,
+      averageMillis: 3000,
+      maxMillis: 4000,
+      averageCriticalPathMillis: 2000,
+    });
+  });
+
+  it("should leave out targets that never succeeded", () => {
+    expect(getSlowestTargets([createRecord({ success: false })])).toEqual([]);
+  });
+});
+
+describe("getFailingTargets", () => {
+  it("should rank targets by failure rate", () => {
+    const failing = getFailingTargets([
+      createRecord({ success: false }),
+      createRecord(),
+      createRecord({ command: "test", label: "//App:Tests", success: false }),
+      createRecord({ label: "//Libs/Core:Core" }),
+    ]);
+
+    expect(failing.map((stats) => [stats.label, stats.failureRate])).toEqual([
+      ["//App:Tests", 1],
+      ["//App:App", 0.5],
+    ]);
+  });
+});
+
+describe("compareBuildModes", () => {
+  it("should compare build modes without test runs", () => {
+    const modes = compareBuildModes([
+      createRecord({ durationMillis: 1000 }),
+      createRecord({ durationMillis: 3000 }),
+      createRecord({ buildMode: "release", durationMillis: 5000 }),
+      createRecord({ buildMode: undefined, command: "run" }),
+      createRecord({ command: "test", buildMode: undefined }),
+    ]);
+
+    expect(modes).toEqual([
+      { mode: "debug", runs: 2, failures: 0, averageMillis: 2000, medianMillis: 2000 },
+      { mode: "release", runs: 1, failures: 0, averageMillis: 5000, medianMillis: 5000 },
+      { mode: "unknown", runs: 1, failures: 0, averageMillis: 1000, medianMillis: 1000 },
+    ]);
+  });
+});
+
+describe("createBuildAnalyticsReport", () => {
+  it("should report an empty store", () => {
+    expect(createBuildAnalyticsReport([])).toMatchObject({ runs: 0, failures: 0, failureRate: 0, averageMillis: 0 });
+  });
+});
+
+describe("buildRecordsToCsv", () => {
+  it("should write a header and escape values", () => {
+    const csv = buildRecordsToCsv([
+      createRecord({ timestamp: Date.UTC(2026, 0, 5), destination: 'iPhone 16, "Pro"', criticalPathMillis: 800 }),
+    ]);
+
+    expect(csv).toBe(
+      "timestamp,command,label,buildMode,destination,durationMillis,success,criticalPathMillis\n" +
+        '2026-01-05T00:00:00.000Z,build,//App:App,debug,"iPhone 16, ""Pro""",1000,true,800\n',
+    );
+  });
+});
+
+describe("buildRecordsToJson", () => {
+  it("should include the summary and the records", () => {
+    const records = [createRecord()];
+    const json = JSON.parse(buildRecordsToJson(records));
+
+    expect(json.records).toEqual(records);
+    expect(json.summary).toMatchObject({ runs: 1, averageMillis: 1000 });
+  });
+});
+
+describe("BuildAnalyticsManager", () => {
+  function createManager(initial: BazelBuildRecord[] = []) {
+    const context = createContext(initial);
+    const manager = new BuildAnalyticsManager();
+    manager.initializeWithContext(context as any);
+    return { manager, context };
+  }
+
+  it("should record successful invocations with the critical path of their build", async () => {
+    const { manager, context } = createManager();
+    const callback = manager.recorded({ command: "build", label: "//App:App", buildMode: "release" }, async () => {
+      context.lastBuildSummary = {
+        targets: [],
+        failedActions: [],
+        tests: [],
+        metrics: {
+          actionsCreated: 1,
+          actionsExecuted: 1,
+          remoteCacheHits: 0,
+          diskCacheHits: 0,
+          actionCacheHits: 0,
+          actionCacheMisses: 1,
+          criticalPathMillis: 750,
+        },
+      };
+    });
+
+    await callback();
+
+    expect(manager.getRecords()).toEqual([
+      expect.objectContaining({ label: "//App:App", buildMode: "release", success: true, criticalPathMillis: 750 }),
+    ]);
+  });
+
+  it("should not take the critical path of an earlier build", async () => {
+    const { manager, context } = createManager();
+    context.lastBuildSummary = { targets: [], failedActions: [], tests: [] };
+
+    await manager.recorded({ command: "run", label: "//App:App" }, async () => {})();
+
+    expect(manager.getRecords()[0].criticalPathMillis).toBeUndefined();
+  });
+
+  it("should record in the Bazel workspace the invocation started in", async () => {
+    const { manager, context } = createManager();
+    setActiveBazelWorkspace("/repos/app");
+
+    await manager.recorded({ command: "build", label: "//App:App" }, async () => {
+      setActiveBazelWorkspace("/repos/tools");
+    })();
+    setActiveBazelWorkspace(undefined);
+
+    expect(context.getWorkspaceState).toHaveBeenCalledWith("bazel.buildAnalytics", "/repos/app");
+    expect(context.updateWorkspaceState).toHaveBeenCalledWith(
+      "bazel.buildAnalytics",
+      [expect.objectContaining({ label: "//App:App" })],
+      "/repos/app",
+    );
+  });
+
+  it("should record failures and rethrow them", async () => {
+    const { manager } = createManager();
+    const callback = manager.recorded({ command: "test", label: "//App:Tests" }, async () => {
+      throw new Error("Tests failed");
+    });
+
+    await expect(callback()).rejects.toThrow("Tests failed");
+    expect(manager.getRecords()).toEqual([expect.objectContaining({ label: "//App:Tests", success: false })]);
+  });
+
+  it("should not record cancelled invocations", async () => {
+    const { manager } = createManager();
+    const callback = manager.recorded({ command: "build", label: "//App:App" }, async () => {
+      throw new OperationCancelledError();
+    });
+
+    await expect(callback()).rejects.toThrow(OperationCancelledError);
+    expect(manager.getRecords()).toEqual([]);
+  });
+
+  it("should keep only the most recent records", () => {
+    const existing = Array.from({ length: 1000 }, (_, index) => createRecord({ timestamp: index }));
+    const { manager } = createManager(existing);
+
+    manager.addRecord(createRecord({ timestamp: 5000 }));
+
+    const records = manager.getRecords();
+    expect(records).toHaveLength(1000);
+    expect(records[0].timestamp).toBe(1);
+    expect(records[records.length - 1].timestamp).toBe(5000);
+  });
+
+  it("should notify listeners when records are cleared", () => {
+    const { manager } = createManager([createRecord()]);
+    const listener = jest.fn();
+    manager.on("updated", listener);
+
+    manager.clear();
+
+    expect(listener).toHaveBeenCalled();
+    expect(manager.getRecords()).toEqual([]);
+  });
+});
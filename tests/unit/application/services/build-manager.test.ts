@@ -2,6 +2,11 @@ import { BuildManager, type SelectedBazelTargetData } from "../../../../src/appl
 import type { ExtensionContext } from "../../../../src/infrastructure/vscode/extension-context";
 import type { BazelTreeItem } from "../../../../src/presentation/tree-providers/export.provider";
 import { commonLogger } from "../../../../src/shared/logger/logger";
+import {
+  getActiveBazelWorkspace,
+  setActiveBazelWorkspace,
+  setBazelWorkspaceRoots,
+} from "../../../../src/shared/utils/bazel-workspaces";
 
 // Mock logger
 jest.mock("../../../../src/shared/logger/logger", () => ({
@@ -13,6 +18,10 @@ jest.mock("../../../../src/shared/logger/logger", () => ({
   },
 }));
 
+jest.mock("../../../../src/shared/utils/bazel-utils", () => ({
+  getWorkspacePath: jest.fn(() => "/workspace"),
+}));
+
 describe("BuildManager", () => {
   let buildManager: BuildManager;
   let mockContext: ExtensionContext;
@@ -450,4 +459,142 @@ describe("BuildManager", () => {
       expect(data).toEqual(savedData);
     });
   });
+
+  describe("resolveBazelTarget", () => {
+    const queryResult = {
+      generated: "2026-01-01T00:00:00.000Z",
+      statistics: { runnable: 1, test: 1, buildable: 0, total: 2 },
+      tree: {
+        Apps: {
+          MyApp: {
+            runnable: ["MyApp"],
+            test: ["MyAppTests"],
+            buildable: [],
+          },
+        },
+      },
+    };
+
+    beforeEach(async () => {
+      await buildManager.initializeWithContext(mockContext);
+    });
+
+    it("should resolve a target without selecting it", () => {
+      buildManager.setTargetsSource({ getQueryResult: () => queryResult });
+
+      const item = buildManager.resolveBazelTarget("//Apps/MyApp:MyAppTests");
+
+      expect(item.target).toEqual({
+        name: "MyAppTests",
+        type: "test",
+        buildLabel: "//Apps/MyApp:MyAppTests",
+        testLabel: "//Apps/MyApp:MyAppTests",
+        deps: [],
+      });
+      expect(item.package.path).toBe("/workspace/Apps/MyApp");
+      expect(item.workspacePath).toBe("/workspace/Apps/MyApp/BUILD.bazel");
+      expect(mockContext.updateWorkspaceState).not.toHaveBeenCalled();
+      expect(buildManager.getSelectedBazelTarget()).toBeUndefined();
+    });
+
+    it("should reject unknown labels with suggestions", () => {
+      buildManager.setTargetsSource({ getQueryResult: () => queryResult });
+
+      expect(() => buildManager.resolveBazelTarget("//Apps/MyApp:MyAppTest")).toThrow(
+        'Unknown Bazel target "//Apps/MyApp:MyAppTest". Did you mean: //Apps/MyApp:MyAppTests, //Apps/MyApp:MyApp?',
+      );
+    });
+
+    it("should throw when targets are not loaded", () => {
+      buildManager.setTargetsSource({ getQueryResult: () => null });
+
+      expect(() => buildManager.resolveBazelTarget("//Apps/MyApp:MyApp")).toThrow("Bazel targets are not loaded yet");
+    });
+  });
+});
+
+describe("BuildManager with multiple Bazel workspaces", () => {
+  let buildManager: BuildManager;
+  let state: Map<string, unknown>;
+
+  function createTarget(name: string, packagePath: string, workspaceRoot?: string): BazelTreeItem {
+    return {
+      target: { name: name, type: "binary", buildLabel: `//App:${name}`, deps: [] },
+      package: { name: "App", path: packagePath, targets: [] },
+      workspacePath: `${packagePath}/BUILD.bazel`,
+      workspaceRoot: workspaceRoot,
+      provider: null as any,
+    } as BazelTreeItem;
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    // Workspace state scoped like ExtensionContext does it
+    state = new Map();
+    const scopedKey = (key: string, root?: string) => `${key}@${root ?? getActiveBazelWorkspace()}`;
+    const mockContext = {
+      getWorkspaceState: jest.fn((key: string, root?: string) => state.get(scopedKey(key, root))),
+      updateWorkspaceState: jest.fn((key: string, value: unknown, root?: string) => {
+        state.set(scopedKey(key, root), value);
+      }),
+    } as any;
+
+    buildManager = new BuildManager();
+    await buildManager.initializeWithContext(mockContext);
+  });
+
+  afterEach(() => {
+    setActiveBazelWorkspace(undefined);
+    setBazelWorkspaceRoots([]);
+  });
+
+  it("should activate the first workspace once workspaces are detected", () => {
+    const listener = jest.fn();
+    buildManager.on("activeWorkspaceUpdated", listener);
+
+    buildManager.setWorkspaceRoots(["/repo", "/repo/examples/demo"]);
+
+    expect(getActiveBazelWorkspace()).toBe("/repo");
+    expect(listener).toHaveBeenCalledWith("/repo");
+  });
+
+  it("should keep one selected target per workspace", () => {
+    buildManager.setWorkspaceRoots(["/repo", "/repo/examples/demo"]);
+    const app = createTarget("App", "/repo/App", "/repo");
+    const demo = createTarget("Demo", "/repo/examples/demo/App", "/repo/examples/demo");
+
+    buildManager.setSelectedBazelTarget(app);
+    buildManager.setSelectedBazelTarget(demo);
+
+    expect(getActiveBazelWorkspace()).toBe("/repo/examples/demo");
+    expect(buildManager.getSelectedBazelTarget()).toBe(demo);
+    expect(buildManager.getSelectedBazelTargetData("/repo")?.targetName).toBe("App");
+
+    buildManager.setActiveWorkspace("/repo");
+
+    expect(buildManager.getSelectedBazelTarget()).toBe(app);
+  });
+
+  it("should find the workspace of targets saved without one", () => {
+    buildManager.setWorkspaceRoots(["/repo", "/repo/examples/demo"]);
+    const listener = jest.fn();
+    buildManager.on("activeWorkspaceUpdated", listener);
+
+    buildManager.setSelectedBazelTarget(createTarget("Demo", "/repo/examples/demo/App"));
+
+    expect(listener).toHaveBeenCalledWith("/repo/examples/demo");
+    expect(state.get("bazel.activeWorkspace@/repo/examples/demo")).toBe("/repo/examples/demo");
+  });
+
+  it("should restore the selection of the saved active workspace", async () => {
+    state.set("bazel.activeWorkspace@undefined", "/repo/examples/demo");
+    state.set("build.selectedBazelTarget@/repo/examples/demo", { targetName: "Demo" });
+
+    const restored = new BuildManager();
+    await restored.initializeWithContext(buildManager.context);
+
+    expect(getActiveBazelWorkspace()).toBe("/repo/examples/demo");
+    expect(restored.getSelectedBazelTargetData()?.targetName).toBe("Demo");
+  });
 });
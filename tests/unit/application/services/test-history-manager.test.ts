@@ -0,0 +1,212 @@
+import {
+  TestHistoryManager,
+  findDurationRegressions,
+  findFailingCases,
+  findFlakyCases,
+  getTestCaseKey,
+} from "../../../../src/application/services/test-history-manager.service";
+import type { BazelTestCaseHistory, BazelTestHistoryRun } from "../../../../src/domain/entities/bazel/types";
+import { exec } from "../../../../src/shared/utils/exec";
+
+jest.mock("../../../../src/shared/utils/exec");
+
+jest.mock("../../../../src/shared/utils/bazel-utils", () => ({
+  getWorkspacePath: jest.fn(() => "/workspace"),
+}));
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function createHistory(runs: Partial<BazelTestHistoryRun>[], name = "testExample"): BazelTestCaseHistory {
+  return {
+    label: "//Tests:UnitTests",
+    className: "UnitTests.ExampleTests",
+    name,
+    runs: runs.map((run, index) => ({ status: "passed", timestamp: index, ...run })),
+  };
+}
+
+function createContext(initial: Record<string, BazelTestCaseHistory> = {}) {
+  let history: Record<string, BazelTestCaseHistory> | undefined = initial;
+  return {
+    getWorkspaceState: jest.fn(() => history),
+    updateWorkspaceState: jest.fn((_key: string, value: Record<string, BazelTestCaseHistory> | undefined) => {
+      history = value;
+    }),
+  } as any;
+}
+
+describe("findFlakyCases", () => {
+  it("should find cases with mixed outcomes for the same commit", () => {
+    const flaky = createHistory([
+      { status: "failed", commit: "abc" },
+      { status: "passed", commit: "abc" },
+    ]);
+    const fixed = createHistory(
+      [
+        { status: "failed", commit: "abc" },
+        { status: "passed", commit: "def" },
+      ],
+      "testFixed",
+    );
+
+    expect(findFlakyCases([flaky, fixed])).toEqual([flaky]);
+  });
+
+  it("should ignore skipped runs", () => {
+    const history = createHistory([
+      { status: "skipped", commit: "abc" },
+      { status: "passed", commit: "abc" },
+    ]);
+
+    expect(findFlakyCases([history])).toEqual([]);
+  });
+});
+
+describe("findDurationRegressions", () => {
+  it("should compare the latest passing run with the median of earlier runs", () => {
+    const history = createHistory([
+      { durationMillis: 100 },
+      { durationMillis: 120 },
+      { durationMillis: 110 },
+      { durationMillis: 400 },
+    ]);
+
+    expect(findDurationRegressions([history])).toEqual([{ history, latestMillis: 400, baselineMillis: 110 }]);
+  });
+
+  it("should ignore small absolute increases and short histories", () => {
+    const fast = createHistory([
+      { durationMillis: 10 },
+      { durationMillis: 12 },
+      { durationMillis: 11 },
+      { durationMillis: 40 },
+    ]);
+    const short = createHistory(
+      [{ durationMillis: 100 }, { durationMillis: 110 }, { durationMillis: 900 }],
+      "testShort",
+    );
+
+    expect(findDurationRegressions([fast, short])).toEqual([]);
+  });
+});
+
+describe("findFailingCases", () => {
+  it("should only return cases whose latest run failed", () => {
+    const failing = createHistory([{ status: "passed" }, { status: "failed" }]);
+    const recovered = createHistory([{ status: "failed" }, { status: "passed" }], "testRecovered");
+
+    expect(findFailingCases([failing, recovered])).toEqual([failing]);
+  });
+});
+
+describe("TestHistoryManager", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should record every attempt with the current commit", async () => {
+    (exec as jest.Mock).mockResolvedValue("abc123\n");
+    const context = createContext();
+    const manager = new TestHistoryManager();
+    manager.initializeWithContext(context);
+    const listener = jest.fn();
+    manager.on("updated", listener);
+
+    await manager.recordRun(
+      "//Tests:UnitTests",
+      [
+        { cases: [{ name: "testExample", className: "UnitTests.ExampleTests", status: "failed", durationMillis: 30 }] },
+        { cases: [{ name: "testExample", className: "UnitTests.ExampleTests", status: "passed", durationMillis: 20 }] },
+      ],
+      { timestamp: 1000 },
+    );
+
+    const key = getTestCaseKey({
+      label: "//Tests:UnitTests",
+      className: "UnitTests.ExampleTests",
+      name: "testExample",
+    });
+    expect(manager.getHistory()).toEqual([
+      {
+        label: "//Tests:UnitTests",
+        className: "UnitTests.ExampleTests",
+        name: "testExample",
+        runs: [
+          { status: "failed", durationMillis: 30, commit: "abc123", timestamp: 1000 },
+          { status: "passed", durationMillis: 20, commit: "abc123", timestamp: 1000 },
+        ],
+      },
+    ]);
+    expect(context.updateWorkspaceState).toHaveBeenCalledWith(
+      "testing.history",
+      expect.objectContaining({ [key]: expect.anything() }),
+      undefined, // The active Bazel workspace
+    );
+    expect(manager.getFlakyCases()).toHaveLength(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should record runs without a commit outside of git repositories", async () => {
+    (exec as jest.Mock).mockRejectedValue(new Error("not a git repository"));
+    const manager = new TestHistoryManager();
+    manager.initializeWithContext(createContext());
+
+    await manager.recordRun("//Tests:UnitTests", [{ cases: [{ name: "testExample", status: "passed" }] }]);
+
+    expect(manager.getHistory()[0].runs[0].commit).toBeUndefined();
+  });
+
+  it("should record in the history of the Bazel workspace the tests ran in", async () => {
+    (exec as jest.Mock).mockResolvedValue("def456\n");
+    const context = createContext();
+    const manager = new TestHistoryManager();
+    manager.initializeWithContext(context);
+
+    await manager.recordRun("//Tests:UnitTests", [{ cases: [{ name: "testExample", status: "passed" }] }], {
+      workspaceRoot: "/repos/tools",
+    });
+
+    expect(exec).toHaveBeenCalledWith(expect.objectContaining({ cwd: "/repos/tools" }));
+    expect(context.getWorkspaceState).toHaveBeenCalledWith("testing.history", "/repos/tools");
+    expect(context.updateWorkspaceState).toHaveBeenCalledWith("testing.history", expect.anything(), "/repos/tools");
+  });
+
+  it("should skip runs without test cases", async () => {
+    const context = createContext();
+    const manager = new TestHistoryManager();
+    manager.initializeWithContext(context);
+
+    await manager.recordRun("//Tests:UnitTests", [{ cases: [] }]);
+
+    expect(context.updateWorkspaceState).not.toHaveBeenCalled();
+    expect(exec).not.toHaveBeenCalled();
+  });
+
+  it("should keep a limited number of runs per case", async () => {
+    const history = createHistory(Array.from({ length: 30 }, () => ({ status: "passed" as const })));
+    const manager = new TestHistoryManager();
+    manager.initializeWithContext(createContext({ [getTestCaseKey(history)]: history }));
+
+    await manager.recordRun(
+      history.label,
+      [{ cases: [{ name: history.name, className: history.className, status: "failed" }] }],
+      { commit: "abc" },
+    );
+
+    const runs = manager.getHistory()[0].runs;
+    expect(runs).toHaveLength(30);
+    expect(runs[runs.length - 1].status).toBe("failed");
+    expect(manager.getFailingCases()).toHaveLength(1);
+  });
+
+  it("should throw when used before initialization", () => {
+    expect(() => new TestHistoryManager().getHistory()).toThrow("TestHistoryManager context is not initialized");
+  });
+});
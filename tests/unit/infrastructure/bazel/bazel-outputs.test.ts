@@ -0,0 +1,158 @@
+import {
+  isAppBundleOutput,
+  parseOutputPaths,
+  queryBuildOutputs,
+  selectAppBundleOutput,
+} from "../../../../src/infrastructure/bazel/bazel-outputs";
+import * as config from "../../../../src/shared/utils/config";
+import { exec } from "../../../../src/shared/utils/exec";
+
+// Mock dependencies
+jest.mock("../../../../src/shared/utils/exec");
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+jest.mock("../../../../src/shared/utils/config");
+jest.mock("../../../../src/shared/utils/files");
+
+describe("bazel outputs", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (config.getWorkspaceConfig as jest.Mock).mockReturnValue(undefined);
+  });
+
+  describe("parseOutputPaths", () => {
+    it("should resolve paths against the execution root", () => {
+      const output = [
+        "bazel-out/ios_sim_arm64-fastbuild-ST-1234/bin/Apps/Foo/Bar.ipa",
+        "",
+        "bazel-out/ios_sim_arm64-fastbuild-ST-1234/bin/Apps/Foo/Bar.app",
+      ].join("\n");
+
+      expect(parseOutputPaths(output, "/private/var/tmp/_bazel/execroot/_main")).toEqual([
+        "/private/var/tmp/_bazel/execroot/_main/bazel-out/ios_sim_arm64-fastbuild-ST-1234/bin/Apps/Foo/Bar.ipa",
+        "/private/var/tmp/_bazel/execroot/_main/bazel-out/ios_sim_arm64-fastbuild-ST-1234/bin/Apps/Foo/Bar.app",
+      ]);
+    });
+
+    it("should keep absolute paths and drop duplicates", () => {
+      const output = "/abs/Bar.app\n/abs/Bar.app\n";
+
+      expect(parseOutputPaths(output, "/execroot")).toEqual(["/abs/Bar.app"]);
+    });
+  });
+
+  describe("selectAppBundleOutput", () => {
+    it("should prefer app bundles over archives", () => {
+      expect(selectAppBundleOutput(["/out/Bar.ipa", "/out/Bar.app"])).toBe("/out/Bar.app");
+    });
+
+    it("should fall back to the first archive", () => {
+      expect(selectAppBundleOutput(["/out/Bar.ipa", "/out/Other.ipa"])).toBe("/out/Bar.ipa");
+    });
+
+    it("should return undefined without candidates", () => {
+      expect(selectAppBundleOutput([])).toBeUndefined();
+    });
+  });
+
+  describe("isAppBundleOutput", () => {
+    it("should only accept .app and .ipa outputs", () => {
+      expect(isAppBundleOutput("/out/Bar.app")).toBe(true);
+      expect(isAppBundleOutput("/out/Bar.ipa")).toBe(true);
+      expect(isAppBundleOutput("/out/Bar.dSYM")).toBe(false);
+      expect(isAppBundleOutput("/out/Bar_linkmap.txt")).toBe(false);
+    });
+  });
+
+  describe("queryBuildOutputs", () => {
+    const bazelItem = {
+      target: { name: "Bar", type: "ios_application", buildLabel: "//Apps/Foo:Bar", testLabel: "", deps: [] },
+      package: { name: "Foo", path: "/workspace/Apps/Foo", targets: [] },
+    } as any;
+    const context = { getWorkspaceState: jest.fn() } as any;
+
+    it("should run cquery with the build platform flags", async () => {
+      (exec as jest.Mock)
+        .mockResolvedValueOnce("bazel-out/sim/bin/Apps/Foo/Bar.ipa\n")
+        .mockResolvedValueOnce("/execroot\n");
+
+      const outputs = await queryBuildOutputs({
+        bazelItem,
+        destination: { type: "iOSSimulator" } as any,
+        buildMode: "release",
+        context,
+      });
+
+      expect(outputs).toEqual(["/execroot/bazel-out/sim/bin/Apps/Foo/Bar.ipa"]);
+      expect(exec).toHaveBeenNthCalledWith(1, {
+        command: "bazel",
+        args: [
+          "cquery",
+          "//Apps/Foo:Bar",
+          "--platforms=@build_bazel_apple_support//platforms:ios_sim_arm64",
+          "--output=starlark",
+          '--starlark:expr="\\n".join([f.path for f in target.files.to_list()])',
+        ],
+        cwd: "/workspace/Apps/Foo",
+        env: undefined,
+      });
+      expect(exec).toHaveBeenNthCalledWith(2, {
+        command: "bazel",
+        args: ["info", "execution_root"],
+        cwd: "/workspace/Apps/Foo",
+        env: undefined,
+      });
+    });
+
+    it("should run cquery with the extra flags of the build", async () => {
+      (exec as jest.Mock).mockResolvedValueOnce("").mockResolvedValueOnce("/execroot");
+
+      await queryBuildOutputs({
+        bazelItem,
+        destination: { type: "iOSSimulator" } as any,
+        buildMode: "debug",
+        extraFlags: ["--config=staging", "--define=env=staging"],
+        context,
+      });
+
+      expect((exec as jest.Mock).mock.calls[0][0].args).toEqual(
+        expect.arrayContaining(["cquery", "--config=staging", "--define=env=staging", "--output=starlark"]),
+      );
+    });
+
+    it("should apply the selected build profile", async () => {
+      context.getWorkspaceState.mockReturnValue("ci");
+      (config.getWorkspaceConfig as jest.Mock).mockImplementation((key: string) =>
+        key === "bazel.buildProfiles"
+          ? { ci: { configs: ["ci"], startupOptions: ["--output_base=/tmp/ci"], env: { CI: "1" } } }
+          : undefined,
+      );
+      (exec as jest.Mock).mockResolvedValueOnce("").mockResolvedValueOnce("/execroot");
+
+      await queryBuildOutputs({
+        bazelItem,
+        destination: { type: "iOSDevice" } as any,
+        buildMode: "release",
+        context,
+      });
+
+      expect(exec).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          args: expect.arrayContaining(["--output_base=/tmp/ci", "--ios_multi_cpus=arm64", "--config=ci"]),
+          env: { CI: "1" },
+        }),
+      );
+      expect(exec).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ args: ["--output_base=/tmp/ci", "info", "execution_root"] }),
+      );
+    });
+  });
+});
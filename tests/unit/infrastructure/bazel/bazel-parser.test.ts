@@ -164,6 +164,92 @@ ios_unit_test rule //Apps/MyApp/Tests:Tests
     });
   });
 
+  describe("rule kind classification", () => {
+    const mockClassification = (classification: unknown) => {
+      (config.getWorkspaceConfig as jest.Mock).mockImplementation((key: string) =>
+        key === "bazel.targetClassification" ? classification : undefined,
+      );
+    };
+
+    afterEach(() => {
+      (config.getWorkspaceConfig as jest.Mock).mockReset();
+    });
+
+    it("should fall back to built-in classification without settings", () => {
+      expect(BazelParser.classifyRuleKind("ios_application")).toBe("runnable");
+      expect(BazelParser.classifyRuleKind("ios_framework")).toBe("ignore");
+      expect(BazelParser.classifyRuleKind("watchos_application")).toBeUndefined();
+    });
+
+    it("should classify configured rule kinds", () => {
+      mockClassification({
+        watchos_application: "runnable",
+        macos_unit_test: "test",
+        apple_static_xcframework: "buildable",
+      });
+
+      const result = (BazelParser as any).parseTargets([
+        "watchos_application rule //Watch:App",
+        "macos_unit_test rule //Mac:Tests",
+        "apple_static_xcframework rule //SDK:Framework",
+      ]);
+
+      expect(result.runnable).toEqual([{ type: "watchos_application", target: "//Watch:App" }]);
+      expect(result.test).toEqual([{ type: "macos_unit_test", target: "//Mac:Tests" }]);
+      expect(result.buildable).toEqual([{ type: "apple_static_xcframework", target: "//SDK:Framework" }]);
+    });
+
+    it("should support regex keys and prefer exact matches", () => {
+      mockClassification({
+        "/_test$/": "test",
+        ios_ui_test: "ignore",
+      });
+
+      const classify = BazelParser.createRuleKindClassifier();
+
+      expect(classify("macos_unit_test")).toBe("test");
+      expect(classify("ios_ui_test")).toBe("ignore");
+    });
+
+    it("should let settings override the built-in table", () => {
+      mockClassification({ swift_library: "ignore", ios_framework: "buildable" });
+
+      expect(BazelParser.classifyRuleKind("swift_library")).toBe("ignore");
+      expect(BazelParser.classifyRuleKind("ios_framework")).toBe("buildable");
+    });
+
+    it("should skip invalid classifications and patterns", () => {
+      mockClassification({ tvos_application: "app", "/(/": "test" });
+
+      expect(BazelParser.classifyRuleKind("tvos_application")).toBeUndefined();
+      expect(commonLogger.warn).toHaveBeenCalledWith("Ignoring invalid target classification", expect.any(Object));
+      expect(commonLogger.warn).toHaveBeenCalledWith(
+        "Ignoring invalid target classification pattern",
+        expect.any(Object),
+      );
+    });
+
+    it("should warn about unclassified rule kinds", () => {
+      (BazelParser as any).parseTargets([
+        "watchos_application rule //Watch:App",
+        "genrule rule //Gen:A",
+        "genrule rule //Gen:B",
+        "ios_framework rule //Libs:Framework",
+      ]);
+
+      expect(commonLogger.warn).toHaveBeenCalledTimes(1);
+      expect(commonLogger.warn).toHaveBeenCalledWith(expect.stringContaining("genrule, watchos_application"), {
+        ruleKinds: ["genrule", "watchos_application"],
+      });
+    });
+
+    it("should not warn when every rule kind is classified", () => {
+      (BazelParser as any).parseTargets(["ios_application rule //App:App", "ios_framework rule //Libs:Framework"]);
+
+      expect(commonLogger.warn).not.toHaveBeenCalled();
+    });
+  });
+
   describe("buildTree", () => {
     it("should build tree structure from targets", () => {
       const targets = {
@@ -250,6 +336,87 @@ ios_unit_test rule //Apps/MyApp/Tests:Tests
     });
   });
 
+  describe("queryPackageTargets", () => {
+    it("should query only the changed packages", async () => {
+      (config.getWorkspaceConfig as jest.Mock).mockReturnValue([]);
+      (exec as jest.Mock).mockResolvedValue("ios_application rule //Apps/MyApp:App");
+
+      const targets = await BazelParser.queryPackageTargets(["Apps/MyApp", "Libs/Core"], "/workspace");
+
+      expect(exec).toHaveBeenCalledWith({
+        command: "bazel",
+        args: ["query", "//Apps/MyApp:all + //Libs/Core:all", "--output=label_kind"],
+        cwd: "/workspace",
+      });
+      expect(targets.runnable).toEqual([{ type: "ios_application", target: "//Apps/MyApp:App" }]);
+    });
+
+    it("should keep excluded paths excluded", async () => {
+      (config.getWorkspaceConfig as jest.Mock).mockReturnValue(["//Apps/Legacy/..."]);
+      (exec as jest.Mock).mockResolvedValue("");
+
+      await BazelParser.queryPackageTargets(["Apps/Legacy"]);
+
+      expect(exec).toHaveBeenCalledWith(
+        expect.objectContaining({
+          args: ["query", "(//Apps/Legacy:all) except (//Apps/Legacy/...)", "--output=label_kind"],
+        }),
+      );
+    });
+  });
+
+  describe("spliceTargets", () => {
+    const result = {
+      generated: "2024-01-01T00:00:00.000Z",
+      source: "query" as const,
+      statistics: { runnable: 1, test: 1, buildable: 2, total: 4 },
+      tree: (BazelParser as any).buildTree({
+        runnable: [{ type: "ios_application", target: "//Apps/MyApp:App" }],
+        test: [{ type: "ios_unit_test", target: "//Apps/MyApp/Tests:Tests" }],
+        buildable: [
+          { type: "swift_library", target: "//Libs/Core:Core" },
+          { type: "swift_library", target: "//Libs/Network:Network" },
+        ],
+      }),
+    };
+
+    it("should replace the targets of changed packages", () => {
+      const spliced = BazelParser.spliceTargets(result, ["Libs/Core"], {
+        runnable: [],
+        test: [{ type: "swift_test", target: "//Libs/Core:CoreTests" }],
+        buildable: [{ type: "swift_library", target: "//Libs/Core:Core" }],
+      });
+
+      expect((spliced.tree as any).Libs.Core).toEqual({ runnable: [], test: ["CoreTests"], buildable: ["Core"] });
+      expect((spliced.tree as any).Libs.Network.buildable).toEqual(["Network"]);
+      expect(spliced.statistics).toEqual({ runnable: 1, test: 2, buildable: 2, total: 5 });
+    });
+
+    it("should remove deleted packages and the folders left empty", () => {
+      const spliced = BazelParser.spliceTargets(result, ["Apps/MyApp", "Apps/MyApp/Tests"], {
+        runnable: [],
+        test: [],
+        buildable: [],
+      });
+
+      expect(spliced.tree).not.toHaveProperty("Apps");
+      expect(spliced.statistics.total).toBe(2);
+    });
+
+    it("should keep nested packages of a changed package", () => {
+      const spliced = BazelParser.spliceTargets(result, ["Apps/MyApp"], { runnable: [], test: [], buildable: [] });
+
+      expect(Object.keys((spliced.tree as any).Apps.MyApp)).toEqual(["Tests"]);
+      expect((spliced.tree as any).Apps.MyApp.Tests.test).toEqual(["Tests"]);
+    });
+
+    it("should leave the given result untouched", () => {
+      BazelParser.spliceTargets(result, ["Libs/Core"], { runnable: [], test: [], buildable: [] });
+
+      expect((result.tree as any).Libs.Core.buildable).toEqual(["Core"]);
+    });
+  });
+
   describe("getTargetsAtPath", () => {
     const tree = {
       Apps: {
@@ -413,6 +580,45 @@ ios_unit_test rule //Apps/MyApp/Tests:Tests
     });
   });
 
+  describe("getAllTargets", () => {
+    const tree = {
+      Apps: {
+        MyApp: {
+          runnable: ["App"],
+          test: ["AppTests"],
+          buildable: [],
+          Features: {
+            runnable: [],
+            test: ["FeatureTests", "SnapshotTests"],
+            buildable: ["Feature"],
+          },
+        },
+      },
+      Libs: {
+        Core: {
+          runnable: [],
+          test: ["CoreTests"],
+          buildable: ["Core"],
+        },
+      },
+    };
+
+    it("should return full labels for a category across nested packages", () => {
+      const result = BazelParser.getAllTargets(tree, "test");
+
+      expect(result).toEqual([
+        "//Apps/MyApp:AppTests",
+        "//Apps/MyApp/Features:FeatureTests",
+        "//Apps/MyApp/Features:SnapshotTests",
+        "//Libs/Core:CoreTests",
+      ]);
+    });
+
+    it("should return empty array for empty tree", () => {
+      expect(BazelParser.getAllTargets({}, "runnable")).toEqual([]);
+    });
+  });
+
   describe("integration scenarios", () => {
     it("should handle complete bazel query workflow", async () => {
       const mockOutput = `
@@ -703,4 +909,75 @@ ios_unit_test rule //Tests:Tests
       );
     });
   });
+
+  describe("findTarget", () => {
+    const tree = {
+      Apps: {
+        MyApp: {
+          runnable: ["MyApp"],
+          test: ["MyAppTests"],
+          buildable: ["MyAppLib"],
+        },
+      },
+    };
+
+    it("should find a target and its category", () => {
+      expect(BazelParser.findTarget(tree, "//Apps/MyApp:MyAppTests")).toEqual({
+        label: "//Apps/MyApp:MyAppTests",
+        name: "MyAppTests",
+        pathParts: ["Apps", "MyApp"],
+        category: "test",
+      });
+    });
+
+    it("should accept labels without slashes, with a repository prefix or without a name", () => {
+      expect(BazelParser.findTarget(tree, "Apps/MyApp:MyAppLib")?.label).toBe("//Apps/MyApp:MyAppLib");
+      expect(BazelParser.findTarget(tree, "@//Apps/MyApp:MyAppLib")?.label).toBe("//Apps/MyApp:MyAppLib");
+      expect(BazelParser.findTarget(tree, "//Apps/MyApp")?.category).toBe("runnable");
+    });
+
+    it("should return undefined for unknown targets and packages", () => {
+      expect(BazelParser.findTarget(tree, "//Apps/MyApp:Missing")).toBeUndefined();
+      expect(BazelParser.findTarget(tree, "//Apps/Other:MyApp")).toBeUndefined();
+    });
+  });
+
+  describe("suggestTargets", () => {
+    const tree = {
+      Apps: {
+        MyApp: {
+          runnable: ["MyApp"],
+          test: ["MyAppTests"],
+        },
+      },
+      Libs: {
+        Core: {
+          buildable: ["Core"],
+          test: ["CoreTests"],
+        },
+        Network: {
+          buildable: ["Network"],
+        },
+      },
+    };
+
+    it("should rank targets with the same name in another package first", () => {
+      expect(BazelParser.suggestTargets(tree, "//Libs/Network:Core")[0]).toBe("//Libs/Core:Core");
+    });
+
+    it("should suggest labels with typos", () => {
+      expect(BazelParser.suggestTargets(tree, "//Apps/MyApp:MyAppTest")).toEqual([
+        "//Apps/MyApp:MyAppTests",
+        "//Apps/MyApp:MyApp",
+      ]);
+    });
+
+    it("should not suggest unrelated targets", () => {
+      expect(BazelParser.suggestTargets(tree, "//Tools/Lint:swiftlint")).toEqual([]);
+    });
+
+    it("should limit the number of suggestions", () => {
+      expect(BazelParser.suggestTargets(tree, "//Libs/Core:Cor", 1)).toEqual(["//Libs/Core:Core"]);
+    });
+  });
 });
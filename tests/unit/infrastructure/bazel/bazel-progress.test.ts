@@ -0,0 +1,183 @@
+import {
+  BazelProgressReporter,
+  estimateRemainingMillis,
+  getBuildHistoryKey,
+  parseBazelProgressLine,
+  parseBazelProgressOutput,
+  recordBuildDuration,
+} from "../../../../src/infrastructure/bazel/bazel-progress";
+import { setActiveBazelWorkspace } from "../../../../src/shared/utils/bazel-workspaces";
+
+// Mock dependencies
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function createContext(initial: Record<string, number[]> = {}) {
+  let durations: Record<string, number[]> | undefined = initial;
+  return {
+    getWorkspaceState: jest.fn(() => durations),
+    updateWorkspaceState: jest.fn((_key: string, value: Record<string, number[]>) => {
+      durations = value;
+    }),
+  } as any;
+}
+
+describe("parseBazelProgressLine", () => {
+  it("should parse counts, running actions and the slowest action", () => {
+    expect(
+      parseBazelProgressLine(
+        "[1,234 / 5,678] Compiling Swift module //Libs:Core; 12s darwin-sandbox ... (8 actions, 4 running)",
+      ),
+    ).toEqual({
+      completed: 1234,
+      total: 5678,
+      running: 4,
+      slowestAction: { description: "Compiling Swift module //Libs:Core", elapsedSeconds: 12 },
+    });
+  });
+
+  it("should parse the running count without a separate scheduled count", () => {
+    expect(parseBazelProgressLine("[10 / 120] Linking Apps/App; 3s local ... (2 actions running)")).toMatchObject({
+      running: 2,
+      slowestAction: { description: "Linking Apps/App", elapsedSeconds: 3 },
+    });
+  });
+
+  it("should treat a single described action as one running action", () => {
+    expect(parseBazelProgressLine("[Prepa] [5 / 6] Bundling App.app; 1s local")).toEqual({
+      completed: 5,
+      total: 6,
+      running: 1,
+      slowestAction: { description: "Bundling App.app", elapsedSeconds: 1 },
+    });
+    expect(parseBazelProgressLine("[5 / 6] [Sched] Bundling App.app; 0s local")).toMatchObject({
+      slowestAction: { description: "Bundling App.app" },
+    });
+  });
+
+  it("should parse lines without an action description", () => {
+    expect(parseBazelProgressLine("[0 / 12] checking cached actions")).toEqual({ completed: 0, total: 12 });
+    expect(parseBazelProgressLine("[3 / 12] 4 actions running")).toEqual({ completed: 3, total: 12, running: 4 });
+    expect(parseBazelProgressLine("[3 / 12] 4 actions, 2 running")).toEqual({ completed: 3, total: 12, running: 2 });
+  });
+
+  it("should strip ANSI colors", () => {
+    expect(parseBazelProgressLine("\x1b[32m[7 / 9]\x1b[0m 2 actions running")).toEqual({
+      completed: 7,
+      total: 9,
+      running: 2,
+    });
+  });
+
+  it("should ignore other output", () => {
+    expect(parseBazelProgressLine("INFO: Analyzed target //Apps:App (12 packages loaded).")).toBeUndefined();
+    expect(parseBazelProgressLine("")).toBeUndefined();
+  });
+});
+
+describe("parseBazelProgressOutput", () => {
+  it("should return the latest progress line in a chunk", () => {
+    const output = [
+      "INFO: Analyzed target //Apps:App",
+      "[1 / 10] checking cached actions",
+      "\r[4 / 10] Compiling a.swift; 2s local",
+      "INFO: From Compiling a.swift:",
+    ].join("\n");
+
+    expect(parseBazelProgressOutput(output)).toMatchObject({ completed: 4, total: 10 });
+    expect(parseBazelProgressOutput("INFO: Build completed successfully")).toBeUndefined();
+  });
+});
+
+describe("estimateRemainingMillis", () => {
+  it("should use the average of prior durations", () => {
+    expect(estimateRemainingMillis({ priorDurations: [10_000, 20_000], elapsedMillis: 5_000 })).toBe(10_000);
+  });
+
+  it("should extrapolate from completed actions when running slower than usual", () => {
+    expect(estimateRemainingMillis({ priorDurations: [10_000], elapsedMillis: 15_000, fraction: 0.75 })).toBe(5_000);
+  });
+
+  it("should not guess without prior builds", () => {
+    expect(estimateRemainingMillis({ priorDurations: [], elapsedMillis: 5_000, fraction: 0.5 })).toBeUndefined();
+    expect(estimateRemainingMillis({ priorDurations: [1_000], elapsedMillis: 5_000 })).toBeUndefined();
+  });
+});
+
+describe("build duration history", () => {
+  it("should keep separate keys per command and variant", () => {
+    expect(getBuildHistoryKey({ command: "build", label: "//Apps:App", variant: "debug" })).toBe(
+      "build:debug //Apps:App",
+    );
+    expect(getBuildHistoryKey({ command: "test", label: "//Tests:Unit" })).toBe("test //Tests:Unit");
+  });
+
+  it("should keep only the latest durations", () => {
+    const context = createContext({ "build //Apps:App": [1, 2, 3, 4, 5], "build //Other:Lib": [9] });
+
+    recordBuildDuration(context, "build //Apps:App", 6);
+
+    expect(context.updateWorkspaceState).toHaveBeenCalledWith(
+      "bazel.buildDurations",
+      {
+        "build //Apps:App": [2, 3, 4, 5, 6],
+        "build //Other:Lib": [9],
+      },
+      undefined, // The active Bazel workspace
+    );
+  });
+});
+
+describe("BazelProgressReporter", () => {
+  it("should forward action progress with an ETA", () => {
+    const context = createContext({ "build //Apps:App": [60_000] });
+    const progress = { updateActionProgress: jest.fn() } as any;
+    const reporter = new BazelProgressReporter({ context, progress, historyKey: "build //Apps:App" });
+
+    expect(reporter.handleOutput("INFO: Analyzed target //Apps:App")).toBe(false);
+    expect(reporter.handleOutput("[50 / 100] Compiling a.swift; 4s local")).toBe(true);
+
+    const [actionProgress] = progress.updateActionProgress.mock.calls[0];
+    expect(actionProgress).toMatchObject({ completed: 50, total: 100, running: 1 });
+    expect(actionProgress.remainingMillis).toBeGreaterThan(50_000);
+  });
+
+  it("should record durations of successful runs only", () => {
+    const context = createContext();
+    const reporter = new BazelProgressReporter({ context, progress: {} as any, historyKey: "test //Tests:Unit" });
+
+    reporter.finish({ success: false, durationMillis: 1_000, targets: [], failedActions: [], tests: [] });
+    expect(context.updateWorkspaceState).not.toHaveBeenCalled();
+
+    reporter.finish({ success: true, durationMillis: 2_000, targets: [], failedActions: [], tests: [] });
+    expect(context.updateWorkspaceState).toHaveBeenCalledWith(
+      "bazel.buildDurations",
+      { "test //Tests:Unit": [2_000] },
+      undefined, // The active Bazel workspace
+    );
+  });
+
+  it("should read and record durations in the Bazel workspace the build started in", () => {
+    const context = createContext();
+    setActiveBazelWorkspace("/repos/app");
+    const reporter = new BazelProgressReporter({ context, progress: {} as any, historyKey: "build //App:App" });
+    setActiveBazelWorkspace("/repos/tools");
+
+    reporter.finish({ success: true, durationMillis: 2_000, targets: [], failedActions: [], tests: [] });
+    setActiveBazelWorkspace(undefined);
+
+    expect(context.getWorkspaceState).toHaveBeenCalledWith("bazel.buildDurations", "/repos/app");
+    expect(context.updateWorkspaceState).toHaveBeenCalledWith(
+      "bazel.buildDurations",
+      { "build //App:App": [2_000] },
+      "/repos/app",
+    );
+    expect(context.getWorkspaceState).not.toHaveBeenCalledWith("bazel.buildDurations", "/repos/tools");
+  });
+});
@@ -0,0 +1,254 @@
+import {
+  parseLabelKindOutput,
+  parseQueryXml,
+  queryDeps,
+  queryOwningTargets,
+  queryRdeps,
+  queryRulesOfKind,
+  queryTargetInfo,
+} from "../../../../src/infrastructure/bazel/bazel-query";
+import * as config from "../../../../src/shared/utils/config";
+import { exec } from "../../../../src/shared/utils/exec";
+
+jest.mock("../../../../src/shared/utils/exec");
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+jest.mock("../../../../src/shared/utils/config");
+jest.mock("../../../../src/shared/utils/bazel-utils", () => ({
+  getWorkspacePath: jest.fn(() => "/workspace"),
+}));
+
+const QUERY_XML = `<?xml version="1.1" encoding="UTF-8" standalone="no"?>
+<query version="2">
+    <rule class="swift_library" location="/workspace/Libs/Core/BUILD.bazel:3:14" name="//Libs/Core:Core">
+        <string name="name" value="Core"/>
+        <list name="srcs">
+            <label value="//Libs/Core:Sources/Model.swift"/>
+            <label value="//Libs/Core:Sources/Store.swift"/>
+        </list>
+        <list name="deps">
+            <label value="//Libs/Network:Network"/>
+        </list>
+        <string name="module_name" value="Core&amp;Co"/>
+        <boolean name="testonly" value="false"/>
+        <int name="shard_count" value="2"/>
+        <dict name="env">
+            <pair><string value="KEY"/><string value="VALUE"/></pair>
+        </dict>
+        <rule-input name="//Libs/Network:Network"/>
+    </rule>
+</query>`;
+
+describe("bazel query", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (config.getWorkspaceConfig as jest.Mock).mockReturnValue(undefined);
+  });
+
+  describe("parseLabelKindOutput", () => {
+    it("should parse rules and files", () => {
+      const output = [
+        "swift_library rule //Libs/Core:Core",
+        "source file //Libs/Core:Sources/Model.swift",
+        "generated file //Libs/Core:Core.swiftmodule",
+        "",
+        "Loading: 0 packages loaded",
+      ].join("\n");
+
+      expect(parseLabelKindOutput(output)).toEqual([
+        { type: "swift_library", target: "//Libs/Core:Core" },
+        { type: "source file", target: "//Libs/Core:Sources/Model.swift" },
+        { type: "generated file", target: "//Libs/Core:Core.swiftmodule" },
+      ]);
+    });
+  });
+
+  describe("parseQueryXml", () => {
+    it("should parse the rule and its explicitly set attributes", () => {
+      expect(parseQueryXml(QUERY_XML)).toEqual([
+        {
+          label: "//Libs/Core:Core",
+          kind: "swift_library",
+          location: "/workspace/Libs/Core/BUILD.bazel:3:14",
+          attributes: {
+            name: "Core",
+            srcs: ["//Libs/Core:Sources/Model.swift", "//Libs/Core:Sources/Store.swift"],
+            deps: ["//Libs/Network:Network"],
+            module_name: "Core&Co",
+            testonly: false,
+            shard_count: 2,
+          },
+        },
+      ]);
+    });
+
+    it("should return no rules for source files", () => {
+      expect(parseQueryXml('<query version="2"><source-file name="//Libs/Core:A.swift"/></query>')).toEqual([]);
+    });
+  });
+
+  describe("queryDeps", () => {
+    it("should query direct rule dependencies without the target itself", async () => {
+      (exec as jest.Mock).mockResolvedValue(
+        "swift_library rule //Libs/Core:Core\nswift_library rule //Libs/Network:Network\n",
+      );
+
+      const deps = await queryDeps("Libs/Core");
+
+      expect(exec).toHaveBeenCalledWith({
+        command: "bazel",
+        args: ["query", 'kind(rule, deps("//Libs/Core:Core", 1))', "--output=label_kind", "--noimplicit_deps"],
+      });
+      expect(deps).toEqual([{ type: "swift_library", target: "//Libs/Network:Network" }]);
+    });
+
+    it("should keep labels of external repositories", async () => {
+      (exec as jest.Mock).mockResolvedValue("");
+
+      await queryDeps("@swift_argument_parser//:ArgumentParser");
+      await queryDeps("@swift_argument_parser//Sources/ArgumentParser");
+
+      const expressions = (exec as jest.Mock).mock.calls.map(([options]) => options.args[1]);
+      expect(expressions).toEqual([
+        'kind(rule, deps("@swift_argument_parser//:ArgumentParser", 1))',
+        'kind(rule, deps("@swift_argument_parser//Sources/ArgumentParser:ArgumentParser", 1))',
+      ]);
+    });
+
+    it("should not add a target name to wildcards", async () => {
+      (exec as jest.Mock).mockResolvedValue("");
+
+      await queryDeps("//Libs/...");
+      await queryDeps("Libs/Core:all");
+      await queryDeps("//Libs/Core:*");
+
+      const expressions = (exec as jest.Mock).mock.calls.map(([options]) => options.args[1]);
+      expect(expressions).toEqual([
+        'kind(rule, deps("//Libs/...", 1))',
+        'kind(rule, deps("//Libs/Core:all", 1))',
+        'kind(rule, deps("//Libs/Core:*", 1))',
+      ]);
+    });
+
+    it("should reject labels that would change the query expression", async () => {
+      await expect(queryDeps('//Libs/Core:Core" + //...')).rejects.toThrow("Invalid Bazel label");
+      expect(exec).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("queryRdeps", () => {
+    it("should query dependents within the configured universe", async () => {
+      (config.getWorkspaceConfig as jest.Mock).mockReturnValue(["//Vendor/..."]);
+      (exec as jest.Mock).mockResolvedValue("ios_application rule //Apps/MyApp:MyApp\n");
+
+      const rdeps = await queryRdeps("//Libs/Core:Core", { depth: 3 });
+
+      expect(exec).toHaveBeenCalledWith(
+        expect.objectContaining({
+          args: [
+            "query",
+            'kind(rule, rdeps(//... except (//Vendor/...), "//Libs/Core:Core", 3))',
+            "--output=label_kind",
+            "--noimplicit_deps",
+          ],
+        }),
+      );
+      expect(rdeps).toEqual([{ type: "ios_application", target: "//Apps/MyApp:MyApp" }]);
+    });
+
+    it("should wrap bazel errors", async () => {
+      (exec as jest.Mock).mockRejectedValue(new Error("no such target"));
+
+      await expect(queryRdeps("//Libs/Core:Missing")).rejects.toThrow("bazel query failed: no such target");
+    });
+  });
+
+  describe("queryOwningTargets", () => {
+    it("should query rules of the file's package that list it", async () => {
+      (exec as jest.Mock).mockResolvedValue(
+        "source file //Libs/Core:Sources/Model.swift\nswift_library rule //Libs/Core:Core\n",
+      );
+
+      const owners = await queryOwningTargets("/workspace/Libs/Core/Sources/Model.swift");
+
+      expect(exec).toHaveBeenCalledWith({
+        command: "bazel",
+        args: ["query", 'same_pkg_direct_rdeps("Libs/Core/Sources/Model.swift")', "--output=label_kind"],
+      });
+      expect(owners).toEqual([{ type: "swift_library", target: "//Libs/Core:Core" }]);
+    });
+
+    it("should reject files outside of the workspace", async () => {
+      await expect(queryOwningTargets("/tmp/Model.swift")).rejects.toThrow("File is outside of the workspace");
+    });
+  });
+
+  describe("queryTargetInfo", () => {
+    it("should query explicitly set attributes", async () => {
+      (exec as jest.Mock).mockResolvedValue(QUERY_XML);
+
+      const info = await queryTargetInfo("//Libs/Core:Core");
+
+      expect(exec).toHaveBeenCalledWith({
+        command: "bazel",
+        args: ["query", '"//Libs/Core:Core"', "--output=xml", "--noxml:default_values"],
+      });
+      expect(info.kind).toBe("swift_library");
+    });
+
+    it("should throw when the label is not a rule", async () => {
+      (exec as jest.Mock).mockResolvedValue('<query version="2"></query>');
+
+      await expect(queryTargetInfo("//Libs/Core:Sources/Model.swift")).rejects.toThrow("is not a rule");
+    });
+  });
+
+  describe("queryRulesOfKind", () => {
+    it("should query the rules of a kind and the ones depending on the target", async () => {
+      (config.getWorkspaceConfig as jest.Mock).mockReturnValue([]);
+      (exec as jest.Mock)
+        .mockResolvedValueOnce(
+          "setup_sourcekit_bsp rule //:setup_sourcekit_bsp\nsetup_sourcekit_bsp rule //Apps:setup\n",
+        )
+        .mockResolvedValueOnce("setup_sourcekit_bsp rule //Apps:setup\n");
+
+      const rules = await queryRulesOfKind("setup_sourcekit_bsp", { dependingOn: "//Apps/MyApp:App", cwd: "/repo" });
+
+      expect(exec).toHaveBeenNthCalledWith(1, {
+        command: "bazel",
+        args: ["query", 'kind("setup_sourcekit_bsp", //...)', "--output=label_kind"],
+        cwd: "/repo",
+      });
+      expect(exec).toHaveBeenNthCalledWith(2, {
+        command: "bazel",
+        args: ["query", 'kind("setup_sourcekit_bsp", rdeps(//..., "//Apps/MyApp:App", 2))', "--output=label_kind"],
+        cwd: "/repo",
+      });
+      expect(rules).toEqual({
+        labels: ["//:setup_sourcekit_bsp", "//Apps:setup"],
+        dependingOnTarget: ["//Apps:setup"],
+      });
+    });
+
+    it("should skip the dependency query without any rule", async () => {
+      (exec as jest.Mock).mockResolvedValue("");
+
+      expect(await queryRulesOfKind("setup_sourcekit_bsp", { dependingOn: "//Apps/MyApp:App" })).toEqual({
+        labels: [],
+        dependingOnTarget: [],
+      });
+      expect(exec).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject kinds that would change the query expression", async () => {
+      await expect(queryRulesOfKind('x", //...) + kind("y')).rejects.toThrow("Invalid rule kind");
+      expect(exec).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { BepEventProcessor } from "../../../../src/infrastructure/bazel/bep-parser";
+
+// Mock dependencies
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const line = (event: object) => JSON.stringify(event);
+
+describe("BepEventProcessor", () => {
+  let processor: BepEventProcessor;
+
+  beforeEach(() => {
+    processor = new BepEventProcessor();
+  });
+
+  it("should parse started and progress events", () => {
+    expect(
+      processor.processLine(
+        line({ id: { started: {} }, started: { command: "build", startTimeMillis: "1700000000000" } }),
+      ),
+    ).toEqual([{ type: "started", command: "build", startTimeMillis: 1700000000000 }]);
+
+    expect(
+      processor.processLine(
+        line({ id: { progress: { opaqueCount: 1 } }, progress: { stderr: "INFO: Analyzed target //Apps:App" } }),
+      ),
+    ).toEqual([{ type: "progress", stdout: "", stderr: "INFO: Analyzed target //Apps:App" }]);
+  });
+
+  it("should strip the rule suffix from configured targets", () => {
+    const [event] = processor.processLine(
+      line({
+        id: { targetConfigured: { label: "//Apps:App" } },
+        configured: { targetKind: "ios_application rule" },
+      }),
+    );
+
+    expect(event).toEqual({ type: "targetConfigured", label: "//Apps:App", kind: "ios_application" });
+  });
+
+  it("should report failed actions with a local stderr path", () => {
+    const [event] = processor.processLine(
+      line({
+        id: { actionCompleted: { primaryOutput: "bazel-out/bin/Libs/Core.swiftmodule", label: "//Libs:Core" } },
+        action: {
+          success: false,
+          type: "SwiftCompile",
+          exitCode: 1,
+          stderr: { name: "stderr", uri: "file:///tmp/bazel/stderr-12" },
+          failureDetail: { message: "Compiling Swift module //Libs:Core failed" },
+        },
+      }),
+    );
+
+    expect(event).toEqual({
+      type: "actionFailed",
+      label: "//Libs:Core",
+      mnemonic: "SwiftCompile",
+      exitCode: 1,
+      primaryOutput: "bazel-out/bin/Libs/Core.swiftmodule",
+      stderrPath: "/tmp/bazel/stderr-12",
+      message: "Compiling Swift module //Libs:Core failed",
+    });
+    expect(processor.getSummary().failedActions).toHaveLength(1);
+  });
+
+  it("should ignore successful actions", () => {
+    const events = processor.processLine(
+      line({ id: { actionCompleted: { primaryOutput: "out" } }, action: { success: true, type: "Genrule" } }),
+    );
+
+    expect(events).toEqual([]);
+  });
+
+  it("should resolve target outputs through named sets", () => {
+    processor.processLine(
+      line({
+        id: { namedSet: { id: "1" } },
+        namedSetOfFiles: { files: [{ name: "Apps/App.app", uri: "file:///out/Apps/App.app" }] },
+      }),
+    );
+    processor.processLine(
+      line({
+        id: { namedSet: { id: "0" } },
+        namedSetOfFiles: {
+          files: [
+            { name: "Apps/App.ipa", uri: "file:///out/Apps/App.ipa" },
+            { name: "remote", uri: "bytestream://cache/blobs/abc" },
+          ],
+          fileSets: [{ id: "1" }],
+        },
+      }),
+    );
+
+    const [event] = processor.processLine(
+      line({
+        id: { targetCompleted: { label: "//Apps:App" } },
+        completed: {
+          success: true,
+          outputGroup: [
+            { name: "default", fileSets: [{ id: "0" }] },
+            { name: "dsyms", fileSets: [{ id: "2" }] },
+          ],
+        },
+      }),
+    );
+
+    expect(event).toEqual({
+      type: "targetCompleted",
+      label: "//Apps:App",
+      success: true,
+      outputFiles: ["/out/Apps/App.ipa", "/out/Apps/App.app"],
+    });
+  });
+
+  it("should treat aborted targets as failed", () => {
+    const [event] = processor.processLine(
+      line({ id: { targetCompleted: { label: "//Apps:App" } }, aborted: { reason: "SKIPPED" } }),
+    );
+
+    expect(event).toEqual({ type: "targetCompleted", label: "//Apps:App", success: false, outputFiles: [] });
+  });
+
+  it("should parse test results and let the summary override the status", () => {
+    processor.processLine(
+      line({
+        id: { testResult: { label: "//Tests:Unit", run: 1, shard: 1, attempt: 1 } },
+        testResult: {
+          status: "FAILED",
+          testAttemptDurationMillis: "1500",
+          testActionOutput: [
+            { name: "test.log", uri: "file:///testlogs/Tests/Unit/test.log" },
+            { name: "test.xml", uri: "file:///testlogs/Tests/Unit/test.xml" },
+          ],
+        },
+      }),
+    );
+    const [result] = processor.processLine(
+      line({
+        id: { testResult: { label: "//Tests:Unit", run: 1, shard: 1, attempt: 2 } },
+        testResult: { status: "PASSED", testAttemptDuration: "0.5s", cachedLocally: true },
+      }),
+    );
+    processor.processLine(
+      line({
+        id: { testSummary: { label: "//Tests:Unit" } },
+        testSummary: { overallStatus: "FLAKY", totalRunCount: 2, totalRunDurationMillis: "2000" },
+      }),
+    );
+
+    expect(result).toMatchObject({ type: "testResult", status: "PASSED", durationMillis: 500, attempt: 2 });
+    expect(processor.getSummary().tests).toEqual([
+      { label: "//Tests:Unit", status: "FLAKY", durationMillis: 2000, cached: true },
+    ]);
+  });
+
+  it("should expose test log and xml paths", () => {
+    const [event] = processor.processLine(
+      line({
+        id: { testResult: { label: "//Tests:Unit" } },
+        testResult: {
+          status: "PASSED",
+          testActionOutput: [
+            { name: "test.log", uri: "file:///testlogs/test.log" },
+            { name: "test.xml", uri: "file:///testlogs/test.xml" },
+          ],
+        },
+      }),
+    );
+
+    expect(event).toMatchObject({ testLogPath: "/testlogs/test.log", testXmlPath: "/testlogs/test.xml" });
+  });
+
+  it("should parse build metrics and cache hits", () => {
+    const [event] = processor.processLine(
+      line({
+        id: { buildMetrics: {} },
+        buildMetrics: {
+          actionSummary: {
+            actionsCreated: "120",
+            actionsExecuted: "45",
+            runnerCount: [
+              { name: "total", count: 45 },
+              { name: "remote cache hit", count: 20 },
+              { name: "disk cache hit", count: 5 },
+              { name: "darwin-sandbox", count: 20 },
+            ],
+            actionCacheStatistics: { hits: 70, misses: 45 },
+          },
+        },
+      }),
+    );
+
+    expect(event).toEqual({
+      type: "buildMetrics",
+      metrics: {
+        actionsCreated: 120,
+        actionsExecuted: 45,
+        remoteCacheHits: 20,
+        diskCacheHits: 5,
+        actionCacheHits: 70,
+        actionCacheMisses: 45,
+      },
+    });
+  });
+
+  it("should parse the critical path time when Bazel reports it", () => {
+    const [event] = processor.processLine(
+      line({
+        id: { buildMetrics: {} },
+        buildMetrics: { actionSummary: {}, timingMetrics: { wallTimeInMs: "9000", criticalPathTime: "4.250s" } },
+      }),
+    );
+
+    expect(event).toMatchObject({ type: "buildMetrics", metrics: { criticalPathMillis: 4250 } });
+  });
+
+  it("should compute success and duration when the build finishes", () => {
+    processor.processLine(line({ id: { started: {} }, started: { command: "test", startTimeMillis: "1000" } }));
+    processor.processLine(
+      line({
+        id: { buildFinished: {} },
+        finished: { exitCode: { name: "TESTS_FAILED", code: 3 }, finishTimeMillis: "6000" },
+      }),
+    );
+
+    expect(processor.getSummary()).toMatchObject({
+      command: "test",
+      success: false,
+      exitCode: "TESTS_FAILED",
+      durationMillis: 5000,
+    });
+  });
+
+  it("should succeed with an exit code name only, like Bazel writes SUCCESS", () => {
+    const [event] = processor.processLine(
+      line({ id: { buildFinished: {} }, finished: { exitCode: { name: "SUCCESS" }, finishTimeMillis: "6000" } }),
+    );
+
+    expect(event).toMatchObject({ type: "buildFinished", success: true, exitCode: "SUCCESS" });
+  });
+
+  it("should fall back to overallSuccess without an exit code", () => {
+    const [failed] = processor.processLine(
+      line({ id: { buildFinished: {} }, finished: { overallSuccess: false, finishTimeMillis: "6000" } }),
+    );
+    const [succeeded] = processor.processLine(
+      line({ id: { buildFinished: {} }, finished: { overallSuccess: true, finishTimeMillis: "7000" } }),
+    );
+
+    expect(failed).toEqual({ type: "buildFinished", success: false, exitCode: undefined, finishTimeMillis: 6000 });
+    expect(succeeded).toMatchObject({ success: true, exitCode: undefined });
+  });
+
+  it("should skip blank, malformed and unknown lines", () => {
+    expect(processor.processLine("")).toEqual([]);
+    expect(processor.processLine("{not json")).toEqual([]);
+    expect(processor.processLine(line({ id: { workspaceStatus: {} }, workspaceStatus: {} }))).toEqual([]);
+  });
+});
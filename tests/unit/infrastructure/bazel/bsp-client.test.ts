@@ -0,0 +1,115 @@
+import * as path from "node:path";
+import { BspClient, BspMessageReader, encodeBspMessage } from "../../../../src/infrastructure/bazel/bsp-client";
+
+const FAKE_SERVER = path.join(__dirname, "../../../fixtures/bsp/fake-bsp-server.js");
+const WORKSPACE_ROOT = path.dirname(FAKE_SERVER);
+
+const startFakeServer = (scenario: string) =>
+  new BspClient({ argv: [process.execPath, FAKE_SERVER, scenario], cwd: WORKSPACE_ROOT });
+
+describe("encodeBspMessage", () => {
+  it("should count the bytes of the body in the Content-Length header", () => {
+    const encoded = encodeBspMessage({ jsonrpc: "2.0", method: "build/logMessage", params: { message: "✅" } });
+
+    const [header, body] = encoded.split("\r\n\r\n");
+    expect(header).toBe(`Content-Length: ${Buffer.byteLength(body, "utf8")}`);
+    expect(Buffer.byteLength(body, "utf8")).toBe(body.length + 2);
+  });
+});
+
+describe("BspMessageReader", () => {
+  it("should read several messages from one chunk", () => {
+    const reader = new BspMessageReader();
+
+    const messages = reader.push(
+      encodeBspMessage({ jsonrpc: "2.0", id: 1, result: null }) +
+        encodeBspMessage({ jsonrpc: "2.0", method: "build/logMessage" }),
+    );
+
+    expect(messages).toEqual([
+      { jsonrpc: "2.0", id: 1, result: null },
+      { jsonrpc: "2.0", method: "build/logMessage" },
+    ]);
+  });
+
+  it("should wait for the rest of a message split across chunks, also inside a multibyte character", () => {
+    const reader = new BspMessageReader();
+    const encoded = Buffer.from(encodeBspMessage({ jsonrpc: "2.0", id: 1, result: { name: "Café ✅" } }), "utf8");
+    const splitAt = encoded.indexOf(Buffer.from("✅", "utf8")) + 1;
+
+    expect(reader.push(encoded.subarray(0, 10))).toEqual([]);
+    expect(reader.push(encoded.subarray(10, splitAt))).toEqual([]);
+    expect(reader.push(encoded.subarray(splitAt))).toEqual([{ jsonrpc: "2.0", id: 1, result: { name: "Café ✅" } }]);
+  });
+
+  it("should accept other headers next to Content-Length", () => {
+    const reader = new BspMessageReader();
+    const body = JSON.stringify({ jsonrpc: "2.0", id: 2, result: [] });
+
+    const messages = reader.push(
+      `Content-Type: application/vscode-jsonrpc; charset=utf-8\r\nContent-Length: ${body.length}\r\n\r\n${body}`,
+    );
+
+    expect(messages).toEqual([{ jsonrpc: "2.0", id: 2, result: [] }]);
+  });
+
+  it("should throw for a message without Content-Length", () => {
+    const reader = new BspMessageReader();
+
+    expect(() => reader.push("Content-Type: text/plain\r\n\r\n{}")).toThrow("Content-Length");
+  });
+});
+
+describe("BspClient", () => {
+  it("should send requests, answer requests of the server and collect its log messages", async () => {
+    const client = startFakeServer("ok");
+
+    const result = await client.request<{ displayName: string }>("build/initialize", { rootUri: "file:///repo" });
+    client.notify("build/initialized", {});
+    await client.request("workspace/buildTargets", {});
+    await client.shutdown();
+
+    expect(result.displayName).toBe("fake-bsp");
+    expect(client.getMessages()).toEqual(["Initializing build server"]);
+    expect(client.getStderr().split("\n").filter(Boolean)).toEqual([
+      "received build/initialize",
+      "received response server-1",
+      "received build/initialized",
+      "received workspace/buildTargets",
+      "received build/shutdown",
+      "received build/exit",
+    ]);
+  });
+
+  it("should reject requests with the error of the response", async () => {
+    const client = startFakeServer("sources-error");
+
+    await expect(client.request("buildTarget/sources", { targets: [] })).rejects.toThrow(
+      "buildTarget/sources failed: bazel query failed",
+    );
+    await client.shutdown();
+  });
+
+  it("should reject pending requests when the server exits", async () => {
+    const client = startFakeServer("exit-on-initialize");
+
+    await expect(client.request("build/initialize", {})).rejects.toThrow("Build server exited with code 64");
+    await expect(client.request("workspace/buildTargets", {})).rejects.toThrow("exited");
+    await client.shutdown();
+    expect(client.getStderr()).toContain("unknown option --bazel-wrapper");
+  });
+
+  it("should reject a request the server doesn't answer in time and kill the server on shutdown", async () => {
+    const client = startFakeServer("hang");
+
+    await expect(client.request("build/initialize", {}, 100)).rejects.toThrow("build/initialize timed out after 0.1s");
+    await client.shutdown();
+  }, 10_000);
+
+  it("should reject requests when the server can't be started", async () => {
+    const client = new BspClient({ argv: ["./missing-bsp-server", "serve"], cwd: WORKSPACE_ROOT });
+
+    await expect(client.request("build/initialize", {})).rejects.toThrow("Failed to start the build server");
+    await client.shutdown();
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  DEFAULT_BSP_CONFIG_TEMPLATE,
+  findUnknownFlags,
+  getBspConfigTargets,
+  getBspConfigTemplate,
+  getBspConfigVariables,
+  parseHelpFlags,
+  renderBspConfig,
+  validateBspConfig,
+} from "../../../../src/infrastructure/bazel/bsp-config";
+import { getWorkspaceConfig } from "../../../../src/shared/utils/config";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+jest.mock("../../../../src/shared/utils/config");
+
+const mockGetWorkspaceConfig = getWorkspaceConfig as jest.MockedFunction<typeof getWorkspaceConfig>;
+
+describe("getBspConfigVariables", () => {
+  it("should split the label into package path and target name", () => {
+    expect(getBspConfigVariables("//Apps/MyApp:MyApp", "/repo")).toEqual({
+      buildLabel: "//Apps/MyApp:MyApp",
+      packagePath: "Apps/MyApp",
+      targetName: "MyApp",
+      workspaceRoot: "/repo",
+    });
+  });
+
+  it("should use . for the root package", () => {
+    const variables = getBspConfigVariables("//:App", "/repo");
+
+    expect(variables.packagePath).toBe(".");
+    expect(variables.targetName).toBe("App");
+  });
+});
+
+describe("getBspConfigTemplate", () => {
+  it("should replace built-in fields with the configured ones", () => {
+    mockGetWorkspaceConfig.mockReturnValueOnce({ argv: [".bsp/custom-bsp", "serve"] });
+
+    expect(getBspConfigTemplate()).toEqual({ ...DEFAULT_BSP_CONFIG_TEMPLATE, argv: [".bsp/custom-bsp", "serve"] });
+  });
+
+  it("should use the built-in template without a setting", () => {
+    mockGetWorkspaceConfig.mockReturnValueOnce(undefined);
+
+    expect(getBspConfigTemplate()).toBe(DEFAULT_BSP_CONFIG_TEMPLATE);
+  });
+});
+
+describe("renderBspConfig", () => {
+  const variables = getBspConfigVariables("//Apps/MyApp:MyApp", "/repo");
+
+  it("should replace variables in every string", () => {
+    const { config, unknownVariables } = renderBspConfig(DEFAULT_BSP_CONFIG_TEMPLATE, [variables]);
+
+    expect(unknownVariables).toEqual([]);
+    expect(config.argv).toContain("//Apps/MyApp:MyApp");
+    expect(config.argv).toContain("Apps/MyApp/**/*.swift,Apps/MyApp/**/*.h,Apps/MyApp/**/*.m");
+    expect(JSON.stringify(config)).not.toContain("${");
+  });
+
+  it("should keep and report unknown variables", () => {
+    const template = { ...DEFAULT_BSP_CONFIG_TEMPLATE, argv: ["bsp", "serve", "--target", "${label}", "${label}"] };
+
+    const { config, unknownVariables } = renderBspConfig(template, [variables]);
+
+    expect(unknownVariables).toEqual(["label"]);
+    expect(config.argv).toEqual(["bsp", "serve", "--target", "${label}", "${label}"]);
+  });
+
+  it("should repeat --target and list the values of every target of an index set", () => {
+    const widget = getBspConfigVariables("//Apps/MyApp/Widget:Widget", "/repo");
+    const tests = getBspConfigVariables("//Apps/MyApp:MyAppTests", "/repo");
+    const template = {
+      ...DEFAULT_BSP_CONFIG_TEMPLATE,
+      name: "bsp-${targetName}",
+      argv: ["bsp", "serve", "--target", "${buildLabel}", "--files-to-watch", "${packagePath}/**/*.swift", "--verbose"],
+    };
+
+    const { config } = renderBspConfig(template, [variables, widget, tests]);
+
+    expect(config.name).toBe("bsp-MyApp");
+    expect(config.argv).toEqual([
+      "bsp",
+      "serve",
+      "--target",
+      "//Apps/MyApp:MyApp",
+      "--target",
+      "//Apps/MyApp/Widget:Widget",
+      "--target",
+      "//Apps/MyApp:MyAppTests",
+      "--files-to-watch",
+      "Apps/MyApp/**/*.swift,Apps/MyApp/Widget/**/*.swift",
+      "--verbose",
+    ]);
+  });
+});
+
+describe("validateBspConfig", () => {
+  it("should accept the built-in template", () => {
+    expect(validateBspConfig(DEFAULT_BSP_CONFIG_TEMPLATE)).toEqual([]);
+  });
+
+  it("should report missing fields and a too short argv", () => {
+    const problems = validateBspConfig({ name: "sourcekit-bazel-bsp", argv: ["bsp"] });
+
+    expect(problems).toHaveLength(4);
+    expect(problems).toContain("argv: needs the binary and its subcommand (serve)");
+    expect(problems.some((problem) => problem.startsWith("languages:"))).toBe(true);
+  });
+});
+
+describe("parseHelpFlags", () => {
+  it("should collect the flags of a help output", () => {
+    const help = [
+      "USAGE: sourcekit-bazel-bsp serve --target <target> [--bazel-wrapper <bazel-wrapper>]",
+      "OPTIONS:",
+      "  --target <target>       The target to build",
+      "  --index-flag <index-flag>",
+      "  -h, --help              Show help information.",
+    ].join("\n");
+
+    expect([...parseHelpFlags(help)].sort()).toEqual(["--bazel-wrapper", "--help", "--index-flag", "--target"]);
+  });
+});
+
+describe("findUnknownFlags", () => {
+  it("should report flags the binary doesn't list, ignoring values", () => {
+    const argv = [".bsp/sourcekit-bazel-bsp", "serve", "--target", "//App", "--index-flag=config=skbsp", "--removed"];
+
+    expect(findUnknownFlags(argv, new Set(["--target", "--index-flag"]))).toEqual(["--removed"]);
+  });
+});
+
+describe("getBspConfigTargets", () => {
+  it("should list the values of the --target flags", () => {
+    const argv = [".bsp/sourcekit-bazel-bsp", "serve", "--target", "//App:App", "--target=//Widget:Widget", "--target"];
+
+    expect(getBspConfigTargets(argv)).toEqual(["//App:App", "//Widget:Widget"]);
+  });
+});
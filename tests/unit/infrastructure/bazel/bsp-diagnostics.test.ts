@@ -0,0 +1,180 @@
+import * as path from "node:path";
+import {
+  findTargetForFile,
+  formatBspDiagnosticsReport,
+  runBspDiagnostics,
+} from "../../../../src/infrastructure/bazel/bsp-diagnostics";
+
+const FAKE_SERVER = path.join(__dirname, "../../../fixtures/bsp/fake-bsp-server.js");
+const WORKSPACE_ROOT = path.dirname(FAKE_SERVER);
+
+const diagnose = (scenario: string, activeFile?: string) =>
+  runBspDiagnostics({
+    argv: [process.execPath, FAKE_SERVER, scenario],
+    workspaceRoot: WORKSPACE_ROOT,
+    activeFile: activeFile ? path.join(WORKSPACE_ROOT, activeFile) : undefined,
+  });
+
+describe("runBspDiagnostics", () => {
+  it("should report targets, sources and the compiler arguments of the active file", async () => {
+    const report = await diagnose("ok", "App/ContentView.swift");
+
+    expect(report.server).toEqual({ name: "fake-bsp", version: "0.1.0", bspVersion: "2.2.0" });
+    expect(report.steps.map((step) => [step.method, step.status])).toEqual([
+      ["build/initialize", "ok"],
+      ["workspace/buildTargets", "ok"],
+      ["buildTarget/sources", "ok"],
+      ["textDocument/sourceKitOptions", "ok"],
+    ]);
+    expect(report.targets.map((target) => [target.uri, target.sources.length])).toEqual([
+      ["//App:App", 2],
+      ["//Libs/Core:Core", 2],
+      ["//Libs/Empty:Empty", 0],
+    ]);
+    expect(report.activeFile).toEqual({
+      path: path.join(WORKSPACE_ROOT, "App/ContentView.swift"),
+      target: "//App:App",
+      compilerArguments: ["-module-name", "App", "-sdk", "/SDKs/iPhoneSimulator.sdk"],
+      workingDirectory: path.join(WORKSPACE_ROOT, "bazel-out"),
+    });
+    expect(report.messages).toEqual(["Initializing build server"]);
+    expect(report.stderr).toContain("received build/exit");
+  });
+
+  it("should find the target of a file in a source directory", async () => {
+    const report = await diagnose("ok", "Libs/Core/Sources/Models/User.swift");
+
+    expect(report.activeFile?.target).toBe("//Libs/Core:Core");
+    expect(report.activeFile?.compilerArguments).toContain("Core");
+  });
+
+  it("should skip the compiler arguments when no target contains the active file", async () => {
+    const report = await diagnose("ok", "Scripts/tool.swift");
+
+    expect(report.activeFile).toEqual({ path: path.join(WORKSPACE_ROOT, "Scripts/tool.swift"), target: undefined });
+    expect(report.steps[3]).toEqual({
+      method: "textDocument/sourceKitOptions",
+      status: "skipped",
+      error: "No target contains the active file",
+    });
+  });
+
+  it("should skip the compiler arguments without an active file", async () => {
+    const report = await diagnose("ok");
+
+    expect(report.activeFile).toBeUndefined();
+    expect(report.steps[3]).toMatchObject({ status: "skipped", error: "No active file" });
+  });
+
+  it("should record a failing request and skip the ones after it", async () => {
+    const report = await diagnose("sources-error", "App/ContentView.swift");
+
+    expect(report.steps.slice(2)).toEqual([
+      expect.objectContaining({
+        method: "buildTarget/sources",
+        status: "failed",
+        error: "buildTarget/sources failed: bazel query failed",
+      }),
+      { method: "textDocument/sourceKitOptions", status: "skipped", error: "buildTarget/sources failed" },
+    ]);
+    expect(report.targets).toHaveLength(3);
+  });
+
+  it("should report a server that exits on startup with its stderr", async () => {
+    const report = await diagnose("exit-on-initialize");
+
+    expect(report.server).toBeUndefined();
+    expect(report.steps[0]).toMatchObject({ status: "failed", error: "Build server exited with code 64" });
+    expect(report.steps.slice(1).every((step) => step.status === "skipped")).toBe(true);
+    expect(report.stderr).toContain("error: unknown option --bazel-wrapper");
+  });
+});
+
+describe("findTargetForFile", () => {
+  const targets = [
+    { uri: "//Libs:All", languageIds: [], sources: [{ uri: "file:///repo/Libs/", directory: true }] },
+    {
+      uri: "//Libs/Core:Core",
+      languageIds: [],
+      sources: [{ uri: "file:///repo/Libs/Core/Core.swift", directory: false }],
+    },
+  ];
+
+  it("should prefer a target listing the file over one containing its directory", () => {
+    expect(findTargetForFile(targets, "/repo/Libs/Core/Core.swift")).toBe("//Libs/Core:Core");
+    expect(findTargetForFile(targets, "/repo/Libs/Other/Other.swift")).toBe("//Libs:All");
+  });
+
+  it("should not match a directory that only shares a prefix", () => {
+    expect(findTargetForFile(targets, "/repo/LibsExtra/File.swift")).toBeUndefined();
+  });
+
+  it("should match paths with characters escaped in the URI", () => {
+    const escaped = [
+      { uri: "//App:App", languageIds: [], sources: [{ uri: "file:///My%20App/A.swift", directory: false }] },
+    ];
+
+    expect(findTargetForFile(escaped, "/My App/A.swift")).toBe("//App:App");
+  });
+});
+
+describe("formatBspDiagnosticsReport", () => {
+  it("should format a readable report", async () => {
+    const report = await diagnose("ok", "App/ContentView.swift");
+    report.steps = report.steps.map((step) => ({ ...step, durationMillis: 5 }));
+
+    const text = formatBspDiagnosticsReport(report, WORKSPACE_ROOT);
+
+    expect(text).toContain("Server: fake-bsp 0.1.0 (BSP 2.2.0)");
+    expect(text).toContain("| `buildTarget/sources` | ✅ OK | 5ms |");
+    expect(text).toContain("## Targets (3)");
+    expect(text).toContain("| `//Libs/Core:Core` | swift, objective-c | 2 |");
+    expect(text).toContain("### Core\n\n- Libs/Core/Sources/ (directory)\n- Libs/Core/Core.m");
+    expect(text).not.toContain("### Empty");
+    expect(text).toContain("File: `App/ContentView.swift`\nTarget: `//App:App`");
+    expect(text).toContain("Compiler arguments (4):\n\n```\n-module-name\nApp\n-sdk\n/SDKs/iPhoneSimulator.sdk\n```");
+    expect(text).toContain("## Server Messages\n\n```\nInitializing build server\n```");
+  });
+
+  it("should explain failed and skipped requests", async () => {
+    const text = formatBspDiagnosticsReport(await diagnose("exit-on-initialize"), WORKSPACE_ROOT);
+
+    expect(text).toMatch(/\| `build\/initialize` \| ❌ Build server exited with code 64 \| \d+m?s \|/);
+    expect(text).toContain("| `workspace/buildTargets` | ⏭️ Skipped (build/initialize failed) |  |");
+    expect(text).not.toContain("## Targets");
+    expect(text).toContain(
+      "## Server Stderr\n\n```\nreceived build/initialize\nerror: unknown option --bazel-wrapper\n```",
+    );
+  });
+
+  it("should say when the server has no compiler arguments for the file", async () => {
+    const text = formatBspDiagnosticsReport(await diagnose("no-options", "App/AppDelegate.swift"), WORKSPACE_ROOT);
+
+    expect(text).toContain("The server has no compiler arguments for the file yet");
+  });
+
+  it("should truncate long source lists", () => {
+    const text = formatBspDiagnosticsReport(
+      {
+        argv: ["sourcekit-bazel-bsp", "serve"],
+        steps: [{ method: "build/initialize", status: "ok" }],
+        targets: [
+          {
+            uri: "//App:App",
+            languageIds: ["swift"],
+            sources: Array.from({ length: 25 }, (_, index) => ({
+              uri: `file:///repo/App/F${index}.swift`,
+              directory: false,
+            })),
+          },
+        ],
+        messages: [],
+        stderr: "",
+      },
+      "/repo",
+    );
+
+    expect(text).toContain("- App/F19.swift\n- … and 5 more");
+    expect(text).not.toContain("F20.swift");
+  });
+});
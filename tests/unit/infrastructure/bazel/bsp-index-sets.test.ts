@@ -0,0 +1,50 @@
+import { addToIndexSet, getIndexedLabels, updateIndexSet } from "../../../../src/infrastructure/bazel/bsp-index-sets";
+
+describe("addToIndexSet", () => {
+  const sets = [{ name: "App", labels: ["//App:App"] }];
+
+  it("should create a set with a new name", () => {
+    expect(addToIndexSet(sets, "Widget", ["//Widget:Widget", "//Widget:Widget"])).toEqual([
+      { name: "App", labels: ["//App:App"] },
+      { name: "Widget", labels: ["//Widget:Widget"] },
+    ]);
+  });
+
+  it("should add missing labels to an existing set", () => {
+    expect(addToIndexSet(sets, "App", ["//App:App", "//App:AppTests"])).toEqual([
+      { name: "App", labels: ["//App:App", "//App:AppTests"] },
+    ]);
+  });
+});
+
+describe("updateIndexSet", () => {
+  const sets = [
+    { name: "App", labels: ["//App:App", "//App:AppTests"] },
+    { name: "Widget", labels: ["//Widget:Widget"] },
+  ];
+
+  it("should replace the labels of a set", () => {
+    expect(updateIndexSet(sets, "App", ["//App:App"])).toEqual([
+      { name: "App", labels: ["//App:App"] },
+      { name: "Widget", labels: ["//Widget:Widget"] },
+    ]);
+  });
+
+  it("should remove a set without labels", () => {
+    expect(updateIndexSet(sets, "Widget", [])).toEqual([{ name: "App", labels: ["//App:App", "//App:AppTests"] }]);
+  });
+});
+
+describe("getIndexedLabels", () => {
+  const sets = [{ name: "App", labels: ["//App:App", "//Widget:Widget"] }];
+
+  it("should use the labels of the active set", () => {
+    expect(getIndexedLabels(sets, "App", "//Other:Other")).toEqual(["//App:App", "//Widget:Widget"]);
+  });
+
+  it("should fall back to the selected target without an active set", () => {
+    expect(getIndexedLabels(sets, undefined, "//Other:Other")).toEqual(["//Other:Other"]);
+    expect(getIndexedLabels(sets, "Removed", "//Other:Other")).toEqual(["//Other:Other"]);
+    expect(getIndexedLabels(sets, undefined, undefined)).toEqual([]);
+  });
+});
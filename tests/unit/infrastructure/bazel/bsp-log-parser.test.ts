@@ -0,0 +1,115 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  applyBspLogEntry,
+  classifyBspError,
+  createBspHealthState,
+  parseBspLog,
+  parseBspLogLine,
+} from "../../../../src/infrastructure/bazel/bsp-log-parser";
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, "../../../fixtures/bsp-logs", name), "utf8");
+
+describe("parseBspLogLine", () => {
+  it("should parse a line of the default log stream style", () => {
+    const line =
+      "2025-01-10 10:15:53.000000-0800 0x1a2b3d   Error       0x0                  4321   0    sourcekit-bazel-bsp: (SourceKitBazelBSP) [com.spotify.sourcekit-bazel-bsp:Build] Build failed";
+
+    expect(parseBspLogLine(line)).toEqual({
+      timestamp: Date.parse("2025-01-10T10:15:53.000-08:00"),
+      level: "error",
+      category: "Build",
+      message: "Build failed",
+      line: line,
+    });
+  });
+
+  it("should parse a line of the compact style", () => {
+    const entry = parseBspLogLine(
+      "2025-01-10 11:00:00.100 I  sourcekit-bazel-bsp[5555:9a] [com.spotify.sourcekit-bazel-bsp:Config] Using config",
+    );
+
+    expect(entry?.level).toBe("info");
+    expect(entry?.category).toBe("Config");
+    expect(entry?.message).toBe("Using config");
+  });
+
+  it("should read the level of plain text lines from the message", () => {
+    expect(parseBspLogLine("[WARN] Slow query")?.level).toBe("warning");
+    expect(parseBspLogLine("error: something broke")?.level).toBe("error");
+    expect(parseBspLogLine("Indexing")?.level).toBe("info");
+  });
+
+  it("should skip empty lines and log stream headers", () => {
+    expect(parseBspLogLine("   ")).toBeUndefined();
+    expect(parseBspLogLine('Filtering the log data using "process == 1"')).toBeUndefined();
+    expect(parseBspLogLine("Timestamp               Ty Process[PID:TID]")).toBeUndefined();
+  });
+});
+
+describe("classifyBspError", () => {
+  it("should group errors by what they mention", () => {
+    expect(classifyBspError("Widget.swift:12:5: error: cannot find 'Theme' in scope")).toBe("compiler");
+    expect(classifyBspError("Unknown option '--index-batch'")).toBe("config");
+    expect(classifyBspError("Connection interrupted: broken pipe")).toBe("connection");
+    expect(classifyBspError("ERROR: no such package 'Libs/Missing'")).toBe("bazel");
+    expect(classifyBspError("Something unexpected")).toBe("other");
+  });
+});
+
+describe("parseBspLog", () => {
+  it("should summarize a log stream capture", () => {
+    const state = parseBspLog(readFixture("log-stream.log"));
+
+    expect(state.serverStartTimestamp).toBe(Date.parse("2025-01-10T10:15:40.000-08:00"));
+    expect(state.configPath).toBe("/repo/.bsp/skbsp.json");
+    expect(state.targets).toEqual(["//Apps/MyApp:MyApp", "//Apps/MyApp/Widget:Widget"]);
+    expect(state.batch).toEqual({ current: 2, total: 2 });
+    expect(state.currentBuild).toBeUndefined();
+    expect(state.lastBuild).toMatchObject({
+      status: "failed",
+      durationMillis: 3490,
+      failure: "Build failed: bazel exited with exit code 1",
+    });
+    expect(state.lastBuild?.lines).toHaveLength(3);
+    expect(state.errors.map((group) => [group.kind, group.count])).toEqual([
+      ["connection", 1],
+      ["bazel", 1],
+      ["compiler", 1],
+    ]);
+  });
+
+  it("should summarize a compact log with a build in progress", () => {
+    const state = parseBspLog(readFixture("compact.log"));
+
+    expect(state.configPath).toBe("/repo/.bsp/skbsp.json");
+    expect(state.targets).toEqual(["//App:App"]);
+    expect(state.batch).toEqual({ current: 3, total: 10 });
+    expect(state.currentBuild).toMatchObject({
+      status: "running",
+      startTimestamp: Date.parse("2025-01-10T11:00:01.100"),
+    });
+    expect(state.currentBuild?.lines).toHaveLength(2);
+    expect(state.errors).toEqual([
+      expect.objectContaining({ kind: "config", count: 1, lastMessage: "Unknown option '--index-batch'" }),
+    ]);
+  });
+
+  it("should take the build duration from the message of a plain log", () => {
+    const state = parseBspLog(readFixture("plain.log"));
+
+    expect(state.lastBuild).toMatchObject({ status: "succeeded", durationMillis: 2500 });
+    expect(state.errors).toEqual([expect.objectContaining({ kind: "bazel", count: 1 })]);
+  });
+});
+
+describe("applyBspLogEntry", () => {
+  it("should start over when the server starts again", () => {
+    const state = parseBspLog(readFixture("log-stream.log"));
+    const restart = parseBspLogLine("[INFO] Starting sourcekit-bazel-bsp");
+
+    applyBspLogEntry(state, restart as NonNullable<typeof restart>);
+
+    expect(state).toEqual({ ...createBspHealthState(), serverStartTimestamp: undefined });
+  });
+});
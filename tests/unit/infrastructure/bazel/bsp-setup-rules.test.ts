@@ -0,0 +1,53 @@
+import { rankSetupRules } from "../../../../src/infrastructure/bazel/bsp-setup-rules";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+jest.mock("../../../../src/shared/utils/config");
+
+describe("rankSetupRules", () => {
+  const labels = [
+    "//:setup_sourcekit_bsp",
+    "//Tools:setup_sourcekit_bsp",
+    "//Apps:setup_sourcekit_bsp",
+    "//Apps/MyApp:setup_sourcekit_bsp",
+    "//Apps/MyApp:setup_myapp_bsp",
+    "//Apps/Other:setup_all_bsp",
+  ];
+
+  it("should rank target, package, root and other rules", () => {
+    const candidates = rankSetupRules(labels, {
+      selectedLabel: "//Apps/MyApp:MyApp",
+      dependingOnTarget: ["//Apps/Other:setup_all_bsp"],
+    });
+
+    expect(candidates).toEqual([
+      { label: "//Apps/MyApp:setup_myapp_bsp", scope: "target" },
+      { label: "//Apps/Other:setup_all_bsp", scope: "target" },
+      { label: "//Apps/MyApp:setup_sourcekit_bsp", scope: "package" },
+      { label: "//Apps:setup_sourcekit_bsp", scope: "package" },
+      { label: "//:setup_sourcekit_bsp", scope: "root" },
+      { label: "//Tools:setup_sourcekit_bsp", scope: "other" },
+    ]);
+  });
+
+  it("should only tell root rules apart without a selected target", () => {
+    const candidates = rankSetupRules(["//Apps:setup_sourcekit_bsp", "//:setup_sourcekit_bsp"]);
+
+    expect(candidates).toEqual([
+      { label: "//:setup_sourcekit_bsp", scope: "root" },
+      { label: "//Apps:setup_sourcekit_bsp", scope: "other" },
+    ]);
+  });
+
+  it("should not treat packages with a common prefix as parents", () => {
+    const [candidate] = rankSetupRules(["//App:setup_sourcekit_bsp"], { selectedLabel: "//AppKit:AppKit" });
+
+    expect(candidate.scope).toBe("other");
+  });
+});
@@ -0,0 +1,113 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { BuildEventStream, formatBuildSummary } from "../../../../src/infrastructure/bazel/build-event-stream";
+
+// Mock dependencies
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe("BuildEventStream", () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bep-test-"));
+    filePath = path.join(tempDir, "bep.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should pass its file to bazel", () => {
+    const stream = new BuildEventStream({ filePath });
+
+    expect(stream.bazelFlags).toEqual([`--build_event_json_file=${filePath}`]);
+  });
+
+  it("should tolerate the file not existing yet", async () => {
+    const stream = new BuildEventStream({ filePath });
+
+    await expect(stream.poll()).resolves.toBeUndefined();
+  });
+
+  it("should dispatch events incrementally and keep partial lines for later", async () => {
+    const events: string[] = [];
+    const stream = new BuildEventStream({ filePath, onEvent: (event) => events.push(event.type) });
+
+    fs.writeFileSync(
+      filePath,
+      `${JSON.stringify({ id: { started: {} }, started: { command: "build", startTimeMillis: "1" } })}\n{"id":{"buildFin`,
+    );
+    await stream.poll();
+    expect(events).toEqual(["started"]);
+
+    fs.appendFileSync(
+      filePath,
+      'ished":{}},"finished":{"exitCode":{"name":"SUCCESS","code":0},"finishTimeMillis":"2"}}',
+    );
+    const summary = await stream.stop();
+
+    expect(events).toEqual(["started", "buildFinished"]);
+    expect(summary).toMatchObject({ command: "build", success: true, exitCode: "SUCCESS", durationMillis: 1 });
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it("should keep the file when asked to", async () => {
+    fs.writeFileSync(filePath, "");
+    const stream = new BuildEventStream({ filePath });
+
+    await stream.stop({ removeFile: false });
+
+    expect(fs.existsSync(filePath)).toBe(true);
+  });
+});
+
+describe("formatBuildSummary", () => {
+  it("should describe targets, actions, cache hits and outputs", () => {
+    const text = formatBuildSummary({
+      targets: [{ label: "//Apps:App", success: true, outputFiles: ["/out/App.ipa"] }],
+      failedActions: [],
+      tests: [],
+      metrics: {
+        actionsCreated: 120,
+        actionsExecuted: 45,
+        remoteCacheHits: 20,
+        diskCacheHits: 5,
+        actionCacheHits: 70,
+        actionCacheMisses: 45,
+      },
+      durationMillis: 1500,
+    });
+
+    expect(text).toContain("Targets: 1 built, 0 failed");
+    expect(text).toContain("Actions: 45 executed / 120 created");
+    expect(text).toContain("Cache hits: 20 remote, 5 disk, 70 action cache");
+    expect(text).toContain("- /out/App.ipa");
+    expect(text).toContain("Bazel time: 1.50s");
+  });
+
+  it("should list failed actions and non-passing tests", () => {
+    const text = formatBuildSummary({
+      targets: [{ label: "//Libs:Core", success: false, outputFiles: [] }],
+      failedActions: [{ type: "actionFailed", label: "//Libs:Core", mnemonic: "SwiftCompile", exitCode: 1 }],
+      tests: [
+        { label: "//Tests:A", status: "PASSED", durationMillis: 10, cached: true },
+        { label: "//Tests:B", status: "FAILED", durationMillis: 10, cached: false },
+        { label: "//Tests:C", status: "FLAKY", durationMillis: 10, cached: false },
+      ],
+    });
+
+    expect(text).toContain("Tests: 1 passed, 1 failed, 1 flaky (1 cached)");
+    expect(text).toContain("- FAILED //Tests:B");
+    expect(text).toContain("- SwiftCompile //Libs:Core (exit 1)");
+    expect(text).toContain("❌ //Libs:Core");
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  getBuildArgs,
+  getBuildProfiles,
+  matchesLabelPattern,
+  resolveBuildProfile,
+} from "../../../../src/infrastructure/bazel/build-profiles";
+import { commonLogger } from "../../../../src/shared/logger/logger";
+import * as config from "../../../../src/shared/utils/config";
+
+// Mock dependencies
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+jest.mock("../../../../src/shared/utils/config");
+
+describe("build profiles", () => {
+  const mockProfiles = (profiles: unknown) => {
+    (config.getWorkspaceConfig as jest.Mock).mockImplementation((key: string) =>
+      key === "bazel.buildProfiles" ? profiles : undefined,
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockProfiles(undefined);
+  });
+
+  describe("getBuildProfiles", () => {
+    it("should return empty object when not configured", () => {
+      expect(getBuildProfiles()).toEqual({});
+    });
+
+    it("should ignore malformed settings", () => {
+      mockProfiles(["ci"]);
+
+      expect(getBuildProfiles()).toEqual({});
+    });
+  });
+
+  describe("matchesLabelPattern", () => {
+    it("should match exact labels", () => {
+      expect(matchesLabelPattern("//Apps/Consumer:App", "//Apps/Consumer:App")).toBe(true);
+      expect(matchesLabelPattern("//Apps/Consumer:App", "//Apps/Consumer:Other")).toBe(false);
+    });
+
+    it("should match whole packages", () => {
+      expect(matchesLabelPattern("//Apps/Consumer:App", "//Apps/Consumer:*")).toBe(true);
+      expect(matchesLabelPattern("//Apps/Consumer:App", "//Apps/Consumer:all")).toBe(true);
+      expect(matchesLabelPattern("//Apps/Consumer/Sub:App", "//Apps/Consumer:*")).toBe(false);
+    });
+
+    it("should match packages recursively", () => {
+      expect(matchesLabelPattern("//Apps/Consumer:App", "//Apps/...")).toBe(true);
+      expect(matchesLabelPattern("//Apps:App", "//Apps/...")).toBe(true);
+      expect(matchesLabelPattern("//AppsOther:App", "//Apps/...")).toBe(false);
+      expect(matchesLabelPattern("//Libs:Core", "//...")).toBe(true);
+    });
+  });
+
+  describe("resolveBuildProfile", () => {
+    const profiles = {
+      ci: { configs: ["ci"], buildModes: ["release"] },
+      watch: { targets: ["//Apps/Watch/..."], flags: ["--watchos_cpus=arm64"] },
+      watchDebug: { targets: ["//Apps/Watch/..."], buildModes: ["debug"] },
+      manual: { flags: ["--verbose_failures"] },
+    };
+
+    beforeEach(() => {
+      mockProfiles(profiles);
+    });
+
+    it("should prefer the selected profile", () => {
+      const result = resolveBuildProfile({
+        label: "//Apps/Watch:App",
+        buildMode: "release",
+        selectedProfile: "manual",
+      });
+
+      expect(result).toEqual({ name: "manual", profile: profiles.manual, reason: "selected" });
+    });
+
+    it("should warn and fall back when the selected profile is missing", () => {
+      const result = resolveBuildProfile({
+        label: "//Apps/Phone:App",
+        buildMode: "release",
+        selectedProfile: "removed",
+      });
+
+      expect(commonLogger.warn).toHaveBeenCalledWith("Selected build profile not found in settings", {
+        selectedProfile: "removed",
+      });
+      expect(result?.name).toBe("ci");
+    });
+
+    it("should match profiles by label pattern", () => {
+      const result = resolveBuildProfile({ label: "//Apps/Watch/Extension:Ext", buildMode: "release" });
+
+      expect(result).toEqual({ name: "watch", profile: profiles.watch, reason: "matches //Apps/Watch/..." });
+    });
+
+    it("should respect build modes on label-matched profiles", () => {
+      mockProfiles({ watchDebug: profiles.watchDebug, ci: profiles.ci });
+
+      expect(resolveBuildProfile({ label: "//Apps/Watch:App", buildMode: "debug" })?.name).toBe("watchDebug");
+      expect(resolveBuildProfile({ label: "//Apps/Watch:App", buildMode: "release" })?.name).toBe("ci");
+    });
+
+    it("should match profiles by build mode", () => {
+      const result = resolveBuildProfile({ label: "//Apps/Phone:App", buildMode: "release" });
+
+      expect(result?.reason).toBe("build mode release");
+      expect(result?.name).toBe("ci");
+    });
+
+    it("should return undefined when nothing applies", () => {
+      expect(resolveBuildProfile({ label: "//Apps/Phone:App", buildMode: "debug" })).toBeUndefined();
+    });
+  });
+
+  describe("getBuildArgs", () => {
+    const defaultFlags = ["--platforms=@build_bazel_apple_support//platforms:ios_sim_arm64"];
+
+    it("should use default flags without a profile", () => {
+      expect(getBuildArgs({ label: "//Apps:App", defaultFlags })).toEqual(["build", "//Apps:App", ...defaultFlags]);
+    });
+
+    it("should add startup options, configs and flags", () => {
+      const args = getBuildArgs({
+        label: "//Apps:App",
+        defaultFlags,
+        profile: {
+          startupOptions: ["--output_base=/tmp/ci"],
+          configs: ["ci", "remote"],
+          flags: ["--verbose_failures"],
+        },
+      });
+
+      expect(args).toEqual([
+        "--output_base=/tmp/ci",
+        "build",
+        "//Apps:App",
+        ...defaultFlags,
+        "--config=ci",
+        "--config=remote",
+        "--verbose_failures",
+      ]);
+    });
+
+    it("should add the flags of the invocation after the profile flags", () => {
+      const args = getBuildArgs({
+        label: "//Apps:App",
+        defaultFlags,
+        profile: { configs: ["ci"] },
+        extraFlags: ["--define=env=staging"],
+        command: "cquery",
+      });
+
+      expect(args).toEqual(["cquery", "//Apps:App", ...defaultFlags, "--config=ci", "--define=env=staging"]);
+    });
+
+    it("should drop default flags when inheritDefaults is false", () => {
+      const args = getBuildArgs({
+        label: "//Apps:App",
+        defaultFlags,
+        profile: { inheritDefaults: false, flags: ["--platforms=//platforms:watchos_arm64"] },
+      });
+
+      expect(args).toEqual(["build", "//Apps:App", "--platforms=//platforms:watchos_arm64"]);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { BazelParser } from "../../../../src/infrastructure/bazel/bazel-parser";
+import { GraphReportParser } from "../../../../src/infrastructure/bazel/graph-report-parser";
+import * as config from "../../../../src/shared/utils/config";
+import * as files from "../../../../src/shared/utils/files";
+
+// Mock dependencies
+jest.mock("../../../../src/shared/utils/exec");
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+jest.mock("../../../../src/shared/utils/config");
+jest.mock("../../../../src/shared/utils/files");
+
+describe("GraphReportParser", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("parseGraphReport", () => {
+    it("should categorize top-level and dependency targets", () => {
+      const result = GraphReportParser.parseGraphReport({
+        topLevelTargets: [
+          { label: "//HelloWorld:HelloWorld", kind: "ios_application" },
+          { label: "//HelloWorld:HelloWorldTests", kind: "ios_unit_test" },
+        ],
+        dependencyTargets: [
+          { label: "//HelloWorld:HelloWorldLib", kind: "swift_library", parents: ["//HelloWorld:HelloWorld"] },
+        ],
+      });
+
+      expect(result.source).toBe("graphReport");
+      expect(result.statistics).toEqual({ runnable: 1, test: 1, buildable: 1, total: 3 });
+      expect(BazelParser.getTargetsAtPath(result.tree, ["HelloWorld"])).toEqual({
+        runnable: ["HelloWorld"],
+        test: ["HelloWorldTests"],
+        buildable: ["HelloWorldLib"],
+      });
+    });
+
+    it("should record top-level parents for dependencies", () => {
+      const result = GraphReportParser.parseGraphReport({
+        topLevelTargets: [
+          { label: "//Apps:App", kind: "ios_application" },
+          { label: "//Apps:Widget", kind: "ios_extension" },
+        ],
+        dependencyTargets: [
+          { label: "//Libs:Core", kind: "swift_library", parents: ["//Apps:App"] },
+          { label: "//Libs:Core", kind: "swift_library", parents: ["//Apps:Widget", "//Apps:App"] },
+          { label: "//Libs:UI", kind: "swift_library", topLevelParent: "//Apps:App" },
+        ],
+      });
+
+      expect(result.topLevelParents).toEqual({
+        "//Libs:Core": ["//Apps:App", "//Apps:Widget"],
+        "//Libs:UI": ["//Apps:App"],
+      });
+      expect(result.statistics.buildable).toBe(2);
+    });
+
+    it("should accept ruleType as an alias for kind", () => {
+      const result = GraphReportParser.parseGraphReport({
+        topLevelTargets: [{ label: "//Apps:App", ruleType: "ios_application" }],
+      });
+
+      expect(result.statistics.runnable).toBe(1);
+    });
+
+    it("should skip ignored, unknown and malformed entries", () => {
+      const result = GraphReportParser.parseGraphReport({
+        topLevelTargets: [{ label: "//Apps:Project", kind: "xcodeproj" }],
+        dependencyTargets: [
+          { label: "//Libs:Framework", kind: "ios_framework" },
+          { label: "//Libs:Gen", kind: "genrule" },
+          { label: "//Libs:NoKind" },
+        ],
+      });
+
+      expect(result.statistics.total).toBe(0);
+    });
+
+    it("should handle an empty report", () => {
+      const result = GraphReportParser.parseGraphReport({});
+
+      expect(result.statistics.total).toBe(0);
+      expect(result.topLevelParents).toEqual({});
+    });
+  });
+
+  describe("loadFromWorkspace", () => {
+    it("should return null when the report does not exist", async () => {
+      (files.isFileExists as jest.Mock).mockResolvedValue(false);
+
+      const result = await GraphReportParser.loadFromWorkspace("/workspace");
+
+      expect(result).toBeNull();
+      expect(files.isFileExists).toHaveBeenCalledWith("/workspace/.bsp/skbsp_generated/graph_report.json");
+    });
+
+    it("should read the report from the configured path", async () => {
+      (config.getWorkspaceConfig as jest.Mock).mockReturnValue("out/graph.json");
+      (files.isFileExists as jest.Mock).mockResolvedValue(true);
+      (files.readJsonFile as jest.Mock).mockResolvedValue({
+        topLevelTargets: [{ label: "//Apps:App", kind: "ios_application" }],
+      });
+
+      const result = await GraphReportParser.loadFromWorkspace("/workspace");
+
+      expect(files.readJsonFile).toHaveBeenCalledWith("/workspace/out/graph.json");
+      expect(result?.statistics.runnable).toBe(1);
+    });
+
+    it("should throw when the report cannot be parsed", async () => {
+      (config.getWorkspaceConfig as jest.Mock).mockReturnValue(undefined);
+      (files.isFileExists as jest.Mock).mockResolvedValue(true);
+      (files.readJsonFile as jest.Mock).mockRejectedValue(new Error("Unexpected token"));
+
+      await expect(GraphReportParser.loadFromWorkspace("/workspace")).rejects.toThrow("Failed to read graph report");
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  formatCoveragePercent,
+  getLineCoverage,
+  parseLcov,
+  resolveCoveragePath,
+  summarizeCoverage,
+} from "../../../../src/infrastructure/bazel/lcov-parser";
+
+const REPORT = `SF:Libs/Core/Sources/Model.swift
+FN:3,$s4Core5ModelV4nameSSvg
+FNDA:2,$s4Core5ModelV4nameSSvg
+DA:3,2
+DA:4,2
+DA:6,0
+BRDA:4,0,0,2
+BRDA:4,0,1,-
+LF:3
+LH:2
+BRF:2
+BRH:1
+end_of_record
+SF:external/swift_collections/Sources/Deque.swift
+DA:1,5
+end_of_record
+SF:/private/var/tmp/_bazel_user/abc123/execroot/__main__/Libs/Core/Sources/Model.swift
+DA:6,1
+BRDA:4,0,1,1
+end_of_record
+`;
+
+describe("resolveCoveragePath", () => {
+  it("should resolve paths relative to the workspace", () => {
+    expect(resolveCoveragePath("Libs/Core/Sources/Model.swift", "/workspace")).toBe(
+      "/workspace/Libs/Core/Sources/Model.swift",
+    );
+  });
+
+  it("should strip the execution root and bazel-out prefixes", () => {
+    expect(
+      resolveCoveragePath("/private/var/tmp/_bazel_user/abc/execroot/_main/Libs/Core/Model.swift", "/workspace"),
+    ).toBe("/workspace/Libs/Core/Model.swift");
+    expect(resolveCoveragePath("bazel-out/ios_sim_arm64-fastbuild/bin/Libs/Core/Gen.swift", "/workspace")).toBe(
+      "/workspace/Libs/Core/Gen.swift",
+    );
+  });
+
+  it("should skip external repositories and files outside of the workspace", () => {
+    expect(resolveCoveragePath("external/swift_collections/Sources/Deque.swift", "/workspace")).toBeUndefined();
+    expect(resolveCoveragePath("/Applications/Xcode.app/Contents/Foo.swift", "/workspace")).toBeUndefined();
+    expect(resolveCoveragePath("/workspace/Libs/Core/Model.swift", "/workspace")).toBe(
+      "/workspace/Libs/Core/Model.swift",
+    );
+  });
+});
+
+describe("parseLcov", () => {
+  it("should merge records of the same file and drop external ones", () => {
+    expect(parseLcov(REPORT, "/workspace")).toEqual([
+      {
+        path: "/workspace/Libs/Core/Sources/Model.swift",
+        lines: [
+          { line: 3, hits: 2 },
+          { line: 4, hits: 2 },
+          { line: 6, hits: 1 },
+        ],
+        branches: [
+          { line: 4, block: 0, branch: 0, taken: 2 },
+          { line: 4, block: 0, branch: 1, taken: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it("should return no files for an empty report", () => {
+    expect(parseLcov("", "/workspace")).toEqual([]);
+  });
+});
+
+describe("summarizeCoverage", () => {
+  it("should count instrumented and hit lines and branches", () => {
+    const files = parseLcov(REPORT.split("SF:external")[0], "/workspace");
+
+    expect(summarizeCoverage(files)).toEqual({ linesFound: 3, linesHit: 2, branchesFound: 2, branchesHit: 1 });
+  });
+});
+
+describe("getLineCoverage", () => {
+  it("should mark covered lines with untaken branches as partial", () => {
+    const [file] = parseLcov(REPORT.split("SF:external")[0], "/workspace");
+
+    expect(getLineCoverage(file)).toEqual(
+      new Map([
+        [3, "covered"],
+        [4, "partial"],
+        [6, "uncovered"],
+      ]),
+    );
+  });
+});
+
+describe("formatCoveragePercent", () => {
+  it("should format a percentage rounded down to one decimal", () => {
+    expect(formatCoveragePercent(2, 3)).toBe("66.6%");
+    expect(formatCoveragePercent(3, 3)).toBe("100%");
+  });
+
+  it("should return undefined when nothing was instrumented", () => {
+    expect(formatCoveragePercent(0, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { BazelParser } from "../../../../src/infrastructure/bazel/bazel-parser";
+import {
+  ALL_TARGET_CATEGORIES,
+  fuzzyScore,
+  isTargetFilterActive,
+  listSearchEntries,
+  searchTargets,
+} from "../../../../src/infrastructure/bazel/target-search";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+jest.mock("../../../../src/shared/utils/config");
+
+const result = BazelParser.buildQueryResult({
+  runnable: [{ type: "ios_application", target: "//Apps/MyApp:App" }],
+  test: [
+    { type: "ios_unit_test", target: "//Libs/Core:CoreTests" },
+    { type: "swift_test", target: "//Libs/Network:NetworkTests" },
+  ],
+  buildable: [
+    { type: "swift_library", target: "//Libs/Core:Core" },
+    { type: "swift_library", target: "//Libs/Network:Network" },
+  ],
+});
+const entries = listSearchEntries(result);
+
+function search(text: string, categories = ALL_TARGET_CATEGORIES): string[] {
+  return searchTargets(entries, { text, categories }).map(({ entry }) => entry.label);
+}
+
+describe("listSearchEntries", () => {
+  it("should list every target with its package and rule kind", () => {
+    expect(entries).toHaveLength(5);
+    expect(entries).toContainEqual({
+      label: "//Libs/Core:CoreTests",
+      name: "CoreTests",
+      packagePath: "Libs/Core",
+      pathParts: ["Libs", "Core"],
+      category: "test",
+      kind: "ios_unit_test",
+    });
+  });
+});
+
+describe("fuzzyScore", () => {
+  it("should match characters in order", () => {
+    expect(fuzzyScore("ntw", "Network")).toBeDefined();
+    expect(fuzzyScore("wtn", "Network")).toBeUndefined();
+  });
+
+  it("should prefer word starts and consecutive characters", () => {
+    expect(fuzzyScore("ct", "CoreTests")).toBeGreaterThan(fuzzyScore("ct", "Connect") as number);
+    expect(fuzzyScore("core", "Core")).toBeGreaterThan(fuzzyScore("core", "CommonResources") as number);
+  });
+});
+
+describe("searchTargets", () => {
+  it("should rank the best match first", () => {
+    expect(search("core")[0]).toBe("//Libs/Core:Core");
+  });
+
+  it("should require every word to match", () => {
+    expect(search("core test")).toEqual(["//Libs/Core:CoreTests"]);
+  });
+
+  it("should match rule kinds and package paths", () => {
+    expect(search("ios_app")).toEqual(["//Apps/MyApp:App"]);
+    expect(search("Libs/Network")).toEqual(["//Libs/Network:Network", "//Libs/Network:NetworkTests"]);
+  });
+
+  it("should only return the given categories", () => {
+    expect(search("", ["test"])).toEqual(["//Libs/Core:CoreTests", "//Libs/Network:NetworkTests"]);
+  });
+});
+
+describe("isTargetFilterActive", () => {
+  it("should be inactive without text and with every category", () => {
+    expect(isTargetFilterActive({ text: " ", categories: ALL_TARGET_CATEGORIES })).toBe(false);
+    expect(isTargetFilterActive({ text: "core", categories: ALL_TARGET_CATEGORIES })).toBe(true);
+    expect(isTargetFilterActive({ text: "", categories: ["runnable"] })).toBe(true);
+  });
+});
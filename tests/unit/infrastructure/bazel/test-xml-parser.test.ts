@@ -0,0 +1,115 @@
+import {
+  buildTestFilter,
+  getShortClassName,
+  parseFailureLocation,
+  parseTestXml,
+} from "../../../../src/infrastructure/bazel/test-xml-parser";
+
+const XCTEST_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="ExampleTests" tests="3" failures="1">
+  <testsuite name="ExampleTests.CalculatorTests" tests="3" failures="1" skipped="1">
+    <testcase classname="ExampleTests.CalculatorTests" name="testAdd" time="0.012" />
+    <testcase classname="ExampleTests.CalculatorTests" name="testDivide" time="0.5">
+      <failure message="XCTAssertEqual failed: (&quot;1&quot;) is not equal to (&quot;2&quot;)">Tests/CalculatorTests.swift:42: error: -[ExampleTests.CalculatorTests testDivide] : XCTAssertEqual failed</failure>
+    </testcase>
+    <testcase classname="ExampleTests.CalculatorTests" name="testLater"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+describe("parseTestXml", () => {
+  it("should parse passed, failed and skipped XCTest cases", () => {
+    const cases = parseTestXml(XCTEST_XML, "/workspace");
+
+    expect(cases).toEqual([
+      { name: "testAdd", className: "ExampleTests.CalculatorTests", status: "passed", durationMillis: 12 },
+      {
+        name: "testDivide",
+        className: "ExampleTests.CalculatorTests",
+        status: "failed",
+        durationMillis: 500,
+        message:
+          'XCTAssertEqual failed: ("1") is not equal to ("2")\nTests/CalculatorTests.swift:42: error: -[ExampleTests.CalculatorTests testDivide] : XCTAssertEqual failed',
+        location: { file: "/workspace/Tests/CalculatorTests.swift", line: 42, column: undefined },
+      },
+      {
+        name: "testLater",
+        className: "ExampleTests.CalculatorTests",
+        status: "skipped",
+        durationMillis: undefined,
+      },
+    ]);
+  });
+
+  it("should fall back to the suite name and read CDATA failures", () => {
+    const xml = `<testsuites><testsuite name="ParserSuite">
+      <testcase name="parsesEmptyInput()" time="0.001"><error><![CDATA[ParserTests.swift:7:3: Expectation failed: a < b]]></error></testcase>
+    </testsuite></testsuites>`;
+
+    const [testCase] = parseTestXml(xml, "/workspace");
+
+    expect(testCase).toMatchObject({
+      name: "parsesEmptyInput()",
+      className: "ParserSuite",
+      status: "failed",
+      message: "ParserTests.swift:7:3: Expectation failed: a < b",
+      location: { file: "/workspace/ParserTests.swift", line: 7, column: 3 },
+    });
+  });
+
+  it("should parse Bazel's fallback report without a class name", () => {
+    const xml = `<testsuites><testsuite name="Tests/Unit" tests="1" failures="0" errors="1">
+      <testcase name="Tests/Unit" status="run" duration="3" time="3"><error message="exited with error code 1"></error></testcase>
+    </testsuite></testsuites>`;
+
+    expect(parseTestXml(xml, "/workspace")).toEqual([
+      {
+        name: "Tests/Unit",
+        className: "Tests/Unit",
+        status: "failed",
+        durationMillis: 3000,
+        message: "exited with error code 1",
+        location: undefined,
+      },
+    ]);
+  });
+
+  it("should return nothing for empty or malformed input", () => {
+    expect(parseTestXml("", "/workspace")).toEqual([]);
+    expect(parseTestXml("<testsuites>", "/workspace")).toEqual([]);
+  });
+});
+
+describe("parseFailureLocation", () => {
+  it("should keep absolute paths", () => {
+    expect(parseFailureLocation("/src/App/Tests.swift:10: error: failed", "/workspace")).toEqual({
+      file: "/src/App/Tests.swift",
+      line: 10,
+      column: undefined,
+    });
+  });
+
+  it("should ignore messages without a source location", () => {
+    expect(parseFailureLocation("Test crashed", "/workspace")).toBeUndefined();
+  });
+});
+
+describe("buildTestFilter", () => {
+  it("should filter classes and cases without the module prefix", () => {
+    expect(
+      buildTestFilter([
+        { className: "ExampleTests.CalculatorTests", name: "testAdd" },
+        { className: "ExampleTests.ParserTests" },
+        { className: "ParserSuite", name: "parsesEmptyInput()" },
+      ]),
+    ).toBe("CalculatorTests/testAdd,ParserTests,ParserSuite/parsesEmptyInput");
+  });
+
+  it("should drop duplicates", () => {
+    expect(buildTestFilter([{ name: "testA" }, { name: "testA" }])).toBe("testA");
+  });
+
+  it("should strip the module from class names", () => {
+    expect(getShortClassName("Module.Suite")).toBe("Suite");
+    expect(getShortClassName("Suite")).toBe("Suite");
+  });
+});
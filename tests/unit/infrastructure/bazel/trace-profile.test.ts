@@ -0,0 +1,133 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as zlib from "node:zlib";
+import {
+  formatTraceProfileSummary,
+  readTraceProfile,
+  summarizeTraceProfile,
+} from "../../../../src/infrastructure/bazel/trace-profile";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Shaped like the JSON trace Bazel writes with --profile, times in microseconds
+const trace = {
+  otherData: { build_id: "abc" },
+  traceEvents: [
+    { name: "thread_name", ph: "M", pid: 1, tid: 0, args: { name: "Critical Path" } },
+    { name: "Launch Blaze", cat: "build phase marker", ph: "i", ts: 0, pid: 1, tid: 1 },
+    { name: "Load and analyze dependencies", cat: "build phase marker", ph: "i", ts: 1_000_000, pid: 1, tid: 1 },
+    { name: "Build artifacts", cat: "build phase marker", ph: "i", ts: 3_000_000, pid: 1, tid: 1 },
+    {
+      name: "Compiling Swift module //Libs/Core:Core",
+      cat: "action processing",
+      ph: "X",
+      ts: 3_100_000,
+      dur: 4_000_000,
+      tid: 2,
+      args: { mnemonic: "SwiftCompile", target: "//Libs/Core:Core" },
+    },
+    { name: "Linking App", cat: "action processing", ph: "X", ts: 7_200_000, dur: 1_500_000, tid: 2 },
+    {
+      name: "action 'Compiling Swift module //Libs/Core:Core'",
+      cat: "critical path component",
+      ph: "X",
+      ts: 3_100_000,
+      dur: 4_000_000,
+      tid: 0,
+    },
+    { name: "action 'Linking App'", cat: "critical path component", ph: "X", ts: 7_200_000, dur: 1_500_000, tid: 0 },
+    { name: "download outputs", cat: "remote output download", ph: "X", ts: 7_000_000, dur: 200_000, tid: 3 },
+    { name: "download outputs", cat: "remote output download", ph: "X", ts: 7_300_000, dur: 300_000, tid: 3 },
+    { name: "check cache hit", cat: "remote action cache check", ph: "X", ts: 3_050_000, dur: 50_000, tid: 3 },
+  ],
+};
+
+describe("summarizeTraceProfile", () => {
+  const summary = summarizeTraceProfile(trace);
+
+  it("should measure phases until the next marker and the end of the trace", () => {
+    expect(summary.totalMillis).toBe(8700);
+    expect(summary.phases).toEqual([
+      { name: "Launch Blaze", durationMillis: 1000 },
+      { name: "Load and analyze dependencies", durationMillis: 2000 },
+      { name: "Build artifacts", durationMillis: 5700 },
+    ]);
+    expect(summary.analysisMillis).toBe(2000);
+    expect(summary.executionMillis).toBe(5700);
+  });
+
+  it("should collect the critical path components", () => {
+    expect(summary.criticalPath).toEqual({
+      totalMillis: 5500,
+      components: [
+        { description: "Compiling Swift module //Libs/Core:Core", durationMillis: 4000 },
+        { description: "Linking App", durationMillis: 1500 },
+      ],
+    });
+  });
+
+  it("should list the slowest actions with mnemonic and target", () => {
+    expect(summary.actionCount).toBe(2);
+    expect(summary.slowestActions[0]).toEqual({
+      description: "Compiling Swift module //Libs/Core:Core",
+      mnemonic: "SwiftCompile",
+      target: "//Libs/Core:Core",
+      durationMillis: 4000,
+    });
+  });
+
+  it("should break down remote cache and execution time per category", () => {
+    expect(summary.remote).toEqual([
+      { category: "remote output download", count: 2, totalMillis: 500 },
+      { category: "remote action cache check", count: 1, totalMillis: 50 },
+    ]);
+  });
+
+  it("should accept the bare event array of older Bazel versions", () => {
+    expect(summarizeTraceProfile(trace.traceEvents).totalMillis).toBe(8700);
+  });
+
+  it("should summarize an empty trace", () => {
+    expect(summarizeTraceProfile({})).toMatchObject({ totalMillis: 0, actionCount: 0, phases: [] });
+  });
+});
+
+describe("readTraceProfile", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "trace-profile-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should read plain and gzipped profiles", async () => {
+    const plainPath = path.join(tempDir, "profile.json");
+    const gzippedPath = path.join(tempDir, "profile.json.gz");
+    fs.writeFileSync(plainPath, JSON.stringify(trace));
+    fs.writeFileSync(gzippedPath, zlib.gzipSync(JSON.stringify(trace)));
+
+    expect(await readTraceProfile(gzippedPath)).toEqual(await readTraceProfile(plainPath));
+    expect((await readTraceProfile(gzippedPath)).criticalPath.totalMillis).toBe(5500);
+  });
+});
+
+describe("formatTraceProfileSummary", () => {
+  it("should print totals, critical path and the slowest action", () => {
+    const text = formatTraceProfileSummary(summarizeTraceProfile(trace));
+
+    expect(text).toContain("Total: 8.70s (analysis 2.00s, execution 5.70s)");
+    expect(text).toContain("Critical path: 5.50s in 2 action(s)");
+    expect(text).toContain("Slowest action: Compiling Swift module //Libs/Core:Core (4.00s)");
+  });
+});
@@ -0,0 +1,109 @@
+import { createAuthMiddleware, getMcpAuthToken, isAuthorized } from "../../../../src/infrastructure/mcp/auth";
+import type { ExtensionContext } from "../../../../src/infrastructure/vscode/extension-context";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock("../../../../src/shared/utils/bazel-utils", () => ({
+  getWorkspaceFolderPath: jest.fn(() => "/workspace"),
+}));
+
+function createContext(): { context: ExtensionContext; secrets: Map<string, string> } {
+  const secrets = new Map<string, string>();
+  const context = {
+    secrets: {
+      get: jest.fn(async (key: string) => secrets.get(key)),
+      store: jest.fn(async (key: string, value: string) => {
+        secrets.set(key, value);
+      }),
+    },
+  } as unknown as ExtensionContext;
+  return { context, secrets };
+}
+
+describe("getMcpAuthToken", () => {
+  it("should generate a token once and reuse it", async () => {
+    const { context, secrets } = createContext();
+
+    const token = await getMcpAuthToken(context);
+    expect(token).toMatch(/^[\w-]{43}$/);
+    expect(await getMcpAuthToken(context)).toBe(token);
+    expect(secrets.size).toBe(1);
+    expect([...secrets.keys()][0]).toMatch(/^bazelbsp\.mcp\.authToken\.[0-9a-f]{16}$/);
+  });
+
+  it("should replace the token when regenerating", async () => {
+    const { context } = createContext();
+
+    const token = await getMcpAuthToken(context);
+    const regenerated = await getMcpAuthToken(context, { regenerate: true });
+    expect(regenerated).not.toBe(token);
+    expect(await getMcpAuthToken(context)).toBe(regenerated);
+  });
+});
+
+describe("isAuthorized", () => {
+  it("should accept the bearer token", () => {
+    expect(isAuthorized("Bearer secret-token", "secret-token")).toBe(true);
+    expect(isAuthorized("bearer secret-token", "secret-token")).toBe(true);
+  });
+
+  it("should reject missing, malformed or wrong tokens", () => {
+    expect(isAuthorized(undefined, "secret-token")).toBe(false);
+    expect(isAuthorized("secret-token", "secret-token")).toBe(false);
+    expect(isAuthorized("Basic secret-token", "secret-token")).toBe(false);
+    expect(isAuthorized("Bearer other-token", "secret-token")).toBe(false);
+    expect(isAuthorized("Bearer secret", "secret-token")).toBe(false);
+  });
+});
+
+describe("createAuthMiddleware", () => {
+  function createResponse() {
+    const res: { setHeader: jest.Mock; status: jest.Mock; json: jest.Mock } = {
+      setHeader: jest.fn(),
+      status: jest.fn(),
+      json: jest.fn(),
+    };
+    res.status.mockReturnValue(res);
+    res.json.mockReturnValue(res);
+    return res;
+  }
+
+  function createRequest(authorization?: string) {
+    return {
+      path: "/mcp",
+      method: "POST",
+      header: (name: string) => (name === "authorization" ? authorization : undefined),
+    };
+  }
+
+  it("should pass authorized requests on", () => {
+    const next = jest.fn();
+    const res = createResponse();
+
+    createAuthMiddleware("secret-token")(createRequest("Bearer secret-token") as any, res as any, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it("should answer unauthorized requests with 401", () => {
+    const next = jest.fn();
+    const res = createResponse();
+
+    createAuthMiddleware("secret-token")(createRequest() as any, res as any, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.setHeader).toHaveBeenCalledWith("WWW-Authenticate", 'Bearer realm="bazelbsp"');
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ error: expect.objectContaining({ code: -32001 }) }),
+    );
+  });
+});
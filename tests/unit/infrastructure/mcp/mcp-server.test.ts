@@ -0,0 +1,47 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { listenOnAvailablePort } from "../../../../src/infrastructure/mcp/mcp-server";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe("listenOnAvailablePort", () => {
+  const servers: http.Server[] = [];
+
+  function createServer(): http.Server {
+    const server = http.createServer();
+    servers.push(server);
+    return server;
+  }
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise<void>((resolve) => server.close(() => resolve()))));
+  });
+
+  it("should use the next port when the first one is busy", async () => {
+    const busy = createServer();
+    await new Promise<void>((resolve) => busy.listen(0, "127.0.0.1", () => resolve()));
+    const busyPort = (busy.address() as AddressInfo).port;
+
+    const port = await listenOnAvailablePort(createServer(), { port: busyPort, host: "127.0.0.1", maxAttempts: 5 });
+
+    expect(port).toBeGreaterThan(busyPort);
+    expect(port).toBeLessThan(busyPort + 5);
+  });
+
+  it("should fail after the last attempt", async () => {
+    const busy = createServer();
+    await new Promise<void>((resolve) => busy.listen(0, "127.0.0.1", () => resolve()));
+    const busyPort = (busy.address() as AddressInfo).port;
+
+    await expect(
+      listenOnAvailablePort(createServer(), { port: busyPort, host: "127.0.0.1", maxAttempts: 1 }),
+    ).rejects.toMatchObject({ code: "EADDRINUSE" });
+  });
+});
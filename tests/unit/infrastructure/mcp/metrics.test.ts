@@ -0,0 +1,156 @@
+import type { MetricValueWithName } from "prom-client";
+import type { BazelBuildSummary } from "../../../../src/domain/entities/bazel/types";
+import {
+  LabelValueLimiter,
+  SIMULATOR_OPERATION_DURATION,
+  getCacheHitRatio,
+  getMetrics,
+  observeDuration,
+  recordBuildMetrics,
+  resetMetrics,
+} from "../../../../src/infrastructure/mcp/metrics";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const METRICS = {
+  actionsCreated: 100,
+  actionsExecuted: 40,
+  remoteCacheHits: 20,
+  diskCacheHits: 5,
+  actionCacheHits: 60,
+  actionCacheMisses: 40,
+};
+
+function createSummary(overrides: Partial<BazelBuildSummary> = {}): BazelBuildSummary {
+  return {
+    command: "build",
+    success: true,
+    durationMillis: 42_000,
+    targets: [],
+    failedActions: [],
+    tests: [],
+    metrics: METRICS,
+    ...overrides,
+  };
+}
+
+async function getMetricValues(name: string): Promise<MetricValueWithName<string>[]> {
+  const metric = getMetrics().getSingleMetric(name);
+  return (await metric?.get())?.values ?? [];
+}
+
+describe("LabelValueLimiter", () => {
+  it("should report values over the limit as other", () => {
+    const limiter = new LabelValueLimiter(2);
+
+    expect(limiter.limit("label", "//a:a")).toBe("//a:a");
+    expect(limiter.limit("label", "//b:b")).toBe("//b:b");
+    expect(limiter.limit("label", "//c:c")).toBe("other");
+    expect(limiter.limit("label", "//a:a")).toBe("//a:a");
+    expect(limiter.limit("mode", "debug")).toBe("debug");
+    expect(limiter.limit("mode", undefined)).toBe("unknown");
+  });
+});
+
+describe("getCacheHitRatio", () => {
+  it("should count action, remote and disk cache hits", () => {
+    expect(getCacheHitRatio(METRICS)).toBeCloseTo(0.85);
+  });
+
+  it("should be undefined when nothing was looked up", () => {
+    expect(getCacheHitRatio({ ...METRICS, actionCacheHits: 0, actionCacheMisses: 0 })).toBeUndefined();
+  });
+});
+
+describe("recordBuildMetrics", () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it("should record duration, cache usage and test results", async () => {
+    recordBuildMetrics(
+      createSummary({
+        command: "test",
+        tests: [
+          { label: "//Tests:Unit", status: "PASSED", durationMillis: 1000, cached: false },
+          { label: "//Tests:UI", status: "FAILED", durationMillis: 1000, cached: false },
+        ],
+      }),
+      { label: "//Tests:Unit", buildMode: "debug", destination: "iOSSimulator" },
+    );
+
+    const durations = await getMetricValues("bazel_build_duration_seconds");
+    expect(durations).toContainEqual(
+      expect.objectContaining({
+        metricName: "bazel_build_duration_seconds_sum",
+        value: 42,
+        labels: {
+          command: "test",
+          label: "//Tests:Unit",
+          mode: "debug",
+          destination: "iOSSimulator",
+          status: "success",
+        },
+      }),
+    );
+
+    const misses = await getMetricValues("bazel_cache_misses_total");
+    expect(misses).toEqual([expect.objectContaining({ value: 15, labels: { command: "test" } })]);
+
+    const ratio = await getMetricValues("bazel_cache_hit_ratio");
+    expect(ratio[0].value).toBeCloseTo(0.85);
+
+    const tests = await getMetricValues("bazel_test_results_total");
+    expect(tests).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ value: 1, labels: { label: "//Tests:Unit", status: "PASSED" } }),
+        expect.objectContaining({ value: 1, labels: { label: "//Tests:UI", status: "FAILED" } }),
+      ]),
+    );
+  });
+
+  it("should label failed builds", async () => {
+    recordBuildMetrics(createSummary({ success: false, metrics: undefined }), { label: "//Apps/MyApp:MyApp" });
+
+    const durations = await getMetricValues("bazel_build_duration_seconds");
+    expect(durations).toContainEqual(
+      expect.objectContaining({
+        metricName: "bazel_build_duration_seconds_count",
+        value: 1,
+        labels: expect.objectContaining({ status: "failure", mode: "unknown" }),
+      }),
+    );
+  });
+});
+
+describe("observeDuration", () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it("should record the outcome of the operation", async () => {
+    await expect(
+      observeDuration(SIMULATOR_OPERATION_DURATION, { operation: "install" }, async () => "installed"),
+    ).resolves.toBe("installed");
+    await expect(
+      observeDuration(SIMULATOR_OPERATION_DURATION, { operation: "launch" }, async () => {
+        throw new Error("launch failed");
+      }),
+    ).rejects.toThrow("launch failed");
+
+    const counts = (await getMetricValues("simulator_operation_duration_seconds")).filter(
+      (value) => value.metricName === "simulator_operation_duration_seconds_count",
+    );
+    expect(counts.map((value) => value.labels)).toEqual([
+      { operation: "install", status: "success" },
+      { operation: "launch", status: "failure" },
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import { queryDeps, queryTargetInfo } from "../../../../src/infrastructure/bazel/bazel-query";
+import {
+  createExplainTargetPrompt,
+  createFixBuildFailurePrompt,
+  createFixFailingTestsPrompt,
+} from "../../../../src/infrastructure/mcp/prompts";
+import type { CommandInvocationResult } from "../../../../src/infrastructure/vscode/command-invocation";
+import type { ExtensionContext } from "../../../../src/infrastructure/vscode/extension-context";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock("../../../../src/shared/utils/bazel-utils", () => ({
+  getWorkspacePath: jest.fn(() => "/workspace"),
+}));
+
+jest.mock("../../../../src/infrastructure/bazel/bazel-query", () => ({
+  queryDeps: jest.fn(),
+  queryTargetInfo: jest.fn(),
+}));
+
+function createResult(overrides: Partial<CommandInvocationResult> = {}): CommandInvocationResult {
+  return {
+    id: "1234",
+    command: "bazelbsp.bazel.buildSelected",
+    status: "failed",
+    durationMillis: 1000,
+    diagnostics: [],
+    artifacts: [],
+    tests: [],
+    log: "",
+    ...overrides,
+  };
+}
+
+function createContext(overrides: Partial<Record<string, unknown>> = {}): ExtensionContext {
+  return {
+    lastBuildInvocation: undefined,
+    lastBuildSummary: undefined,
+    testHistoryManager: { getFailingCases: jest.fn(() => []) },
+    ...overrides,
+  } as unknown as ExtensionContext;
+}
+
+function textOf(prompt: { messages: { content: { type: string; text?: string } }[] }): string {
+  return prompt.messages[0].content.text ?? "";
+}
+
+describe("createFixBuildFailurePrompt", () => {
+  it("should inline the diagnostics and failed actions of the last build", () => {
+    const context = createContext({
+      lastBuildInvocation: createResult({
+        diagnostics: [
+          {
+            file: "/workspace/Libs/Core/Model.swift",
+            line: 12,
+            column: 5,
+            severity: "error",
+            message: "cannot find 'foo' in scope",
+          },
+        ],
+      }),
+      lastBuildSummary: {
+        targets: [],
+        tests: [],
+        failedActions: [{ type: "actionFailed", label: "//Libs/Core:Core", mnemonic: "SwiftCompile", exitCode: 1 }],
+      },
+    });
+
+    const text = textOf(createFixBuildFailurePrompt(context));
+
+    expect(text).toContain("The last Bazel build failed");
+    expect(text).toContain("- Libs/Core/Model.swift:12:5: error: cannot find 'foo' in scope");
+    expect(text).toContain("- //Libs/Core:Core: SwiftCompile (exit code 1)");
+  });
+
+  it("should not ask to fix a successful build", () => {
+    const context = createContext({ lastBuildInvocation: createResult({ status: "succeeded" }) });
+
+    expect(textOf(createFixBuildFailurePrompt(context))).toContain("succeeded, there is nothing to fix");
+  });
+});
+
+describe("createFixFailingTestsPrompt", () => {
+  it("should list the failing cases", () => {
+    const context = createContext({
+      testHistoryManager: {
+        getFailingCases: jest.fn(() => [
+          { label: "//Tests:LoginTests", className: "LoginTests", name: "testValidPassword", runs: [] },
+        ]),
+      },
+    });
+
+    expect(textOf(createFixFailingTestsPrompt(context))).toContain(
+      "- //Tests:LoginTests: LoginTests/testValidPassword",
+    );
+  });
+
+  it("should explain when nothing failed", () => {
+    expect(textOf(createFixFailingTestsPrompt(createContext()))).toContain("No failing tests are recorded");
+  });
+});
+
+describe("createExplainTargetPrompt", () => {
+  it("should inline the rule and its dependencies", async () => {
+    jest.mocked(queryTargetInfo).mockResolvedValue({
+      label: "//Libs/Core:Core",
+      kind: "swift_library",
+      attributes: { srcs: ["//Libs/Core:Model.swift"] },
+    });
+    jest.mocked(queryDeps).mockResolvedValue([{ type: "swift_library", target: "//Libs/Base:Base" }]);
+
+    const text = textOf(await createExplainTargetPrompt("//Libs/Core:Core"));
+
+    expect(text).toContain("//Libs/Core:Core (swift_library)");
+    expect(text).toContain("- //Libs/Base:Base (swift_library)");
+  });
+
+  it("should still return a prompt when the query fails", async () => {
+    jest.mocked(queryTargetInfo).mockRejectedValue(new Error("bazel query failed"));
+    jest.mocked(queryDeps).mockResolvedValue([]);
+
+    const text = textOf(await createExplainTargetPrompt("//Libs/Core:Core"));
+
+    expect(text).toContain("Querying the target failed (bazel query failed)");
+  });
+});
@@ -0,0 +1,171 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { type ReadResourceResult, ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import * as vscode from "vscode";
+import {
+  McpResourceUpdates,
+  RESOURCE_URIS,
+  type ResourceUri,
+  readBuildLog,
+  readBuildSummary,
+  readSelection,
+  registerBazelResources,
+} from "../../../../src/infrastructure/mcp/resources";
+import type { CommandInvocationResult } from "../../../../src/infrastructure/vscode/command-invocation";
+import type { ExtensionContext } from "../../../../src/infrastructure/vscode/extension-context";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn(),
+    lastFormatted: jest.fn(() => "---\nlevel: INFO"),
+  },
+}));
+
+jest.mock("../../../../src/shared/utils/bazel-utils", () => ({
+  getWorkspacePath: jest.fn(() => "/workspace"),
+}));
+
+const BUILD_RESULT: CommandInvocationResult = {
+  id: "1234",
+  command: "bazelbsp.bazel.buildSelected",
+  status: "failed",
+  durationMillis: 1000,
+  diagnostics: [],
+  artifacts: [],
+  tests: [],
+  log: "ERROR: Build did NOT complete successfully",
+};
+
+function createContext(overrides: Partial<Record<string, unknown>> = {}): ExtensionContext {
+  return {
+    lastBuildInvocation: undefined,
+    lastBuildSummary: undefined,
+    getWorkspaceState: jest.fn((key: string) => (key === "bazel.buildMode" ? "release" : undefined)),
+    buildManager: {
+      getSelectedBazelTargetData: jest.fn(() => ({ targetName: "MyApp", buildLabel: "//Apps/MyApp:MyApp" })),
+    },
+    destinationsManager: {
+      getSelectedXcodeDestinationForBuild: jest.fn(() => ({ id: "SIM-1", type: "iOSSimulator", name: "iPhone 16" })),
+      getSelectedXcodeDestinationForTesting: jest.fn(() => undefined),
+    },
+    ...overrides,
+  } as unknown as ExtensionContext;
+}
+
+function createUpdates() {
+  const listeners: ((uri: ResourceUri) => void)[] = [];
+  const updates = {
+    onDidUpdate: jest.fn((listener: (uri: ResourceUri) => void) => {
+      listeners.push(listener);
+      return () => listeners.splice(listeners.indexOf(listener), 1);
+    }),
+  } as unknown as McpResourceUpdates;
+  const fire = (uri: ResourceUri) => {
+    for (const listener of listeners) listener(uri);
+  };
+  return { updates, fire };
+}
+
+function textOf(result: ReadResourceResult): string {
+  return String(result.contents[0].text);
+}
+
+describe("resource contents", () => {
+  const uri = new URL(RESOURCE_URIS.buildLog);
+
+  it("should explain when no build has run yet", () => {
+    const context = createContext();
+
+    expect(textOf(readBuildLog(context, uri))).toBe("No build has run in this window yet.");
+    expect(readBuildSummary(context, uri).contents[0].mimeType).toBe("text/plain");
+  });
+
+  it("should return the log of the last build", () => {
+    const context = createContext({ lastBuildInvocation: BUILD_RESULT });
+
+    const text = textOf(readBuildLog(context, uri));
+    expect(text).toContain("bazelbsp.bazel.buildSelected failed (invocation 1234)");
+    expect(text).toContain("ERROR: Build did NOT complete successfully");
+  });
+
+  it("should return the selection as JSON", () => {
+    const selection = JSON.parse(textOf(readSelection(createContext(), new URL(RESOURCE_URIS.selection))));
+
+    expect(selection).toEqual({
+      target: { targetName: "MyApp", buildLabel: "//Apps/MyApp:MyApp" },
+      buildDestination: { id: "SIM-1", type: "iOSSimulator", name: "iPhone 16" },
+      testingDestination: null,
+      buildMode: "release",
+      buildProfile: null,
+    });
+  });
+});
+
+describe("registerBazelResources", () => {
+  async function connect(context: ExtensionContext, updates: McpResourceUpdates) {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    const removeResources = registerBazelResources(server, context, updates);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return { server, client, removeResources };
+  }
+
+  it("should list and read the resources", async () => {
+    const { updates } = createUpdates();
+    const { client, server } = await connect(createContext({ lastBuildInvocation: BUILD_RESULT }), updates);
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toEqual(Object.values(RESOURCE_URIS));
+
+    const log = await client.readResource({ uri: RESOURCE_URIS.buildLog });
+    expect(log.contents[0].text).toContain("Build did NOT complete successfully");
+
+    await server.close();
+  });
+
+  it("should notify only about subscribed resources", async () => {
+    const { updates, fire } = createUpdates();
+    const { client, server, removeResources } = await connect(createContext(), updates);
+    const notified: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      notified.push(notification.params.uri);
+    });
+
+    await client.subscribeResource({ uri: RESOURCE_URIS.buildLog });
+    fire(RESOURCE_URIS.buildSummary);
+    fire(RESOURCE_URIS.buildLog);
+    await client.unsubscribeResource({ uri: RESOURCE_URIS.buildLog });
+    fire(RESOURCE_URIS.buildLog);
+    await client.ping();
+
+    expect(notified).toEqual([RESOURCE_URIS.buildLog]);
+
+    removeResources();
+    await server.close();
+  });
+});
+
+describe("McpResourceUpdates", () => {
+  it("should remove its listeners on dispose", () => {
+    const { commonLogger } = jest.requireMock("../../../../src/shared/logger/logger");
+    const emitter = () => ({ on: jest.fn(), off: jest.fn() });
+    const context = { ...emitter(), buildManager: emitter(), destinationsManager: emitter() };
+
+    new McpResourceUpdates(context as unknown as ExtensionContext).dispose();
+
+    const watcher = jest.mocked(vscode.workspace.createFileSystemWatcher).mock.results[0].value;
+
+    for (const source of [context, context.buildManager, context.destinationsManager, commonLogger]) {
+      expect(source.off.mock.calls).toEqual(source.on.mock.calls);
+    }
+    expect(commonLogger.off).toHaveBeenCalledWith("logged", expect.any(Function));
+    expect(watcher.dispose).toHaveBeenCalled();
+  });
+});
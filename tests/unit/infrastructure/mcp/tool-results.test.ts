@@ -0,0 +1,128 @@
+import {
+  createInvocationToolResult,
+  createPageToolResult,
+  formatInvocationSummary,
+  paginate,
+} from "../../../../src/infrastructure/mcp/tool-results";
+import type { CommandInvocationResult } from "../../../../src/infrastructure/vscode/command-invocation";
+
+function createResult(overrides: Partial<CommandInvocationResult> = {}): CommandInvocationResult {
+  return {
+    id: "1234",
+    command: "bazelbsp.bazel.buildSelected",
+    status: "succeeded",
+    durationMillis: 12_300,
+    diagnostics: [],
+    artifacts: [],
+    tests: [],
+    log: "",
+    ...overrides,
+  };
+}
+
+describe("formatInvocationSummary", () => {
+  it("should summarize a failed build from its fields", () => {
+    const summary = formatInvocationSummary(
+      createResult({
+        status: "failed",
+        exitCode: 1,
+        bazelExitCode: "BUILD_FAILURE",
+        error: "Command returned non-zero exit code",
+        diagnostics: [
+          {
+            file: "/workspace/Libs/Core/Model.swift",
+            line: 12,
+            column: 5,
+            severity: "error",
+            message: "cannot find 'foo' in scope",
+          },
+        ],
+        log: "ERROR: Build did NOT complete successfully",
+      }),
+      "/workspace",
+    );
+
+    expect(summary).toBe(
+      [
+        "bazelbsp.bazel.buildSelected failed in 12.3s, exit code 1, bazel BUILD_FAILURE",
+        "Invocation: 1234",
+        "Error: Command returned non-zero exit code",
+        "",
+        "Diagnostics (1):",
+        "- Libs/Core/Model.swift:12:5: error: cannot find 'foo' in scope",
+        "",
+        "Output:",
+        "ERROR: Build did NOT complete successfully",
+      ].join("\n"),
+    );
+  });
+
+  it("should list artifacts and tests and only the end of long logs", () => {
+    const log = Array.from({ length: 100 }, (_, index) => `line ${index + 1}`).join("\n");
+    const summary = formatInvocationSummary(
+      createResult({
+        durationMillis: 65_000,
+        artifacts: ["/out/App.ipa"],
+        tests: [{ label: "//Tests:UnitTests", status: "PASSED", durationMillis: 1000, cached: true }],
+        log,
+      }),
+    );
+
+    expect(summary).toContain("succeeded in 1m 5s");
+    expect(summary).toContain("Artifacts:\n- /out/App.ipa");
+    expect(summary).toContain("- //Tests:UnitTests: PASSED (cached)");
+    expect(summary).toContain("Output (last 80 of 100 lines):\nline 21");
+    expect(summary).not.toContain("line 20\n");
+  });
+});
+
+describe("createInvocationToolResult", () => {
+  it("should return the fields as structured content and flag unsuccessful runs", () => {
+    const result = createInvocationToolResult(createResult({ status: "timeout" }));
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ id: "1234", status: "timeout" });
+    expect(result.content[0]).toMatchObject({ type: "text" });
+  });
+});
+
+describe("paginate", () => {
+  const items = Array.from({ length: 250 }, (_, index) => index);
+
+  it("should return the first page by default", () => {
+    const page = paginate(items);
+
+    expect(page.items).toHaveLength(100);
+    expect(page).toMatchObject({ total: 250, offset: 0, limit: 100, nextOffset: 100 });
+  });
+
+  it("should not set the next offset on the last page", () => {
+    const page = paginate(items, { offset: 200, limit: 100 });
+
+    expect(page.items).toEqual(items.slice(200));
+    expect(page.nextOffset).toBeUndefined();
+  });
+
+  it("should clamp the limit and offset", () => {
+    expect(paginate(items, { limit: 10_000 }).limit).toBe(500);
+    expect(paginate(items, { offset: -5, limit: 0 })).toMatchObject({ offset: 0, limit: 1 });
+  });
+});
+
+describe("createPageToolResult", () => {
+  it("should list the items and tell how to get the next page", () => {
+    const result = createPageToolResult("Targets", paginate(["//A:A", "//B:B", "//C:C"], { limit: 2 }), (item) => item);
+
+    expect(result.content[0]).toEqual({
+      type: "text",
+      text: "Targets: 1-2 of 3\n- //A:A\n- //B:B\n\nMore results available, call again with offset=2",
+    });
+    expect(result.structuredContent).toMatchObject({ total: 3, nextOffset: 2, items: ["//A:A", "//B:B"] });
+  });
+
+  it("should handle empty results", () => {
+    const result = createPageToolResult("Targets", paginate([]), (item) => item);
+
+    expect(result.content[0]).toEqual({ type: "text", text: "Targets: none of 0" });
+  });
+});
@@ -0,0 +1,59 @@
+import { parseCompilerDiagnostics } from "../../../../src/infrastructure/vscode/build-diagnostics";
+
+// Mock dependencies
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe("parseCompilerDiagnostics", () => {
+  it("should parse swift errors and warnings relative to the workspace", () => {
+    const output = [
+      "Libs/Core/Sources/Model.swift:12:5: error: cannot find 'foo' in scope",
+      "    foo()",
+      "    ^~~",
+      "Libs/Core/Sources/Model.swift:20:1: warning: variable 'x' was never used",
+    ].join("\n");
+
+    expect(parseCompilerDiagnostics(output, "/workspace")).toEqual([
+      {
+        file: "/workspace/Libs/Core/Sources/Model.swift",
+        line: 12,
+        column: 5,
+        severity: "error",
+        message: "cannot find 'foo' in scope",
+      },
+      {
+        file: "/workspace/Libs/Core/Sources/Model.swift",
+        line: 20,
+        column: 1,
+        severity: "warning",
+        message: "variable 'x' was never used",
+      },
+    ]);
+  });
+
+  it("should keep absolute paths and strip color codes", () => {
+    const output = "\u001b[1m/abs/Foo.m:3:9: \u001b[0;1;31merror: \u001b[0mexpected ';'";
+
+    expect(parseCompilerDiagnostics(output, "/workspace")).toEqual([
+      { file: "/abs/Foo.m", line: 3, column: 9, severity: "error", message: "expected ';'" },
+    ]);
+  });
+
+  it("should default the column when it is missing and ignore notes", () => {
+    const output = [
+      "ld: warning: ignoring duplicate libraries",
+      "Foo.swift:4: error: bad",
+      "Foo.swift:5:1: note: x",
+    ].join("\n");
+
+    expect(parseCompilerDiagnostics(output, "/w")).toEqual([
+      { file: "/w/Foo.swift", line: 4, column: 1, severity: "error", message: "bad" },
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import * as path from "node:path";
+import { classifyBuildFileChanges } from "../../../../src/infrastructure/vscode/build-file-watcher";
+
+describe("classifyBuildFileChanges", () => {
+  const root = path.join("/workspace", "repo");
+
+  it("should map BUILD files to their packages", () => {
+    const changes = classifyBuildFileChanges(
+      [
+        path.join(root, "Libs", "Core", "BUILD.bazel"),
+        path.join(root, "Apps", "MyApp", "BUILD"),
+        path.join(root, "Libs", "Core", "BUILD"),
+      ],
+      root,
+    );
+
+    expect(changes).toEqual({ packages: ["Apps/MyApp", "Libs/Core"], requiresFullQuery: false });
+  });
+
+  it("should require a full query for macros and MODULE.bazel", () => {
+    expect(classifyBuildFileChanges([path.join(root, "tools", "defs.bzl")], root).requiresFullQuery).toBe(true);
+    expect(classifyBuildFileChanges([path.join(root, "MODULE.bazel")], root).requiresFullQuery).toBe(true);
+  });
+
+  it("should skip the root package and files outside the workspace", () => {
+    const changes = classifyBuildFileChanges(
+      [path.join(root, "BUILD.bazel"), path.join("/workspace", "other", "BUILD.bazel")],
+      root,
+    );
+
+    expect(changes).toEqual({ packages: [], requiresFullQuery: false });
+  });
+});
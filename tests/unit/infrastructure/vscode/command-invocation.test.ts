@@ -0,0 +1,84 @@
+import { CommandInvocation } from "../../../../src/infrastructure/vscode/command-invocation";
+
+const DIAGNOSTIC = {
+  file: "/workspace/Libs/Core/Model.swift",
+  line: 12,
+  column: 5,
+  severity: "error" as const,
+  message: "cannot find 'foo' in scope",
+};
+
+describe("CommandInvocation", () => {
+  it("should collect output without colors and carriage returns", () => {
+    const invocation = new CommandInvocation("bazelbsp.bazel.buildSelected");
+
+    invocation.appendOutput("\x1b[32mbazel build //App:App\x1b[0m\r\n");
+    invocation.appendOutput("INFO: Build completed successfully\r\n");
+
+    expect(invocation.finish("succeeded").log).toBe("bazel build //App:App\nINFO: Build completed successfully");
+  });
+
+  it("should merge builds and deduplicate diagnostics", () => {
+    const invocation = new CommandInvocation("bazelbsp.bazel.testSelected");
+
+    invocation.recordBuild(
+      {
+        success: false,
+        exitCode: "BUILD_FAILURE",
+        targets: [
+          { label: "//App:App", success: true, outputFiles: ["/out/App.ipa"] },
+          { label: "//Libs:Core", success: false, outputFiles: ["/out/Core.a"] },
+        ],
+        failedActions: [],
+        tests: [],
+      },
+      [DIAGNOSTIC],
+    );
+    invocation.recordBuild(
+      {
+        success: false,
+        exitCode: "TESTS_FAILED",
+        targets: [],
+        failedActions: [],
+        tests: [{ label: "//Tests:UnitTests", status: "FAILED", durationMillis: 1200, cached: false }],
+      },
+      [DIAGNOSTIC],
+    );
+
+    const result = invocation.finish("failed");
+    expect(result.diagnostics).toEqual([DIAGNOSTIC]);
+    expect(result.artifacts).toEqual(["/out/App.ipa"]);
+    expect(result.tests).toHaveLength(1);
+    expect(result.bazelExitCode).toBe("TESTS_FAILED");
+  });
+
+  it("should keep the first error as the cause", () => {
+    const invocation = new CommandInvocation("bazelbsp.bazel.buildSelected");
+
+    invocation.recordError("Command returned non-zero exit code: bazel build //App:App", 1);
+    invocation.recordError("Error running task 'Bazel Build: App'");
+
+    const result = invocation.finish("failed");
+    expect(result.error).toBe("Command returned non-zero exit code: bazel build //App:App");
+    expect(result.exitCode).toBe(1);
+  });
+
+  it("should report cancelled tasks as cancelled", () => {
+    const invocation = new CommandInvocation("bazelbsp.bazel.buildSelected");
+
+    invocation.recordCancelled();
+
+    expect(invocation.finish("succeeded").status).toBe("cancelled");
+  });
+
+  it("should resolve completion once with the first result", async () => {
+    const invocation = new CommandInvocation("bazelbsp.bazel.buildSelected");
+
+    const first = invocation.finish("timeout");
+    const second = invocation.finish("succeeded");
+
+    expect(second).toBe(first);
+    expect(invocation.isFinished).toBe(true);
+    await expect(invocation.completed).resolves.toMatchObject({ status: "timeout" });
+  });
+});
@@ -0,0 +1,163 @@
+import * as vscode from "vscode";
+import { executeWithBuildEvents } from "../../../../src/infrastructure/bazel/bazel-build";
+import type { ExtensionContext } from "../../../../src/infrastructure/vscode/extension-context";
+import { BazelTestController } from "../../../../src/infrastructure/vscode/test-controller";
+import type { BazelTreeProvider } from "../../../../src/presentation/tree-providers/bazel-tree.provider";
+import { exec } from "../../../../src/shared/utils/exec";
+import { readTextFile } from "../../../../src/shared/utils/files";
+import { runTask } from "../../../../src/shared/utils/tasks";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock("../../../../src/shared/utils/bazel-utils", () => ({
+  askDestinationToRunOn: jest.fn(),
+  getWorkspacePath: jest.fn(() => "/workspace"),
+}));
+
+jest.mock("../../../../src/shared/utils/config", () => ({
+  getWorkspaceConfig: jest.fn(() => undefined),
+}));
+
+jest.mock("../../../../src/shared/utils/tasks", () => ({
+  runTask: jest.fn(),
+}));
+
+jest.mock("../../../../src/shared/utils/exec", () => ({
+  exec: jest.fn(),
+}));
+
+jest.mock("../../../../src/shared/utils/files", () => ({
+  readTextFile: jest.fn(),
+}));
+
+jest.mock("../../../../src/infrastructure/bazel/bazel-build", () => ({
+  getBuildModeFlags: jest.fn(() => ["--compilation_mode=dbg"]),
+  getPlatformFlags: jest.fn(() => ["--platforms=//:ios_sim"]),
+  executeWithBuildEvents: jest.fn(),
+}));
+
+jest.mock("../../../../src/infrastructure/bazel/test-xml-parser", () => ({
+  ...jest.requireActual("../../../../src/infrastructure/bazel/test-xml-parser"),
+  readTestResultCases: jest.fn(async () => []),
+}));
+
+type RunHandler = (request: vscode.TestRunRequest, token: vscode.CancellationToken) => Promise<void>;
+
+function createTestController() {
+  const profiles = new Map<number, RunHandler>();
+  const items = new Map<string, vscode.TestItem>();
+  const run = {
+    started: jest.fn(),
+    passed: jest.fn(),
+    failed: jest.fn(),
+    errored: jest.fn(),
+    skipped: jest.fn(),
+    appendOutput: jest.fn(),
+    end: jest.fn(),
+  };
+  jest.mocked(vscode.tests.createTestController).mockReturnValue({
+    items: {
+      get: (id: string) => items.get(id),
+      replace: (replaced: vscode.TestItem[]) => {
+        items.clear();
+        for (const item of replaced) items.set(item.id, item);
+      },
+      [Symbol.iterator]: () => items.entries(),
+    },
+    createTestItem: (id: string, label: string) => ({ id, label, children: new Map() }),
+    createRunProfile: (_label: string, kind: number, handler: RunHandler) => profiles.set(kind, handler),
+    createTestRun: () => run,
+    dispose: jest.fn(),
+  } as unknown as vscode.TestController);
+
+  const treeProvider = {
+    onDidLoadTargets: jest.fn(() => ({ dispose: jest.fn() })),
+    getQueryResult: jest.fn(() => ({ tree: { Apps: { test: ["AppTests"] }, Libs: { test: ["LibTests"] } } })),
+    refresh: jest.fn(),
+  } as unknown as BazelTreeProvider;
+  const context = {
+    buildAnalyticsManager: { recorded: jest.fn((_record, callback) => callback) },
+    testHistoryManager: { recordRun: jest.fn() },
+    coverage: { setReport: jest.fn() },
+  } as unknown as ExtensionContext;
+
+  const controller = new BazelTestController({ context, treeProvider });
+  return { controller, context, profiles, items, run };
+}
+
+const createToken = () => ({
+  isCancellationRequested: false,
+  onCancellationRequested: jest.fn(() => ({ dispose: jest.fn() })),
+});
+
+describe("BazelTestController", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should run the tests while the debugger waits for the test runner", async () => {
+    const { profiles, items, run } = createTestController();
+    const session = { name: "Debug //Apps:AppTests" } as vscode.DebugSession;
+    let taskStarted: () => void = () => {};
+    const attached = new Promise<boolean>((resolve) => {
+      taskStarted = () => resolve(true);
+    });
+    jest.mocked(vscode.debug.onDidStartDebugSession).mockImplementation((listener) => {
+      listener(session);
+      return { dispose: jest.fn() };
+    });
+    // LLDB only finishes attaching once the task launched the test runner
+    jest.mocked(vscode.debug.startDebugging).mockReturnValue(attached as unknown as Thenable<boolean>);
+    jest.mocked(runTask).mockImplementation(async () => taskStarted());
+
+    const request = { include: [items.get("//Apps:AppTests")] } as unknown as vscode.TestRunRequest;
+    await profiles.get(vscode.TestRunProfileKind.Debug)?.(request, createToken() as any);
+
+    expect(vscode.debug.startDebugging).toHaveBeenCalledWith(undefined, expect.objectContaining({ waitFor: true }));
+    expect(runTask).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ name: "Bazel Test: //Apps:AppTests" }),
+    );
+    expect(vscode.debug.stopDebugging).toHaveBeenCalledWith(session);
+    expect(run.end).toHaveBeenCalled();
+  });
+
+  it("should only read the coverage report of targets that reported test results", async () => {
+    const { profiles, context } = createTestController();
+    jest.mocked(runTask).mockImplementation(async (_context, options) => options.callback({} as any));
+    // //Libs:LibTests fails to build, Bazel leaves the report of //Apps:AppTests in place
+    jest.mocked(executeWithBuildEvents).mockImplementation(async (options) => {
+      if (options.metricLabels?.label === "//Apps:AppTests") {
+        options.onBuildEvent?.({
+          type: "testResult",
+          label: "//Apps:AppTests",
+          status: "PASSED",
+          durationMillis: 10,
+          run: 1,
+          shard: 1,
+          attempt: 1,
+          cached: false,
+        });
+      }
+      return { targets: [], failedActions: [], tests: [] };
+    });
+    jest.mocked(exec).mockResolvedValue("/output\n");
+    jest.mocked(readTextFile).mockResolvedValue("SF:/workspace/App.swift\nDA:1,1\nend_of_record\n");
+
+    await profiles.get(vscode.TestRunProfileKind.Coverage)?.({} as vscode.TestRunRequest, createToken() as any);
+
+    expect(runTask).toHaveBeenCalledTimes(2);
+    expect(readTextFile).toHaveBeenCalledTimes(1);
+    expect(readTextFile).toHaveBeenCalledWith("/output/_coverage/_coverage_report.dat");
+    expect(context.coverage.setReport).toHaveBeenCalledWith([
+      expect.objectContaining({ path: "/workspace/App.swift", lines: [{ line: 1, hits: 1 }] }),
+    ]);
+  });
+});
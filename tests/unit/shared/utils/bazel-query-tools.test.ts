@@ -0,0 +1,100 @@
+import {
+  formatRuleInfo,
+  listTargetsImplementation,
+  matchesPackage,
+} from "../../../../src/shared/utils/bazel-query-tools";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe("matchesPackage", () => {
+  it("should match a single package", () => {
+    expect(matchesPackage("//Libs/Core:Core", "//Libs/Core")).toBe(true);
+    expect(matchesPackage("//Libs/Core:Core", "Libs/Core/")).toBe(true);
+    expect(matchesPackage("//Libs/Core/Tests:Tests", "//Libs/Core")).toBe(false);
+  });
+
+  it("should match packages recursively", () => {
+    expect(matchesPackage("//Libs/Core:Core", "//Libs/...")).toBe(true);
+    expect(matchesPackage("//Libs/Core/Tests:Tests", "//Libs/Core/...")).toBe(true);
+    expect(matchesPackage("//LibsExtra/Core:Core", "//Libs/...")).toBe(false);
+    expect(matchesPackage("//Apps/MyApp:MyApp", "//...")).toBe(true);
+  });
+});
+
+describe("formatRuleInfo", () => {
+  it("should list attributes and cut long lists", () => {
+    const srcs = Array.from({ length: 52 }, (_, index) => `//Libs/Core:File${index}.swift`);
+
+    const text = formatRuleInfo({
+      label: "//Libs/Core:Core",
+      kind: "swift_library",
+      location: "/workspace/Libs/Core/BUILD.bazel:3:14",
+      attributes: { name: "Core", srcs, testonly: true },
+    });
+
+    expect(text.split("\n")).toEqual([
+      "//Libs/Core:Core (swift_library)",
+      "Location: /workspace/Libs/Core/BUILD.bazel:3:14",
+      `srcs (52): ${srcs.slice(0, 50).join(", ")}, ... 2 more`,
+      "testonly: true",
+    ]);
+  });
+});
+
+describe("listTargetsImplementation", () => {
+  const queryResult = {
+    generated: "2026-01-01T00:00:00.000Z",
+    statistics: { runnable: 1, test: 1, buildable: 2, total: 4 },
+    tree: {
+      Apps: { MyApp: { runnable: ["MyApp"], test: [], buildable: [] } },
+      Libs: {
+        Core: { runnable: [], test: ["CoreTests"], buildable: ["Core"] },
+        Network: { runnable: [], test: [], buildable: ["Network"] },
+      },
+    },
+  };
+  const createExtra = (result: typeof queryResult | null) => ({
+    extensionContext: { buildManager: { getQueryResult: () => result } } as any,
+  });
+
+  it("should filter targets by category and package", async () => {
+    const result = await listTargetsImplementation(
+      { category: "buildable", package: "//Libs/..." },
+      createExtra(queryResult),
+      {} as any,
+    );
+
+    expect(result.structuredContent).toEqual({
+      items: [
+        { label: "//Libs/Core:Core", category: "buildable" },
+        { label: "//Libs/Network:Network", category: "buildable" },
+      ],
+      total: 2,
+      offset: 0,
+      limit: 100,
+    });
+  });
+
+  it("should paginate the results", async () => {
+    const result = await listTargetsImplementation({ limit: 1, offset: 1 }, createExtra(queryResult), {} as any);
+
+    expect(result.structuredContent).toMatchObject({
+      items: [{ label: "//Libs/Core:Core", category: "buildable" }],
+      total: 4,
+      nextOffset: 2,
+    });
+  });
+
+  it("should fail when targets are not loaded yet", async () => {
+    const result = await listTargetsImplementation({}, createExtra(null), {} as any);
+
+    expect(result.isError).toBe(true);
+  });
+});
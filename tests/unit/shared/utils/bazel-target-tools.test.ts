@@ -0,0 +1,45 @@
+import type { ExtensionContext } from "../../../../src/infrastructure/vscode/extension-context";
+import { bazelTargetToolImplementation } from "../../../../src/shared/utils/bazel-target-tools";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock("../../../../src/shared/utils/bazel-utils", () => ({
+  getWorkspacePath: jest.fn(() => "/workspace"),
+}));
+
+describe("bazelTargetToolImplementation", () => {
+  it("should run the command without asking for a missing destination or build mode", async () => {
+    const invokeCommand = jest.fn(async () => ({
+      id: "1",
+      command: "bazelbsp.bazel.build",
+      status: "failed",
+      durationMillis: 5,
+      error: "No destination selected, pass destinationId",
+      diagnostics: [],
+      artifacts: [],
+      tests: [],
+      log: "",
+    }));
+    const extensionContext = { invokeCommand } as unknown as ExtensionContext;
+
+    const result = await bazelTargetToolImplementation(
+      "bazelbsp.bazel.build",
+      { label: "//Apps/MyApp:MyApp" },
+      { extensionContext },
+      {} as any,
+    );
+
+    expect(invokeCommand).toHaveBeenCalledWith("bazelbsp.bazel.build", [
+      undefined,
+      { label: "//Apps/MyApp:MyApp", nonInteractive: true },
+    ]);
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import {
+  detectBazelWorkspaceRoots,
+  findBazelWorkspaceRoot,
+  getBazelWorkspaceName,
+} from "../../../../src/shared/utils/bazel-workspaces";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function writeFile(filePath: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, "");
+}
+
+describe("Bazel workspaces", () => {
+  const originalFolders = vscode.workspace.workspaceFolders;
+  let tempDir: string;
+
+  function setWorkspaceFolders(...folders: string[]): void {
+    (vscode.workspace as any).workspaceFolders = folders.map((folder, index) => ({
+      uri: { fsPath: folder },
+      name: path.basename(folder),
+      index: index,
+    }));
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "bazel-workspaces-test-"));
+  });
+
+  afterEach(() => {
+    (vscode.workspace as any).workspaceFolders = originalFolders;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("detectBazelWorkspaceRoots", () => {
+    it("should find the workspace folders and nested modules", async () => {
+      const app = path.join(tempDir, "app");
+      const tools = path.join(tempDir, "tools");
+      writeFile(path.join(app, "MODULE.bazel"));
+      writeFile(path.join(app, "examples", "demo", "MODULE.bazel"));
+      writeFile(path.join(app, "node_modules", "pkg", "MODULE.bazel"));
+      writeFile(path.join(tools, "WORKSPACE"));
+      setWorkspaceFolders(app, tools);
+
+      expect(await detectBazelWorkspaceRoots()).toEqual([app, path.join(app, "examples", "demo"), tools]);
+    });
+
+    it("should keep a folder without any workspace file", async () => {
+      writeFile(path.join(tempDir, "BUILD.bazel"));
+      setWorkspaceFolders(tempDir);
+
+      expect(await detectBazelWorkspaceRoots()).toEqual([tempDir]);
+    });
+  });
+
+  describe("findBazelWorkspaceRoot", () => {
+    const roots = ["/repo", "/repo/examples/demo", "/other"];
+
+    it("should return the innermost workspace containing the path", () => {
+      expect(findBazelWorkspaceRoot("/repo/examples/demo/Sources/App.swift", roots)).toBe("/repo/examples/demo");
+      expect(findBazelWorkspaceRoot("/repo/examples/BUILD.bazel", roots)).toBe("/repo");
+      expect(findBazelWorkspaceRoot("/other", roots)).toBe("/other");
+    });
+
+    it("should not match sibling directories with the same prefix", () => {
+      expect(findBazelWorkspaceRoot("/repository/BUILD.bazel", roots)).toBeUndefined();
+    });
+  });
+
+  describe("getBazelWorkspaceName", () => {
+    it("should name nested workspaces by their path in the workspace folder", () => {
+      const app = path.join(tempDir, "app");
+      setWorkspaceFolders(app);
+
+      expect(getBazelWorkspaceName(app)).toBe("app");
+      expect(getBazelWorkspaceName(path.join(app, "examples", "demo"))).toBe("app/examples/demo");
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import * as vscode from "vscode";
+import { CommandInvocation } from "../../../../src/infrastructure/vscode/command-invocation";
+import type { ExtensionContext } from "../../../../src/infrastructure/vscode/extension-context";
+import { TaskTerminalV1 } from "../../../../src/shared/utils/tasks";
+
+jest.mock("../../../../src/shared/logger/logger", () => ({
+  commonLogger: {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe("TaskTerminalV1", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  function endTaskWith(exitCode: number) {
+    const execution = {};
+    jest.mocked(vscode.tasks.executeTask).mockResolvedValue(execution as vscode.TaskExecution);
+    jest.mocked(vscode.tasks.onDidEndTaskProcess).mockImplementation((listener) => {
+      setImmediate(() => listener({ execution, exitCode } as vscode.TaskProcessEndEvent));
+      return { dispose: jest.fn() };
+    });
+  }
+
+  it("should report the executed commands and the failure to the invocation", async () => {
+    const invocation = new CommandInvocation("bazelbsp.bazel.build");
+    const terminal = new TaskTerminalV1({} as ExtensionContext, { name: "Bazel Build", invocation });
+    endTaskWith(1);
+
+    await expect(terminal.execute({ command: "bazel", args: ["build", "//Apps/MyApp/..."] })).rejects.toThrow(
+      "Error running task 'Bazel Build'",
+    );
+
+    const result = invocation.finish("failed");
+    expect(result.log).toBe("🚀 Executing command:\nbazel build //Apps/MyApp/...");
+    expect(result.error).toBe("Error running task 'Bazel Build': bazel build //Apps/MyApp/...");
+    expect(result.exitCode).toBe(1);
+  });
+
+  it("should not record an error for a successful command", async () => {
+    const invocation = new CommandInvocation("bazelbsp.bazel.build");
+    const terminal = new TaskTerminalV1({} as ExtensionContext, { name: "Bazel Build", invocation });
+    endTaskWith(0);
+
+    await terminal.execute({ command: "bazel", args: ["version"] });
+
+    const result = invocation.finish("succeeded");
+    expect(result.error).toBeUndefined();
+    expect(result.exitCode).toBeUndefined();
+  });
+});